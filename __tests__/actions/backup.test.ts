@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock next/cache
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+// Mock auth
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+// Mock Prisma; the transaction callback runs against the same mock
+vi.mock("@/lib/db/prisma", () => {
+  const client = {
+    $transaction: vi.fn(),
+    tracker: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    trackerEntry: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    trackerShare: { deleteMany: vi.fn() },
+    goal: { createMany: vi.fn(), deleteMany: vi.fn() },
+    habitSkip: { createMany: vi.fn(), deleteMany: vi.fn() },
+    board: { findFirst: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+    boardColumn: { findMany: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+    boardTask: { findMany: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+    boardMember: { deleteMany: vi.fn() },
+  };
+  return { default: client };
+});
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import { restoreBackup } from "@/app/actions/backup";
+import { BACKUP_FORMAT, BACKUP_VERSION } from "@/lib/backup";
+
+const mockAuth = vi.mocked(auth);
+const mockPrisma = vi.mocked(prisma);
+
+const USER_ID = "user-1";
+
+const ARCHIVE = JSON.stringify({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: "2024-05-01T10:00:00.000Z",
+  trackers: [
+    {
+      id: "old-tracker",
+      name: "Reading",
+      type: "TIMER",
+      entries: [
+        {
+          id: "old-entry",
+          date: "2024-04-30T08:00:00.000Z",
+          startTime: "2024-04-30T08:00:00.000Z",
+          endTime: "2024-04-30T08:30:00.000Z",
+          value: 1800,
+          taskId: "old-task",
+        },
+      ],
+    },
+  ],
+  boards: [
+    {
+      id: "old-board",
+      name: "Home",
+      columns: [{ id: "old-column", name: "To Do", order: 0 }],
+      tasks: [{ id: "old-task", title: "Finish book", order: 0, columnId: "old-column" }],
+    },
+  ],
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ user: { id: USER_ID } } as any);
+  mockPrisma.$transaction.mockImplementation(((fn: (tx: unknown) => unknown) =>
+    fn(mockPrisma)) as any);
+  mockPrisma.board.create.mockResolvedValue({ id: "new-board" } as any);
+  mockPrisma.boardColumn.create.mockResolvedValue({ id: "new-column" } as any);
+  mockPrisma.boardTask.create.mockResolvedValue({ id: "new-task" } as any);
+  mockPrisma.tracker.create.mockResolvedValue({ id: "new-tracker" } as any);
+  mockPrisma.trackerEntry.findMany.mockResolvedValue([
+    {
+      value: 1800,
+      startTime: new Date("2024-04-30T08:00:00.000Z"),
+      endTime: new Date("2024-04-30T08:30:00.000Z"),
+    },
+  ] as any);
+});
+
+describe("restoreBackup", () => {
+  it("rejects invalid archives before touching the database", async () => {
+    const result = await restoreBackup("[]", "merge");
+    expect(result.success).toBe(false);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("remaps archive ids to newly created records", async () => {
+    const result = await restoreBackup(ARCHIVE, "replace");
+
+    expect(result).toEqual({
+      success: true,
+      data: { trackers: 1, entries: 1, boards: 1, columns: 1, tasks: 1, skipped: 0 },
+    });
+    expect(mockPrisma.boardTask.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ columnId: "new-column", boardId: "new-board" }),
+      })
+    );
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          trackerId: "new-tracker",
+          taskId: "new-task",
+          createdById: USER_ID,
+          value: 1800,
+        }),
+      ],
+    });
+    expect(mockPrisma.tracker.update).toHaveBeenCalledWith({
+      where: { id: "new-tracker" },
+      data: {
+        statistics: {
+          upsert: {
+            set: { totalEntries: 1, totalTime: 1800, totalValue: 0, totalCustom: "" },
+            update: { totalEntries: 1, totalTime: 1800, totalValue: 0 },
+          },
+        },
+      },
+    });
+  });
+
+  it("deletes existing data only in replace mode", async () => {
+    mockPrisma.board.findFirst.mockResolvedValue(null);
+    mockPrisma.tracker.findFirst.mockResolvedValue(null);
+    await restoreBackup(ARCHIVE, "merge");
+    expect(mockPrisma.tracker.deleteMany).not.toHaveBeenCalled();
+
+    await restoreBackup(ARCHIVE, "replace");
+    expect(mockPrisma.tracker.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+    expect(mockPrisma.trackerEntry.deleteMany).toHaveBeenCalledWith({
+      where: { tracker: { userId: USER_ID } },
+    });
+  });
+
+  it("skips records that already exist when merging", async () => {
+    mockPrisma.board.findFirst.mockResolvedValue({ id: "existing-board" } as any);
+    mockPrisma.boardColumn.findMany.mockResolvedValue([
+      { id: "existing-column", name: "To Do", order: 0 },
+    ] as any);
+    mockPrisma.boardTask.findMany.mockResolvedValue([
+      { id: "existing-task", title: "Finish book", columnId: "existing-column" },
+    ] as any);
+    mockPrisma.tracker.findFirst.mockResolvedValue({ id: "existing-tracker" } as any);
+    mockPrisma.trackerEntry.findMany.mockResolvedValue([
+      {
+        date: new Date("2024-04-30T08:00:00.000Z"),
+        value: 1800,
+        startTime: new Date("2024-04-30T08:00:00.000Z"),
+        endTime: new Date("2024-04-30T08:30:00.000Z"),
+        note: null,
+      },
+    ] as any);
+
+    const result = await restoreBackup(ARCHIVE, "merge");
+
+    expect(result).toEqual({
+      success: true,
+      data: { trackers: 0, entries: 0, boards: 0, columns: 0, tasks: 0, skipped: 5 },
+    });
+    expect(mockPrisma.trackerEntry.createMany).not.toHaveBeenCalled();
+    expect(mockPrisma.board.create).not.toHaveBeenCalled();
+  });
+});
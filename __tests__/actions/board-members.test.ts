@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock next/cache
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+// Mock auth
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+// Mock Prisma
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    $transaction: vi.fn(),
+    board: { findFirst: vi.fn(), findUniqueOrThrow: vi.fn() },
+    boardMember: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn(), delete: vi.fn() },
+    boardTask: { updateMany: vi.fn() },
+    user: { findFirst: vi.fn() },
+  },
+}));
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import {
+  inviteBoardMember,
+  removeBoardMember,
+  updateBoardMemberRole,
+} from "@/app/actions/board-members";
+
+const mockAuth = vi.mocked(auth);
+const mockPrisma = vi.mocked(prisma);
+
+const OWNER_ID = "owner-1";
+const MEMBER_ID = "member-1";
+const BOARD_ID = "board-1";
+
+function mockAuthenticated(userId: string) {
+  mockAuth.mockResolvedValue({ user: { id: userId } } as any);
+}
+
+/** Board lookup used by getBoardRole: owned by OWNER_ID, caller's membership row as given */
+function mockBoard(memberRole?: string) {
+  mockPrisma.board.findFirst.mockResolvedValue({
+    userId: OWNER_ID,
+    members: memberRole ? [{ role: memberRole }] : [],
+  } as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── inviteBoardMember ───────────────────────────────────────────────────────
+
+describe("inviteBoardMember", () => {
+  it("hides the board from users without access", async () => {
+    mockAuthenticated("stranger");
+    mockBoard();
+    const result = await inviteBoardMember(BOARD_ID, { email: "a@b.co", role: "EDITOR" });
+    expect(result).toEqual({ success: false, error: "Board not found" });
+  });
+
+  it("rejects invites from non-owners", async () => {
+    mockAuthenticated(MEMBER_ID);
+    mockBoard("EDITOR");
+    const result = await inviteBoardMember(BOARD_ID, { email: "a@b.co", role: "VIEWER" });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/owner/i);
+    expect(mockPrisma.boardMember.create).not.toHaveBeenCalled();
+  });
+
+  it("returns an error when no user has the email", async () => {
+    mockAuthenticated(OWNER_ID);
+    mockBoard();
+    mockPrisma.user.findFirst.mockResolvedValue(null);
+    const result = await inviteBoardMember(BOARD_ID, { email: "nobody@b.co", role: "EDITOR" });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/no user/i);
+  });
+
+  it("creates a membership with the requested role", async () => {
+    mockAuthenticated(OWNER_ID);
+    // Owner check, then the invitee has no access yet
+    mockPrisma.board.findFirst
+      .mockResolvedValueOnce({ userId: OWNER_ID, members: [] } as any)
+      .mockResolvedValueOnce({ userId: OWNER_ID, members: [] } as any);
+    const invitee = { id: "user-2", name: "Sam", email: "sam@b.co", image: null };
+    mockPrisma.user.findFirst.mockResolvedValue(invitee as any);
+    mockPrisma.boardMember.create.mockResolvedValue({ id: "m-1", createdAt: new Date() } as any);
+
+    const result = await inviteBoardMember(BOARD_ID, { email: "Sam@B.co", role: "VIEWER" });
+
+    expect(result.success).toBe(true);
+    expect(mockPrisma.boardMember.create).toHaveBeenCalledWith({
+      data: { boardId: BOARD_ID, userId: "user-2", role: "VIEWER" },
+    });
+  });
+});
+
+// ─── updateBoardMemberRole ───────────────────────────────────────────────────
+
+describe("updateBoardMemberRole", () => {
+  it("refuses to change the owner's role", async () => {
+    mockAuthenticated(OWNER_ID);
+    mockPrisma.boardMember.findFirst.mockResolvedValue({
+      boardId: BOARD_ID,
+      role: "OWNER",
+    } as any);
+    mockBoard();
+    const result = await updateBoardMemberRole("m-owner", "VIEWER");
+    expect(result.success).toBe(false);
+    expect(mockPrisma.boardMember.update).not.toHaveBeenCalled();
+  });
+});
+
+// ─── removeBoardMember ───────────────────────────────────────────────────────
+
+describe("removeBoardMember", () => {
+  it("lets a member leave and unassigns their tasks", async () => {
+    mockAuthenticated(MEMBER_ID);
+    mockPrisma.boardMember.findFirst.mockResolvedValue({
+      boardId: BOARD_ID,
+      userId: MEMBER_ID,
+      role: "VIEWER",
+    } as any);
+    mockBoard("VIEWER");
+    mockPrisma.$transaction.mockResolvedValue([] as any);
+
+    const result = await removeBoardMember("m-1");
+
+    expect(result.success).toBe(true);
+    expect(mockPrisma.boardTask.updateMany).toHaveBeenCalledWith({
+      where: { boardId: BOARD_ID, assigneeId: MEMBER_ID },
+      data: { assigneeId: null },
+    });
+  });
+
+  it("stops non-owners from removing other members", async () => {
+    mockAuthenticated(MEMBER_ID);
+    mockPrisma.boardMember.findFirst.mockResolvedValue({
+      boardId: BOARD_ID,
+      userId: "someone-else",
+      role: "EDITOR",
+    } as any);
+    mockBoard("EDITOR");
+    const result = await removeBoardMember("m-2");
+    expect(result.success).toBe(false);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
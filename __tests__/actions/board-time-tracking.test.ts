@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock next/cache
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+// Mock auth
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+// Mock Prisma
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    board: { findFirst: vi.fn() },
+    boardTask: { findFirst: vi.fn() },
+    trackerEntry: { aggregate: vi.fn(), findFirst: vi.fn(), groupBy: vi.fn() },
+  },
+}));
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import { getTaskTimeTracking } from "@/app/actions/board-tasks";
+import { getBoard } from "@/app/actions/boards";
+
+const mockAuth = vi.mocked(auth);
+const mockPrisma = vi.mocked(prisma, true);
+
+const USER_ID = "user-1";
+const BOARD_ID = "board-1";
+const MEMBER_ACCESS = { OR: [{ userId: USER_ID }, { members: { some: { userId: USER_ID } } }] };
+// Only stopped timers count; a running one has no endTime yet
+const COMPLETED = { startTime: { not: null }, endTime: { not: null } };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ user: { id: USER_ID } } as any);
+});
+
+// ─── getTaskTimeTracking ─────────────────────────────────────────────────────
+
+describe("getTaskTimeTracking", () => {
+  it("sums the task's completed entries and reports the caller's running timer", async () => {
+    mockPrisma.boardTask.findFirst.mockResolvedValue({ id: "task-1" } as any);
+    mockPrisma.trackerEntry.aggregate.mockResolvedValue({
+      _count: { id: 3 },
+      _sum: { value: 5400 },
+    } as any);
+    const startTime = new Date("2026-03-01T09:00:00.000Z");
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: "entry-9",
+      trackerId: "tracker-1",
+      startTime,
+      breaks: [],
+      tracker: { name: "Deep work" },
+    } as any);
+
+    const result = await getTaskTimeTracking("task-1");
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        totalSeconds: 5400,
+        entryCount: 3,
+        runningEntry: {
+          id: "entry-9",
+          trackerId: "tracker-1",
+          trackerName: "Deep work",
+          startTime,
+          breaks: [],
+        },
+      },
+    });
+    expect(mockPrisma.trackerEntry.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { taskId: "task-1", ...COMPLETED } })
+    );
+  });
+
+  it("reports no time for a task no tracker has logged against", async () => {
+    mockPrisma.boardTask.findFirst.mockResolvedValue({ id: "task-1" } as any);
+    mockPrisma.trackerEntry.aggregate.mockResolvedValue({
+      _count: { id: 0 },
+      _sum: { value: null },
+    } as any);
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue(null);
+
+    const result = await getTaskTimeTracking("task-1");
+
+    expect(result).toEqual({
+      success: true,
+      data: { totalSeconds: 0, entryCount: 0, runningEntry: null },
+    });
+  });
+
+  it("hides tasks on boards the user is not a member of", async () => {
+    mockPrisma.boardTask.findFirst.mockResolvedValue(null);
+
+    const result = await getTaskTimeTracking("task-1");
+
+    expect(result).toEqual({ success: false, error: "Task not found" });
+    expect(mockPrisma.boardTask.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "task-1", board: MEMBER_ACCESS } })
+    );
+    expect(mockPrisma.trackerEntry.aggregate).not.toHaveBeenCalled();
+  });
+});
+
+// ─── getBoard: tracked time per task ─────────────────────────────────────────
+
+describe("getBoard tracked time", () => {
+  const task = (id: string) => ({ id, title: id, assignee: null });
+
+  it("adds each task's completed time, and zero for tasks without entries", async () => {
+    mockPrisma.board.findFirst.mockResolvedValue({
+      id: BOARD_ID,
+      userId: USER_ID,
+      user: { id: USER_ID, name: null, email: null, image: null },
+      members: [],
+      columns: [
+        { id: "col-1", tasks: [task("task-1"), task("task-2")] },
+        { id: "col-2", tasks: [task("task-3")] },
+      ],
+    } as any);
+    mockPrisma.trackerEntry.groupBy.mockResolvedValue([
+      { taskId: "task-1", _sum: { value: 1800 } },
+      { taskId: "task-3", _sum: { value: 60 } },
+    ] as any);
+
+    const result = await getBoard(BOARD_ID);
+
+    expect(result.success).toBe(true);
+    const columns = result.success ? result.data.columns : [];
+    expect(columns.flatMap((col) => col.tasks.map((t) => [t.id, t.trackedSeconds]))).toEqual([
+      ["task-1", 1800],
+      ["task-2", 0],
+      ["task-3", 60],
+    ]);
+    expect(mockPrisma.trackerEntry.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { taskId: { in: ["task-1", "task-2", "task-3"] }, ...COMPLETED },
+      })
+    );
+  });
+
+  it("hides boards the user is not a member of", async () => {
+    mockPrisma.board.findFirst.mockResolvedValue(null);
+
+    const result = await getBoard(BOARD_ID);
+
+    expect(result).toEqual({ success: false, error: "Board not found" });
+    expect(mockPrisma.board.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: BOARD_ID, ...MEMBER_ACCESS } })
+    );
+    expect(mockPrisma.trackerEntry.groupBy).not.toHaveBeenCalled();
+  });
+});
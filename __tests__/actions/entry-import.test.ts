@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock next/cache
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+// Mock auth
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+// Mock Prisma; the transaction callback runs against the same mock
+vi.mock("@/lib/db/prisma", () => {
+  const client = {
+    $transaction: vi.fn(),
+    tracker: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+    trackerEntry: { createMany: vi.fn(), findMany: vi.fn() },
+  };
+  return { default: client };
+});
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import { importTrackerEntries } from "@/app/actions/entries/import";
+import { guessColumnMapping } from "@/lib/entry-import";
+
+const mockAuth = vi.mocked(auth);
+const mockPrisma = vi.mocked(prisma);
+
+const USER_ID = "user-1";
+const HEADER = "date,value,startTime,endTime,note,tags";
+const mapping = guessColumnMapping(HEADER.split(","));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ user: { id: USER_ID } } as any);
+  mockPrisma.$transaction.mockImplementation(((fn: (tx: unknown) => unknown) =>
+    fn(mockPrisma)) as any);
+  mockPrisma.tracker.findFirst.mockResolvedValue({ id: "tracker-1", type: "COUNTER" } as any);
+  mockPrisma.tracker.findMany.mockResolvedValue([
+    { id: "tracker-1", type: "COUNTER", fields: [], unit: null, userId: USER_ID },
+  ] as any);
+  mockPrisma.trackerEntry.findMany.mockResolvedValue([{ value: 2 }, { value: 3 }] as any);
+});
+
+describe("importTrackerEntries", () => {
+  it("inserts valid rows in bulk and recomputes statistics once", async () => {
+    const csv = [
+      HEADER,
+      "2024-05-01T09:00:00.000Z,2,,,,",
+      "2024-05-02T09:00:00.000Z,3,,,hi,a; b",
+    ].join("\n");
+
+    const result = await importTrackerEntries("tracker-1", { csv, mapping, skipInvalid: false });
+
+    expect(result).toEqual({ success: true, data: { imported: 2, skipped: 0, errors: [] } });
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ trackerId: "tracker-1", value: 2, createdById: USER_ID }),
+        expect.objectContaining({ value: 3, note: "hi", tags: ["a", "b"] }),
+      ],
+    });
+    expect(mockPrisma.tracker.update).toHaveBeenCalledWith({
+      where: { id: "tracker-1" },
+      data: {
+        statistics: {
+          upsert: {
+            set: { totalEntries: 2, totalTime: 0, totalValue: 5, totalCustom: "" },
+            update: { totalEntries: 2, totalTime: 0, totalValue: 5 },
+          },
+        },
+      },
+    });
+  });
+
+  it("writes nothing when rows are invalid unless skipInvalid is set", async () => {
+    const csv = [HEADER, "2024-05-01,2,,,,", "2024-05-02,,,,,"].join("\n");
+
+    const strict = await importTrackerEntries("tracker-1", { csv, mapping, skipInvalid: false });
+    expect(strict).toEqual({
+      success: true,
+      data: { imported: 0, skipped: 2, errors: [{ row: 3, message: "Missing value" }] },
+    });
+    expect(mockPrisma.trackerEntry.createMany).not.toHaveBeenCalled();
+
+    const lenient = await importTrackerEntries("tracker-1", { csv, mapping, skipInvalid: true });
+    expect(lenient.success && lenient.data.imported).toBe(1);
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("imports more rows than a bulk entry request allows in one write", async () => {
+    const rows = Array.from({ length: 1500 }, () => "2024-05-01T09:00:00.000Z,1,,,,");
+    const csv = [HEADER, ...rows].join("\n");
+
+    const result = await importTrackerEntries("tracker-1", { csv, mapping, skipInvalid: false });
+
+    expect(result).toEqual({ success: true, data: { imported: 1500, skipped: 0, errors: [] } });
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledTimes(1);
+    const [args] = vi.mocked(prisma.trackerEntry.createMany).mock.calls[0]!;
+    expect(args?.data).toHaveLength(1500);
+  });
+
+  it("rejects trackers the user cannot add entries to", async () => {
+    mockPrisma.tracker.findFirst.mockResolvedValue(null);
+    const result = await importTrackerEntries("tracker-1", {
+      csv: `${HEADER}\n2024-05-01,1,,,,`,
+      mapping,
+      skipInvalid: false,
+    });
+    expect(result).toEqual({ success: false, error: "Tracker not found" });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    idempotencyKey: {
+      deleteMany: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/app/actions/entries/create", () => ({
+  createEntry: vi.fn(),
+  addCounterEntry: vi.fn(),
+}));
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import { Prisma } from "@/app/generated/prisma";
+import { addCounterEntry, createEntry } from "@/app/actions/entries/create";
+import { replayOfflineOperations } from "@/app/actions/entries/offline";
+
+const mockPrisma = vi.mocked(prisma, true);
+const queuedAt = "2026-03-01T08:30:00.000Z";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(auth).mockResolvedValue({ user: { id: "user-123" } } as any);
+  mockPrisma.idempotencyKey.create.mockResolvedValue({ id: "claim-1" } as any);
+});
+
+describe("replayOfflineOperations", () => {
+  it("dates replayed counter changes when they were made and keeps the result", async () => {
+    vi.mocked(addCounterEntry).mockResolvedValue({ success: true, data: { id: "entry-1" } });
+
+    const result = await replayOfflineOperations([
+      {
+        id: "op-1",
+        action: "addCounterEntry",
+        args: { trackerId: "tracker-1", value: -1 },
+        clientTimestamp: queuedAt,
+      },
+    ]);
+
+    expect(result).toEqual({
+      success: true,
+      data: [{ id: "op-1", status: "synced", entryId: "entry-1" }],
+    });
+    expect(addCounterEntry).toHaveBeenCalledWith("tracker-1", -1, undefined, new Date(queuedAt));
+    expect(mockPrisma.idempotencyKey.create).toHaveBeenCalledWith({
+      data: { userId: "user-123", key: "addCounterEntry:op-1", requestHash: null },
+    });
+    expect(mockPrisma.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: "claim-1" },
+      data: { result: { success: true, data: { id: "entry-1" } } },
+    });
+  });
+
+  it("does not write again for an operation that already synced", async () => {
+    mockPrisma.idempotencyKey.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+    mockPrisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: "claim-1",
+      createdAt: new Date(),
+      result: { success: true, data: { id: "entry-1" } },
+    } as any);
+
+    const result = await replayOfflineOperations([
+      {
+        id: "op-1",
+        action: "createEntry",
+        args: { trackerId: "tracker-1", value: 3, tags: [] },
+        clientTimestamp: queuedAt,
+      },
+    ]);
+
+    expect(result.success && result.data).toEqual([
+      { id: "op-1", status: "synced", entryId: "entry-1" },
+    ]);
+    expect(createEntry).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid or refused operations and releases their keys", async () => {
+    vi.mocked(createEntry).mockResolvedValue({ success: false, error: "Tracker not found" });
+
+    const result = await replayOfflineOperations([
+      { id: "op-1", action: "deleteTracker", args: {}, clientTimestamp: queuedAt },
+      {
+        id: "op-2",
+        action: "createEntry",
+        args: { trackerId: "tracker-1", date: "2026-02-28T12:00:00.000Z" },
+        clientTimestamp: queuedAt,
+      },
+    ]);
+
+    expect(result.success && result.data).toEqual([
+      { id: "op-1", status: "rejected", error: expect.stringContaining("Validation failed") },
+      { id: "op-2", status: "rejected", error: "Tracker not found" },
+    ]);
+    // An entry logged for another day keeps that date
+    expect(createEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ date: new Date("2026-02-28T12:00:00.000Z") })
+    );
+    expect(mockPrisma.idempotencyKey.delete).toHaveBeenCalledWith({ where: { id: "claim-1" } });
+  });
+
+  it("keeps operations that failed on the server for a retry", async () => {
+    vi.mocked(createEntry).mockResolvedValue({ success: false, error: "Failed to create entry" });
+
+    const result = await replayOfflineOperations([
+      {
+        id: "op-1",
+        action: "createEntry",
+        args: { trackerId: "tracker-1" },
+        clientTimestamp: queuedAt,
+      },
+    ]);
+
+    expect(result.success && result.data).toEqual([
+      { id: "op-1", status: "retry", error: "Failed to create entry" },
+    ]);
+    expect(mockPrisma.idempotencyKey.delete).toHaveBeenCalledWith({ where: { id: "claim-1" } });
+  });
+
+  it("applies one batch and leaves the rest of a long queue for the next request", async () => {
+    vi.mocked(addCounterEntry).mockResolvedValue({ success: true, data: { id: "entry-1" } });
+    const operations = Array.from({ length: 101 }, (_, i) => ({
+      id: `op-${i}`,
+      action: "addCounterEntry",
+      args: { trackerId: "tracker-1", value: 1 },
+      clientTimestamp: queuedAt,
+    }));
+
+    const result = await replayOfflineOperations(operations);
+
+    expect(result.success).toBe(true);
+    const results = result.success ? result.data : [];
+    expect(results).toHaveLength(101);
+    expect(results.filter((r) => r.status === "synced")).toHaveLength(100);
+    expect(results.find((r) => r.id === "op-100")).toEqual({ id: "op-100", status: "retry" });
+    expect(addCounterEntry).toHaveBeenCalledTimes(100);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock next/cache
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+// Mock auth
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+
+// Mock Prisma
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    tracker: { findFirst: vi.fn() },
+    trackerShare: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn(), delete: vi.fn() },
+    user: { findFirst: vi.fn() },
+  },
+}));
+
+import { auth } from "@/auth";
+import prisma from "@/lib/db/prisma";
+import { removeTrackerShare, shareTracker } from "@/app/actions/trackers/shares";
+
+const mockAuth = vi.mocked(auth);
+const mockPrisma = vi.mocked(prisma);
+
+const OWNER_ID = "owner-1";
+const TRACKER_ID = "tracker-1";
+
+function mockAuthenticated(userId: string) {
+  mockAuth.mockResolvedValue({ user: { id: userId } } as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── shareTracker ────────────────────────────────────────────────────────────
+
+describe("shareTracker", () => {
+  it("only lets the owner share", async () => {
+    mockAuthenticated("someone-else");
+    mockPrisma.tracker.findFirst.mockResolvedValue(null);
+    const result = await shareTracker(TRACKER_ID, { email: "a@b.co", role: "VIEWER" });
+    expect(result).toEqual({ success: false, error: "Tracker not found" });
+    expect(mockPrisma.tracker.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: TRACKER_ID, userId: "someone-else" } })
+    );
+  });
+
+  it("refuses to share with the owner", async () => {
+    mockAuthenticated(OWNER_ID);
+    mockPrisma.tracker.findFirst.mockResolvedValue({ id: TRACKER_ID } as any);
+    mockPrisma.user.findFirst.mockResolvedValue({ id: OWNER_ID, email: "me@b.co" } as any);
+    const result = await shareTracker(TRACKER_ID, { email: "me@b.co", role: "VIEWER" });
+    expect(result.success).toBe(false);
+    expect(mockPrisma.trackerShare.create).not.toHaveBeenCalled();
+  });
+
+  it("creates a share with the requested role", async () => {
+    mockAuthenticated(OWNER_ID);
+    mockPrisma.tracker.findFirst.mockResolvedValue({ id: TRACKER_ID } as any);
+    const recipient = { id: "user-2", name: "Sam", email: "sam@b.co", image: null };
+    mockPrisma.user.findFirst.mockResolvedValue(recipient as any);
+    mockPrisma.trackerShare.findFirst.mockResolvedValue(null);
+    mockPrisma.trackerShare.create.mockResolvedValue({
+      id: "s-1",
+      trackerId: TRACKER_ID,
+      userId: "user-2",
+      role: "CONTRIBUTOR",
+      createdAt: new Date(),
+    } as any);
+
+    const result = await shareTracker(TRACKER_ID, { email: "Sam@B.co", role: "CONTRIBUTOR" });
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.role).toBe("CONTRIBUTOR");
+    expect(mockPrisma.trackerShare.create).toHaveBeenCalledWith({
+      data: { trackerId: TRACKER_ID, userId: "user-2", role: "CONTRIBUTOR" },
+    });
+  });
+
+  it("rejects unknown roles", async () => {
+    mockAuthenticated(OWNER_ID);
+    const result = await shareTracker(TRACKER_ID, { email: "a@b.co", role: "OWNER" as any });
+    expect(result.success).toBe(false);
+  });
+});
+
+// ─── removeTrackerShare ──────────────────────────────────────────────────────
+
+describe("removeTrackerShare", () => {
+  it("returns not found for shares the user cannot manage", async () => {
+    mockAuthenticated("stranger");
+    mockPrisma.trackerShare.findFirst.mockResolvedValue(null);
+    const result = await removeTrackerShare("s-1");
+    expect(result).toEqual({ success: false, error: "Share not found" });
+    expect(mockPrisma.trackerShare.delete).not.toHaveBeenCalled();
+  });
+
+  it("lets a recipient leave", async () => {
+    mockAuthenticated("user-2");
+    mockPrisma.trackerShare.findFirst.mockResolvedValue({ trackerId: TRACKER_ID } as any);
+    mockPrisma.trackerShare.delete.mockResolvedValue({} as any);
+    const result = await removeTrackerShare("s-1");
+    expect(result.success).toBe(true);
+    expect(mockPrisma.trackerShare.delete).toHaveBeenCalledWith({ where: { id: "s-1" } });
+  });
+});
@@ -72,7 +72,12 @@ describe("validateApiToken", () => {
     mockPrisma.apiToken.update.mockResolvedValue({} as any);
 
     const result = await validateApiToken(makeRequest(`Bearer ${RAW_TOKEN}`));
-    expect(result).toEqual({ userId: MOCK_USER_ID, tokenId: MOCK_TOKEN_ID });
+    expect(result).toEqual({
+      userId: MOCK_USER_ID,
+      tokenId: MOCK_TOKEN_ID,
+      scopes: ["*"],
+      trackerIds: [],
+    });
   });
 
   it("returns userId and tokenId for a valid not-yet-expired token", async () => {
@@ -85,7 +90,12 @@ describe("validateApiToken", () => {
     mockPrisma.apiToken.update.mockResolvedValue({} as any);
 
     const result = await validateApiToken(makeRequest(`Bearer ${RAW_TOKEN}`));
-    expect(result).toEqual({ userId: MOCK_USER_ID, tokenId: MOCK_TOKEN_ID });
+    expect(result).toEqual({
+      userId: MOCK_USER_ID,
+      tokenId: MOCK_TOKEN_ID,
+      scopes: ["*"],
+      trackerIds: [],
+    });
   });
 
   it("hashes the token consistently (same hash for same input)", async () => {
@@ -105,9 +115,40 @@ describe("validateApiToken", () => {
 
     expect(mockPrisma.apiToken.findUnique).toHaveBeenCalledWith({
       where: { tokenHash: hash1 },
-      select: { id: true, userId: true, expiresAt: true },
+      select: { id: true, userId: true, expiresAt: true, scopes: true, trackerIds: true },
     });
   });
+
+  it("looks a request's token up only once", async () => {
+    mockPrisma.apiToken.findUnique.mockResolvedValue({
+      id: MOCK_TOKEN_ID,
+      userId: MOCK_USER_ID,
+      expiresAt: null,
+    } as any);
+    mockPrisma.apiToken.update.mockResolvedValue({} as any);
+
+    const request = makeRequest(`Bearer ${RAW_TOKEN}`);
+    const first = await validateApiToken(request);
+    const second = await validateApiToken(request);
+
+    expect(second).toEqual(first);
+    expect(mockPrisma.apiToken.findUnique).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.apiToken.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the stored scopes and tracker restriction", async () => {
+    mockPrisma.apiToken.findUnique.mockResolvedValue({
+      id: MOCK_TOKEN_ID,
+      userId: MOCK_USER_ID,
+      expiresAt: null,
+      scopes: ["entries:write"],
+      trackerIds: ["tracker-1"],
+    } as any);
+    mockPrisma.apiToken.update.mockResolvedValue({} as any);
+
+    const result = await validateApiToken(makeRequest(`Bearer ${RAW_TOKEN}`));
+    expect(result).toMatchObject({ scopes: ["entries:write"], trackerIds: ["tracker-1"] });
+  });
 });
 
 describe("unauthorizedResponse", () => {
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock the API auth helper
+vi.mock("@/lib/api/auth", () => ({
+  validateApiToken: vi.fn(),
+  unauthorizedResponse: vi.fn(
+    () => new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 })
+  ),
+}));
+
+// Mock Prisma
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    board: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    boardColumn: {
+      findFirst: vi.fn(),
+    },
+    boardTask: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    boardMember: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/boards/move", () => ({
+  moveBoardTask: vi.fn(),
+}));
+
+import { validateApiToken } from "@/lib/api/auth";
+import prisma from "@/lib/db/prisma";
+import { moveBoardTask } from "@/lib/boards/move";
+import { GET, POST } from "@/app/api/v1/boards/route";
+import { PUT } from "@/app/api/v1/boards/[id]/route";
+import { POST as CREATE_TASK } from "@/app/api/v1/boards/[id]/tasks/route";
+import { POST as MOVE } from "@/app/api/v1/boards/[id]/tasks/[taskId]/move/route";
+
+const mockValidate = vi.mocked(validateApiToken);
+const mockPrisma = vi.mocked(prisma);
+const mockMove = vi.mocked(moveBoardTask);
+
+const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc", scopes: ["*"], trackerIds: [] };
+const BOARD_ID = "board-1";
+const TASK = {
+  id: "task-1",
+  title: "Write docs",
+  order: 0,
+  columnId: "col-1",
+  boardId: BOARD_ID,
+  recurrence: null,
+};
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new Request(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Role lookup used by getBoardRole: owner, member with `role`, or no access */
+function mockRole(role: "OWNER" | "EDITOR" | "VIEWER" | null) {
+  mockPrisma.board.findFirst.mockResolvedValue(
+    role === null
+      ? null
+      : ({
+          userId: role === "OWNER" ? MOCK_AUTH.userId : "someone-else",
+          members: role === "OWNER" ? [] : [{ role }],
+        } as any)
+  );
+}
+
+describe("/api/v1/boards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+  });
+
+  it("lists accessible boards with the caller's role and pagination meta", async () => {
+    mockPrisma.board.count.mockResolvedValue(1);
+    mockPrisma.board.findMany.mockResolvedValue([
+      {
+        id: BOARD_ID,
+        name: "Work",
+        userId: "someone-else",
+        columns: [],
+        members: [{ role: "EDITOR" }],
+      },
+    ] as any);
+
+    const res = await GET(new Request("http://localhost/api/v1/boards"));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data[0]).toMatchObject({ id: BOARD_ID, role: "EDITOR" });
+    expect(body.data[0].members).toBeUndefined();
+    expect(body.meta).toEqual({ total: 1, page: 1, limit: 20, totalPages: 1 });
+  });
+
+  it("requires the boards:read scope", async () => {
+    mockValidate.mockResolvedValue({ ...MOCK_AUTH, scopes: ["trackers:read"] });
+
+    const res = await GET(new Request("http://localhost/api/v1/boards"));
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.board.findMany).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 for an invalid board", async () => {
+    const res = await POST(jsonRequest("http://localhost/api/v1/boards", "POST", { name: "" }));
+    const body = await res.json();
+
+    expect(res.status).toBe(422);
+    expect(body.details.name).toBeDefined();
+    expect(mockPrisma.board.create).not.toHaveBeenCalled();
+  });
+
+  it("hides boards from non-members and rejects viewers' edits", async () => {
+    const ctx = { params: Promise.resolve({ id: BOARD_ID }) };
+    const url = `http://localhost/api/v1/boards/${BOARD_ID}`;
+
+    mockRole(null);
+    expect((await PUT(jsonRequest(url, "PUT", { name: "Renamed" }), ctx)).status).toBe(404);
+
+    mockRole("VIEWER");
+    expect((await PUT(jsonRequest(url, "PUT", { name: "Renamed" }), ctx)).status).toBe(403);
+    expect(mockPrisma.board.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/v1/boards/:id/tasks/:taskId/move", () => {
+  const ctx = { params: Promise.resolve({ id: BOARD_ID, taskId: TASK.id }) };
+  const url = `http://localhost/api/v1/boards/${BOARD_ID}/tasks/${TASK.id}/move`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+    mockRole("EDITOR");
+  });
+
+  it("moves the task and reports the spawned occurrence", async () => {
+    mockPrisma.boardTask.findFirst.mockResolvedValue(TASK as any);
+    mockPrisma.boardColumn.findFirst.mockResolvedValue({ id: "col-3" } as any);
+    mockPrisma.boardTask.findUnique.mockResolvedValue({ ...TASK, columnId: "col-3" } as any);
+    mockMove.mockResolvedValue("task-2");
+
+    const res = await MOVE(jsonRequest(url, "POST", { columnId: "col-3", order: 0 }), ctx);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(mockMove).toHaveBeenCalledWith(TASK, "col-3", 0);
+    expect(body.data.columnId).toBe("col-3");
+    expect(body.meta).toEqual({ nextTaskId: "task-2" });
+  });
+
+  it("rejects target columns from another board", async () => {
+    mockPrisma.boardTask.findFirst.mockResolvedValue(TASK as any);
+    mockPrisma.boardColumn.findFirst.mockResolvedValue(null);
+
+    const res = await MOVE(jsonRequest(url, "POST", { columnId: "other", order: 0 }), ctx);
+
+    expect(res.status).toBe(404);
+    expect(mockMove).not.toHaveBeenCalled();
+  });
+
+  it("validates the position", async () => {
+    const res = await MOVE(jsonRequest(url, "POST", { columnId: "col-3", order: -1 }), ctx);
+
+    expect(res.status).toBe(422);
+  });
+});
+
+describe("POST /api/v1/boards/:id/tasks", () => {
+  const params = { params: Promise.resolve({ id: BOARD_ID }) };
+  const url = `http://localhost/api/v1/boards/${BOARD_ID}/tasks`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+    mockPrisma.boardColumn.findFirst.mockResolvedValue({ id: "col-1" } as any);
+  });
+
+  it("refuses assignees who are not on the board instead of adding them", async () => {
+    // The caller is an EDITOR; the assignee is neither owner nor member
+    mockPrisma.board.findFirst.mockResolvedValueOnce({
+      userId: "someone-else",
+      members: [{ role: "EDITOR" }],
+    } as any);
+    mockPrisma.board.findFirst.mockResolvedValueOnce({
+      userId: "someone-else",
+      members: [],
+    } as any);
+
+    const resp = await CREATE_TASK(
+      jsonRequest(url, "POST", { title: "Ship it", columnId: "col-1", assigneeId: "stranger" }),
+      params
+    );
+
+    expect(resp.status).toBe(422);
+    const body = await resp.json();
+    expect(body.details.assigneeId).toEqual(["The assignee must be a member of this board"]);
+    expect(mockPrisma.boardMember.create).not.toHaveBeenCalled();
+    expect(mockPrisma.boardTask.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock the API auth helper
+vi.mock("@/lib/api/auth", () => ({
+  validateApiToken: vi.fn(),
+  unauthorizedResponse: vi.fn(
+    () => new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 })
+  ),
+}));
+
+// Mock Prisma; the transaction callback runs against the same mock
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    $transaction: vi.fn(),
+    tracker: { findMany: vi.fn(), update: vi.fn() },
+    trackerEntry: { createMany: vi.fn(), findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+import { validateApiToken } from "@/lib/api/auth";
+import prisma from "@/lib/db/prisma";
+import { POST } from "@/app/api/v1/entries/bulk/route";
+
+const mockValidate = vi.mocked(validateApiToken);
+const mockPrisma = vi.mocked(prisma);
+
+const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc", scopes: ["*"], trackerIds: [] };
+
+function makeRequest(body: unknown) {
+  return new Request("http://localhost/api/v1/entries/bulk", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const READINGS = [
+  { trackerId: "temp", value: 21.5, date: "2026-03-01T08:00:00.000Z" },
+  { trackerId: "humidity", value: 40 },
+  { trackerId: "temp", value: "warm" },
+  { trackerId: "unknown", value: 1 },
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockValidate.mockResolvedValue(MOCK_AUTH);
+  mockPrisma.$transaction.mockImplementation(((fn: (tx: unknown) => unknown) =>
+    fn(mockPrisma)) as any);
+  mockPrisma.tracker.findMany.mockResolvedValue([
+    { id: "temp", type: "AMOUNT", fields: [] },
+    { id: "humidity", type: "AMOUNT", fields: [] },
+  ] as any);
+  mockPrisma.trackerEntry.findMany.mockResolvedValue([{ value: 21.5 }] as any);
+});
+
+describe("POST /api/v1/entries/bulk", () => {
+  it("returns 401 when token is invalid", async () => {
+    mockValidate.mockResolvedValue(null);
+    const resp = await POST(makeRequest({ entries: READINGS }), {});
+    expect(resp.status).toBe(401);
+  });
+
+  it("writes nothing in atomic mode when any item is invalid", async () => {
+    const resp = await POST(makeRequest({ entries: READINGS }), {});
+    expect(resp.status).toBe(422);
+
+    const body = await resp.json();
+    expect(body.data).toEqual({
+      created: 0,
+      failed: 2,
+      results: [
+        { index: 0, status: "skipped" },
+        { index: 1, status: "skipped" },
+        { index: 2, status: "invalid", error: expect.stringContaining("value") },
+        { index: 3, status: "invalid", error: "Tracker not found" },
+      ],
+    });
+    expect(mockPrisma.trackerEntry.createMany).not.toHaveBeenCalled();
+  });
+
+  it("writes the valid items in best_effort mode with one statistics update per tracker", async () => {
+    const resp = await POST(makeRequest({ entries: READINGS, mode: "best_effort" }), {});
+    expect(resp.status).toBe(201);
+
+    const body = await resp.json();
+    expect(body.data.created).toBe(2);
+    expect(body.data.results.map((r: { status: string }) => r.status)).toEqual([
+      "created",
+      "created",
+      "invalid",
+      "invalid",
+    ]);
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          trackerId: "temp",
+          value: 21.5,
+          date: new Date("2026-03-01T08:00:00.000Z"),
+          createdById: MOCK_AUTH.userId,
+        }),
+        expect.objectContaining({ trackerId: "humidity", value: 40 }),
+      ],
+    });
+    // Touched, then statistics rebuilt: two updates for each of the two trackers
+    expect(mockPrisma.tracker.update).toHaveBeenCalledTimes(4);
+  });
+
+  it("reads the owner's exchange rates once for the whole batch", async () => {
+    mockPrisma.tracker.findMany.mockResolvedValue([
+      { id: "spend", type: "AMOUNT", fields: [], unit: "USD", userId: MOCK_AUTH.userId },
+    ] as any);
+    mockPrisma.user.findUnique.mockResolvedValue({
+      baseCurrency: "USD",
+      exchangeRates: [{ currency: "EUR", rate: 0.5 }],
+    } as any);
+
+    const resp = await POST(
+      makeRequest({
+        entries: [
+          { trackerId: "spend", value: 10, unit: "EUR" },
+          { trackerId: "spend", value: 4, unit: "EUR" },
+        ],
+      }),
+      {}
+    );
+    expect(resp.status).toBe(201);
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.trackerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ value: 20, enteredValue: 10, enteredUnit: "EUR" }),
+        expect.objectContaining({ value: 8, enteredValue: 4, enteredUnit: "EUR" }),
+      ],
+    });
+  });
+
+  it("returns 422 for more entries than allowed", async () => {
+    const entries = Array.from({ length: 1001 }, () => ({ trackerId: "temp", value: 1 }));
+    const resp = await POST(makeRequest({ entries }), {});
+    expect(resp.status).toBe(422);
+    expect(mockPrisma.tracker.findMany).not.toHaveBeenCalled();
+  });
+});
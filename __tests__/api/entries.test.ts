@@ -11,8 +11,11 @@ vi.mock("@/lib/api/auth", () => ({
 // Mock Prisma
 vi.mock("@/lib/db/prisma", () => ({
   default: {
+    $transaction: vi.fn(),
     tracker: {
       findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
     },
     trackerEntry: {
       count: vi.fn(),
@@ -37,7 +40,7 @@ import {
 const mockValidate = vi.mocked(validateApiToken);
 const mockPrisma = vi.mocked(prisma);
 
-const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc" };
+const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc", scopes: ["*"], trackerIds: [] };
 const MOCK_TRACKER_ID = "tracker-xyz";
 const MOCK_ENTRY_ID = "entry-001";
 const MOCK_ENTRY = {
@@ -62,6 +65,13 @@ function makeEntryParams(trackerId: string, entryId: string) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  // Writes run in a transaction against the same mock, then update statistics
+  mockPrisma.$transaction.mockImplementation(((fn: (tx: unknown) => unknown) =>
+    fn(mockPrisma)) as any);
+  mockPrisma.tracker.findUnique.mockResolvedValue({
+    type: "COUNTER",
+    statistics: { totalEntries: 1, totalTime: 0, totalValue: 2, totalCustom: "" },
+  } as any);
 });
 
 // ─── GET /api/v1/trackers/:id/entries ────────────────────────────────────────
@@ -163,6 +173,12 @@ describe("POST /api/v1/trackers/:id/entries", () => {
     expect(resp.status).toBe(201);
     const body = await resp.json();
     expect(body.data.id).toBe(MOCK_ENTRY_ID);
+    expect(mockPrisma.tracker.update).toHaveBeenCalledWith({
+      where: { id: MOCK_TRACKER_ID },
+      data: expect.objectContaining({
+        statistics: expect.objectContaining({ totalEntries: 2, totalValue: 7 }),
+      }),
+    });
   });
 
   it("sets trackerId from the URL, not the body", async () => {
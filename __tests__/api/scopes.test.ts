@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { checkApiAccess, hasScope, tokenTrackerWhere } from "@/lib/api/scopes";
+
+const AUTH = { userId: "user-1", tokenId: "token-1", scopes: [], trackerIds: [] };
+
+describe("hasScope", () => {
+  it("matches exact scopes and wildcards", () => {
+    expect(hasScope(["entries:write"], "entries:write")).toBe(true);
+    expect(hasScope(["entries:write"], "entries:read")).toBe(false);
+    expect(hasScope(["boards:*"], "boards:read")).toBe(true);
+    expect(hasScope(["boards:*"], "trackers:read")).toBe(false);
+    expect(hasScope(["*"], "trackers:write")).toBe(true);
+  });
+});
+
+describe("checkApiAccess", () => {
+  it("allows requests within scope and tracker restriction", () => {
+    const auth = { ...AUTH, scopes: ["entries:write"], trackerIds: ["t1"] };
+    expect(checkApiAccess(auth, "entries:write", "t1")).toBeNull();
+  });
+
+  it("names the missing scope in a 403", async () => {
+    const res = checkApiAccess({ ...AUTH, scopes: ["trackers:read"] }, "trackers:write");
+    expect(res?.status).toBe(403);
+    expect(await res?.json()).toEqual({
+      error: "Missing required scope: trackers:write",
+      requiredScope: "trackers:write",
+    });
+  });
+
+  it("rejects trackers outside the restriction", () => {
+    const auth = { ...AUTH, scopes: ["*"], trackerIds: ["t1"] };
+    expect(checkApiAccess(auth, "trackers:read", "t2")?.status).toBe(403);
+    expect(tokenTrackerWhere(auth)).toEqual({ id: { in: ["t1"] } });
+    expect(tokenTrackerWhere({ ...auth, trackerIds: [] })).toEqual({});
+  });
+});
@@ -10,8 +10,12 @@ vi.mock("@/lib/api/auth", () => ({
 vi.mock("@/lib/db/prisma", () => ({
   default: {
     $transaction: vi.fn(),
+    user: {
+      findUnique: vi.fn(),
+    },
     tracker: {
       findFirst: vi.fn(),
+      findUnique: vi.fn(),
       update: vi.fn(),
     },
     trackerEntry: {
@@ -19,6 +23,8 @@ vi.mock("@/lib/db/prisma", () => ({
       update: vi.fn(),
       updateMany: vi.fn(),
       findFirst: vi.fn(),
+      findMany: vi.fn(),
+      aggregate: vi.fn(),
     },
   },
 }));
@@ -29,11 +35,13 @@ import { POST as Increment } from "@/app/api/v1/trackers/[id]/increment/route";
 import { POST as Decrement } from "@/app/api/v1/trackers/[id]/decrement/route";
 import { POST as Start } from "@/app/api/v1/trackers/[id]/start/route";
 import { POST as Stop } from "@/app/api/v1/trackers/[id]/stop/route";
+import { POST as Pause } from "@/app/api/v1/trackers/[id]/pause/route";
+import { POST as Resume } from "@/app/api/v1/trackers/[id]/resume/route";
 
 const mockValidate = vi.mocked(validateApiToken);
 const mockPrisma = vi.mocked(prisma);
 
-const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc" };
+const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc", scopes: ["*"], trackerIds: [] };
 const TRACKER_ID = "tracker-xyz";
 const ENTRY_ID = "entry-abc";
 
@@ -44,6 +52,10 @@ function setupTransaction() {
   );
 }
 
+// Echo the created entry back, as Prisma does
+const createdEntry = ((args: { data: object }) =>
+  Promise.resolve({ id: ENTRY_ID, ...args.data })) as any;
+
 function makeParams(id = TRACKER_ID) {
   return { params: Promise.resolve({ id }) };
 }
@@ -60,6 +72,12 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockValidate.mockResolvedValue(MOCK_AUTH);
   setupTransaction();
+  // No other running timers, default timer policy
+  mockPrisma.trackerEntry.findMany.mockResolvedValue([]);
+  mockPrisma.user.findUnique.mockResolvedValue(null);
+  // Statistics updates re-read the tracker found by the route
+  mockPrisma.tracker.findUnique.mockImplementation(((args: unknown) =>
+    mockPrisma.tracker.findFirst(args as never)) as any);
 });
 
 // ─── INCREMENT ───────────────────────────────────────────────────────────────
@@ -71,6 +89,27 @@ describe("POST /api/v1/trackers/:id/increment", () => {
     expect(res.status).toBe(401);
   });
 
+  it("returns 403 naming the scope when the token cannot write entries", async () => {
+    mockValidate.mockResolvedValue({ ...MOCK_AUTH, scopes: ["trackers:read", "entries:read"] });
+    const res = await Increment(makeRequest(), makeParams());
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({
+      error: "Missing required scope: entries:write",
+      requiredScope: "entries:write",
+    });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 for trackers outside the token's restriction", async () => {
+    mockValidate.mockResolvedValue({
+      ...MOCK_AUTH,
+      scopes: ["entries:write"],
+      trackerIds: ["other-tracker"],
+    });
+    const res = await Increment(makeRequest(), makeParams());
+    expect(res.status).toBe(403);
+  });
+
   it("returns 404 when tracker not found", async () => {
     mockPrisma.tracker.findFirst.mockResolvedValue(null);
     const res = await Increment(makeRequest(), makeParams());
@@ -97,7 +136,7 @@ describe("POST /api/v1/trackers/:id/increment", () => {
       type: "COUNTER",
       statistics: { totalEntries: 5, totalValue: 10 },
     });
-    mockPrisma.trackerEntry.create.mockResolvedValue({ id: ENTRY_ID });
+    mockPrisma.trackerEntry.create.mockImplementation(createdEntry);
     mockPrisma.tracker.update.mockResolvedValue({});
 
     const res = await Increment(makeRequest(), makeParams());
@@ -118,7 +157,7 @@ describe("POST /api/v1/trackers/:id/increment", () => {
       type: "COUNTER",
       statistics: { totalEntries: 0, totalValue: 0 },
     });
-    mockPrisma.trackerEntry.create.mockResolvedValue({ id: ENTRY_ID });
+    mockPrisma.trackerEntry.create.mockImplementation(createdEntry);
     mockPrisma.tracker.update.mockResolvedValue({});
 
     const res = await Increment(makeRequest({ value: 5 }), makeParams());
@@ -186,7 +225,7 @@ describe("POST /api/v1/trackers/:id/decrement", () => {
       type: "COUNTER",
       statistics: { totalEntries: 3, totalValue: 10 },
     });
-    mockPrisma.trackerEntry.create.mockResolvedValue({ id: ENTRY_ID });
+    mockPrisma.trackerEntry.create.mockImplementation(createdEntry);
     mockPrisma.tracker.update.mockResolvedValue({});
 
     const res = await Decrement(makeRequest(), makeParams());
@@ -205,7 +244,7 @@ describe("POST /api/v1/trackers/:id/decrement", () => {
       type: "COUNTER",
       statistics: { totalEntries: 0, totalValue: 20 },
     });
-    mockPrisma.trackerEntry.create.mockResolvedValue({ id: ENTRY_ID });
+    mockPrisma.trackerEntry.create.mockImplementation(createdEntry);
     mockPrisma.tracker.update.mockResolvedValue({});
 
     const res = await Decrement(makeRequest({ value: 3 }), makeParams());
@@ -306,6 +345,77 @@ describe("POST /api/v1/trackers/:id/start", () => {
       })
     );
   });
+
+  describe("with one timer at a time across trackers", () => {
+    const otherTimer = {
+      id: "entry-other",
+      trackerId: "tracker-other",
+      date: new Date(),
+      value: null,
+      startTime: new Date(Date.now() - 600_000),
+      endTime: null,
+      note: null,
+      tags: [],
+      breaks: [],
+      tracker: { name: "Reading" },
+    };
+
+    beforeEach(() => {
+      mockPrisma.tracker.findFirst.mockResolvedValue({
+        id: TRACKER_ID,
+        type: "TIMER",
+        status: "INACTIVE",
+      });
+      mockPrisma.trackerEntry.findFirst.mockResolvedValue(null);
+      mockPrisma.trackerEntry.findMany.mockResolvedValue([otherTimer]);
+      mockPrisma.trackerEntry.create.mockResolvedValue({ id: ENTRY_ID, startTime: new Date() });
+    });
+
+    it("returns 409 when the policy rejects a second timer", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        singleActiveTimer: true,
+        timerConflict: "reject",
+        maxTimerHours: 12,
+        timerOverrun: "flag",
+      });
+
+      const res = await Start(makeRequest(), makeParams());
+
+      expect(res.status).toBe(409);
+      expect(await res.json()).toMatchObject({
+        entryId: "entry-other",
+        trackerId: "tracker-other",
+      });
+      expect(mockPrisma.trackerEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("stops the other timer first when the policy says so", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        singleActiveTimer: true,
+        timerConflict: "stop",
+        maxTimerHours: 12,
+        timerOverrun: "flag",
+      });
+      mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.trackerEntry.aggregate.mockResolvedValue({
+        _count: 1,
+        _sum: { value: 600 },
+      });
+
+      const res = await Start(makeRequest(), makeParams());
+      const json = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(json.data.stopped).toEqual(["entry-other"]);
+      const { where, data } = mockPrisma.trackerEntry.updateMany.mock.calls[0][0];
+      expect(where).toEqual({ id: "entry-other", endTime: null });
+      expect(data.value).toBeGreaterThanOrEqual(599);
+      expect(mockPrisma.tracker.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "tracker-other" }, data: { status: "INACTIVE" } })
+      );
+      expect(mockPrisma.trackerEntry.create).toHaveBeenCalled();
+    });
+  });
 });
 
 // ─── STOP ────────────────────────────────────────────────────────────────────
@@ -424,4 +534,172 @@ describe("POST /api/v1/trackers/:id/stop", () => {
       })
     );
   });
+
+  it("excludes breaks from the duration and closes an open break", async () => {
+    const startTime = new Date(Date.now() - 600_000); // 10 minutes ago
+    mockPrisma.tracker.findFirst.mockResolvedValue({
+      id: TRACKER_ID,
+      type: "TIMER",
+      statistics: { totalEntries: 0, totalTime: 0 },
+    });
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: ENTRY_ID,
+      startTime,
+      note: null,
+      breaks: [{ start: new Date(Date.now() - 240_000), end: null }], // paused 4 minutes ago
+    });
+    mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.tracker.update.mockResolvedValue({});
+
+    const res = await Stop(makeRequest(), makeParams());
+    const json = await res.json();
+
+    expect(json.data.duration).toBeGreaterThanOrEqual(359);
+    expect(json.data.duration).toBeLessThanOrEqual(361);
+    expect(json.data.wallClockDuration).toBeGreaterThanOrEqual(599);
+    const { data } = mockPrisma.trackerEntry.updateMany.mock.calls[0][0];
+    expect(data.breaks[0].end).toBeInstanceOf(Date);
+  });
+
+  it("logs a pomodoro only when the work interval ran its full length", async () => {
+    const pomodoro = { workMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, cycles: 4 };
+    mockPrisma.tracker.findFirst.mockResolvedValue({
+      id: TRACKER_ID,
+      type: "TIMER",
+      statistics: { totalEntries: 0, totalTime: 0 },
+      pomodoro,
+    });
+    mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.tracker.update.mockResolvedValue({});
+
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: ENTRY_ID,
+      startTime: new Date(Date.now() - 25 * 60_000),
+      note: null,
+      breaks: [],
+    });
+    const full = await (await Stop(makeRequest({ pomodoro: true }), makeParams())).json();
+    expect(full.data.pomodoro).toBe(true);
+
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: ENTRY_ID,
+      startTime: new Date(Date.now() - 20 * 60_000),
+      note: null,
+      breaks: [],
+    });
+    const short = await (await Stop(makeRequest({ pomodoro: true }), makeParams())).json();
+    expect(short.data.pomodoro).toBe(false);
+    expect(mockPrisma.trackerEntry.updateMany.mock.calls[1][0].data.pomodoro).toBe(false);
+  });
+
+  it("flags a timer stopped past the user's max length", async () => {
+    mockPrisma.tracker.findFirst.mockResolvedValue({
+      id: TRACKER_ID,
+      type: "TIMER",
+      statistics: { totalEntries: 0, totalTime: 0 },
+    });
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: ENTRY_ID,
+      startTime: new Date(Date.now() - 3 * 3600_000),
+      note: null,
+      breaks: [],
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({ maxTimerHours: 2, timerOverrun: "flag" });
+    mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.tracker.update.mockResolvedValue({});
+
+    const json = await (await Stop(makeRequest(), makeParams())).json();
+
+    expect(json.data.overrun).toBe(true);
+    expect(json.data.duration).toBeGreaterThanOrEqual(3 * 3600 - 1);
+  });
+
+  it("caps a timer stopped past the user's max length", async () => {
+    mockPrisma.tracker.findFirst.mockResolvedValue({
+      id: TRACKER_ID,
+      type: "TIMER",
+      statistics: { totalEntries: 0, totalTime: 0 },
+    });
+    mockPrisma.trackerEntry.findFirst.mockResolvedValue({
+      id: ENTRY_ID,
+      startTime: new Date(Date.now() - 3 * 3600_000),
+      note: null,
+      breaks: [],
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({ maxTimerHours: 2, timerOverrun: "cap" });
+    mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.tracker.update.mockResolvedValue({});
+
+    const json = await (await Stop(makeRequest(), makeParams())).json();
+
+    expect(json.data.overrun).toBe(false);
+    expect(json.data.duration).toBe(2 * 3600);
+    expect(json.data.wallClockDuration).toBe(2 * 3600);
+  });
+});
+
+// ─── PAUSE / RESUME ──────────────────────────────────────────────────────────
+
+describe("POST /api/v1/trackers/:id/pause and /resume", () => {
+  const startTime = new Date(Date.now() - 60_000);
+
+  beforeEach(() => {
+    mockPrisma.tracker.findFirst.mockResolvedValue({ id: TRACKER_ID, type: "TIMER" });
+    mockPrisma.trackerEntry.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("opens a break on the running timer, with or without a body", async () => {
+    mockPrisma.trackerEntry.findMany.mockResolvedValue([
+      { id: ENTRY_ID, startTime, endTime: null, breaks: [] },
+    ]);
+
+    const res = await Pause(
+      new Request("http://localhost/api/v1/trackers/xyz/pause", { method: "POST" }),
+      makeParams()
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data).toMatchObject({ entryId: ENTRY_ID, paused: true });
+    expect(mockPrisma.trackerEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: ENTRY_ID, breaks: { equals: [] } },
+      data: { breaks: [{ start: expect.any(Date), end: null }] },
+    });
+  });
+
+  it("returns 409 when pausing an already paused timer", async () => {
+    mockPrisma.trackerEntry.findMany.mockResolvedValue([
+      { id: ENTRY_ID, startTime, endTime: null, breaks: [{ start: new Date(), end: null }] },
+    ]);
+
+    const res = await Pause(makeRequest(), makeParams());
+
+    expect(res.status).toBe(409);
+    expect(mockPrisma.trackerEntry.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("closes the open break on resume", async () => {
+    const pausedAt = new Date(Date.now() - 20_000);
+    mockPrisma.trackerEntry.findMany.mockResolvedValue([
+      { id: ENTRY_ID, startTime, endTime: null, breaks: [{ start: pausedAt, end: null }] },
+    ]);
+
+    const res = await Resume(makeRequest({ entryId: ENTRY_ID }), makeParams());
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.paused).toBe(false);
+    expect(json.data.activeDuration).toBeGreaterThanOrEqual(39);
+    expect(json.data.activeDuration).toBeLessThanOrEqual(41);
+  });
+
+  it("returns 409 when no timer is running", async () => {
+    mockPrisma.trackerEntry.findMany.mockResolvedValue([
+      { id: ENTRY_ID, startTime, endTime: new Date(), breaks: [] },
+    ]);
+
+    const res = await Resume(makeRequest(), makeParams());
+
+    expect(res.status).toBe(409);
+  });
 });
@@ -17,6 +17,14 @@ vi.mock("@/lib/db/prisma", () => ({
       findFirst: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    idempotencyKey: {
+      deleteMany: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
       delete: vi.fn(),
     },
   },
@@ -24,13 +32,14 @@ vi.mock("@/lib/db/prisma", () => ({
 
 import { validateApiToken } from "@/lib/api/auth";
 import prisma from "@/lib/db/prisma";
+import { Prisma } from "@/app/generated/prisma";
 import { GET, POST } from "@/app/api/v1/trackers/route";
 import { GET as GETOne, PUT, DELETE } from "@/app/api/v1/trackers/[id]/route";
 
 const mockValidate = vi.mocked(validateApiToken);
 const mockPrisma = vi.mocked(prisma);
 
-const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc" };
+const MOCK_AUTH = { userId: "user-123", tokenId: "token-abc", scopes: ["*"], trackerIds: [] };
 const MOCK_TRACKER_ID = "tracker-xyz";
 const MOCK_TRACKER = {
   id: MOCK_TRACKER_ID,
@@ -175,6 +184,44 @@ describe("POST /api/v1/trackers", () => {
     expect(createArg.status).toBe("INACTIVE");
     expect(createArg.userId).toBe(MOCK_AUTH.userId);
   });
+
+  it("replays the first response to a retry with the same Idempotency-Key", async () => {
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+    mockPrisma.tracker.create.mockResolvedValue(MOCK_TRACKER as any);
+    mockPrisma.idempotencyKey.create.mockResolvedValueOnce({ id: "claim-1" } as any);
+
+    const send = () => {
+      const req = makePostRequest({ name: "My Tracker", type: "COUNTER" });
+      req.headers.set("Idempotency-Key", "key-1");
+      return POST(req);
+    };
+
+    const first = await send();
+    expect(first.status).toBe(201);
+
+    // The retry finds the stored response under the same key
+    const claim = (mockPrisma.idempotencyKey.create.mock.calls[0][0] as any).data;
+    const stored = (mockPrisma.idempotencyKey.update.mock.calls[0][0] as any).data.result;
+    expect(claim.key).toBe("api:POST /api/v1/trackers:key-1");
+    mockPrisma.idempotencyKey.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+    mockPrisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: "claim-1",
+      requestHash: claim.requestHash,
+      result: stored,
+      createdAt: new Date(),
+    } as any);
+
+    const retry = await send();
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect((await retry.json()).data.id).toBe(MOCK_TRACKER_ID);
+    expect(mockPrisma.tracker.create).toHaveBeenCalledTimes(1);
+  });
 });
 
 // ─── GET /api/v1/trackers/:id ────────────────────────────────────────────────
@@ -256,6 +303,42 @@ describe("PUT /api/v1/trackers/:id", () => {
     expect(resp.status).toBe(200);
     const body = await resp.json();
     expect(body.data.name).toBe("Updated");
+    expect(resp.headers.get("ETag")).toBe(`"${MOCK_TRACKER.updatedAt.getTime()}"`);
+  });
+
+  it("returns 409 when If-Match does not match the current version", async () => {
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+    mockPrisma.tracker.findFirst.mockResolvedValueOnce(MOCK_TRACKER as any);
+
+    const req = new Request("http://localhost/", {
+      method: "PUT",
+      headers: { "If-Match": '"1"' },
+      body: JSON.stringify({ name: "Updated" }),
+    });
+    const resp = await PUT(req, makeParams(MOCK_TRACKER_ID));
+    expect(resp.status).toBe(409);
+    expect(resp.headers.get("ETag")).toBe(`"${MOCK_TRACKER.updatedAt.getTime()}"`);
+    expect(mockPrisma.tracker.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when another update with the same version got there first", async () => {
+    mockValidate.mockResolvedValue(MOCK_AUTH);
+    mockPrisma.tracker.findFirst.mockResolvedValueOnce(MOCK_TRACKER as any);
+    // The version passed the If-Match check but was taken before this write
+    mockPrisma.tracker.updateMany.mockResolvedValue({ count: 0 } as any);
+
+    const req = new Request("http://localhost/", {
+      method: "PUT",
+      headers: { "If-Match": `"${MOCK_TRACKER.updatedAt.getTime()}"` },
+      body: JSON.stringify({ name: "Updated" }),
+    });
+    const resp = await PUT(req, makeParams(MOCK_TRACKER_ID));
+    expect(resp.status).toBe(409);
+    expect(mockPrisma.tracker.updateMany).toHaveBeenCalledWith({
+      where: { id: MOCK_TRACKER_ID, updatedAt: MOCK_TRACKER.updatedAt },
+      data: { updatedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.tracker.update).not.toHaveBeenCalled();
   });
 });
 
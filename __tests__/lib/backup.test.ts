@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackupArchive } from "@/lib/backup";
+
+function archive(overrides: Record<string, unknown> = {}) {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: "2024-05-01T10:00:00.000Z",
+    trackers: [
+      {
+        id: "t1",
+        name: "Reading",
+        type: "TIMER",
+        entries: [
+          {
+            id: "e1",
+            date: "2024-04-30T08:00:00.000Z",
+            startTime: "2024-04-30T08:00:00.000Z",
+            endTime: "2024-04-30T08:30:00.000Z",
+            value: 1800,
+            taskId: "k1",
+          },
+        ],
+      },
+    ],
+    boards: [
+      {
+        id: "b1",
+        name: "Home",
+        columns: [{ id: "c1", name: "To Do", order: 0 }],
+        tasks: [{ id: "k1", title: "Finish book", order: 0, columnId: "c1" }],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("parseBackupArchive", () => {
+  it("parses dates and applies defaults", () => {
+    const result = parseBackupArchive(JSON.stringify(archive()));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [tracker] = result.data.trackers;
+    expect(tracker.status).toBe("ACTIVE");
+    expect(tracker.tags).toEqual([]);
+    expect(tracker.entries[0].date).toBeInstanceOf(Date);
+    expect(result.data.boards[0].tasks[0].priority).toBe("MEDIUM");
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(parseBackupArchive("{not json")).toEqual({
+      success: false,
+      error: "Backup file is not valid JSON",
+    });
+  });
+
+  it("rejects unknown versions with a specific message", () => {
+    const result = parseBackupArchive(JSON.stringify(archive({ version: 99 })));
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/version 99/);
+  });
+
+  it("rejects tasks pointing at columns outside their board", () => {
+    const bad = archive();
+    bad.boards[0].tasks[0].columnId = "missing";
+    const result = parseBackupArchive(JSON.stringify(bad));
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/boards\.0\.tasks\.0\.columnId/);
+  });
+
+  it("rejects duplicate ids", () => {
+    const bad = archive();
+    bad.boards[0].id = "t1";
+    const result = parseBackupArchive(JSON.stringify(bad));
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toMatch(/Duplicate id "t1"/);
+  });
+
+  it("rejects unknown tracker types", () => {
+    const bad = archive();
+    bad.trackers[0].type = "STOPWATCH";
+    expect(parseBackupArchive(JSON.stringify(bad)).success).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  CustomFieldsSchema,
+  fieldKeyFromLabel,
+  fromFieldInputValues,
+  toFieldInputValues,
+  validateCustomFieldValues,
+} from "@/lib/trackers/custom-fields";
+import type { CustomField } from "@/types";
+
+const FIELDS: CustomField[] = [
+  { key: "mood", label: "Mood", type: "rating", options: [], required: true },
+  { key: "weight", label: "Weight", type: "number", options: [], unit: "kg", required: false },
+  { key: "place", label: "Place", type: "select", options: ["Home", "Gym"], required: false },
+  { key: "rested", label: "Rested", type: "boolean", options: [], required: false },
+  { key: "nap", label: "Nap", type: "duration", options: [], required: false },
+];
+
+describe("validateCustomFieldValues", () => {
+  it("keeps valid values and drops unknown keys and empty values", () => {
+    const result = validateCustomFieldValues(FIELDS, {
+      mood: 4,
+      weight: null,
+      place: "Gym",
+      rested: false,
+      other: "ignored",
+    });
+
+    expect(result).toEqual({ success: true, data: { mood: 4, place: "Gym", rested: false } });
+  });
+
+  it("rejects missing required fields", () => {
+    expect(validateCustomFieldValues(FIELDS, { weight: 70 })).toEqual({
+      success: false,
+      error: "Mood is required",
+    });
+  });
+
+  it("rejects values that do not match the field type", () => {
+    expect(validateCustomFieldValues(FIELDS, { mood: 6 }).success).toBe(false);
+    expect(validateCustomFieldValues(FIELDS, { mood: 3, place: "Office" }).success).toBe(false);
+    expect(validateCustomFieldValues(FIELDS, { mood: 3, weight: "70" }).success).toBe(false);
+    expect(validateCustomFieldValues(FIELDS, { mood: 3, nap: -60 }).success).toBe(false);
+  });
+});
+
+describe("field definitions", () => {
+  it("derives unique keys from labels", () => {
+    expect(fieldKeyFromLabel("Sleep quality")).toBe("sleep_quality");
+    expect(fieldKeyFromLabel("Mood", ["mood"])).toBe("mood_2");
+    expect(fieldKeyFromLabel("123")).toBe("field");
+  });
+
+  it("rejects duplicate keys and select fields without options", () => {
+    const field = { key: "mood", label: "Mood", type: "rating" };
+    expect(CustomFieldsSchema.safeParse([field, field]).success).toBe(false);
+    expect(
+      CustomFieldsSchema.safeParse([{ key: "place", label: "Place", type: "select" }]).success
+    ).toBe(false);
+  });
+});
+
+describe("field form values", () => {
+  it("round-trips durations through minutes", () => {
+    const inputs = toFieldInputValues(FIELDS, { mood: 3, nap: 1800 });
+    expect(inputs).toMatchObject({ mood: "3", nap: "30", weight: "", rested: false });
+
+    expect(fromFieldInputValues(FIELDS, { ...inputs, weight: " 71.5 " })).toEqual({
+      mood: 3,
+      weight: 71.5,
+      place: null,
+      rested: false,
+      nap: 1800,
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { guessColumnMapping, mapImportRows } from "@/lib/entry-import";
+
+const EXPORT_HEADER = ["date", "value", "startTime", "endTime", "note", "tags"];
+
+describe("parseCsv", () => {
+  it("handles quoted commas, escaped quotes and embedded newlines", () => {
+    const text = 'a,b,c\r\n1,"x, y","say ""hi""\nthere"\n\n';
+    expect(parseCsv(text)).toEqual([
+      ["a", "b", "c"],
+      ["1", "x, y", 'say "hi"\nthere'],
+    ]);
+  });
+
+  it("keeps trailing empty fields and strips a byte-order mark", () => {
+    expect(parseCsv("﻿date,value,\n2024-01-01,,")).toEqual([
+      ["date", "value", ""],
+      ["2024-01-01", "", ""],
+    ]);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("maps the export header onto itself", () => {
+    expect(guessColumnMapping(EXPORT_HEADER)).toEqual({
+      date: 0,
+      value: 1,
+      startTime: 2,
+      endTime: 3,
+      note: 4,
+      tags: 5,
+      activeDuration: null,
+    });
+  });
+
+  it("ignores case and separators and leaves unknown fields unmapped", () => {
+    expect(guessColumnMapping(["Start Time", "end_time", "Amount"])).toMatchObject({
+      startTime: 0,
+      endTime: 1,
+      value: null,
+      date: null,
+    });
+  });
+});
+
+describe("mapImportRows", () => {
+  const mapping = guessColumnMapping(EXPORT_HEADER);
+
+  it("derives timer durations and reverses export escaping", () => {
+    const { entries, errors } = mapImportRows(
+      [
+        [
+          "2024-04-30T08:00:00.000Z",
+          "",
+          "2024-04-30T08:00:00.000Z",
+          "2024-04-30T08:30:00.000Z",
+          "'=SUM(A1)",
+          "work; deep focus",
+        ],
+      ],
+      mapping,
+      "TIMER"
+    );
+    expect(errors).toEqual([]);
+    expect(entries[0]).toMatchObject({
+      value: 1800,
+      note: "=SUM(A1)",
+      tags: ["work", "deep focus"],
+    });
+  });
+
+  it("reports per-row errors with file line numbers", () => {
+    const { entries, errors } = mapImportRows(
+      [
+        ["2024-05-01", "3", "", "", "", ""],
+        ["not a date", "2", "", "", "", ""],
+        ["2024-05-02", "", "", "", "", ""],
+        ["2024-05-03", "abc", "", "", "", ""],
+      ],
+      mapping,
+      "COUNTER"
+    );
+    expect(entries).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 3, message: 'Invalid date "not a date"' },
+      { row: 4, message: "Missing value" },
+      { row: 5, message: 'Invalid value "abc"' },
+    ]);
+  });
+
+  it("takes a timer's active duration from the exported column, so breaks stay excluded", () => {
+    const timerMapping = guessColumnMapping([...EXPORT_HEADER, "activeDuration"]);
+    const row = ["", "", "2024-05-01T10:00:00Z", "2024-05-01T11:00:00Z", "", ""];
+    const { entries, errors } = mapImportRows(
+      [
+        [...row, "2700"],
+        [...row, "4000"],
+        [...row, ""],
+      ],
+      timerMapping,
+      "TIMER"
+    );
+    expect(entries.map((entry) => entry.value)).toEqual([2700, 3600]);
+    expect(errors).toEqual([
+      { row: 3, message: "activeDuration cannot exceed the time from start to end" },
+    ]);
+  });
+
+  it("requires both times for timer entries", () => {
+    const { errors } = mapImportRows(
+      [["2024-05-01", "60", "2024-05-01T10:00:00Z", "", "", ""]],
+      mapping,
+      "TIMER"
+    );
+    expect(errors).toEqual([{ row: 2, message: "Timer entries need both startTime and endTime" }]);
+  });
+});
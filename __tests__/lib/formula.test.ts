@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { DerivedFormulaSchema, evaluateFormula, parseFormula } from "@/lib/trackers/formula";
+
+const TOTALS: Record<string, { sum: number; count: number }> = {
+  fuel: { sum: 30, count: 2 },
+  distance: { sum: 600, count: 3 },
+  empty: { sum: 0, count: 0 },
+};
+
+function evaluate(expression: string): number | null {
+  const parsed = parseFormula(expression);
+  if (!parsed.success) throw new Error(parsed.error);
+  return evaluateFormula(parsed.data, (name) => TOTALS[name] ?? { sum: 0, count: 0 });
+}
+
+describe("formula", () => {
+  it("evaluates aggregates with operator precedence", () => {
+    expect(evaluate("sum(fuel) / sum(distance) * 100")).toBe(5);
+    expect(evaluate("1 + 2 * 3")).toBe(7);
+    expect(evaluate("(1 + 2) * 3")).toBe(9);
+    expect(evaluate("-count(fuel) + avg(distance)")).toBe(198);
+  });
+
+  it("is undefined when dividing by zero or averaging no entries", () => {
+    expect(evaluate("sum(fuel) / sum(empty)")).toBeNull();
+    expect(evaluate("avg(empty) + 1")).toBeNull();
+    expect(evaluate("count(empty)")).toBe(0);
+  });
+
+  it("rejects anything outside the grammar", () => {
+    expect(parseFormula("fuel / distance").success).toBe(false);
+    expect(parseFormula("sum(fuel) +").success).toBe(false);
+    expect(parseFormula("process.exit(1)").success).toBe(false);
+    expect(parseFormula("sum(fuel); 1").success).toBe(false);
+    expect(parseFormula("(".repeat(30) + "1" + ")".repeat(30)).success).toBe(false);
+  });
+
+  it("requires every name in the expression to be bound to a tracker", () => {
+    const inputs = [{ name: "fuel", trackerId: "t1" }];
+    expect(DerivedFormulaSchema.safeParse({ expression: "sum(fuel) * 2", inputs }).success).toBe(
+      true
+    );
+    expect(
+      DerivedFormulaSchema.safeParse({ expression: "sum(fuel) / sum(distance)", inputs }).success
+    ).toBe(false);
+    expect(
+      DerivedFormulaSchema.safeParse({ expression: "sum(fuel)", inputs: [...inputs, ...inputs] })
+        .success
+    ).toBe(false);
+  });
+});
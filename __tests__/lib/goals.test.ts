@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  GoalInputSchema,
+  evaluateGoal,
+  goalWindow,
+  isGoalMet,
+  nextPeriodStart,
+  periodStartOf,
+  streakEndingOn,
+} from "@/lib/trackers/goals";
+
+describe("goals", () => {
+  it("finds calendar period starts", () => {
+    // 2026-01-07 is a Wednesday
+    expect(periodStartOf("2026-01-07", "daily", 0)).toBe("2026-01-07");
+    expect(periodStartOf("2026-01-07", "weekly", 0)).toBe("2026-01-04");
+    expect(periodStartOf("2026-01-07", "weekly", 1)).toBe("2026-01-05");
+    expect(periodStartOf("2026-01-07", "monthly", 1)).toBe("2026-01-01");
+  });
+
+  it("steps to the next period", () => {
+    expect(nextPeriodStart("2026-01-31", "daily")).toBe("2026-02-01");
+    expect(nextPeriodStart("2026-12-28", "weekly")).toBe("2027-01-04");
+    expect(nextPeriodStart("2026-09-01", "monthly")).toBe("2026-10-01");
+    expect(nextPeriodStart("2026-12-01", "monthly")).toBe("2027-01-01");
+  });
+
+  it("meets minimums at or above and limits at or below the value", () => {
+    expect(isGoalMet({ kind: "min", value: 3 }, 3)).toBe(true);
+    expect(isGoalMet({ kind: "min", value: 3 }, 2)).toBe(false);
+    expect(isGoalMet({ kind: "max", value: 3 }, 3)).toBe(true);
+    expect(isGoalMet({ kind: "max", value: 3 }, 4)).toBe(false);
+    expect(isGoalMet({ kind: "streak", value: 2 }, 2)).toBe(true);
+  });
+
+  it("measures the streak ending on a day", () => {
+    const days = new Set(["2026-01-01", "2026-01-02", "2026-01-03", "2026-01-05"]);
+    expect(streakEndingOn(days, "2026-01-03")).toBe(3);
+    expect(streakEndingOn(days, "2026-01-04")).toBe(0);
+    expect(streakEndingOn(days, "2026-01-05")).toBe(1);
+  });
+
+  it("only accepts whole-day streaks", () => {
+    const streak = { kind: "streak", value: 7, period: "daily" } as const;
+    expect(GoalInputSchema.safeParse(streak).success).toBe(true);
+    expect(GoalInputSchema.safeParse({ ...streak, value: 1.5 }).success).toBe(false);
+    expect(GoalInputSchema.safeParse({ ...streak, period: "weekly" }).success).toBe(false);
+  });
+
+  it("finds calendar and rolling windows", () => {
+    expect(goalWindow("weekly", "calendar", "2026-01-07", 1)).toEqual({
+      start: "2026-01-05",
+      end: "2026-01-11",
+      label: "This week",
+    });
+    expect(goalWindow("monthly", "calendar", "2026-02-10", 0).end).toBe("2026-02-28");
+    expect(goalWindow("weekly", "rolling", "2026-01-07", 1)).toEqual({
+      start: "2026-01-01",
+      end: "2026-01-07",
+      label: "Last 7 days",
+    });
+    expect(goalWindow("daily", "rolling", "2026-01-07", 1).label).toBe("Today");
+  });
+
+  it("projects calendar goals at the current pace", () => {
+    // Wednesday of a Monday-start week: 3 of 7 days elapsed
+    const window = goalWindow("weekly", "calendar", "2026-01-07", 1);
+    const min = evaluateGoal(
+      { kind: "min", value: 10, alignment: "calendar" },
+      6,
+      window,
+      "2026-01-07"
+    );
+    expect(min).toMatchObject({ remaining: 4, met: false, percentage: 60, projectedTotal: 14 });
+    expect(min.projectedCompletion).toBe("2026-01-09");
+
+    const max = evaluateGoal(
+      { kind: "max", value: 10, alignment: "calendar" },
+      12,
+      window,
+      "2026-01-07"
+    );
+    expect(max).toMatchObject({ remaining: -2, met: false, projectedCompletion: null });
+
+    const rolling = goalWindow("weekly", "rolling", "2026-01-07", 1);
+    const noPace = evaluateGoal(
+      { kind: "min", value: 10, alignment: "rolling" },
+      6,
+      rolling,
+      "2026-01-07"
+    );
+    expect(noPace).toMatchObject({ remaining: 4, projectedTotal: null, projectedCompletion: null });
+  });
+
+  it("projects streaks a day at a time", () => {
+    const window = goalWindow("daily", "calendar", "2026-01-07", 1);
+    const goal = { kind: "streak", value: 5, alignment: "calendar" };
+    expect(evaluateGoal(goal, 3, window, "2026-01-07", true).projectedCompletion).toBe(
+      "2026-01-09"
+    );
+    expect(evaluateGoal(goal, 3, window, "2026-01-07", false).projectedCompletion).toBe(
+      "2026-01-08"
+    );
+    expect(evaluateGoal(goal, 5, window, "2026-01-07", true).projectedCompletion).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { evaluateHabit, HabitScheduleSchema, isScheduledDay } from "@/lib/trackers/habits";
+
+// 2026-01-05 is a Monday
+const MWF = { kind: "weekdays", weekdays: [1, 3, 5] };
+
+describe("habits", () => {
+  it("finds scheduled days", () => {
+    expect(isScheduledDay(MWF, "2026-01-05")).toBe(true);
+    expect(isScheduledDay(MWF, "2026-01-06")).toBe(false);
+
+    const everyThird = { kind: "interval", weekdays: [], everyDays: 3, anchor: "2026-01-05" };
+    expect(isScheduledDay(everyThird, "2026-01-08")).toBe(true);
+    expect(isScheduledDay(everyThird, "2026-01-09")).toBe(false);
+    expect(isScheduledDay(everyThird, "2026-01-02")).toBe(false);
+  });
+
+  it("doesn't break the streak on rest or skipped days", () => {
+    const done = new Set(["2026-01-05", "2026-01-07", "2026-01-12"]);
+    const skipped = new Set(["2026-01-09"]);
+    const { days, streak } = evaluateHabit(MWF, done, skipped, "2026-01-05", "2026-01-14", 1);
+
+    expect(days.get("2026-01-06")).toBe("unscheduled");
+    expect(days.get("2026-01-09")).toBe("skipped");
+    expect(days.get("2026-01-14")).toBe("due");
+    expect(streak).toEqual({ current: 3, longest: 3, lastDate: "2026-01-12" });
+  });
+
+  it("resets the streak on a missed scheduled day", () => {
+    const done = new Set(["2026-01-05", "2026-01-07", "2026-01-12"]);
+    const { days, streak } = evaluateHabit(MWF, done, new Set(), "2026-01-05", "2026-01-12", 1);
+
+    expect(days.get("2026-01-09")).toBe("missed");
+    expect(streak).toEqual({ current: 1, longest: 2, lastDate: "2026-01-12" });
+  });
+
+  it("judges times-per-week habits by the week", () => {
+    const schedule = { kind: "weekly", weekdays: [], timesPerWeek: 2 };
+    // Week 1 met (Mon, Thu), week 2 short (Tue only), week 3 under way (Mon)
+    const done = new Set(["2026-01-05", "2026-01-08", "2026-01-13", "2026-01-19"]);
+    const { days, streak } = evaluateHabit(
+      schedule,
+      done,
+      new Set(),
+      "2026-01-05",
+      "2026-01-20",
+      1
+    );
+
+    expect(days.get("2026-01-06")).toBe("unscheduled");
+    expect(days.get("2026-01-12")).toBe("missed");
+    expect(days.get("2026-01-20")).toBe("due");
+    expect(streak).toEqual({ current: 1, longest: 3, lastDate: "2026-01-19" });
+
+    // A skip excuses one of the week's check-ins
+    const excused = evaluateHabit(
+      schedule,
+      done,
+      new Set(["2026-01-15"]),
+      "2026-01-05",
+      "2026-01-20",
+      1
+    );
+    expect(excused.streak.current).toBe(4);
+  });
+
+  it("validates schedules", () => {
+    expect(HabitScheduleSchema.safeParse(MWF).success).toBe(true);
+    expect(HabitScheduleSchema.safeParse({ ...MWF, weekdays: [] }).success).toBe(false);
+    expect(
+      HabitScheduleSchema.safeParse({ kind: "interval", weekdays: [], everyDays: 2 }).success
+    ).toBe(false);
+  });
+});
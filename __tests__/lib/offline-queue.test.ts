@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { useOfflineQueue } from "@/lib/offlineQueue";
+import { OFFLINE_SYNC_BATCH_SIZE } from "@/lib/offline/operations";
+
+// jsdom has no IndexedDB, so the queue only lives in memory here
+
+const fetchMock = vi.fn();
+
+/** The sync endpoint applying every operation it is sent */
+async function syncAll(_url: string, init: RequestInit) {
+  const { operations } = JSON.parse(init.body as string) as { operations: { id: string }[] };
+  return Response.json({ results: operations.map(({ id }) => ({ id, status: "synced" })) });
+}
+
+beforeEach(() => {
+  useOfflineQueue.setState({ queue: [], isProcessing: false });
+  fetchMock.mockImplementation(syncAll);
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("processQueue", () => {
+  it("drains a queue longer than one sync batch", async () => {
+    const { enqueue, processQueue } = useOfflineQueue.getState();
+    for (let i = 0; i < OFFLINE_SYNC_BATCH_SIZE + 50; i++) {
+      enqueue("addCounterEntry", { trackerId: "tracker-1", value: 1 }, "Coffee +1");
+    }
+
+    const synced = await processQueue();
+
+    expect(synced).toBe(OFFLINE_SYNC_BATCH_SIZE + 50);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const sizes = fetchMock.mock.calls.map(
+      ([, init]) => JSON.parse((init as RequestInit).body as string).operations.length
+    );
+    expect(sizes).toEqual([OFFLINE_SYNC_BATCH_SIZE, 50]);
+    expect(useOfflineQueue.getState().queue).toEqual([]);
+  });
+
+  it("keeps the batches after a failed one queued", async () => {
+    const { enqueue, processQueue } = useOfflineQueue.getState();
+    for (let i = 0; i < OFFLINE_SYNC_BATCH_SIZE + 1; i++) {
+      enqueue("addCounterEntry", { trackerId: "tracker-1", value: 1 }, "Coffee +1");
+    }
+    fetchMock.mockImplementationOnce(syncAll);
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    const synced = await processQueue();
+
+    expect(synced).toBe(OFFLINE_SYNC_BATCH_SIZE);
+    const { queue } = useOfflineQueue.getState();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].retryCount).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import {
+  breakAfter,
+  DEFAULT_POMODORO,
+  isPomodoroComplete,
+  PomodoroConfigSchema,
+} from "@/lib/trackers/pomodoro";
+
+describe("pomodoro", () => {
+  it("needs the full work interval, with a few seconds of slack", () => {
+    expect(isPomodoroComplete(DEFAULT_POMODORO, 25 * 60)).toBe(true);
+    expect(isPomodoroComplete(DEFAULT_POMODORO, 25 * 60 - 3)).toBe(true);
+    expect(isPomodoroComplete(DEFAULT_POMODORO, 24 * 60)).toBe(false);
+  });
+
+  it("takes a long break after every `cycles` work intervals", () => {
+    const config = { ...DEFAULT_POMODORO, cycles: 3 };
+    expect(breakAfter(config, 1)).toEqual({ phase: "shortBreak", seconds: 300 });
+    expect(breakAfter(config, 2).phase).toBe("shortBreak");
+    expect(breakAfter(config, 3)).toEqual({ phase: "longBreak", seconds: 900 });
+    expect(breakAfter(config, 6).phase).toBe("longBreak");
+  });
+
+  it("rejects non-integer or zero lengths", () => {
+    expect(PomodoroConfigSchema.safeParse(DEFAULT_POMODORO).success).toBe(true);
+    expect(PomodoroConfigSchema.safeParse({ ...DEFAULT_POMODORO, workMinutes: 0 }).success).toBe(
+      false
+    );
+    expect(PomodoroConfigSchema.safeParse({ ...DEFAULT_POMODORO, cycles: 2.5 }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { QueryClient, dehydrate } from "@tanstack/react-query";
+
+vi.mock("@/lib/offline/db", () => ({
+  loadQueryCache: vi.fn(),
+  saveQueryCache: vi.fn(),
+  clearQueryCache: vi.fn(),
+}));
+
+import { clearQueryCache, loadQueryCache } from "@/lib/offline/db";
+import { lastFetchedAt, restoreQueryCache } from "@/lib/offline/queryCache";
+
+function snapshot(userId: string, savedAt = new Date()) {
+  const source = new QueryClient();
+  source.setQueryData(["trackers", "detail", "t1"], { id: "t1", name: "Water" });
+  return { userId, savedAt: savedAt.toISOString(), state: dehydrate(source) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("offline query cache", () => {
+  it("restores the signed-in user's snapshot", async () => {
+    vi.mocked(loadQueryCache).mockResolvedValue(snapshot("user-1"));
+    const queryClient = new QueryClient();
+
+    await restoreQueryCache(queryClient, "user-1");
+
+    expect(queryClient.getQueryData(["trackers", "detail", "t1"])).toEqual({
+      id: "t1",
+      name: "Water",
+    });
+    expect(lastFetchedAt(queryClient)).toBeInstanceOf(Date);
+  });
+
+  it("deletes a snapshot saved by another user or long ago", async () => {
+    const queryClient = new QueryClient();
+
+    vi.mocked(loadQueryCache).mockResolvedValue(snapshot("user-2"));
+    await restoreQueryCache(queryClient, "user-1");
+    vi.mocked(loadQueryCache).mockResolvedValue(snapshot("user-1", new Date("2020-01-01")));
+    await restoreQueryCache(queryClient, "user-1");
+
+    expect(clearQueryCache).toHaveBeenCalledTimes(2);
+    expect(queryClient.getQueryData(["trackers", "detail", "t1"])).toBeUndefined();
+    expect(lastFetchedAt(queryClient)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextUpcomingOccurrence,
+  describeRecurrence,
+  anchorRecurrenceRule,
+} from "@/lib/recurrence";
+
+// Local-time dates keep the assertions independent of the machine's timezone
+const date = (y: number, m: number, d: number) => new Date(y, m - 1, d, 9, 0, 0);
+
+describe("parseRecurrenceRule", () => {
+  it("parses a simple frequency", () => {
+    expect(parseRecurrenceRule("FREQ=DAILY")).toEqual({ freq: "DAILY", interval: 1, byDay: [] });
+  });
+
+  it("parses interval and weekdays, normalizing order and case", () => {
+    expect(parseRecurrenceRule("freq=weekly;interval=2;byday=TH,MO,MO")).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: ["MO", "TH"],
+    });
+  });
+
+  it("accepts an RRULE: prefix", () => {
+    expect(parseRecurrenceRule("RRULE:FREQ=MONTHLY")?.freq).toBe("MONTHLY");
+  });
+
+  it("rejects malformed or unsupported rules", () => {
+    expect(parseRecurrenceRule("")).toBeNull();
+    expect(parseRecurrenceRule("INTERVAL=2")).toBeNull(); // no FREQ
+    expect(parseRecurrenceRule("FREQ=YEARLY")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=DAILY;INTERVAL=0")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=MO")).toBeNull(); // BYDAY is weekly-only
+    expect(parseRecurrenceRule("FREQ=WEEKLY;BYMONTHDAY=3")).toBeNull(); // monthly-only
+    expect(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=32")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=DAILY;COUNT=3")).toBeNull();
+  });
+});
+
+describe("formatRecurrenceRule", () => {
+  it("round-trips to the canonical form", () => {
+    const rule = parseRecurrenceRule("BYDAY=FR,MO;FREQ=WEEKLY;INTERVAL=1");
+    expect(rule && formatRecurrenceRule(rule)).toBe("FREQ=WEEKLY;BYDAY=MO,FR");
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("adds days for DAILY", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;INTERVAL=3")!;
+    expect(getNextOccurrence(rule, date(2026, 3, 30))).toEqual(date(2026, 4, 2));
+  });
+
+  it("adds weeks for WEEKLY without weekdays", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY")!;
+    expect(getNextOccurrence(rule, date(2026, 3, 2))).toEqual(date(2026, 3, 9));
+  });
+
+  it("moves to the next selected weekday in the same week", () => {
+    // 2026-03-02 is a Monday
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,WE,FR")!;
+    expect(getNextOccurrence(rule, date(2026, 3, 2))).toEqual(date(2026, 3, 4));
+    expect(getNextOccurrence(rule, date(2026, 3, 6))).toEqual(date(2026, 3, 9));
+  });
+
+  it("skips ahead by the interval after the last selected weekday", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH")!;
+    // Thursday 2026-03-05 → Monday two weeks later
+    expect(getNextOccurrence(rule, date(2026, 3, 5))).toEqual(date(2026, 3, 16));
+  });
+
+  it("clamps MONTHLY to the end of shorter months", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY")!;
+    expect(getNextOccurrence(rule, date(2026, 1, 31))).toEqual(date(2026, 2, 28));
+  });
+
+  it("keeps a MONTHLY series on its BYMONTHDAY after a clamped month", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=31")!;
+    const feb = getNextOccurrence(rule, date(2026, 1, 31));
+    const mar = getNextOccurrence(rule, feb);
+    const apr = getNextOccurrence(rule, mar);
+    expect([feb, mar, apr]).toEqual([date(2026, 2, 28), date(2026, 3, 31), date(2026, 4, 30)]);
+    expect(getNextOccurrence(rule, date(2028, 1, 31))).toEqual(date(2028, 2, 29));
+  });
+});
+
+describe("anchorRecurrenceRule", () => {
+  it("pins MONTHLY rules to the anchor's day and leaves others alone", () => {
+    const monthly = parseRecurrenceRule("FREQ=MONTHLY")!;
+    const pinned = anchorRecurrenceRule(monthly, date(2026, 1, 31));
+    expect(formatRecurrenceRule(pinned)).toBe("FREQ=MONTHLY;BYMONTHDAY=31");
+    expect(anchorRecurrenceRule(pinned, date(2026, 2, 28))).toBe(pinned);
+
+    const weekly = parseRecurrenceRule("FREQ=WEEKLY")!;
+    expect(anchorRecurrenceRule(weekly, date(2026, 1, 31))).toBe(weekly);
+  });
+});
+
+describe("getNextUpcomingOccurrence", () => {
+  it("skips occurrences that are already in the past", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY")!;
+    const next = getNextUpcomingOccurrence(rule, date(2026, 3, 2), date(2026, 3, 20));
+    expect(next).toEqual(date(2026, 3, 23));
+  });
+
+  it("keeps a series starting on the 31st on the 31st where the month has one", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY")!;
+    const next = getNextUpcomingOccurrence(rule, date(2026, 1, 31), date(2026, 3, 5));
+    expect(next).toEqual(date(2026, 3, 31));
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes single and multi-interval rules", () => {
+    expect(describeRecurrence(parseRecurrenceRule("FREQ=DAILY")!)).toBe("Every day");
+    expect(describeRecurrence(parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH")!)).toBe(
+      "Every 2 weeks on Mon, Thu"
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { computeStatistics, entryContribution } from "@/lib/trackers/statistics";
+
+const start = new Date("2026-03-01T09:00:00Z");
+const end = new Date("2026-03-01T10:00:00Z");
+
+describe("tracker statistics", () => {
+  it("counts only stopped timers, by active time", () => {
+    expect(
+      computeStatistics("TIMER", [
+        { startTime: start, endTime: end, value: 3000 },
+        { startTime: start, endTime: null, value: null },
+        // Running timers may be marked with endTime === startTime
+        { startTime: start, endTime: start, value: 0 },
+      ])
+    ).toEqual({ totalEntries: 1, totalTime: 3000, totalValue: 0 });
+  });
+
+  it("sums COUNTER and AMOUNT values and skips entries without one", () => {
+    expect(computeStatistics("COUNTER", [{ value: 5 }, { value: -2 }, { value: null }])).toEqual({
+      totalEntries: 2,
+      totalTime: 0,
+      totalValue: 3,
+    });
+  });
+
+  it("counts every entry of other types and nothing for derived trackers", () => {
+    expect(entryContribution("OCCURRENCE", { value: null }).totalEntries).toBe(1);
+    expect(entryContribution("CUSTOM", { value: 7 }).totalValue).toBe(0);
+    expect(entryContribution("DERIVED", { value: 1 }).totalEntries).toBe(0);
+    expect(entryContribution("AMOUNT", null).totalEntries).toBe(0);
+  });
+});
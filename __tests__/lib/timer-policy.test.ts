@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  capEndTime,
+  DEFAULT_TIMER_POLICY,
+  settleTimer,
+  toTimerPolicy,
+} from "@/lib/trackers/timer-policy";
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 5, 9, minutes));
+
+describe("timer policy", () => {
+  const policy = { ...DEFAULT_TIMER_POLICY, maxHours: 1 };
+
+  it("reads stored settings, defaulting unknown values", () => {
+    expect(toTimerPolicy({})).toEqual(DEFAULT_TIMER_POLICY);
+    expect(
+      toTimerPolicy({ timerConflict: "stop", maxTimerHours: null, timerOverrun: "x" })
+    ).toEqual({ ...DEFAULT_TIMER_POLICY, conflict: "stop", maxHours: null });
+  });
+
+  it("finds when the limit is reached, skipping breaks", () => {
+    const breaks = [{ start: at(20), end: at(50) }];
+    expect(capEndTime(at(0), [], 3600)).toEqual(at(60));
+    expect(capEndTime(at(0), breaks, 3600)).toEqual(at(90));
+    expect(capEndTime(at(0), [{ start: at(20), end: null }], 3600)).toEqual(at(20));
+  });
+
+  it("leaves timers within the limit alone", () => {
+    expect(settleTimer(policy, at(0), at(45))).toEqual({
+      endTime: at(45),
+      breaks: [],
+      duration: 2700,
+      overrun: false,
+    });
+  });
+
+  it("flags or caps timers past the limit", () => {
+    const breaks = [
+      { start: at(30), end: at(40) },
+      { start: at(100), end: null },
+    ];
+    expect(settleTimer(policy, at(0), at(120), breaks)).toMatchObject({
+      duration: 5400,
+      overrun: true,
+    });
+    expect(settleTimer({ ...policy, overrun: "cap" }, at(0), at(120), breaks)).toEqual({
+      endTime: at(70),
+      breaks: [{ start: at(30), end: at(40) }],
+      duration: 3600,
+      overrun: false,
+    });
+  });
+});
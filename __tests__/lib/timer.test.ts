@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  activeSeconds,
+  breakSeconds,
+  isTimerPaused,
+  isTimerRunning,
+  pauseBreaks,
+  resumeBreaks,
+  wallClockSeconds,
+} from "@/lib/trackers/timer";
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 5, 9, minutes));
+
+describe("timer breaks", () => {
+  const breaks = [
+    { start: at(10), end: at(20) },
+    { start: at(40), end: null },
+  ];
+
+  it("counts active time without breaks, running open breaks to the end", () => {
+    expect(wallClockSeconds(at(0), at(50))).toBe(3000);
+    expect(breakSeconds(breaks, at(0), at(50))).toBe(1200);
+    expect(activeSeconds(at(0), at(50), breaks)).toBe(1800);
+  });
+
+  it("clips breaks to the entry's start and end", () => {
+    expect(activeSeconds(at(15), at(30), breaks)).toBe(600);
+    expect(activeSeconds(at(0), at(5), breaks)).toBe(300);
+  });
+
+  it("pauses and resumes only from the right state", () => {
+    expect(pauseBreaks(breaks, at(45))).toBeNull();
+    expect(resumeBreaks(breaks, at(45))).toEqual([
+      { start: at(10), end: at(20) },
+      { start: at(40), end: at(45) },
+    ]);
+    expect(resumeBreaks([], at(45))).toBeNull();
+    expect(pauseBreaks([], at(45))).toEqual([{ start: at(45), end: null }]);
+  });
+
+  it("treats start === end as the in-progress marker", () => {
+    expect(isTimerRunning({ startTime: at(0), endTime: at(0) })).toBe(true);
+    expect(isTimerRunning({ startTime: at(0), endTime: at(5) })).toBe(false);
+    expect(isTimerPaused({ startTime: at(0), endTime: null, breaks })).toBe(true);
+    expect(isTimerPaused({ startTime: at(0), endTime: at(50), breaks })).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { CompletedTimerEntry } from "@/lib/trackers/stats";
+import {
+  buildTimesheet,
+  roundSeconds,
+  timesheetToCsv,
+  timesheetToHtml,
+} from "@/lib/trackers/timesheet";
+
+// 2026-01-05 is a Monday
+const entry = (
+  day: number,
+  active: number,
+  overrides: Partial<CompletedTimerEntry> = {}
+): CompletedTimerEntry => {
+  const date = new Date(Date.UTC(2026, 0, day, 9));
+  return {
+    id: `e-${day}-${active}`,
+    trackerId: "t1",
+    date,
+    startTime: date,
+    endTime: new Date(date.getTime() + active * 1000),
+    active,
+    wallClock: active,
+    pomodoro: false,
+    tags: [],
+    note: null,
+    ...overrides,
+  };
+};
+
+const options = {
+  timezone: "UTC",
+  weekStartsOn: 1 as const,
+  rounding: { mode: "none" as const, minutes: 15 },
+  rates: { trackers: { t1: 60, t2: null }, tags: [{ tag: "client", rate: 120 }] },
+};
+const names = { t1: "Design", t2: "Admin" };
+
+describe("timesheet", () => {
+  it("rounds durations to the increment", () => {
+    const quarter = { minutes: 15 };
+    expect(roundSeconds(20 * 60, { mode: "none", ...quarter })).toBe(1200);
+    expect(roundSeconds(20 * 60, { mode: "up", ...quarter })).toBe(1800);
+    expect(roundSeconds(20 * 60, { mode: "nearest", ...quarter })).toBe(900);
+    expect(roundSeconds(20 * 60, { mode: "down", ...quarter })).toBe(900);
+  });
+
+  it("groups by week, tracker and billing tag with tag rates taking precedence", () => {
+    const sheet = buildTimesheet(
+      [
+        entry(5, 3600),
+        entry(6, 1800, { tags: ["misc", "client"] }),
+        entry(7, 1800, { trackerId: "t2", tags: ["misc"] }),
+        entry(12, 3600),
+      ],
+      names,
+      options
+    );
+
+    expect(sheet.weeks.map((w) => w.week)).toEqual(["2026-01-05", "2026-01-12"]);
+    expect(
+      sheet.weeks[0]!.rows.map((r) => [r.trackerName, r.tag, r.seconds, r.rate, r.amount])
+    ).toEqual([
+      ["Admin", "misc", 1800, null, 0],
+      ["Design", null, 3600, 60, 60],
+      ["Design", "client", 1800, 120, 60],
+    ]);
+    expect(sheet.weeks[0]!.amount).toBe(120);
+    expect(sheet.seconds).toBe(10800);
+    expect(sheet.amount).toBe(180);
+  });
+
+  it("bills rounded time per entry", () => {
+    const sheet = buildTimesheet([entry(5, 600), entry(6, 600)], names, {
+      ...options,
+      rounding: { mode: "up", minutes: 15 },
+    });
+    expect(sheet.billedSeconds).toBe(1800);
+    expect(sheet.amount).toBe(30);
+  });
+
+  it("exports CSV and escaped HTML", () => {
+    const sheet = buildTimesheet([entry(5, 5400, { tags: ["=cmd"] })], { t1: "<b>x</b>" }, options);
+    const csv = timesheetToCsv(sheet).split("\n");
+    expect(csv[1]).toBe("2026-01-05,<b>x</b>,'=cmd,1,1.50,1.50,60,90.00");
+    expect(csv[2]).toBe("Total,,,,1.50,1.50,,90.00");
+    const html = timesheetToHtml(sheet, "Timesheet");
+    expect(html).toContain("&lt;b&gt;x&lt;/b&gt;");
+    expect(html).not.toContain("<b>x</b>");
+  });
+});
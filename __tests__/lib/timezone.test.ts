@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDaysToDateStr,
+  diffDateStrs,
+  getPeriodStarts,
+  isValidTimeZone,
+  startOfWeekDateStr,
+  startOfZonedDay,
+  toZonedDateStr,
+  zonedDayRange,
+} from "@/lib/timezone";
+
+const NY = "America/New_York";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects anything else", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
+
+describe("toZonedDateStr", () => {
+  it("returns the local calendar date in the zone", () => {
+    const instant = new Date("2024-01-01T03:00:00Z");
+    expect(toZonedDateStr(instant, NY)).toBe("2023-12-31");
+    expect(toZonedDateStr(instant, "Asia/Tokyo")).toBe("2024-01-01");
+  });
+});
+
+describe("date string helpers", () => {
+  it("adds days across month and year boundaries", () => {
+    expect(addDaysToDateStr("2024-02-28", 2)).toBe("2024-03-01");
+    expect(addDaysToDateStr("2024-01-01", -1)).toBe("2023-12-31");
+  });
+
+  it("counts whole calendar days", () => {
+    expect(diffDateStrs("2024-03-09", "2024-03-11")).toBe(2);
+    expect(diffDateStrs("2024-03-11", "2024-03-09")).toBe(-2);
+  });
+
+  it("finds the start of the week for either week start", () => {
+    // 2024-03-13 is a Wednesday
+    expect(startOfWeekDateStr("2024-03-13", 0)).toBe("2024-03-10");
+    expect(startOfWeekDateStr("2024-03-13", 1)).toBe("2024-03-11");
+    expect(startOfWeekDateStr("2024-03-10", 1)).toBe("2024-03-04");
+  });
+});
+
+describe("startOfZonedDay", () => {
+  it("resolves local midnight with the offset in effect that day", () => {
+    expect(startOfZonedDay("2024-01-15", NY).toISOString()).toBe("2024-01-15T05:00:00.000Z");
+    expect(startOfZonedDay("2024-07-15", NY).toISOString()).toBe("2024-07-15T04:00:00.000Z");
+  });
+
+  it("produces 23- and 25-hour days on DST transitions", () => {
+    const springForward = zonedDayRange("2024-03-10", "2024-03-10", NY);
+    expect(springForward.end.getTime() + 1 - springForward.start.getTime()).toBe(23 * HOUR_MS);
+
+    const fallBack = zonedDayRange("2024-11-03", "2024-11-03", NY);
+    expect(fallBack.end.getTime() + 1 - fallBack.start.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it("uses the first existing instant when midnight is skipped", () => {
+    // Chile moved clocks from 00:00 to 01:00 on 2024-09-08
+    const start = startOfZonedDay("2024-09-08", "America/Santiago");
+    expect(start.toISOString()).toBe("2024-09-08T04:00:00.000Z");
+    expect(toZonedDateStr(start, "America/Santiago")).toBe("2024-09-08");
+  });
+});
+
+describe("getPeriodStarts", () => {
+  // Wednesday after the US spring-forward change
+  const now = new Date("2024-03-13T12:00:00Z");
+
+  it("uses the pre-DST offset for a Sunday week start", () => {
+    const starts = getPeriodStarts(now, { timezone: NY, weekStartsOn: 0 });
+    expect(starts.today.toISOString()).toBe("2024-03-13T04:00:00.000Z");
+    expect(starts.week.toISOString()).toBe("2024-03-10T05:00:00.000Z");
+    expect(starts.month.toISOString()).toBe("2024-03-01T05:00:00.000Z");
+  });
+
+  it("honours a Monday week start", () => {
+    const starts = getPeriodStarts(now, { timezone: NY, weekStartsOn: 1 });
+    expect(starts.week.toISOString()).toBe("2024-03-11T04:00:00.000Z");
+  });
+
+  it("rolls the day over in zones ahead of UTC", () => {
+    const lateUtc = new Date("2024-03-13T23:30:00Z");
+    const starts = getPeriodStarts(lateUtc, { timezone: "Asia/Kolkata", weekStartsOn: 1 });
+    expect(starts.today.toISOString()).toBe("2024-03-13T18:30:00.000Z");
+  });
+});
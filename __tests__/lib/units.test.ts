@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { compatibleUnits, conversionFactor, convertValue, toExchangeRates } from "@/lib/units";
+
+const RATES = toExchangeRates({
+  base: "USD",
+  rates: [
+    { currency: "EUR", rate: 0.5 },
+    { currency: "GBP", rate: 0.25 },
+  ],
+});
+
+describe("units", () => {
+  it("converts within a dimension", () => {
+    expect(convertValue(5, "km", "m")).toBe(5000);
+    expect(convertValue(1, "mi", "km")).toBe(1.609344);
+    expect(convertValue(90, "min", "h")).toBe(1.5);
+    expect(convertValue(2, "lb", "g")).toBe(907.18474);
+  });
+
+  it("refuses to convert across dimensions or unknown units", () => {
+    expect(conversionFactor("km", "kg")).toBeNull();
+    expect(conversionFactor("km", "parsec")).toBeNull();
+    expect(compatibleUnits("L").every((unit) => unit.dimension === "volume")).toBe(true);
+    expect(compatibleUnits(null)).toEqual([]);
+  });
+
+  it("converts currencies through the base currency", () => {
+    expect(convertValue(10, "USD", "EUR", RATES)).toBe(5);
+    expect(convertValue(10, "EUR", "GBP", RATES)).toBe(5);
+    expect(convertValue(10, "GBP", "USD", RATES)).toBe(40);
+    // No rate for JPY, and none at all without a table
+    expect(convertValue(10, "JPY", "USD", RATES)).toBeNull();
+    expect(convertValue(10, "EUR", "USD")).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock Prisma
+vi.mock("@/lib/db/prisma", () => ({
+  default: {
+    webhookDelivery: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import prisma from "@/lib/db/prisma";
+import {
+  deliverWebhook,
+  MAX_DELIVERY_ATTEMPTS,
+  resumeOrphanedDeliveries,
+  retryDelayMs,
+} from "@/lib/webhooks/dispatch";
+import { signWebhookPayload, verifyWebhookSignature } from "@/lib/webhooks/signature";
+
+const mockPrisma = vi.mocked(prisma, true);
+const WEBHOOK = { id: "hook-1", url: "https://example.com/hook", secret: "whsec_test" };
+const BODY = JSON.stringify({ event: "entry.created" });
+
+describe("webhook signatures", () => {
+  const now = 1_714_557_600_000;
+  const timestamp = now / 1000;
+
+  it("verifies its own signatures", () => {
+    const header = signWebhookPayload(WEBHOOK.secret, BODY, timestamp);
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(WEBHOOK.secret, BODY, header, 300, now)).toBe(true);
+  });
+
+  it("rejects tampered bodies, wrong secrets and stale timestamps", () => {
+    const header = signWebhookPayload(WEBHOOK.secret, BODY, timestamp);
+    expect(verifyWebhookSignature(WEBHOOK.secret, `${BODY} `, header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", BODY, header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(WEBHOOK.secret, BODY, header, 300, now + 600_000)).toBe(false);
+  });
+});
+
+describe("deliverWebhook", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", fetchMock);
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: "delivery-1" } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("backs off exponentially", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([1000, 5000, 25000, 125000]);
+  });
+
+  it("retries server errors and records the final success", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const done = deliverWebhook(WEBHOOK, "entry.created", BODY);
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(headers["X-HTasker-Event"]).toBe("entry.created");
+    expect(headers["X-HTasker-Signature"]).toMatch(/^t=\d+,v1=/);
+    const payload = JSON.parse(init.body as string) as { event: string };
+    expect(payload.event).toBe("entry.created");
+
+    const updates = mockPrisma.webhookDelivery.update.mock.calls.map(([args]) => args.data);
+    expect(updates.map((data) => data.status)).toEqual(["PENDING", "PENDING", "SUCCEEDED"]);
+    expect(updates[1]).toMatchObject({
+      attempts: 2,
+      responseStatus: null,
+      error: "socket hang up",
+    });
+    expect(updates[2]).toMatchObject({ attempts: 3, responseStatus: 204, error: null });
+  });
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 410 }));
+
+    await deliverWebhook(WEBHOOK, "entry.created", BODY);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: "delivery-1" },
+      data: expect.objectContaining({ status: "FAILED", responseStatus: 410, error: "HTTP 410" }),
+    });
+  });
+
+  it(`gives up after ${MAX_DELIVERY_ATTEMPTS} attempts`, async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 500 }));
+
+    const done = deliverWebhook(WEBHOOK, "entry.created", BODY);
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenLastCalledWith({
+      where: { id: "delivery-1" },
+      data: expect.objectContaining({ status: "FAILED", attempts: MAX_DELIVERY_ATTEMPTS }),
+    });
+  });
+
+  it("resumes a delivery whose retry was interrupted, from the next attempt", async () => {
+    const nextAttemptAt = new Date(Date.now() - 10 * 60 * 1000);
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+      {
+        id: "delivery-1",
+        event: "entry.created",
+        payload: BODY,
+        attempts: 2,
+        nextAttemptAt,
+        webhook: WEBHOOK,
+      },
+    ] as any);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await resumeOrphanedDeliveries("user-1");
+
+    expect(mockPrisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: "delivery-1", status: "PENDING", nextAttemptAt },
+      data: { nextAttemptAt: expect.any(Date) },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: "delivery-1" },
+      data: expect.objectContaining({ status: "SUCCEEDED", attempts: 3, nextAttemptAt: null }),
+    });
+  });
+
+  it("leaves a delivery another sweep claimed first", async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+      {
+        id: "delivery-1",
+        event: "entry.created",
+        payload: BODY,
+        attempts: 1,
+        nextAttemptAt: new Date(0),
+        webhook: WEBHOOK,
+      },
+    ] as any);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await resumeOrphanedDeliveries("user-1");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -74,7 +74,12 @@ export default function TaskDetailPage() {
       </div>
 
       <div className="bg-background flex-1 pb-12">
-        <TaskDetailContent task={task} boardId={boardId} isSheet={false} />
+        <TaskDetailContent
+          task={task}
+          boardId={boardId}
+          isSheet={false}
+          readOnly={board.role === "VIEWER"}
+        />
       </div>
     </div>
   );
@@ -3,10 +3,15 @@ import { BadgeDollarSign, CalendarRange, Clock3, Hash } from "lucide-react";
 import RecentTrackers from "@/components/features/dashboard/RecentTrackers";
 // import SummaryStats from "@/components/features/dashboard/SummaryStats";
 import PinnedTrackers from "@/components/features/dashboard/PinnedTrackers";
+import SharedTrackers from "@/components/features/trackers/SharedTrackers";
+import TimerReviewPrompt from "@/components/features/dashboard/TimerReviewPrompt";
 
 export default function DashboardPage() {
   return (
     <div className="space-y-6">
+      {/* Forgotten or overlong timers to fix */}
+      <TimerReviewPrompt />
+
       {/* Pinned trackers widget */}
       <PinnedTrackers />
 
@@ -15,6 +20,9 @@ export default function DashboardPage() {
 
       {/* Recent trackers */}
       <RecentTrackers />
+
+      {/* Trackers shared with the current user */}
+      <SharedTrackers />
     </div>
   );
 }
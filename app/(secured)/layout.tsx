@@ -1,6 +1,7 @@
 "use client";
 
 import ServiceWorkerRegistration from "@/components/features/pwa/ServiceWorkerRegistration";
+import QueryCachePersistence from "@/components/features/pwa/QueryCachePersistence";
 import InstallPrompt from "@/components/features/pwa/InstallPrompt";
 import OfflineIndicator from "@/components/features/pwa/OfflineIndicator";
 import BottomNav from "@/components/features/navigation/BottomNav";
@@ -17,6 +18,7 @@ import {
   Download,
   KeyRound,
   KanbanSquare,
+  ReceiptText,
 } from "lucide-react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 
@@ -37,6 +39,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
   return (
     <QueryClientProvider client={queryClient}>
       <ServiceWorkerRegistration />
+      <QueryCachePersistence />
       {/* Skip-to-content link for keyboard users */}
       <a
         href="#main-content"
@@ -147,6 +150,12 @@ export default function AppLayout({ children }: AppLayoutProps) {
               label="Statistics"
               isActive={isActive("/stats")}
             />
+            <NavItem
+              href="/timesheet"
+              icon={<ReceiptText className="h-5 w-5" />}
+              label="Timesheet"
+              isActive={isActive("/timesheet")}
+            />
             <NavItem
               href="/settings/profile"
               icon={<SettingsIcon />}
@@ -162,7 +171,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
             <NavItem
               href="/settings/api-tokens"
               icon={<KeyRound className="h-5 w-5" />}
-              label="API Tokens"
+              label="API & Webhooks"
               isActive={isActive("/settings/api-tokens")}
             />
           </nav>
@@ -1,7 +1,9 @@
 import { auth } from "@/auth";
 import { redirect } from "next/navigation";
 import { listApiTokens } from "@/app/actions/api-tokens";
+import { listWebhooks } from "@/app/actions/webhooks";
 import ApiTokensSection from "@/components/features/settings/ApiTokensSection";
+import WebhooksSection from "@/components/features/settings/WebhooksSection";
 
 export default async function ApiTokensPage() {
   const session = await auth();
@@ -9,8 +11,9 @@ export default async function ApiTokensPage() {
     redirect("/login");
   }
 
-  const result = await listApiTokens();
-  const tokens = result.success ? result.data : [];
+  const [tokensResult, webhooksResult] = await Promise.all([listApiTokens(), listWebhooks()]);
+  const tokens = tokensResult.success ? tokensResult.data : [];
+  const webhooks = webhooksResult.success ? webhooksResult.data : [];
 
   return (
     <div className="max-w-3xl space-y-6">
@@ -23,6 +26,16 @@ export default async function ApiTokensPage() {
       <div className="bg-background border-border rounded-lg border p-6">
         <ApiTokensSection initialTokens={tokens} />
       </div>
+
+      <div>
+        <h2 className="text-xl font-semibold">Webhooks</h2>
+        <p className="text-muted-foreground mt-1">
+          Send tracker activity to home automation, spreadsheets or your own services
+        </p>
+      </div>
+      <div className="bg-background border-border rounded-lg border p-6">
+        <WebhooksSection initialWebhooks={webhooks} />
+      </div>
     </div>
   );
 }
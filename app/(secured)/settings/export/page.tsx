@@ -1,4 +1,6 @@
 import ExportSection from "@/components/features/settings/ExportSection";
+import BackupSection from "@/components/features/settings/BackupSection";
+import StatisticsSection from "@/components/features/settings/StatisticsSection";
 
 export default function ExportPage() {
   return (
@@ -6,10 +8,12 @@ export default function ExportPage() {
       <div>
         <h1 className="text-2xl font-semibold">Export Data</h1>
         <p className="text-foreground/70 mt-1">
-          Download your tracker data as CSV files
+          Back up your whole account or download tracker data as CSV files
         </p>
       </div>
+      <BackupSection />
       <ExportSection />
+      <StatisticsSection />
     </div>
   );
 }
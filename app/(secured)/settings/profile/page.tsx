@@ -1,13 +1,22 @@
 import { auth } from "@/auth";
 import { redirect } from "next/navigation";
 import ProfileForm from "@/components/features/settings/ProfileForm";
+import TimerSettingsForm from "@/components/features/settings/TimerSettingsForm";
+import ExchangeRatesForm from "@/components/features/settings/ExchangeRatesForm";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import { getUserTimerPolicy } from "@/lib/users/timer-policy";
 
 export default async function ProfilePage() {
   const session = await auth();
-  if (!session?.user) {
+  if (!session?.user?.id) {
     redirect("/login");
   }
 
+  const [timeSettings, timerPolicy] = await Promise.all([
+    getUserTimeSettings(session.user.id),
+    getUserTimerPolicy(session.user.id),
+  ]);
+
   return (
     <div className="max-w-2xl space-y-6">
       <div>
@@ -20,9 +29,29 @@ export default async function ProfilePage() {
         <ProfileForm
           initialName={session.user.name ?? ""}
           initialImage={session.user.image ?? ""}
+          initialTimezone={timeSettings.timezone}
+          initialWeekStartsOn={timeSettings.weekStartsOn}
           email={session.user.email ?? ""}
         />
       </div>
+      <div className="bg-background border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Timers</h2>
+          <p className="text-muted-foreground text-sm">
+            Running timers and what happens to ones left on too long
+          </p>
+        </div>
+        <TimerSettingsForm initialPolicy={timerPolicy} />
+      </div>
+      <div className="bg-background border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Currencies</h2>
+          <p className="text-muted-foreground text-sm">
+            Exchange rates used to convert amounts logged in other currencies
+          </p>
+        </div>
+        <ExchangeRatesForm />
+      </div>
     </div>
   );
 }
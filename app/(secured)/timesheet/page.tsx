@@ -0,0 +1,20 @@
+import TimesheetReport from "@/components/features/timesheet/TimesheetReport";
+import BillingRatesEditor from "@/components/features/timesheet/BillingRatesEditor";
+
+export default function TimesheetPage() {
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold">Timesheet</h1>
+        <p className="text-muted-foreground mt-1">
+          Billable time from your timers, by week, tracker and tag
+        </p>
+      </div>
+
+      <TimesheetReport />
+
+      <BillingRatesEditor />
+    </div>
+  );
+}
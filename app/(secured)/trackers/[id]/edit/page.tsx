@@ -12,8 +12,8 @@ export default async function EditTrackerPage({ params }: { params: Promise<{ id
   // Fetch the tracker by ID
   const response = await getTracker(resolvedParams.id);
 
-  // Handle not found
-  if (!response.success) {
+  // Handle not found; only the owner can edit a shared tracker
+  if (!response.success || (response.data.accessRole && response.data.accessRole !== "OWNER")) {
     return notFound();
   }
 
@@ -8,6 +8,8 @@ import DeleteTrackerButton from "@/components/features/trackers/DeleteTrackerBut
 import GoalForm from "@/components/features/trackers/GoalForm";
 import GoalProgress from "@/components/features/trackers/GoalProgress";
 import TrackerDetailCharts from "@/components/features/trackers/TrackerDetailCharts";
+import TrackerShareButton from "@/components/features/trackers/TrackerShareButton";
+import ImportEntriesDialog from "@/components/features/trackers/ImportEntriesDialog";
 
 export default async function TrackerDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = await params;
@@ -21,6 +23,8 @@ export default async function TrackerDetailPage({ params }: { params: Promise<{
   }
 
   const tracker = response.data;
+  const isOwner = !tracker.accessRole || tracker.accessRole === "OWNER";
+  const canAddEntries = tracker.accessRole !== "VIEWER";
 
   return (
     <div className="space-y-6">
@@ -48,13 +52,25 @@ export default async function TrackerDetailPage({ params }: { params: Promise<{
             Back to trackers
           </Link>
           <h1 className="mt-1 text-2xl font-semibold">Tracker Details</h1>
+          {!isOwner && tracker.sharedBy && (
+            <p className="text-muted-foreground mt-1 text-sm">
+              Shared by {tracker.sharedBy.name || tracker.sharedBy.email} &middot;{" "}
+              {tracker.accessRole === "CONTRIBUTOR" ? "Contributor" : "Viewer"}
+            </p>
+          )}
         </div>
 
         <div className="flex gap-2">
-          <Link href={`/trackers/${resolvedParams.id}/edit`}>
-            <Button variant="outline">Edit</Button>
-          </Link>
-          <DeleteTrackerButton trackerId={resolvedParams.id} />
+          {canAddEntries && <ImportEntriesDialog tracker={tracker} />}
+          <TrackerShareButton tracker={tracker} />
+          {isOwner && (
+            <>
+              <Link href={`/trackers/${resolvedParams.id}/edit`}>
+                <Button variant="outline">Edit</Button>
+              </Link>
+              <DeleteTrackerButton trackerId={resolvedParams.id} />
+            </>
+          )}
         </div>
       </div>
 
@@ -95,8 +111,8 @@ export default async function TrackerDetailPage({ params }: { params: Promise<{
 
       {/* Goal setting and progress */}
       <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-        <GoalForm tracker={tracker} />
-        {tracker.goalEnabled && <GoalProgress tracker={tracker} />}
+        {isOwner && <GoalForm tracker={tracker} />}
+        <GoalProgress tracker={tracker} canEdit={isOwner} />
       </div>
 
       {/* Tracker view component */}
@@ -6,6 +6,7 @@ import { TrackerStatus, TrackerType } from "@/types";
 import TrackerFilters from "@/components/features/trackers/TrackerFilters";
 import TrackerListClient from "@/components/features/trackers/TrackerListClient";
 import Pagination from "@/components/features/trackers/Pagination";
+import SharedTrackers from "@/components/features/trackers/SharedTrackers";
 
 const PAGE_LIMIT_DEFAULT = 10;
 
@@ -147,6 +148,9 @@ export default async function TrackersPage({
           </div>
         )}
       </div>
+
+      {/* Trackers other users have shared */}
+      <SharedTrackers />
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { randomBytes, createHash } from "crypto";
 import { revalidatePath } from "next/cache";
 import prisma from "@/lib/db/prisma";
 import { auth } from "@/auth";
+import { API_TOKEN_SCOPE_VALUES, isApiTokenScopeGrant } from "@/types";
 
 export type ApiTokenActionResponse<T = unknown> =
   | { success: true; data: T }
@@ -14,6 +15,8 @@ export interface ApiTokenSummary {
   id: string;
   name: string;
   tokenPrefix: string;
+  scopes: string[];
+  trackerIds: string[];
   lastUsedAt: Date | null;
   createdAt: Date;
   expiresAt: Date | null;
@@ -30,9 +33,14 @@ export interface GeneratedToken {
 const GenerateTokenSchema = z.object({
   name: z.string().min(1, "Token name is required").max(50, "Name cannot exceed 50 characters"),
   expiresInDays: z.number().int().min(1).max(365).optional().nullable(),
+  scopes: z
+    .array(z.string().refine(isApiTokenScopeGrant, { message: "Unknown scope" }))
+    .min(1, "Select at least one scope")
+    .default([...API_TOKEN_SCOPE_VALUES]),
+  trackerIds: z.array(z.string().min(1)).max(50, "Select at most 50 trackers").default([]),
 });
 
-export type GenerateTokenInput = z.infer<typeof GenerateTokenSchema>;
+export type GenerateTokenInput = z.input<typeof GenerateTokenSchema>;
 
 import { requireUserId } from "@/lib/auth/server";
 
@@ -62,8 +70,23 @@ export async function generateApiToken(
       if (count >= 10) {
         throw new Error("TOKEN_LIMIT_EXCEEDED");
       }
+      const trackerIds = Array.from(new Set(validated.trackerIds));
+      if (trackerIds.length > 0) {
+        const owned = await tx.tracker.count({ where: { id: { in: trackerIds }, userId } });
+        if (owned !== trackerIds.length) {
+          throw new Error("TRACKER_NOT_FOUND");
+        }
+      }
       return tx.apiToken.create({
-        data: { userId, name: validated.name, tokenHash, tokenPrefix, expiresAt },
+        data: {
+          userId,
+          name: validated.name,
+          tokenHash,
+          tokenPrefix,
+          expiresAt,
+          scopes: Array.from(new Set(validated.scopes)),
+          trackerIds,
+        },
       });
     });
 
@@ -86,6 +109,9 @@ export async function generateApiToken(
         error: error.issues.map((e) => e.message).join(", "),
       };
     }
+    if (error instanceof Error && error.message === "TRACKER_NOT_FOUND") {
+      return { success: false, error: "One or more selected trackers were not found." };
+    }
     if (error instanceof Error && error.message === "TOKEN_LIMIT_EXCEEDED") {
       return {
         success: false,
@@ -110,6 +136,8 @@ export async function listApiTokens(): Promise<ApiTokenActionResponse<ApiTokenSu
         id: true,
         name: true,
         tokenPrefix: true,
+        scopes: true,
+        trackerIds: true,
         lastUsedAt: true,
         createdAt: true,
         expiresAt: true,
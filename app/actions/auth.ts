@@ -5,6 +5,7 @@ import bcrypt from "bcrypt";
 import { prisma } from "@/lib/db/prisma";
 import { auth, signOut } from "@/auth";
 import { revalidatePath } from "next/cache";
+import { isValidTimeZone } from "@/lib/timezone";
 
 export type AuthActionResponse<T = unknown> =
   | { success: true; data: T }
@@ -61,6 +62,8 @@ export async function registerUser(
 const UpdateProfileSchema = z.object({
   name: z.string().min(1, "Name is required").max(100),
   image: z.string().url("Invalid URL").optional().nullable(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  weekStartsOn: z.union([z.literal(0), z.literal(1)]).optional(),
 });
 
 export type UpdateProfileInput = z.infer<typeof UpdateProfileSchema>;
@@ -84,6 +87,8 @@ export async function updateUserProfile(
       data: {
         name: validated.name,
         image: validated.image ?? null,
+        ...(validated.timezone !== undefined && { timezone: validated.timezone }),
+        ...(validated.weekStartsOn !== undefined && { weekStartsOn: validated.weekStartsOn }),
       },
     });
 
@@ -0,0 +1,496 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  RESTORE_MODES,
+  parseBackupArchive,
+  type BackupArchive,
+  type BackupArchiveInput,
+  type RestoreMode,
+  type RestoreSummary,
+} from "@/lib/backup";
+import { recalculateTrackerStatistics } from "@/lib/trackers/statistics";
+import { readCustomFieldValues } from "@/lib/trackers/custom-fields";
+import {
+  isGoalKind,
+  isGoalPeriod,
+  toGoalAlignment,
+  type GoalKind,
+  type GoalPeriod,
+} from "@/lib/trackers/goals";
+import { parseHabitSchedule } from "@/lib/trackers/habits";
+import type { DerivedFormulaConfig } from "@/lib/trackers/formula";
+import { tracksUnits } from "@/lib/units";
+import { isCustomFieldType, type CustomFieldType } from "@/types";
+import type { Prisma } from "@/app/generated/prisma";
+
+export type BackupActionResponse<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// Large accounts need more than the default 5s interactive transaction
+const RESTORE_TIMEOUT_MS = 120_000;
+
+const iso = (date: Date | null): string | null => (date ? date.toISOString() : null);
+
+/**
+ * Build a full-account JSON archive of the user's own trackers (with entries)
+ * and boards (with columns and tasks). Shared items are not included.
+ */
+export async function exportBackup(): Promise<
+  BackupActionResponse<{ json: string; filename: string }>
+> {
+  try {
+    const userId = await requireUserId();
+
+    const [trackers, boards] = await Promise.all([
+      prisma.tracker.findMany({
+        where: { userId },
+        include: {
+          entries: { orderBy: { date: "asc" } },
+          goals: { orderBy: { createdAt: "asc" } },
+          skips: { orderBy: { date: "asc" } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.board.findMany({
+        where: { userId },
+        include: {
+          columns: { orderBy: { order: "asc" } },
+          tasks: { orderBy: { order: "asc" } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const archive: BackupArchiveInput = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      trackers: trackers.map((tracker) => ({
+        id: tracker.id,
+        name: tracker.name,
+        description: tracker.description,
+        type: tracker.type,
+        status: tracker.status,
+        tags: tracker.tags,
+        color: tracker.color,
+        icon: tracker.icon,
+        isPinned: tracker.isPinned,
+        goalEnabled: tracker.goalEnabled,
+        goalValue: tracker.goalValue,
+        goalPeriod: tracker.goalPeriod,
+        goalUnit: tracker.goalUnit,
+        fields: tracker.fields.filter((field): field is typeof field & { type: CustomFieldType } =>
+          isCustomFieldType(field.type)
+        ),
+        pomodoro: tracker.pomodoro,
+        schedule: parseHabitSchedule(tracker.schedule),
+        hourlyRate: tracker.hourlyRate,
+        unit: tracker.unit,
+        formula: tracker.formula,
+        goals: tracker.goals
+          .filter(
+            (goal): goal is typeof goal & { kind: GoalKind; period: GoalPeriod } =>
+              isGoalKind(goal.kind) && isGoalPeriod(goal.period)
+          )
+          .map((goal) => ({
+            kind: goal.kind,
+            value: goal.value,
+            period: goal.period,
+            alignment: toGoalAlignment(goal.alignment),
+            unit: goal.unit,
+            history: goal.history,
+            createdAt: goal.createdAt.toISOString(),
+          })),
+        skips: tracker.skips.map((skip) => ({ date: skip.date, reason: skip.reason })),
+        createdAt: tracker.createdAt.toISOString(),
+        entries: tracker.entries.map((entry) => ({
+          id: entry.id,
+          startTime: iso(entry.startTime),
+          endTime: iso(entry.endTime),
+          value: entry.value,
+          enteredValue: entry.enteredValue,
+          enteredUnit: entry.enteredUnit,
+          date: entry.date.toISOString(),
+          note: entry.note,
+          tags: entry.tags,
+          taskId: entry.taskId,
+          fields: entry.fields ? readCustomFieldValues(entry.fields) : null,
+          breaks: entry.breaks.map((segment) => ({
+            start: segment.start.toISOString(),
+            end: iso(segment.end),
+          })),
+          pomodoro: entry.pomodoro,
+          overrun: entry.overrun,
+          createdAt: entry.createdAt.toISOString(),
+        })),
+      })),
+      boards: boards.map((board) => ({
+        id: board.id,
+        name: board.name,
+        description: board.description,
+        createdAt: board.createdAt.toISOString(),
+        columns: board.columns.map((column) => ({
+          id: column.id,
+          name: column.name,
+          order: column.order,
+        })),
+        tasks: board.tasks.map((task) => ({
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          order: task.order,
+          startDate: iso(task.startDate),
+          dueDate: iso(task.dueDate),
+          priority: task.priority,
+          recurrence: task.recurrence,
+          columnId: task.columnId,
+          createdAt: task.createdAt.toISOString(),
+        })),
+      })),
+    };
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    return {
+      success: true,
+      data: { json: JSON.stringify(archive, null, 2), filename: `htasker-backup-${stamp}.json` },
+    };
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to export backup" };
+  }
+}
+
+/**
+ * Restore an archive produced by exportBackup.
+ *
+ * - `replace` deletes all of the user's own trackers and boards first.
+ * - `merge` keeps existing data: trackers are matched by name and type,
+ *   boards by name, columns by name within a board. Entries and tasks that
+ *   already exist in a matched parent are skipped, so restoring the same
+ *   archive twice is a no-op.
+ *
+ * Everything runs in one transaction; a failure leaves the account unchanged.
+ */
+export async function restoreBackup(
+  archiveText: string,
+  mode: RestoreMode
+): Promise<BackupActionResponse<RestoreSummary>> {
+  try {
+    const userId = await requireUserId();
+    const validatedMode = z.enum(RESTORE_MODES).parse(mode);
+
+    const parsed = parseBackupArchive(archiveText);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error };
+    }
+
+    const summary = await prisma.$transaction(
+      async (tx) => {
+        if (validatedMode === "replace") {
+          await deleteOwnedData(tx, userId);
+        }
+        return importArchive(tx, userId, parsed.data, validatedMode === "merge");
+      },
+      { timeout: RESTORE_TIMEOUT_MS }
+    );
+
+    revalidatePath("/trackers");
+    revalidatePath("/boards");
+    revalidatePath("/dashboard");
+    return { success: true, data: summary };
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid restore mode" };
+    }
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to restore backup" };
+  }
+}
+
+// deleteMany does not run Prisma's emulated cascades on MongoDB, so children
+// are removed explicitly before their parents.
+async function deleteOwnedData(tx: Prisma.TransactionClient, userId: string) {
+  await tx.trackerEntry.deleteMany({ where: { tracker: { userId } } });
+  await tx.trackerShare.deleteMany({ where: { tracker: { userId } } });
+  await tx.goal.deleteMany({ where: { tracker: { userId } } });
+  await tx.habitSkip.deleteMany({ where: { tracker: { userId } } });
+  await tx.tracker.deleteMany({ where: { userId } });
+
+  await tx.boardTask.deleteMany({ where: { board: { userId } } });
+  await tx.boardColumn.deleteMany({ where: { board: { userId } } });
+  await tx.boardMember.deleteMany({ where: { board: { userId } } });
+  await tx.board.deleteMany({ where: { userId } });
+}
+
+/** Identity of an entry for merge de-duplication */
+function entryKey(entry: {
+  date: Date;
+  value: number | null;
+  startTime: Date | null;
+  endTime: Date | null;
+  note: string | null;
+}): string {
+  return [
+    entry.date.getTime(),
+    entry.value ?? "",
+    entry.startTime?.getTime() ?? "",
+    entry.endTime?.getTime() ?? "",
+    entry.note ?? "",
+  ].join("|");
+}
+
+async function importArchive(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  archive: BackupArchive,
+  merge: boolean
+): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    trackers: 0,
+    entries: 0,
+    boards: 0,
+    columns: 0,
+    tasks: 0,
+    skipped: 0,
+  };
+  // Archive task ID → new task ID, used to relink timer entries
+  const taskIds = new Map<string, string>();
+
+  // Boards first so entries can be relinked to their tasks
+  for (const board of archive.boards) {
+    const existing = merge
+      ? await tx.board.findFirst({ where: { userId, name: board.name }, select: { id: true } })
+      : null;
+
+    let boardId: string;
+    if (existing) {
+      boardId = existing.id;
+      summary.skipped++;
+    } else {
+      const created = await tx.board.create({
+        data: {
+          name: board.name,
+          description: board.description,
+          userId,
+          ...(board.createdAt && { createdAt: board.createdAt }),
+          members: { create: { userId, role: "OWNER" } },
+        },
+        select: { id: true },
+      });
+      boardId = created.id;
+      summary.boards++;
+    }
+
+    const currentColumns = existing
+      ? await tx.boardColumn.findMany({
+          where: { boardId },
+          select: { id: true, name: true, order: true },
+        })
+      : [];
+    const orderOffset = currentColumns.reduce((max, column) => Math.max(max, column.order + 1), 0);
+
+    const columnIds = new Map<string, string>();
+    for (const column of board.columns) {
+      const match = currentColumns.find((c) => c.name === column.name);
+      if (match) {
+        columnIds.set(column.id, match.id);
+        summary.skipped++;
+        continue;
+      }
+      const created = await tx.boardColumn.create({
+        data: { name: column.name, order: column.order + orderOffset, boardId },
+        select: { id: true },
+      });
+      columnIds.set(column.id, created.id);
+      summary.columns++;
+    }
+
+    const currentTasks = existing
+      ? await tx.boardTask.findMany({
+          where: { boardId },
+          select: { id: true, title: true, columnId: true },
+        })
+      : [];
+
+    for (const task of board.tasks) {
+      const columnId = columnIds.get(task.columnId);
+      if (!columnId) continue; // unreachable: the schema checks column references
+      const match = currentTasks.find((t) => t.columnId === columnId && t.title === task.title);
+      if (match) {
+        taskIds.set(task.id, match.id);
+        summary.skipped++;
+        continue;
+      }
+      const created = await tx.boardTask.create({
+        data: {
+          title: task.title,
+          description: task.description,
+          order: task.order,
+          startDate: task.startDate,
+          dueDate: task.dueDate,
+          priority: task.priority,
+          recurrence: task.recurrence,
+          columnId,
+          boardId,
+          ...(task.createdAt && { createdAt: task.createdAt }),
+        },
+        select: { id: true },
+      });
+      taskIds.set(task.id, created.id);
+      summary.tasks++;
+    }
+  }
+
+  // Archive → new tracker IDs, and derived trackers whose formulas still
+  // point at archive IDs
+  const trackerIds = new Map<string, string>();
+  const formulas: { trackerId: string; formula: DerivedFormulaConfig }[] = [];
+
+  for (const tracker of archive.trackers) {
+    const existing = merge
+      ? await tx.tracker.findFirst({
+          where: { userId, name: tracker.name, type: tracker.type },
+          select: { id: true },
+        })
+      : null;
+
+    let trackerId: string;
+    if (existing) {
+      trackerId = existing.id;
+      summary.skipped++;
+    } else {
+      const created = await tx.tracker.create({
+        data: {
+          name: tracker.name,
+          description: tracker.description,
+          type: tracker.type,
+          status: tracker.status,
+          tags: tracker.tags,
+          color: tracker.color,
+          icon: tracker.icon,
+          isPinned: tracker.isPinned,
+          goalEnabled: tracker.goalEnabled,
+          goalValue: tracker.goalValue,
+          goalPeriod: tracker.goalPeriod,
+          goalUnit: tracker.goalUnit,
+          fields: tracker.fields,
+          pomodoro: tracker.type === "TIMER" ? tracker.pomodoro : null,
+          schedule: tracker.type === "OCCURRENCE" ? tracker.schedule : null,
+          hourlyRate: tracker.type === "TIMER" ? tracker.hourlyRate : null,
+          unit: tracksUnits(tracker.type) ? tracker.unit : null,
+          userId,
+          ...(tracker.createdAt && { createdAt: tracker.createdAt }),
+        },
+        select: { id: true },
+      });
+      trackerId = created.id;
+      summary.trackers++;
+      if (tracker.type === "DERIVED" && tracker.formula) {
+        formulas.push({ trackerId, formula: tracker.formula });
+      }
+
+      const goals = tracker.goals.filter(
+        (goal) => goal.kind !== "streak" || tracker.type === "OCCURRENCE"
+      );
+      if (goals.length > 0) {
+        await tx.goal.createMany({
+          data: goals.map((goal) => ({
+            trackerId,
+            kind: goal.kind,
+            value: goal.value,
+            period: goal.period,
+            alignment: goal.alignment,
+            unit: goal.unit,
+            history: goal.history,
+            ...(goal.createdAt && { createdAt: goal.createdAt }),
+          })),
+        });
+      }
+      if (tracker.type === "OCCURRENCE" && tracker.schedule && tracker.skips.length > 0) {
+        await tx.habitSkip.createMany({
+          data: tracker.skips.map((skip) => ({
+            trackerId,
+            date: skip.date,
+            reason: skip.reason ?? null,
+          })),
+        });
+      }
+    }
+
+    const currentKeys = new Set(
+      existing
+        ? (
+            await tx.trackerEntry.findMany({
+              where: { trackerId },
+              select: { date: true, value: true, startTime: true, endTime: true, note: true },
+            })
+          ).map(entryKey)
+        : []
+    );
+
+    const entries = tracker.entries.filter((entry) => !currentKeys.has(entryKey(entry)));
+    summary.skipped += tracker.entries.length - entries.length;
+
+    if (entries.length > 0) {
+      await tx.trackerEntry.createMany({
+        data: entries.map((entry) => ({
+          trackerId,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          value: entry.value,
+          enteredValue: entry.enteredValue,
+          enteredUnit: entry.enteredUnit,
+          date: entry.date,
+          note: entry.note,
+          tags: entry.tags,
+          taskId: entry.taskId ? (taskIds.get(entry.taskId) ?? null) : null,
+          createdById: userId,
+          breaks: entry.breaks,
+          pomodoro: entry.pomodoro,
+          overrun: entry.overrun,
+          ...(entry.fields && { fields: entry.fields }),
+          ...(entry.createdAt && { createdAt: entry.createdAt }),
+        })),
+      });
+      summary.entries += entries.length;
+    }
+
+    trackerIds.set(tracker.id, trackerId);
+    await recalculateTrackerStatistics(tx, trackerId, tracker.type);
+  }
+
+  // Formulas are restored once every tracker has its new ID; one that uses a
+  // tracker missing from the archive is left off
+  for (const { trackerId, formula } of formulas) {
+    const inputs = formula.inputs.map((input) => ({
+      name: input.name,
+      trackerId: trackerIds.get(input.trackerId),
+    }));
+    if (inputs.every((input) => input.trackerId)) {
+      await tx.tracker.update({
+        where: { id: trackerId },
+        data: {
+          formula: {
+            expression: formula.expression,
+            inputs: inputs.map((input) => ({ name: input.name, trackerId: input.trackerId! })),
+          },
+        },
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,223 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { BoardRole, isBoardRole } from "@/types";
+import type { BoardMember } from "@/types";
+
+import { requireUserId } from "@/lib/auth/server";
+import { getBoardRole, hasBoardRole } from "@/lib/boards/access";
+
+export type BoardMemberActionResponse<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const InviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum([BoardRole.EDITOR, BoardRole.VIEWER]),
+});
+
+const RoleSchema = z.enum([BoardRole.EDITOR, BoardRole.VIEWER]);
+
+export type InviteBoardMemberInput = z.infer<typeof InviteSchema>;
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+/**
+ * List everyone with access to a board, owner first. Boards created before
+ * membership rows existed have no OWNER row, so the owner is synthesized.
+ */
+export async function getBoardMembers(
+  boardId: string
+): Promise<BoardMemberActionResponse<BoardMember[]>> {
+  if (!boardId || boardId.trim() === "") {
+    return { success: false, error: "Board ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+
+    if (!(await getBoardRole(boardId, userId))) {
+      return { success: false, error: "Board not found" };
+    }
+
+    const board = await prisma.board.findUniqueOrThrow({
+      where: { id: boardId },
+      select: {
+        userId: true,
+        createdAt: true,
+        user: { select: USER_SELECT },
+        members: { include: { user: { select: USER_SELECT } }, orderBy: { createdAt: "asc" } },
+      },
+    });
+
+    const members: BoardMember[] = board.members
+      .filter((m) => m.userId !== board.userId)
+      .map((m) => ({
+        id: m.id,
+        boardId,
+        userId: m.userId,
+        role: isBoardRole(m.role) ? m.role : BoardRole.VIEWER,
+        user: m.user,
+        createdAt: m.createdAt,
+      }));
+
+    const ownerRow = board.members.find((m) => m.userId === board.userId);
+    const owner: BoardMember = {
+      id: ownerRow?.id ?? `owner-${boardId}`,
+      boardId,
+      userId: board.userId,
+      role: BoardRole.OWNER,
+      user: board.user,
+      createdAt: ownerRow?.createdAt ?? board.createdAt,
+    };
+
+    return { success: true, data: [owner, ...members] };
+  } catch (error) {
+    console.error("[board-members] Operation failed:", error);
+    return { success: false, error: "Failed to fetch board members" };
+  }
+}
+
+export async function inviteBoardMember(
+  boardId: string,
+  data: InviteBoardMemberInput
+): Promise<BoardMemberActionResponse<BoardMember>> {
+  if (!boardId || boardId.trim() === "") {
+    return { success: false, error: "Board ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const validated = InviteSchema.parse(data);
+
+    const role = await getBoardRole(boardId, userId);
+    if (!role) {
+      return { success: false, error: "Board not found" };
+    }
+    if (!hasBoardRole(role, BoardRole.OWNER)) {
+      return { success: false, error: "Only the board owner can invite members" };
+    }
+
+    const invitee = await prisma.user.findFirst({
+      where: { email: { equals: validated.email, mode: "insensitive" } },
+      select: USER_SELECT,
+    });
+    if (!invitee) {
+      return { success: false, error: "No user found with that email" };
+    }
+    if (await getBoardRole(boardId, invitee.id)) {
+      return { success: false, error: "This user already has access to the board" };
+    }
+
+    const member = await prisma.boardMember.create({
+      data: { boardId, userId: invitee.id, role: validated.role },
+    });
+
+    revalidatePath(`/boards/${boardId}`);
+    return {
+      success: true,
+      data: {
+        id: member.id,
+        boardId,
+        userId: invitee.id,
+        role: validated.role,
+        user: invitee,
+        createdAt: member.createdAt,
+      },
+    };
+  } catch (error) {
+    console.error("[board-members] Operation failed:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    return { success: false, error: "Failed to invite member" };
+  }
+}
+
+export async function updateBoardMemberRole(
+  memberId: string,
+  role: BoardRole
+): Promise<BoardMemberActionResponse<null>> {
+  if (!memberId || memberId.trim() === "") {
+    return { success: false, error: "Member ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const validatedRole = RoleSchema.parse(role);
+
+    const member = await prisma.boardMember.findFirst({
+      where: { id: memberId },
+      select: { boardId: true, role: true },
+    });
+    const callerRole = member ? await getBoardRole(member.boardId, userId) : null;
+    if (!member || !callerRole) {
+      return { success: false, error: "Member not found" };
+    }
+    if (!hasBoardRole(callerRole, BoardRole.OWNER)) {
+      return { success: false, error: "Only the board owner can change roles" };
+    }
+    if (member.role === BoardRole.OWNER) {
+      return { success: false, error: "The owner's role cannot be changed" };
+    }
+
+    await prisma.boardMember.update({
+      where: { id: memberId },
+      data: { role: validatedRole },
+    });
+
+    revalidatePath(`/boards/${member.boardId}`);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("[board-members] Operation failed:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid role" };
+    }
+    return { success: false, error: "Failed to update member role" };
+  }
+}
+
+/**
+ * Remove a member from a board. The owner can remove anyone else; other
+ * members can only remove themselves (leave). Their tasks are unassigned so
+ * a later edit does not silently re-add them.
+ */
+export async function removeBoardMember(
+  memberId: string
+): Promise<BoardMemberActionResponse<null>> {
+  if (!memberId || memberId.trim() === "") {
+    return { success: false, error: "Member ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+
+    const member = await prisma.boardMember.findFirst({
+      where: { id: memberId },
+      select: { boardId: true, userId: true, role: true },
+    });
+    const callerRole = member ? await getBoardRole(member.boardId, userId) : null;
+    if (!member || !callerRole) {
+      return { success: false, error: "Member not found" };
+    }
+    if (member.role === BoardRole.OWNER) {
+      return { success: false, error: "The board owner cannot be removed" };
+    }
+    if (member.userId !== userId && !hasBoardRole(callerRole, BoardRole.OWNER)) {
+      return { success: false, error: "Only the board owner can remove members" };
+    }
+
+    await prisma.$transaction([
+      prisma.boardTask.updateMany({
+        where: { boardId: member.boardId, assigneeId: member.userId },
+        data: { assigneeId: null },
+      }),
+      prisma.boardMember.delete({ where: { id: memberId } }),
+    ]);
+
+    revalidatePath("/boards");
+    revalidatePath(`/boards/${member.boardId}`);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("[board-members] Operation failed:", error);
+    return { success: false, error: "Failed to remove member" };
+  }
+}
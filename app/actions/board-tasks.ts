@@ -3,35 +3,53 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
-import type { BoardTask } from "@/types";
+import { BoardRole } from "@/types";
+import type { BoardTask, BreakSegment } from "@/types";
+import { TaskSchema } from "@/lib/boards/schemas";
+import { moveBoardTask } from "@/lib/boards/move";
 
 import { requireUserId } from "@/lib/auth/server";
+import {
+  boardAccessWhere,
+  ASSIGNEE_NOT_MEMBER,
+  canAssignTask,
+  getBoardRole,
+  hasBoardRole,
+} from "@/lib/boards/access";
 
 export type TaskActionResponse<T = unknown> =
   | { success: true; data: T }
   | { success: false; error: string };
 
-const TaskSchema = z.object({
-  title: z.string().min(1, "Title is required").max(200, "Title cannot exceed 200 characters"),
-  description: z
-    .string()
-    .max(20000, "Description cannot exceed 20000 characters")
-    .optional()
-    .nullable(),
-  startDate: z.coerce.date().optional().nullable(),
-  dueDate: z.coerce.date().optional().nullable(),
-  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional().nullable(),
-  assigneeId: z.string().optional().nullable(),
-});
-
 export type CreateTaskInput = z.infer<typeof TaskSchema>;
 
-async function verifyBoardOwnership(boardId: string, userId: string): Promise<boolean> {
-  const board = await prisma.board.findFirst({
-    where: { id: boardId, userId },
-    select: { id: true },
-  });
-  return !!board;
+export interface TaskTimeTracking {
+  totalSeconds: number;
+  entryCount: number;
+  runningEntry: {
+    id: string;
+    trackerId: string;
+    trackerName: string;
+    startTime: Date;
+    breaks: BreakSegment[];
+  } | null;
+}
+
+/**
+ * Check the user may change tasks on a board. Returns an error message, or
+ * null when allowed; non-members get `notFound` so boards are not leaked.
+ */
+async function checkEditAccess(
+  boardId: string,
+  userId: string,
+  notFound: string
+): Promise<string | null> {
+  const role = await getBoardRole(boardId, userId);
+  if (!role) return notFound;
+  if (!hasBoardRole(role, BoardRole.EDITOR)) {
+    return "You do not have permission to edit this board";
+  }
+  return null;
 }
 
 export async function createTask(
@@ -43,8 +61,9 @@ export async function createTask(
     const userId = await requireUserId();
     const validated = TaskSchema.parse(data);
 
-    if (!(await verifyBoardOwnership(boardId, userId))) {
-      return { success: false, error: "Board not found" };
+    const accessError = await checkEditAccess(boardId, userId, "Board not found");
+    if (accessError) {
+      return { success: false, error: accessError };
     }
 
     // Verify column belongs to this board
@@ -56,6 +75,10 @@ export async function createTask(
       return { success: false, error: "Column not found" };
     }
 
+    if (validated.assigneeId && !(await canAssignTask(boardId, validated.assigneeId))) {
+      return { success: false, error: ASSIGNEE_NOT_MEMBER };
+    }
+
     const lastTask = await prisma.boardTask.findFirst({
       where: { columnId },
       orderBy: { order: "desc" },
@@ -70,6 +93,7 @@ export async function createTask(
         dueDate: validated.dueDate ?? null,
         priority: validated.priority ?? "MEDIUM",
         assigneeId: validated.assigneeId ?? null,
+        recurrence: validated.recurrence ?? null,
         order: (lastTask?.order ?? -1) + 1,
         columnId,
         boardId,
@@ -100,11 +124,23 @@ export async function updateTask(
 
     const existing = await prisma.boardTask.findFirst({
       where: { id: taskId },
-      include: { column: { include: { board: { select: { userId: true } } } } },
+      select: { boardId: true, assigneeId: true },
     });
-    if (!existing || existing.column.board.userId !== userId) {
+    if (!existing) {
       return { success: false, error: "Task not found" };
     }
+    const accessError = await checkEditAccess(existing.boardId, userId, "Task not found");
+    if (accessError) {
+      return { success: false, error: accessError };
+    }
+
+    if (
+      validated.assigneeId &&
+      validated.assigneeId !== existing.assigneeId &&
+      !(await canAssignTask(existing.boardId, validated.assigneeId))
+    ) {
+      return { success: false, error: ASSIGNEE_NOT_MEMBER };
+    }
 
     const task = await prisma.boardTask.update({
       where: { id: taskId },
@@ -115,6 +151,8 @@ export async function updateTask(
         dueDate: validated.dueDate ?? null,
         priority: validated.priority ?? "MEDIUM",
         assigneeId: validated.assigneeId ?? null,
+        // Callers that don't manage recurrence (e.g. TaskDialog) must not clear it
+        ...(validated.recurrence !== undefined && { recurrence: validated.recurrence }),
       },
       include: {
         assignee: { select: { id: true, name: true, email: true, image: true } },
@@ -141,11 +179,15 @@ export async function deleteTask(taskId: string): Promise<TaskActionResponse<nul
 
     const task = await prisma.boardTask.findFirst({
       where: { id: taskId },
-      include: { column: { include: { board: { select: { userId: true, id: true } } } } },
+      select: { boardId: true },
     });
-    if (!task || task.column.board.userId !== userId) {
+    if (!task) {
       return { success: false, error: "Task not found" };
     }
+    const accessError = await checkEditAccess(task.boardId, userId, "Task not found");
+    if (accessError) {
+      return { success: false, error: accessError };
+    }
 
     await prisma.boardTask.delete({ where: { id: taskId } });
 
@@ -157,11 +199,74 @@ export async function deleteTask(taskId: string): Promise<TaskActionResponse<nul
   }
 }
 
+/**
+ * Summarize timer entries linked to a task: total completed time and the
+ * currently running entry (if any) so the task sheet can offer a stop button.
+ */
+export async function getTaskTimeTracking(
+  taskId: string
+): Promise<TaskActionResponse<TaskTimeTracking>> {
+  if (!taskId || taskId.trim() === "") {
+    return { success: false, error: "Task ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+
+    const task = await prisma.boardTask.findFirst({
+      where: { id: taskId, board: boardAccessWhere(userId) },
+      select: { id: true },
+    });
+    if (!task) {
+      return { success: false, error: "Task not found" };
+    }
+
+    const [completed, running] = await Promise.all([
+      prisma.trackerEntry.aggregate({
+        where: { taskId, startTime: { not: null }, endTime: { not: null } },
+        _count: { id: true },
+        _sum: { value: true },
+      }),
+      prisma.trackerEntry.findFirst({
+        where: { taskId, startTime: { not: null }, endTime: null, tracker: { userId } },
+        orderBy: { startTime: "desc" },
+        select: {
+          id: true,
+          trackerId: true,
+          startTime: true,
+          breaks: true,
+          tracker: { select: { name: true } },
+        },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        totalSeconds: completed._sum.value ?? 0,
+        entryCount: completed._count.id,
+        runningEntry:
+          running && running.startTime
+            ? {
+                id: running.id,
+                trackerId: running.trackerId,
+                trackerName: running.tracker.name,
+                startTime: running.startTime,
+                breaks: running.breaks,
+              }
+            : null,
+      },
+    };
+  } catch (error) {
+    console.error("[board-tasks] Operation failed:", error);
+    return { success: false, error: "Failed to fetch task time" };
+  }
+}
+
 export async function moveTask(
   taskId: string,
   targetColumnId: string,
   newOrder: number
-): Promise<TaskActionResponse<null>> {
+): Promise<TaskActionResponse<{ nextTaskId: string | null }>> {
   if (!taskId || taskId.trim() === "") {
     return { success: false, error: "Task ID is required" };
   }
@@ -171,15 +276,15 @@ export async function moveTask(
   try {
     const userId = await requireUserId();
 
-    const task = await prisma.boardTask.findFirst({
-      where: { id: taskId },
-      include: { column: { include: { board: { select: { userId: true, id: true } } } } },
-    });
-    if (!task || task.column.board.userId !== userId) {
+    const task = await prisma.boardTask.findFirst({ where: { id: taskId } });
+    if (!task) {
       return { success: false, error: "Task not found" };
     }
+    const accessError = await checkEditAccess(task.boardId, userId, "Task not found");
+    if (accessError) {
+      return { success: false, error: accessError };
+    }
 
-    const sourceColumnId = task.columnId;
     const boardId = task.boardId;
 
     // Verify target column belongs to the same board
@@ -191,56 +296,10 @@ export async function moveTask(
       return { success: false, error: "Target column not found" };
     }
 
-    if (sourceColumnId === targetColumnId) {
-      // Reorder within same column — atomic transaction
-      await prisma.$transaction(async (tx) => {
-        const tasks = await tx.boardTask.findMany({
-          where: { columnId: sourceColumnId },
-          orderBy: { order: "asc" },
-          select: { id: true, order: true },
-        });
-
-        const filtered = tasks.filter((t) => t.id !== taskId);
-        filtered.splice(newOrder, 0, { id: taskId, order: newOrder });
-
-        for (let idx = 0; idx < filtered.length; idx++) {
-          await tx.boardTask.update({ where: { id: filtered[idx].id }, data: { order: idx } });
-        }
-      });
-    } else {
-      // Move to different column — atomic transaction
-      await prisma.$transaction(async (tx) => {
-        // Reorder source column
-        const sourceTasks = await tx.boardTask.findMany({
-          where: { columnId: sourceColumnId, id: { not: taskId } },
-          orderBy: { order: "asc" },
-          select: { id: true },
-        });
-        for (let idx = 0; idx < sourceTasks.length; idx++) {
-          await tx.boardTask.update({ where: { id: sourceTasks[idx].id }, data: { order: idx } });
-        }
-
-        // Insert into target column
-        const targetTasks = await tx.boardTask.findMany({
-          where: { columnId: targetColumnId },
-          orderBy: { order: "asc" },
-          select: { id: true },
-        });
-        targetTasks.splice(newOrder, 0, { id: taskId });
-        for (let idx = 0; idx < targetTasks.length; idx++) {
-          await tx.boardTask.update({
-            where: { id: targetTasks[idx].id },
-            data: {
-              order: idx,
-              ...(targetTasks[idx].id === taskId ? { columnId: targetColumnId } : {}),
-            },
-          });
-        }
-      });
-    }
+    const nextTaskId = await moveBoardTask(task, targetColumnId, newOrder);
 
     revalidatePath(`/boards/${boardId}`);
-    return { success: true, data: null };
+    return { success: true, data: { nextTaskId } };
   } catch (error) {
     console.error("[board-tasks] Operation failed:", error);
     return { success: false, error: "Failed to move task" };
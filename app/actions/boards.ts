@@ -3,30 +3,68 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
+import { BoardRole, isBoardRole } from "@/types";
 import type { Board } from "@/types";
 
 import { requireUserId } from "@/lib/auth/server";
+import { boardAccessWhere, getBoardRole, hasBoardRole } from "@/lib/boards/access";
+import { BoardSchema, ColumnSchema, DEFAULT_COLUMNS } from "@/lib/boards/schemas";
 
 export type BoardActionResponse<T = unknown> =
   | { success: true; data: T }
   | { success: false; error: string };
 
-const BoardSchema = z.object({
-  name: z.string().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
-  description: z
-    .string()
-    .max(500, "Description cannot exceed 500 characters")
-    .optional()
-    .nullable(),
-});
-
 export type CreateBoardInput = z.infer<typeof BoardSchema>;
 
-const DEFAULT_COLUMNS = [
-  { name: "To Do", order: 0 },
-  { name: "In Progress", order: 1 },
-  { name: "Done", order: 2 },
-];
+/**
+ * Sum completed timer entries per task so cards can show time spent.
+ * Entries stay ordinary TrackerEntry rows; they are only linked by taskId.
+ */
+async function getTrackedSecondsByTask(taskIds: string[]): Promise<Map<string, number>> {
+  if (taskIds.length === 0) return new Map();
+
+  const groups = await prisma.trackerEntry.groupBy({
+    by: ["taskId"],
+    where: { taskId: { in: taskIds }, startTime: { not: null }, endTime: { not: null } },
+    _sum: { value: true },
+  });
+
+  const totals = new Map<string, number>();
+  for (const group of groups) {
+    if (group.taskId) totals.set(group.taskId, group._sum.value ?? 0);
+  }
+  return totals;
+}
+
+const BOARD_INCLUDE = {
+  columns: {
+    orderBy: { order: "asc" as const },
+    include: {
+      tasks: {
+        orderBy: { order: "asc" as const },
+        include: {
+          assignee: { select: { id: true, name: true, email: true, image: true } },
+        },
+      },
+    },
+  },
+  user: { select: { id: true, name: true, email: true, image: true } },
+};
+
+/** Replace the raw owner/membership relations with the caller's role */
+function withViewerRole<
+  T extends { userId: string; user: Board["owner"]; members: { role: string }[] },
+>(board: T, userId: string) {
+  const { members, user, ...rest } = board;
+  const memberRole = members[0]?.role;
+  const role =
+    board.userId === userId
+      ? BoardRole.OWNER
+      : isBoardRole(memberRole)
+        ? memberRole
+        : BoardRole.VIEWER;
+  return { ...rest, role, owner: user };
+}
 
 export async function createBoard(
   data: CreateBoardInput
@@ -42,6 +80,9 @@ export async function createBoard(
         columns: {
           create: DEFAULT_COLUMNS,
         },
+        members: {
+          create: { userId, role: BoardRole.OWNER },
+        },
       },
     });
 
@@ -61,24 +102,18 @@ export async function getBoards(): Promise<BoardActionResponse<Board[]>> {
     const userId = await requireUserId();
 
     const boards = await prisma.board.findMany({
-      where: { userId },
+      where: boardAccessWhere(userId),
       include: {
-        columns: {
-          orderBy: { order: "asc" },
-          include: {
-            tasks: {
-              orderBy: { order: "asc" },
-              include: {
-                assignee: { select: { id: true, name: true, email: true, image: true } },
-              },
-            },
-          },
-        },
+        ...BOARD_INCLUDE,
+        members: { where: { userId }, select: { role: true } },
       },
       orderBy: { updatedAt: "desc" },
     });
 
-    return { success: true, data: boards as Board[] };
+    return {
+      success: true,
+      data: boards.map((board) => withViewerRole(board, userId)) as Board[],
+    };
   } catch (error) {
     console.error("[boards] Operation failed:", error);
     return { success: false, error: "Failed to fetch boards" };
@@ -93,19 +128,10 @@ export async function getBoard(boardId: string): Promise<BoardActionResponse<Boa
     const userId = await requireUserId();
 
     const board = await prisma.board.findFirst({
-      where: { id: boardId, userId },
+      where: { id: boardId, ...boardAccessWhere(userId) },
       include: {
-        columns: {
-          orderBy: { order: "asc" },
-          include: {
-            tasks: {
-              orderBy: { order: "asc" },
-              include: {
-                assignee: { select: { id: true, name: true, email: true, image: true } },
-              },
-            },
-          },
-        },
+        ...BOARD_INCLUDE,
+        members: { where: { userId }, select: { role: true } },
       },
     });
 
@@ -113,7 +139,15 @@ export async function getBoard(boardId: string): Promise<BoardActionResponse<Boa
       return { success: false, error: "Board not found" };
     }
 
-    return { success: true, data: board as Board };
+    const tracked = await getTrackedSecondsByTask(
+      board.columns.flatMap((col) => col.tasks.map((task) => task.id))
+    );
+    const columns = board.columns.map((col) => ({
+      ...col,
+      tasks: col.tasks.map((task) => ({ ...task, trackedSeconds: tracked.get(task.id) ?? 0 })),
+    }));
+
+    return { success: true, data: { ...withViewerRole(board, userId), columns } as Board };
   } catch (error) {
     console.error("[boards] Operation failed:", error);
     return { success: false, error: "Failed to fetch board" };
@@ -128,13 +162,13 @@ export async function updateBoard(
     const userId = await requireUserId();
     const validated = BoardSchema.parse(data);
 
-    const board = await prisma.board.findFirst({
-      where: { id: boardId, userId },
-      select: { id: true },
-    });
-    if (!board) {
+    const role = await getBoardRole(boardId, userId);
+    if (!role) {
       return { success: false, error: "Board not found" };
     }
+    if (!hasBoardRole(role, BoardRole.EDITOR)) {
+      return { success: false, error: "You do not have permission to edit this board" };
+    }
 
     await prisma.board.update({
       where: { id: boardId },
@@ -160,13 +194,13 @@ export async function deleteBoard(boardId: string): Promise<BoardActionResponse<
   try {
     const userId = await requireUserId();
 
-    const board = await prisma.board.findFirst({
-      where: { id: boardId, userId },
-      select: { id: true },
-    });
-    if (!board) {
+    const role = await getBoardRole(boardId, userId);
+    if (!role) {
       return { success: false, error: "Board not found" };
     }
+    if (!hasBoardRole(role, BoardRole.OWNER)) {
+      return { success: false, error: "Only the board owner can delete it" };
+    }
 
     await prisma.board.delete({ where: { id: boardId } });
 
@@ -180,10 +214,6 @@ export async function deleteBoard(boardId: string): Promise<BoardActionResponse<
 
 // Column management
 
-const ColumnSchema = z.object({
-  name: z.string().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
-});
-
 export async function addColumn(
   boardId: string,
   data: z.infer<typeof ColumnSchema>
@@ -195,15 +225,20 @@ export async function addColumn(
     const userId = await requireUserId();
     const validated = ColumnSchema.parse(data);
 
-    const board = await prisma.board.findFirst({
-      where: { id: boardId, userId },
-      include: { columns: { select: { order: true }, orderBy: { order: "desc" }, take: 1 } },
-    });
-    if (!board) {
+    const role = await getBoardRole(boardId, userId);
+    if (!role) {
       return { success: false, error: "Board not found" };
     }
+    if (!hasBoardRole(role, BoardRole.EDITOR)) {
+      return { success: false, error: "You do not have permission to edit this board" };
+    }
 
-    const nextOrder = (board.columns[0]?.order ?? -1) + 1;
+    const lastColumn = await prisma.boardColumn.findFirst({
+      where: { boardId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+    const nextOrder = (lastColumn?.order ?? -1) + 1;
 
     const column = await prisma.boardColumn.create({
       data: { name: validated.name, order: nextOrder, boardId },
@@ -233,11 +268,15 @@ export async function updateColumn(
 
     const column = await prisma.boardColumn.findFirst({
       where: { id: columnId },
-      include: { board: { select: { userId: true, id: true } } },
+      select: { id: true, boardId: true },
     });
-    if (!column || column.board.userId !== userId) {
+    const role = column ? await getBoardRole(column.boardId, userId) : null;
+    if (!column || !role) {
       return { success: false, error: "Column not found" };
     }
+    if (!hasBoardRole(role, BoardRole.EDITOR)) {
+      return { success: false, error: "You do not have permission to edit this board" };
+    }
 
     await prisma.boardColumn.update({
       where: { id: columnId },
@@ -264,11 +303,15 @@ export async function deleteColumn(columnId: string): Promise<BoardActionRespons
 
     const column = await prisma.boardColumn.findFirst({
       where: { id: columnId },
-      include: { board: { select: { userId: true, id: true } } },
+      select: { id: true, boardId: true },
     });
-    if (!column || column.board.userId !== userId) {
+    const role = column ? await getBoardRole(column.boardId, userId) : null;
+    if (!column || !role) {
       return { success: false, error: "Column not found" };
     }
+    if (!hasBoardRole(role, BoardRole.EDITOR)) {
+      return { success: false, error: "You do not have permission to edit this board" };
+    }
 
     await prisma.boardColumn.delete({ where: { id: columnId } });
 
@@ -0,0 +1,56 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { trackerContributorWhere } from "@/lib/trackers/access";
+import {
+  BulkEntriesSchema,
+  createEntriesInBulk,
+  type BulkEntriesResult,
+  type BulkEntryInput,
+  type BulkEntryMode,
+} from "@/lib/trackers/bulk-entries";
+import type { EntryActionResponse } from "./create";
+
+/**
+ * Create many entries at once, on any trackers the user may log to; the
+ * server action counterpart of POST /api/v1/entries/bulk. Dates are ISO
+ * strings. In `atomic` mode (the default) nothing is written if any item is
+ * invalid; `best_effort` writes the valid ones. Every item is reported by index.
+ */
+export async function createEntriesBulk(
+  entries: BulkEntryInput[],
+  mode: BulkEntryMode = "atomic"
+): Promise<EntryActionResponse<BulkEntriesResult>> {
+  try {
+    const userId = await requireUserId();
+    const parsed = BulkEntriesSchema.parse({ entries, mode });
+
+    const result = await createEntriesInBulk(userId, parsed.entries, {
+      mode: parsed.mode,
+      trackerWhere: trackerContributorWhere(userId),
+    });
+
+    if (result.created > 0) {
+      revalidatePath("/dashboard");
+      for (const trackerId of new Set(entries.map((entry) => entry.trackerId))) {
+        revalidatePath(`/trackers/${trackerId}`);
+      }
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating entries in bulk:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to create entries" };
+  }
+}
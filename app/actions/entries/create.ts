@@ -4,7 +4,16 @@ import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
 import { requireUserId } from "@/lib/auth/server";
-import { TrackerEntry } from "@/types";
+import { trackerAccessWhere, trackerContributorWhere } from "@/lib/trackers/access";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { CustomFieldValuesSchema } from "@/lib/trackers/custom-fields";
+import { resolveEntryFields } from "@/lib/trackers/entry-fields";
+import { resolveEntryValue } from "@/lib/trackers/entry-units";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import { DERIVED_NO_ENTRIES } from "@/lib/trackers/derived";
+import { UnitCodeSchema } from "@/lib/units";
+import { runIdempotentAction, type IdempotencyOptions } from "@/lib/idempotency";
+import { TrackerEntry, WebhookEvent } from "@/types";
 
 export type EntryActionResponse<T = unknown> =
   | { success: true; data: T }
@@ -18,6 +27,9 @@ const EntrySchema = z.object({
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().nullable(),
   tags: z.array(z.string()).optional().default([]),
   date: z.date().default(() => new Date()),
+  fields: CustomFieldValuesSchema.optional().nullable(),
+  // Unit the value is given in; converted to the tracker's unit when different
+  unit: UnitCodeSchema.optional().nullable(),
 });
 
 export type CreateEntryInput = z.infer<typeof EntrySchema>;
@@ -32,7 +44,7 @@ export async function getEntry(id: string): Promise<EntryActionResponse<TrackerE
     const entry = await prisma.trackerEntry.findFirst({
       where: {
         id,
-        tracker: { userId },
+        tracker: trackerAccessWhere(userId),
       },
     });
 
@@ -54,28 +66,57 @@ export async function getEntry(id: string): Promise<EntryActionResponse<TrackerE
  * Create a new tracker entry
  */
 export async function createEntry(
-  data: CreateEntryInput
+  data: CreateEntryInput,
+  options: IdempotencyOptions = {}
 ): Promise<EntryActionResponse<{ id: string }>> {
   try {
     const userId = await requireUserId();
+    if (options.idempotencyKey) {
+      return await runIdempotentAction(userId, "createEntry", options.idempotencyKey, () =>
+        createEntry(data)
+      );
+    }
 
     // Validate input data
-    const validatedData = EntrySchema.parse(data);
+    const { fields: fieldInput, unit, ...parsedData } = EntrySchema.parse(data);
+
+    // Verify the current user owns the tracker or contributes to it, before
+    // anything about the tracker is used
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: parsedData.trackerId, ...trackerContributorWhere(userId) },
+      select: { type: true, fields: true, unit: true, userId: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+    if (tracker.type === "DERIVED") {
+      return { success: false, error: DERIVED_NO_ENTRIES };
+    }
+
+    // CUSTOM trackers check the values against their field schema
+    const fields = resolveEntryFields(tracker, fieldInput);
+    if (!fields.success) {
+      return { success: false, error: fields.error };
+    }
+
+    // Values logged in another unit are stored in the tracker's
+    const converted = await resolveEntryValue(tracker, parsedData.value, unit);
+    if (!converted.success) {
+      return { success: false, error: converted.error };
+    }
+    const { enteredValue, enteredUnit, value } = converted.data;
+    const validatedData = { ...parsedData, value };
 
     // Use a transaction to ensure atomic operations
     const result = await prisma.$transaction(async (tx) => {
-      // Verify the tracker belongs to the current user
-      const ownerCheck = await tx.tracker.findFirst({
-        where: { id: data.trackerId, userId },
-        select: { id: true },
-      });
-      if (!ownerCheck) {
-        throw new Error("Tracker not found");
-      }
-
       // Create entry in database
-      const entry = await tx.trackerEntry.create({
-        data: validatedData,
+      let entry = await tx.trackerEntry.create({
+        data: {
+          ...validatedData,
+          ...(fields.data && { fields: fields.data }),
+          ...(enteredUnit && { enteredValue, enteredUnit }),
+          createdById: userId,
+        },
       });
 
       // Calculate duration for timer entries if both start and end times are provided
@@ -85,92 +126,21 @@ export async function createEntry(
         );
 
         // Update the entry with the calculated duration stored in value field
-        await tx.trackerEntry.update({
+        entry = await tx.trackerEntry.update({
           where: { id: entry.id },
           data: { value: durationInSeconds },
         });
       }
 
-      // Update the tracker's last used timestamp
-      await tx.tracker.update({
-        where: { id: data.trackerId },
-        data: { updatedAt: new Date() },
-      });
-
-      // Get the tracker to determine its type
-      const tracker = await tx.tracker.findUnique({
-        where: { id: data.trackerId },
-        select: { type: true, statistics: true },
-      });
-
-      if (!tracker) {
-        throw new Error("Tracker not found");
-      }
-
-      // Update statistics based on tracker type
-      switch (tracker.type) {
-        case "TIMER":
-          // Only update completed timer entries
-          if (validatedData.startTime && validatedData.endTime) {
-            const durationInSeconds = Math.round(
-              (validatedData.endTime.getTime() - validatedData.startTime.getTime()) / 1000
-            );
-
-            const currentEntries = tracker.statistics?.totalEntries || 0;
-            const currentTime = tracker.statistics?.totalTime || 0;
-
-            await tx.tracker.update({
-              where: { id: data.trackerId },
-              data: {
-                statistics: {
-                  totalEntries: currentEntries + 1,
-                  totalTime: currentTime + durationInSeconds,
-                },
-              },
-            });
-          }
-          break;
-
-        case "COUNTER":
-        case "AMOUNT":
-          if (validatedData.value !== null && validatedData.value !== undefined) {
-            const currentEntries = tracker.statistics?.totalEntries || 0;
-            const currentValue = tracker.statistics?.totalValue || 0;
-
-            await tx.tracker.update({
-              where: { id: data.trackerId },
-              data: {
-                statistics: {
-                  totalEntries: currentEntries + 1,
-                  totalValue: currentValue + validatedData.value,
-                },
-              },
-            });
-          }
-          break;
-
-        case "OCCURRENCE":
-        case "CUSTOM":
-          const currentEntries = tracker.statistics?.totalEntries || 0;
-
-          await tx.tracker.update({
-            where: { id: data.trackerId },
-            data: {
-              statistics: {
-                totalEntries: currentEntries + 1,
-                // Preserve any existing custom data
-                totalCustom: tracker.statistics?.totalCustom,
-              },
-            },
-          });
-          break;
-      }
+      // Count the entry in the tracker's statistics and mark it as just used
+      await applyEntryChange(tx, data.trackerId, null, entry);
 
       return entry;
     });
 
     revalidatePath("/dashboard");
     revalidatePath(`/trackers/${data.trackerId}`);
+    emitEntryEvent(WebhookEvent.ENTRY_CREATED, result);
 
     return { success: true, data: { id: result.id } };
   } catch (error) {
@@ -192,25 +162,33 @@ export async function createEntry(
 }
 
 /**
- * Add a counter entry
+ * Add a counter entry. `date` defaults to now; replayed offline increments
+ * pass the time they were made.
  */
 export async function addCounterEntry(
   trackerId: string,
   value: number = 1,
-  note: string = ""
+  note: string = "",
+  date: Date = new Date(),
+  options: IdempotencyOptions = {}
 ): Promise<EntryActionResponse<{ id: string }>> {
   if (!trackerId || trackerId.trim() === "") {
     return { success: false, error: "Tracker ID is required" };
   }
   try {
     const userId = await requireUserId();
+    if (options.idempotencyKey) {
+      return await runIdempotentAction(userId, "addCounterEntry", options.idempotencyKey, () =>
+        addCounterEntry(trackerId, value, note, date)
+      );
+    }
 
     // Use transaction for atomic operations
     const result = await prisma.$transaction(async (tx) => {
-      // Verify tracker ownership
+      // Verify the current user owns the tracker or contributes to it
       const tracker = await tx.tracker.findFirst({
-        where: { id: trackerId, userId },
-        select: { statistics: true },
+        where: { id: trackerId, ...trackerContributorWhere(userId) },
+        select: { id: true },
       });
       if (!tracker) {
         throw new Error("Tracker not found");
@@ -222,27 +200,20 @@ export async function addCounterEntry(
           trackerId,
           value,
           note,
-          date: new Date(),
+          date,
+          createdById: userId,
         },
       });
 
       // Update tracker's statistics and timestamp
-      await tx.tracker.update({
-        where: { id: trackerId },
-        data: {
-          updatedAt: new Date(),
-          statistics: {
-            totalEntries: (tracker.statistics?.totalEntries || 0) + 1,
-            totalValue: (tracker.statistics?.totalValue || 0) + value,
-          },
-        },
-      });
+      await applyEntryChange(tx, trackerId, null, entry);
 
       return entry;
     });
 
     revalidatePath(`/trackers/${trackerId}`);
     revalidatePath("/dashboard");
+    emitEntryEvent(WebhookEvent.ENTRY_CREATED, result);
 
     return { success: true, data: { id: result.id } };
   } catch (error) {
@@ -250,6 +221,9 @@ export async function addCounterEntry(
     if (error instanceof Error && error.message === "Unauthorized") {
       return { success: false, error: "Unauthorized" };
     }
+    if (error instanceof Error && error.message === "Tracker not found") {
+      return { success: false, error: "Tracker not found" };
+    }
     return { success: false, error: "Failed to add counter entry" };
   }
 }
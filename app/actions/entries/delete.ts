@@ -4,6 +4,10 @@ import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
 import { requireUserId } from "@/lib/auth/server";
+import { entryEditableWhere } from "@/lib/trackers/access";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { WebhookEvent } from "@/types";
 import type { EntryActionResponse } from "./create";
 
 /**
@@ -15,11 +19,11 @@ export async function deleteEntry(id: string): Promise<EntryActionResponse<{ id:
 
     // Use transaction for atomic operations
     const result = await prisma.$transaction(async (tx) => {
-      // Get the entry and verify tracker ownership
+      // Get the entry and verify the user may delete it
       const entry = await tx.trackerEntry.findFirst({
         where: {
           id,
-          tracker: { userId },
+          ...entryEditableWhere(userId),
         },
         select: {
           id: true,
@@ -27,6 +31,9 @@ export async function deleteEntry(id: string): Promise<EntryActionResponse<{ id:
           value: true,
           startTime: true,
           endTime: true,
+          date: true,
+          note: true,
+          tags: true,
         },
       });
 
@@ -34,82 +41,16 @@ export async function deleteEntry(id: string): Promise<EntryActionResponse<{ id:
         throw new Error("Entry not found");
       }
 
-      // Get the tracker to determine its type
-      const tracker = await tx.tracker.findUnique({
-        where: { id: entry.trackerId },
-        select: { type: true, statistics: true },
-      });
-
-      if (!tracker) {
-        throw new Error("Tracker not found");
-      }
-
-      // Delete the entry
+      // Delete the entry and take it out of the tracker's statistics
       await tx.trackerEntry.delete({ where: { id } });
-
-      // Update tracker statistics
-      switch (tracker.type) {
-        case "TIMER":
-          // Only adjust completed timer entries with duration
-          if (entry.startTime && entry.endTime && entry.value) {
-            const currentEntries = tracker.statistics?.totalEntries || 0;
-            const currentTime = tracker.statistics?.totalTime || 0;
-
-            await tx.tracker.update({
-              where: { id: entry.trackerId },
-              data: {
-                statistics: {
-                  totalEntries: Math.max(0, currentEntries - 1),
-                  totalTime: Math.max(0, currentTime - (entry.value || 0)),
-                },
-                updatedAt: new Date(),
-              },
-            });
-          }
-          break;
-
-        case "COUNTER":
-        case "AMOUNT":
-          if (entry.value !== null && entry.value !== undefined) {
-            const currentEntries = tracker.statistics?.totalEntries || 0;
-            const currentValue = tracker.statistics?.totalValue || 0;
-
-            await tx.tracker.update({
-              where: { id: entry.trackerId },
-              data: {
-                statistics: {
-                  totalEntries: Math.max(0, currentEntries - 1),
-                  totalValue: Math.max(0, currentValue - entry.value),
-                },
-                updatedAt: new Date(),
-              },
-            });
-          }
-          break;
-
-        case "OCCURRENCE":
-        case "CUSTOM":
-          const currentEntries = tracker.statistics?.totalEntries || 0;
-
-          await tx.tracker.update({
-            where: { id: entry.trackerId },
-            data: {
-              statistics: {
-                totalEntries: Math.max(0, currentEntries - 1),
-                // Preserve existing custom data
-                totalCustom: tracker.statistics?.totalCustom,
-              },
-              updatedAt: new Date(),
-            },
-          });
-          break;
-      }
+      await applyEntryChange(tx, entry.trackerId, entry, null);
 
       return entry;
     });
 
     revalidatePath(`/trackers/${result.trackerId}`);
     revalidatePath("/dashboard");
+    emitEntryEvent(WebhookEvent.ENTRY_DELETED, result);
 
     return { success: true, data: { id } };
   } catch (error) {
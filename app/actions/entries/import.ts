@@ -0,0 +1,137 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { trackerContributorWhere } from "@/lib/trackers/access";
+import { createEntriesInBulk } from "@/lib/trackers/bulk-entries";
+import { DERIVED_NO_ENTRIES } from "@/lib/trackers/derived";
+import { parseCsv } from "@/lib/csv";
+import {
+  EntryImportMappingSchema,
+  MAX_IMPORT_ROWS,
+  mapImportRows,
+  type EntryImportMapping,
+  type ImportRowError,
+} from "@/lib/entry-import";
+import { isTrackerType } from "@/types";
+import type { EntryActionResponse } from "./create";
+
+export interface ImportEntriesInput {
+  csv: string;
+  mapping: EntryImportMapping;
+  /** Import the valid rows even when some rows fail validation */
+  skipInvalid: boolean;
+}
+
+export interface ImportEntriesResult {
+  imported: number;
+  skipped: number;
+  errors: ImportRowError[];
+}
+
+const ImportEntriesSchema = z.object({
+  csv: z.string().min(1, "CSV file is empty"),
+  mapping: EntryImportMappingSchema,
+  skipInvalid: z.boolean().default(false),
+});
+
+/**
+ * Import entries from CSV text (first row is the header) using a column
+ * mapping chosen in the import wizard. Rows are validated again here; when
+ * any row is invalid nothing is written unless `skipInvalid` is set. The
+ * mapped rows are written like createEntriesBulk, but up to MAX_IMPORT_ROWS
+ * at once, with statistics recomputed once.
+ */
+export async function importTrackerEntries(
+  trackerId: string,
+  input: ImportEntriesInput
+): Promise<EntryActionResponse<ImportEntriesResult>> {
+  if (!trackerId || trackerId.trim() === "") {
+    return { success: false, error: "Tracker ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const { csv, mapping, skipInvalid } = ImportEntriesSchema.parse(input);
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, ...trackerContributorWhere(userId) },
+      select: { id: true, type: true },
+    });
+    if (!tracker || !isTrackerType(tracker.type)) {
+      return { success: false, error: "Tracker not found" };
+    }
+    if (tracker.type === "DERIVED") {
+      return { success: false, error: DERIVED_NO_ENTRIES };
+    }
+
+    const rows = parseCsv(csv).slice(1);
+    if (rows.length === 0) {
+      return { success: false, error: "CSV file has no data rows" };
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return {
+        success: false,
+        error: `CSV file has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS}`,
+      };
+    }
+
+    const { entries, errors } = mapImportRows(rows, mapping, tracker.type);
+    if (errors.length > 0 && !skipInvalid) {
+      return { success: true, data: { imported: 0, skipped: rows.length, errors } };
+    }
+
+    if (entries.length === 0) {
+      return { success: true, data: { imported: 0, skipped: rows.length, errors } };
+    }
+
+    // The import has its own row limit, so it skips the bulk action's
+    const written = await createEntriesInBulk(
+      userId,
+      entries.map((entry) => ({
+        ...entry,
+        trackerId,
+        date: entry.date.toISOString(),
+        startTime: entry.startTime?.toISOString() ?? null,
+        endTime: entry.endTime?.toISOString() ?? null,
+      })),
+      {
+        mode: skipInvalid ? "best_effort" : "atomic",
+        trackerWhere: { id: trackerId, ...trackerContributorWhere(userId) },
+      }
+    );
+
+    if (written.created > 0) {
+      revalidatePath("/dashboard");
+      revalidatePath(`/trackers/${trackerId}`);
+    }
+
+    // Items the bulk write rejected are reported by the line they came from
+    const errorRows = new Set(errors.map((error) => error.row));
+    const entryRows = rows.map((_, index) => index + 2).filter((row) => !errorRows.has(row));
+    for (const result of written.results) {
+      if (result.status === "invalid") {
+        errors.push({ row: entryRows[result.index]!, message: result.error });
+      }
+    }
+    errors.sort((a, b) => a.row - b.row);
+
+    return {
+      success: true,
+      data: { imported: written.created, skipped: rows.length - written.created, errors },
+    };
+  } catch (error) {
+    console.error("Error importing entries:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to import entries" };
+  }
+}
@@ -2,7 +2,14 @@ export type { EntryActionResponse, CreateEntryInput } from "./create";
 export { getEntry, createEntry, addCounterEntry } from "./create";
 export { updateEntry } from "./update";
 export { deleteEntry } from "./delete";
-export { startTimerEntry, stopTimerEntry } from "./timer";
+export type { TimerPauseResult, TimerStartResult } from "./timer";
+export { startTimerEntry, stopTimerEntry, pauseTimerEntry, resumeTimerEntry } from "./timer";
+export type { TimerReviewItem, TimerReviewResolution } from "./review";
+export { getTimersNeedingReview, resolveTimerReview } from "./review";
+export type { ImportEntriesInput, ImportEntriesResult } from "./import";
+export { importTrackerEntries } from "./import";
+export { createEntriesBulk } from "./bulk";
+export type { TrendPoint, CalendarDayData } from "./queries";
 export {
   getEntriesByTracker,
   getTrackerStats,
@@ -11,3 +18,4 @@ export {
   getOccurrenceStreak,
   exportTrackerCSV,
 } from "./queries";
+export { replayOfflineOperations } from "./offline";
@@ -0,0 +1,134 @@
+"use server";
+
+import { z } from "zod";
+import { requireUserId } from "@/lib/auth/server";
+import { withIdempotencyKey } from "@/lib/idempotency";
+import { OFFLINE_SYNC_BATCH_SIZE, type OfflineOperationResult } from "@/lib/offline/operations";
+import { addCounterEntry, createEntry, type EntryActionResponse } from "./create";
+
+const OperationBase = {
+  id: z.string().min(1).max(100),
+  clientTimestamp: z.coerce.date(),
+};
+
+// Dates arrive as ISO strings; createEntry validates the rest itself
+const OfflineOperationSchema = z.discriminatedUnion("action", [
+  z.object({
+    ...OperationBase,
+    action: z.literal("createEntry"),
+    args: z.looseObject({
+      trackerId: z.string().min(1),
+      startTime: z.coerce.date().nullish(),
+      endTime: z.coerce.date().nullish(),
+      date: z.coerce.date().optional(),
+    }),
+  }),
+  z.object({
+    ...OperationBase,
+    action: z.literal("addCounterEntry"),
+    args: z.object({
+      trackerId: z.string().min(1),
+      value: z.number(),
+      note: z.string().max(500).optional(),
+    }),
+  }),
+]);
+
+type OfflineOperationInput = z.infer<typeof OfflineOperationSchema>;
+
+// The replayed actions' catch-all errors: a server or database failure that
+// may pass, unlike validation, not found or access errors
+const TEMPORARY_ERRORS = new Set(["Failed to create entry", "Failed to add counter entry"]);
+
+function runOperation(op: OfflineOperationInput): Promise<EntryActionResponse<{ id: string }>> {
+  switch (op.action) {
+    case "createEntry":
+      return createEntry({
+        ...op.args,
+        date: op.args.date ?? op.clientTimestamp,
+      } as Parameters<typeof createEntry>[0]);
+    case "addCounterEntry":
+      return addCounterEntry(op.args.trackerId, op.args.value, op.args.note, op.clientTimestamp);
+  }
+}
+
+/**
+ * Apply writes queued while offline, in order. Each operation's id is its
+ * idempotency key, so one that already went through (say, the service worker
+ * synced it before the page retried) is reported as synced without writing
+ * again. Entries are dated when the user made the change, not when it synced.
+ * Only the first OFFLINE_SYNC_BATCH_SIZE operations are applied; the rest
+ * come back as `retry` for the client to send again. Operations the server
+ * failed on are `retry` too; only ones it refused are `rejected`.
+ */
+export async function replayOfflineOperations(
+  operations: unknown[]
+): Promise<EntryActionResponse<OfflineOperationResult[]>> {
+  try {
+    const userId = await requireUserId();
+
+    const parsed = z.array(z.unknown()).parse(operations);
+
+    const results: OfflineOperationResult[] = [];
+    for (const raw of parsed.slice(0, OFFLINE_SYNC_BATCH_SIZE)) {
+      const op = OfflineOperationSchema.safeParse(raw);
+      const id = (raw as { id?: unknown })?.id;
+      if (!op.success) {
+        // Nothing the client can fix by retrying
+        if (typeof id === "string") {
+          results.push({
+            id,
+            status: "rejected",
+            error: `Validation failed: ${op.error.issues.map((e) => e.message).join(", ")}`,
+          });
+        }
+        continue;
+      }
+
+      try {
+        // Same key as the action called with `idempotencyKey`, so an operation
+        // queued after a request that did reach the server isn't applied twice
+        const outcome = await withIdempotencyKey(
+          userId,
+          `${op.data.action}:${op.data.id}`,
+          () => runOperation(op.data),
+          { shouldStore: (response) => response.success }
+        );
+        if (outcome.status === "in_progress") {
+          results.push({ id: op.data.id, status: "retry" });
+        } else if (outcome.status === "mismatch") {
+          results.push({ id: op.data.id, status: "rejected", error: "Duplicate operation id" });
+        } else if (outcome.result.success) {
+          results.push({ id: op.data.id, status: "synced", entryId: outcome.result.data.id });
+        } else if (TEMPORARY_ERRORS.has(outcome.result.error)) {
+          results.push({ id: op.data.id, status: "retry", error: outcome.result.error });
+        } else {
+          results.push({ id: op.data.id, status: "rejected", error: outcome.result.error });
+        }
+      } catch (error) {
+        console.error("Error replaying offline operation:", error);
+        results.push({ id: op.data.id, status: "retry", error: "Failed to sync change" });
+      }
+    }
+
+    // Left for the client's next batch; no error, so no retry is counted
+    for (const raw of parsed.slice(OFFLINE_SYNC_BATCH_SIZE)) {
+      const id = (raw as { id?: unknown })?.id;
+      if (typeof id === "string") results.push({ id, status: "retry" });
+    }
+
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("Error replaying offline operations:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to sync offline changes" };
+  }
+}
@@ -2,18 +2,28 @@
 
 import prisma from "@/lib/db/prisma";
 import { requireUserId } from "@/lib/auth/server";
-import type { TrackerEntry } from "@/types";
+import { trackerAccessWhere } from "@/lib/trackers/access";
+import {
+  getCompletedTimerEntries,
+  getHabitProgress,
+  getPeriodTotals,
+  getTrackerStreak,
+  type PeriodTotals,
+} from "@/lib/trackers/stats";
+import { activeSeconds, wallClockSeconds } from "@/lib/trackers/timer";
+import { derivedDailyValues, loadDerivedSeries } from "@/lib/trackers/derived";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import {
+  isNumericField,
+  numericFieldValue,
+  readCustomFieldValues,
+} from "@/lib/trackers/custom-fields";
+import { escapeCsvField } from "@/lib/csv";
+import type { HabitDayState } from "@/lib/trackers/habits";
+import { addDaysToDateStr, diffDateStrs, toZonedDateStr, zonedDayRange } from "@/lib/timezone";
+import { CustomFieldType, type TrackerEntry } from "@/types";
 import type { EntryActionResponse } from "./create";
 
-// Helper for local-calendar date strings
-function toLocalDateStr(d: Date, timezoneOffset: number = 0): string {
-  const adjusted = new Date(d.getTime() - timezoneOffset * 60000);
-  const y = adjusted.getUTCFullYear();
-  const m = String(adjusted.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(adjusted.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
 /**
  * Get all entries for a tracker
  */
@@ -28,10 +38,10 @@ export async function getEntriesByTracker(
   try {
     const userId = await requireUserId();
 
-    // Verify tracker belongs to the current user
+    // Verify the current user owns the tracker or has it shared with them
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
-      select: { id: true },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true, userId: true },
     });
     if (!tracker) {
       return { success: false, error: "Tracker not found" };
@@ -45,8 +55,14 @@ export async function getEntriesByTracker(
       orderBy: { date: "desc" },
       skip: (page - 1) * limit,
       take: limit,
+      include: { createdBy: { select: { id: true, name: true, email: true } } },
     });
-    return { success: true, data: { entries, total } };
+    // Only attribute entries logged by someone other than the owner
+    const attributed = entries.map(({ createdBy, ...entry }) => ({
+      ...entry,
+      createdBy: entry.createdById && entry.createdById !== tracker.userId ? createdBy : null,
+    }));
+    return { success: true, data: { entries: attributed, total } };
   } catch (error) {
     console.error("Error getting entries:", error);
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -57,146 +73,31 @@ export async function getEntriesByTracker(
 }
 
 /**
- * Get entry counts for today, this week, and this month for a tracker
+ * Get entry counts for today, this week, and this month for a tracker,
+ * using the user's time zone and week start
  */
 export async function getTrackerStats(
-  trackerId: string,
-  timezoneOffset: number = 0
-): Promise<EntryActionResponse<{ today: number; week: number; month: number }>> {
+  trackerId: string
+): Promise<EntryActionResponse<PeriodTotals>> {
   if (!trackerId || trackerId.trim() === "") {
     return { success: false, error: "Tracker ID is required" };
   }
   try {
     const userId = await requireUserId();
 
-    // Determine tracker type (scoped to owner)
+    // Determine tracker type (owner or shared access)
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
       select: { type: true },
     });
     if (!tracker) {
       throw new Error("Tracker not found");
     }
 
-    const now = new Date();
-    // User's current local time represented in UTC
-    const localNow = new Date(now.getTime() - timezoneOffset * 60000);
-
-    // User's local today start (midnight)
-    const localTodayStart = new Date(
-      Date.UTC(localNow.getUTCFullYear(), localNow.getUTCMonth(), localNow.getUTCDate())
-    );
-    const todayStart = new Date(localTodayStart.getTime() + timezoneOffset * 60000);
-
-    // User's local week start
-    const localWeekStart = new Date(localTodayStart.getTime());
-    localWeekStart.setUTCDate(localTodayStart.getUTCDate() - localNow.getUTCDay());
-    const weekStart = new Date(localWeekStart.getTime() + timezoneOffset * 60000);
+    const settings = await getUserTimeSettings(userId);
+    const data = await getPeriodTotals(trackerId, tracker.type, settings);
 
-    // User's local month start
-    const localMonthStart = new Date(
-      Date.UTC(localNow.getUTCFullYear(), localNow.getUTCMonth(), 1)
-    );
-    const monthStart = new Date(localMonthStart.getTime() + timezoneOffset * 60000);
-
-    let today = 0;
-    let week = 0;
-    let month = 0;
-
-    switch (tracker.type) {
-      case "TIMER": {
-        // Sum durations for completed timer entries
-        const [t, w, m] = await Promise.all([
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              startTime: { not: null },
-              endTime: { not: null },
-              date: { gte: todayStart },
-            },
-            _sum: { value: true },
-          }),
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              startTime: { not: null },
-              endTime: { not: null },
-              date: { gte: weekStart },
-            },
-            _sum: { value: true },
-          }),
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              startTime: { not: null },
-              endTime: { not: null },
-              date: { gte: monthStart },
-            },
-            _sum: { value: true },
-          }),
-        ]);
-        today = t._sum.value ?? 0;
-        week = w._sum.value ?? 0;
-        month = m._sum.value ?? 0;
-        break;
-      }
-      case "COUNTER":
-      case "AMOUNT": {
-        // Sum values for counter/amount entries
-        const [t, w, m] = await Promise.all([
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              value: { not: null },
-              date: { gte: todayStart },
-            },
-            _sum: { value: true },
-          }),
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              value: { not: null },
-              date: { gte: weekStart },
-            },
-            _sum: { value: true },
-          }),
-          prisma.trackerEntry.aggregate({
-            where: {
-              trackerId,
-              value: { not: null },
-              date: { gte: monthStart },
-            },
-            _sum: { value: true },
-          }),
-        ]);
-        today = t._sum.value ?? 0;
-        week = w._sum.value ?? 0;
-        month = m._sum.value ?? 0;
-        break;
-      }
-      default: {
-        // Occurrence and custom: count entries
-        const [tc, wc, mc] = await Promise.all([
-          prisma.trackerEntry.count({
-            where: { trackerId, date: { gte: todayStart } },
-          }),
-          prisma.trackerEntry.count({
-            where: { trackerId, date: { gte: weekStart } },
-          }),
-          prisma.trackerEntry.count({
-            where: { trackerId, date: { gte: monthStart } },
-          }),
-        ]);
-        today = tc;
-        week = wc;
-        month = mc;
-      }
-    }
-
-    return {
-      success: true,
-      data: { today, week, month },
-    };
+    return { success: true, data };
   } catch (error) {
     console.error("Error fetching tracker stats:", error);
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -213,17 +114,27 @@ export async function getTrackerStats(
 // Phase 6 Analytics
 // ---------------------------------------------------------------------------
 
+export interface TrendPoint {
+  date: string; // "YYYY-MM-DD"
+  value: number;
+  fields?: Record<string, number>; // CUSTOM numeric fields, keyed by field key
+  pomodoros?: number; // TIMER only: completed Pomodoro work intervals
+}
+
 /**
  * Return daily breakdown of values for trend charts.
  * TIMER/COUNTER/AMOUNT → sum values; OCCURRENCE/CUSTOM → count entries.
+ * CUSTOM trackers also get one series per numeric field: ratings are
+ * averaged, numbers and durations summed. DERIVED trackers evaluate their
+ * formula on each day's totals (0 where it's undefined).
  * Every calendar day in [startDate, endDate] is present; missing days are 0.
+ * Dates are local days in the user's time zone.
  */
 export async function getTrackerTrend(
   trackerId: string,
   startDateStr: string,
-  endDateStr: string,
-  timezoneOffset: number = 0
-): Promise<EntryActionResponse<{ date: string; value: number }[]>> {
+  endDateStr: string
+): Promise<EntryActionResponse<TrendPoint[]>> {
   if (!trackerId || trackerId.trim() === "") {
     return { success: false, error: "Tracker ID is required" };
   }
@@ -237,46 +148,63 @@ export async function getTrackerTrend(
       return { success: false, error: "startDate must not be after endDate" };
     }
 
-    // Parse the input dates interpreting them as user's local dates
-    const startParts = startDateStr.split("-").map(Number);
-    const endParts = endDateStr.split("-").map(Number);
-
-    // Create UTC midnight representing the local dates, then apply offset to get real UTC time
-    const localStartMidnight = new Date(Date.UTC(startParts[0], startParts[1] - 1, startParts[2]));
-    const queryStart = new Date(localStartMidnight.getTime() + timezoneOffset * 60000);
-
-    const localEndMidnight = new Date(
-      Date.UTC(endParts[0], endParts[1] - 1, endParts[2], 23, 59, 59, 999)
-    );
-    const queryEnd = new Date(localEndMidnight.getTime() + timezoneOffset * 60000);
-
-    const rangeDays = (queryEnd.getTime() - queryStart.getTime()) / (1000 * 60 * 60 * 24);
-    if (rangeDays > 365) {
+    if (diffDateStrs(startDateStr, endDateStr) >= 365) {
       return { success: false, error: "Date range cannot exceed 365 days" };
     }
 
+    // Interpret the input dates as local days in the user's time zone
+    const { timezone } = await getUserTimeSettings(userId);
+    const { start: queryStart, end: queryEnd } = zonedDayRange(startDateStr, endDateStr, timezone);
+
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
-      select: { type: true },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { type: true, fields: true, userId: true, formula: true },
     });
     if (!tracker) {
       throw new Error("Tracker not found");
     }
 
-    const entries = await prisma.trackerEntry.findMany({
-      where: {
-        trackerId,
-        date: { gte: queryStart, lte: queryEnd },
-      },
-      select: { date: true, value: true },
-      orderBy: { date: "asc" },
-    });
+    if (tracker.type === "DERIVED") {
+      const series = await loadDerivedSeries(tracker, timezone, queryStart, queryEnd);
+      const values = series ? derivedDailyValues(series, startDateStr, endDateStr) : null;
+      const result: TrendPoint[] = [];
+      for (let key = startDateStr; key <= endDateStr; key = addDaysToDateStr(key, 1)) {
+        result.push({ date: key, value: values?.get(key) ?? 0 });
+      }
+      return { success: true, data: result };
+    }
+
+    const numericFields =
+      tracker.type === "CUSTOM" ? tracker.fields.filter((field) => isNumericField(field)) : [];
+    const isTimer = tracker.type === "TIMER";
+
+    // Timers sum the active time of stopped sessions, as in the period totals
+    const entries = isTimer
+      ? (await getCompletedTimerEntries([trackerId], queryStart, queryEnd)).map((entry) => ({
+          date: entry.date,
+          value: entry.active,
+          pomodoro: entry.pomodoro,
+          fields: undefined,
+        }))
+      : await prisma.trackerEntry.findMany({
+          where: {
+            trackerId,
+            date: { gte: queryStart, lte: queryEnd },
+          },
+          select: { date: true, value: true, fields: numericFields.length > 0 },
+          orderBy: { date: "asc" },
+        });
+
+    // Per-day sum and count of each numeric field
+    const fieldTotals = new Map<string, Map<string, { sum: number; count: number }>>();
 
     // Aggregate entries by calendar day
     const grouped = new Map<string, number>();
+    const pomodoros = new Map<string, number>();
     for (const entry of entries) {
-      const key = toLocalDateStr(entry.date, timezoneOffset);
+      const key = toZonedDateStr(entry.date, timezone);
       const prev = grouped.get(key) ?? 0;
+      if ("pomodoro" in entry && entry.pomodoro) pomodoros.set(key, (pomodoros.get(key) ?? 0) + 1);
       switch (tracker.type) {
         case "TIMER":
         case "COUNTER":
@@ -287,18 +215,38 @@ export async function getTrackerTrend(
           // OCCURRENCE, CUSTOM: count entries
           grouped.set(key, prev + 1);
       }
+
+      if (numericFields.length > 0) {
+        const values = readCustomFieldValues(entry.fields);
+        const day = fieldTotals.get(key) ?? new Map<string, { sum: number; count: number }>();
+        for (const field of numericFields) {
+          const value = numericFieldValue(field, values);
+          if (value === null) continue;
+          const total = day.get(field.key) ?? { sum: 0, count: 0 };
+          day.set(field.key, { sum: total.sum + value, count: total.count + 1 });
+        }
+        fieldTotals.set(key, day);
+      }
     }
 
     // Build result with one entry per calendar day in range (fill gaps with 0)
-    const result: { date: string; value: number }[] = [];
-    const cursor = new Date(queryStart);
-    const rangeEnd = new Date(queryEnd);
-    rangeEnd.setHours(0, 0, 0, 0);
-
-    while (cursor <= rangeEnd) {
-      const key = toLocalDateStr(cursor, timezoneOffset);
-      result.push({ date: key, value: grouped.get(key) ?? 0 });
-      cursor.setDate(cursor.getDate() + 1);
+    const result: TrendPoint[] = [];
+    for (let key = startDateStr; key <= endDateStr; key = addDaysToDateStr(key, 1)) {
+      const point: TrendPoint = { date: key, value: grouped.get(key) ?? 0 };
+      if (isTimer) point.pomodoros = pomodoros.get(key) ?? 0;
+      if (numericFields.length > 0) {
+        const day = fieldTotals.get(key);
+        point.fields = Object.fromEntries(
+          numericFields.map((field) => {
+            const total = day?.get(field.key);
+            if (!total) return [field.key, 0];
+            const value =
+              field.type === CustomFieldType.RATING ? total.sum / total.count : total.sum;
+            return [field.key, value];
+          })
+        );
+      }
+      result.push(point);
     }
 
     return { success: true, data: result };
@@ -311,15 +259,23 @@ export async function getTrackerTrend(
   }
 }
 
+export interface CalendarDayData {
+  date: string;
+  count: number;
+  /** Habits only: how the day stands against the schedule */
+  state?: HabitDayState;
+}
+
 /**
  * Return daily entry counts for a calendar heatmap (full year).
  * Only days that have ≥ 1 entry are included; the client fills zeros.
+ * For habits every day from the first check-in through today is included,
+ * with its state.
  */
 export async function getCalendarData(
   trackerId: string,
-  year: number,
-  timezoneOffset: number = 0
-): Promise<EntryActionResponse<{ date: string; count: number }[]>> {
+  year: number
+): Promise<EntryActionResponse<CalendarDayData[]>> {
   if (!trackerId || trackerId.trim() === "") {
     return { success: false, error: "Tracker ID is required" };
   }
@@ -331,18 +287,20 @@ export async function getCalendarData(
     }
 
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
-      select: { id: true },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true, schedule: true },
     });
     if (!tracker) {
       throw new Error("Tracker not found");
     }
 
-    const localYearStartMidnight = new Date(Date.UTC(year, 0, 1));
-    const yearStart = new Date(localYearStartMidnight.getTime() + timezoneOffset * 60000);
-
-    const localYearEndMidnight = new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999));
-    const yearEnd = new Date(localYearEndMidnight.getTime() + timezoneOffset * 60000);
+    const settings = await getUserTimeSettings(userId);
+    const { timezone } = settings;
+    const { start: yearStart, end: yearEnd } = zonedDayRange(
+      `${year}-01-01`,
+      `${year}-12-31`,
+      timezone
+    );
 
     const entries = await prisma.trackerEntry.findMany({
       where: {
@@ -355,13 +313,21 @@ export async function getCalendarData(
 
     const counts = new Map<string, number>();
     for (const entry of entries) {
-      const key = toLocalDateStr(entry.date, timezoneOffset);
+      const key = toZonedDateStr(entry.date, timezone);
       counts.set(key, (counts.get(key) ?? 0) + 1);
     }
 
-    const result: { date: string; count: number }[] = Array.from(counts.entries()).map(
-      ([date, count]) => ({ date, count })
-    );
+    let result: CalendarDayData[] = Array.from(counts.entries()).map(([date, count]) => ({
+      date,
+      count,
+    }));
+
+    if (tracker.schedule) {
+      const { days } = await getHabitProgress(trackerId, tracker.schedule, settings);
+      result = Array.from(days)
+        .filter(([date]) => date.startsWith(`${year}-`))
+        .map(([date, state]) => ({ date, count: counts.get(date) ?? 0, state }));
+    }
 
     return { success: true, data: result };
   } catch (error) {
@@ -375,13 +341,12 @@ export async function getCalendarData(
 
 /**
  * Return current and longest streak of consecutive calendar days for a tracker.
- * A streak is a run of consecutive days each having ≥ 1 entry.
- * The current streak counts if the most recent entry is today or yesterday.
+ * A streak is a run of consecutive days each having ≥ 1 entry, in the user's
+ * time zone. The current streak counts if the most recent entry is today or yesterday.
+ * Habits (trackers with a schedule) count scheduled check-ins instead; rest
+ * and skipped days don't break the run.
  */
-export async function getOccurrenceStreak(
-  trackerId: string,
-  timezoneOffset: number = 0
-): Promise<
+export async function getOccurrenceStreak(trackerId: string): Promise<
   EntryActionResponse<{
     current: number;
     longest: number;
@@ -395,72 +360,17 @@ export async function getOccurrenceStreak(
     const userId = await requireUserId();
 
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
-      select: { id: true },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true, schedule: true },
     });
     if (!tracker) {
       throw new Error("Tracker not found");
     }
 
-    const entries = await prisma.trackerEntry.findMany({
-      where: { trackerId },
-      select: { date: true },
-      orderBy: { date: "asc" },
-    });
-
-    if (entries.length === 0) {
-      return {
-        success: true,
-        data: { current: 0, longest: 0, lastDate: null },
-      };
-    }
-
-    // Collect unique calendar days, sorted ascending
-    const daySet = new Set<string>();
-    for (const entry of entries) {
-      daySet.add(toLocalDateStr(entry.date, timezoneOffset));
-    }
-    const days = Array.from(daySet).sort();
-
-    const lastDate = days[days.length - 1];
-
-    // Compute longest streak
-    let longest = 1;
-    let runLen = 1;
-    for (let i = 1; i < days.length; i++) {
-      const prev = new Date(days[i - 1] + "T00:00:00");
-      const curr = new Date(days[i] + "T00:00:00");
-      const diffDays = Math.round((curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24));
-      if (diffDays === 1) {
-        runLen++;
-        if (runLen > longest) longest = runLen;
-      } else {
-        runLen = 1;
-      }
-    }
+    const settings = await getUserTimeSettings(userId);
+    const data = await getTrackerStreak(tracker, settings);
 
-    // Compute current streak (streak is live if last entry is today or yesterday)
-    const now = new Date();
-    const todayStr = toLocalDateStr(now, timezoneOffset);
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const yesterdayStr = toLocalDateStr(yesterday, timezoneOffset);
-
-    let current = 0;
-    if (lastDate === todayStr || lastDate === yesterdayStr) {
-      current = 1;
-      for (let i = days.length - 1; i > 0; i--) {
-        const prev = new Date(days[i - 1] + "T00:00:00");
-        const curr = new Date(days[i] + "T00:00:00");
-        const diffDays = Math.round((curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24));
-        if (diffDays === 1) {
-          current++;
-        } else {
-          break;
-        }
-      }
-    }
-
-    return { success: true, data: { current, longest, lastDate } };
+    return { success: true, data };
   } catch (error) {
     console.error("Error fetching occurrence streak:", error);
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -472,7 +382,8 @@ export async function getOccurrenceStreak(
 
 /**
  * Export all entries for a tracker as a CSV string.
- * Header: date,value,startTime,endTime,note,tags
+ * Header: date,value,startTime,endTime,note,tags, then one column per field
+ * (by key) for CUSTOM trackers.
  * Fields containing commas or quotes are wrapped in double-quotes (RFC 4180).
  */
 export async function exportTrackerCSV(
@@ -485,12 +396,14 @@ export async function exportTrackerCSV(
     const userId = await requireUserId();
 
     const tracker = await prisma.tracker.findFirst({
-      where: { id: trackerId, userId },
-      select: { id: true, name: true },
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true, name: true, type: true, fields: true },
     });
     if (!tracker) {
       throw new Error("Tracker not found");
     }
+    const customFields = tracker.type === "CUSTOM" ? tracker.fields : [];
+    const isTimer = tracker.type === "TIMER";
 
     const entries = await prisma.trackerEntry.findMany({
       where: { trackerId },
@@ -501,33 +414,47 @@ export async function exportTrackerCSV(
         endTime: true,
         note: true,
         tags: true,
+        fields: customFields.length > 0,
+        breaks: isTimer,
       },
       orderBy: { date: "desc" },
     });
 
-    /** Escape a field value per RFC 4180, and neutralize spreadsheet formula injection */
-    const escapeField = (val: string | null | undefined): string => {
-      if (val == null) return "";
-      // Prefix formula-trigger characters to prevent spreadsheet formula injection
-      const sanitized = /^[=+\-@]/.test(val) ? `'${val}` : val;
-      if (sanitized.includes(",") || sanitized.includes('"') || sanitized.includes("\n")) {
-        return `"${sanitized.replace(/"/g, '""')}"`;
-      }
-      return sanitized;
-    };
-
     const isoOrEmpty = (d: Date | null): string => (d != null ? d.toISOString() : "");
 
-    const rows: string[] = ["date,value,startTime,endTime,note,tags"];
+    // Timers add active (value, excluding breaks) and wall-clock durations in seconds
+    const header = ["date", "value", "startTime", "endTime", "note", "tags"];
+    const timerHeader = isTimer ? ["activeDuration", "wallClockDuration", "breaks"] : [];
+    const rows: string[] = [
+      [...header, ...timerHeader, ...customFields.map((field) => escapeCsvField(field.key))].join(
+        ","
+      ),
+    ];
     for (const entry of entries) {
+      const values = readCustomFieldValues(entry.fields);
       rows.push(
         [
           isoOrEmpty(entry.date),
           entry.value != null ? String(entry.value) : "",
           isoOrEmpty(entry.startTime),
           isoOrEmpty(entry.endTime),
-          escapeField(entry.note),
-          escapeField(entry.tags.join("; ")),
+          escapeCsvField(entry.note),
+          escapeCsvField(entry.tags.join("; ")),
+          ...(isTimer
+            ? entry.startTime && entry.endTime
+              ? [
+                  String(activeSeconds(entry.startTime, entry.endTime, entry.breaks)),
+                  String(wallClockSeconds(entry.startTime, entry.endTime)),
+                  String(entry.breaks.length),
+                ]
+              : ["", "", ""]
+            : []),
+          // Numeric fields stay plain numbers so each exports as its own column series
+          ...customFields.map((field) => {
+            const value = values[field.key];
+            if (value === undefined) return "";
+            return isNumericField(field) ? String(value) : escapeCsvField(String(value));
+          }),
         ].join(",")
       );
     }
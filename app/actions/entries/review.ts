@@ -0,0 +1,217 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { activeSeconds, isTimerRunning } from "@/lib/trackers/timer";
+import { capEndTime, endTimerAt, isOverrun } from "@/lib/trackers/timer-policy";
+import { findRunningTimers } from "@/lib/trackers/running-timers";
+import { recalculateTrackerStatistics } from "@/lib/trackers/statistics";
+import { getUserTimerPolicy } from "@/lib/users/timer-policy";
+import { WebhookEvent } from "@/types";
+import type { EntryActionResponse } from "./create";
+
+export interface TimerReviewItem {
+  id: string;
+  trackerId: string;
+  trackerName: string;
+  startTime: Date;
+  /** null while the timer is still running */
+  endTime: Date | null;
+  /** Active seconds so far (running) or as recorded (stopped) */
+  duration: number;
+  limitHours: number | null;
+}
+
+/**
+ * Timers that need a look: ones still running past the user's max timer
+ * length, and stopped entries flagged for running past it
+ */
+export async function getTimersNeedingReview(): Promise<EntryActionResponse<TimerReviewItem[]>> {
+  try {
+    const userId = await requireUserId();
+    const policy = await getUserTimerPolicy(userId);
+    const now = new Date();
+
+    const running =
+      policy.maxHours === null ? [] : await findRunningTimers(prisma, { tracker: { userId } });
+    const flagged = await prisma.trackerEntry.findMany({
+      where: { overrun: true, startTime: { not: null }, tracker: { userId } },
+      select: {
+        id: true,
+        trackerId: true,
+        startTime: true,
+        endTime: true,
+        value: true,
+        tracker: { select: { name: true } },
+      },
+      orderBy: { startTime: "desc" },
+      take: 20,
+    });
+
+    const items: TimerReviewItem[] = [];
+    for (const entry of running) {
+      const duration = activeSeconds(entry.startTime!, now, entry.breaks);
+      if (!isOverrun(policy, duration)) continue;
+      items.push({
+        id: entry.id,
+        trackerId: entry.trackerId,
+        trackerName: entry.tracker.name,
+        startTime: entry.startTime!,
+        endTime: null,
+        duration,
+        limitHours: policy.maxHours,
+      });
+    }
+    for (const entry of flagged) {
+      items.push({
+        id: entry.id,
+        trackerId: entry.trackerId,
+        trackerName: entry.tracker.name,
+        startTime: entry.startTime!,
+        endTime: entry.endTime,
+        duration: entry.value ?? 0,
+        limitHours: policy.maxHours,
+      });
+    }
+
+    return { success: true, data: items };
+  } catch (error) {
+    console.error("Error loading timers for review:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to load timers" };
+  }
+}
+
+const ResolutionSchema = z.discriminatedUnion("action", [
+  // Keep the recorded time (a running timer is stopped now)
+  z.object({ action: z.literal("keep") }),
+  // End the timer when it reached the user's max length
+  z.object({ action: z.literal("cap") }),
+  // End the timer at a time the user picked
+  z.object({ action: z.literal("end"), endTime: z.date() }),
+]);
+
+export type TimerReviewResolution = z.infer<typeof ResolutionSchema>;
+
+/**
+ * Resolve a timer from the review prompt: keep, cap or re-time it. Running
+ * timers are stopped; either way the entry is no longer flagged.
+ */
+export async function resolveTimerReview(
+  entryId: string,
+  resolution: TimerReviewResolution
+): Promise<EntryActionResponse<{ id: string; duration: number }>> {
+  if (!entryId || entryId.trim() === "") {
+    return { success: false, error: "Entry ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const validated = ResolutionSchema.parse(resolution);
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const entry = await tx.trackerEntry.findFirst({
+        where: { id: entryId, tracker: { userId } },
+        select: {
+          id: true,
+          trackerId: true,
+          date: true,
+          startTime: true,
+          endTime: true,
+          value: true,
+          note: true,
+          tags: true,
+          breaks: true,
+        },
+      });
+      if (!entry || !entry.startTime) {
+        throw new Error("Entry not found");
+      }
+      const running = isTimerRunning(entry);
+
+      let endTime: Date;
+      switch (validated.action) {
+        case "keep":
+          endTime = running ? now : entry.endTime!;
+          break;
+        case "cap": {
+          const policy = await getUserTimerPolicy(userId, tx);
+          if (policy.maxHours === null) throw new Error("NO_TIMER_LIMIT");
+          endTime = capEndTime(entry.startTime, entry.breaks, policy.maxHours * 3600);
+          if (!running && endTime > entry.endTime!) endTime = entry.endTime!;
+          break;
+        }
+        case "end":
+          endTime = validated.endTime;
+          break;
+      }
+      if (endTime <= entry.startTime || endTime > now) {
+        throw new Error("INVALID_END_TIME");
+      }
+
+      const settled = endTimerAt(entry.startTime, endTime, entry.breaks);
+      // Guard on the endTime read above so a concurrent stop can't apply twice
+      const updated = await tx.trackerEntry.updateMany({
+        where: { id: entry.id, endTime: entry.endTime },
+        data: {
+          endTime: settled.endTime,
+          breaks: settled.breaks,
+          value: settled.duration,
+          overrun: false,
+        },
+      });
+      if (updated.count === 0) {
+        throw new Error("TIMER_CHANGED");
+      }
+
+      await recalculateTrackerStatistics(tx, entry.trackerId, "TIMER");
+      if (running) {
+        await tx.tracker.update({
+          where: { id: entry.trackerId },
+          data: { status: "INACTIVE", updatedAt: now },
+        });
+      }
+
+      return {
+        running,
+        entry: { ...entry, endTime: settled.endTime, value: settled.duration },
+      };
+    });
+
+    revalidatePath(`/trackers/${result.entry.trackerId}`);
+    revalidatePath("/dashboard");
+    emitEntryEvent(
+      result.running ? WebhookEvent.TIMER_STOPPED : WebhookEvent.ENTRY_UPDATED,
+      result.entry
+    );
+
+    return { success: true, data: { id: result.entry.id, duration: result.entry.value } };
+  } catch (error) {
+    console.error("Error resolving timer review:", error);
+    if (error instanceof Error) {
+      switch (error.message) {
+        case "Unauthorized":
+        case "Entry not found":
+          return { success: false, error: error.message };
+        case "NO_TIMER_LIMIT":
+          return { success: false, error: "No max timer length is set" };
+        case "INVALID_END_TIME":
+          return {
+            success: false,
+            error: "End time must be after the start and not in the future",
+          };
+        case "TIMER_CHANGED":
+          return { success: false, error: "Timer changed, please try again" };
+      }
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid resolution" };
+    }
+    return { success: false, error: "Failed to update timer" };
+  }
+}
@@ -3,15 +3,34 @@
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
 import { requireUserId } from "@/lib/auth/server";
+import { boardAccessWhere } from "@/lib/boards/access";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { isTimerRunning, pauseBreaks, resumeBreaks } from "@/lib/trackers/timer";
+import { isPomodoroComplete } from "@/lib/trackers/pomodoro";
+import { settleTimer } from "@/lib/trackers/timer-policy";
+import { claimTimerStart } from "@/lib/trackers/running-timers";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import { getUserTimerPolicy } from "@/lib/users/timer-policy";
+import { WebhookEvent } from "@/types";
 import type { EntryActionResponse } from "./create";
 
+export interface TimerStartResult {
+  id: string;
+  /** Timers the user's policy stopped to make room for this one */
+  stopped: { id: string; trackerId: string }[];
+}
+
 /**
- * Start a timer entry
+ * Start a timer entry, optionally linked to a board task so the task can show
+ * how long it took. A tracker runs one timer at a time (or the user runs one
+ * at all, with `singleActiveTimer`); the user's timer policy decides whether
+ * a conflicting timer blocks the start or is stopped first.
  */
 export async function startTimerEntry(
   trackerId: string,
-  note: string = ""
-): Promise<EntryActionResponse<{ id: string }>> {
+  note: string = "",
+  taskId: string | null = null
+): Promise<EntryActionResponse<TimerStartResult>> {
   if (!trackerId || trackerId.trim() === "") {
     return { success: false, error: "Tracker ID is required" };
   }
@@ -29,13 +48,34 @@ export async function startTimerEntry(
         throw new Error("Tracker not found");
       }
 
+      // Verify the linked task is on a board the user can access
+      if (taskId) {
+        const task = await tx.boardTask.findFirst({
+          where: { id: taskId, board: boardAccessWhere(userId) },
+          select: { id: true },
+        });
+        if (!task) {
+          throw new Error("Task not found");
+        }
+      }
+
+      const now = new Date();
+      const policy = await getUserTimerPolicy(userId, tx);
+      const claim = await claimTimerStart(tx, userId, trackerId, policy, now);
+      const [conflict] = claim.conflicts;
+      if (conflict) {
+        return { conflict } as const;
+      }
+
       // Create a new entry with start time
       const entry = await tx.trackerEntry.create({
         data: {
           trackerId,
-          startTime: new Date(),
+          startTime: now,
           note,
-          date: new Date(),
+          date: now,
+          taskId,
+          createdById: userId,
         },
       });
 
@@ -48,15 +88,40 @@ export async function startTimerEntry(
         },
       });
 
-      return entry;
+      return { entry, stopped: claim.stopped };
     });
 
+    const { conflict } = result;
+    if (conflict) {
+      return {
+        success: false,
+        error:
+          conflict.trackerId === trackerId
+            ? "A timer is already running for this tracker"
+            : `A timer is already running on "${conflict.tracker.name}"`,
+      };
+    }
+
     revalidatePath(`/trackers/${trackerId}`);
     revalidatePath("/dashboard");
+    for (const stopped of result.stopped) {
+      revalidatePath(`/trackers/${stopped.trackerId}`);
+      emitEntryEvent(WebhookEvent.TIMER_STOPPED, stopped);
+    }
+    emitEntryEvent(WebhookEvent.TIMER_STARTED, result.entry);
 
-    return { success: true, data: { id: result.id } };
+    return {
+      success: true,
+      data: {
+        id: result.entry.id,
+        stopped: result.stopped.map(({ id, trackerId }) => ({ id, trackerId })),
+      },
+    };
   } catch (error) {
     console.error("Error starting timer entry:", error);
+    if (error instanceof Error && error.message === "Task not found") {
+      return { success: false, error: "Task not found" };
+    }
     if (error instanceof Error && error.message === "Unauthorized") {
       return { success: false, error: "Unauthorized" };
     }
@@ -65,12 +130,15 @@ export async function startTimerEntry(
 }
 
 /**
- * Stop a timer entry
+ * Stop a timer entry. With `pomodoro`, the entry is logged as a completed
+ * Pomodoro if the tracker has Pomodoro timing and the work interval ran its
+ * full length.
  */
 export async function stopTimerEntry(
   entryId: string,
-  additionalNote: string = ""
-): Promise<EntryActionResponse<{ id: string; duration: number }>> {
+  additionalNote: string = "",
+  options: { pomodoro?: boolean } = {}
+): Promise<EntryActionResponse<{ id: string; duration: number; pomodoro: boolean }>> {
   if (!entryId || entryId.trim() === "") {
     return { success: false, error: "Entry ID is required" };
   }
@@ -85,20 +153,38 @@ export async function stopTimerEntry(
           id: entryId,
           tracker: { userId },
         },
-        select: { id: true, trackerId: true, startTime: true, note: true },
+        select: {
+          id: true,
+          trackerId: true,
+          startTime: true,
+          endTime: true,
+          note: true,
+          breaks: true,
+          value: true,
+          tracker: { select: { pomodoro: true } },
+        },
       });
 
       if (!currentEntry || !currentEntry.startTime) {
         throw new Error("Timer entry not found or invalid");
       }
 
-      const endTime = new Date();
       const updatedNote = additionalNote
         ? `${currentEntry.note || ""} ${additionalNote}`.trim()
         : currentEntry.note;
 
-      // Calculate duration in seconds
-      const duration = Math.round((endTime.getTime() - currentEntry.startTime.getTime()) / 1000);
+      // Stopping while paused ends the open break; duration is active time only,
+      // flagged or capped when it ran past the user's limit
+      const policy = await getUserTimerPolicy(userId, tx);
+      const { endTime, breaks, duration, overrun } = settleTimer(
+        policy,
+        currentEntry.startTime,
+        new Date(),
+        currentEntry.breaks
+      );
+      const { tracker } = currentEntry;
+      const pomodoro =
+        !!options.pomodoro && !!tracker.pomodoro && isPomodoroComplete(tracker.pomodoro, duration);
 
       // Update the entry with end time and duration (stored in value field)
       const entry = await tx.trackerEntry.update({
@@ -106,40 +192,33 @@ export async function stopTimerEntry(
         data: {
           endTime,
           note: updatedNote,
+          breaks,
+          pomodoro,
+          overrun,
           value: duration, // Store duration in value field for statistics
         },
       });
 
-      // Get the tracker information for statistics update
-      const tracker = await tx.tracker.findUnique({
-        where: { id: currentEntry.trackerId },
-        select: { statistics: true },
-      });
-
-      // Update tracker status back to INACTIVE and update statistics
+      // Update tracker status back to INACTIVE and count the stopped timer
       await tx.tracker.update({
         where: { id: currentEntry.trackerId },
-        data: {
-          status: "INACTIVE",
-          updatedAt: new Date(),
-          statistics: {
-            totalEntries: (tracker?.statistics?.totalEntries || 0) + 1,
-            totalTime: (tracker?.statistics?.totalTime || 0) + duration,
-          },
-        },
+        data: { status: "INACTIVE" },
       });
+      await applyEntryChange(tx, currentEntry.trackerId, currentEntry, entry);
 
-      return { entry, duration };
+      return { entry, duration, pomodoro };
     });
 
     revalidatePath(`/trackers/${result.entry.trackerId}`);
     revalidatePath("/dashboard");
+    emitEntryEvent(WebhookEvent.TIMER_STOPPED, result.entry);
 
     return {
       success: true,
       data: {
         id: result.entry.id,
         duration: result.duration,
+        pomodoro: result.pomodoro,
       },
     };
   } catch (error) {
@@ -152,3 +231,84 @@ export async function stopTimerEntry(
     return { success: false, error: "Failed to stop timer" };
   }
 }
+
+export interface TimerPauseResult {
+  id: string;
+  paused: boolean;
+  at: Date;
+}
+
+/**
+ * Pause a running timer entry by opening a break segment
+ */
+export async function pauseTimerEntry(
+  entryId: string
+): Promise<EntryActionResponse<TimerPauseResult>> {
+  return setTimerPaused(entryId, true);
+}
+
+/**
+ * Resume a paused timer entry by closing its open break segment
+ */
+export async function resumeTimerEntry(
+  entryId: string
+): Promise<EntryActionResponse<TimerPauseResult>> {
+  return setTimerPaused(entryId, false);
+}
+
+async function setTimerPaused(
+  entryId: string,
+  paused: boolean
+): Promise<EntryActionResponse<TimerPauseResult>> {
+  if (!entryId || entryId.trim() === "") {
+    return { success: false, error: "Entry ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const now = new Date();
+
+    const entry = await prisma.trackerEntry.findFirst({
+      where: { id: entryId, tracker: { userId } },
+      select: { id: true, trackerId: true, startTime: true, endTime: true, breaks: true },
+    });
+    if (!entry || !isTimerRunning(entry)) {
+      throw new Error("TIMER_NOT_RUNNING");
+    }
+
+    const breaks = paused ? pauseBreaks(entry.breaks, now) : resumeBreaks(entry.breaks, now);
+    if (!breaks) {
+      throw new Error(paused ? "TIMER_ALREADY_PAUSED" : "TIMER_NOT_PAUSED");
+    }
+
+    // Guard on the breaks read above so a concurrent pause/resume can't apply twice
+    const updated = await prisma.trackerEntry.updateMany({
+      where: { id: entryId, breaks: { equals: entry.breaks } },
+      data: { breaks },
+    });
+    if (updated.count === 0) {
+      throw new Error("TIMER_CHANGED");
+    }
+
+    revalidatePath(`/trackers/${entry.trackerId}`);
+    revalidatePath("/dashboard");
+
+    return { success: true, data: { id: entry.id, paused, at: now } };
+  } catch (error) {
+    console.error(`Error ${paused ? "pausing" : "resuming"} timer entry:`, error);
+    if (error instanceof Error) {
+      switch (error.message) {
+        case "Unauthorized":
+          return { success: false, error: "Unauthorized" };
+        case "TIMER_NOT_RUNNING":
+          return { success: false, error: "Timer is not running" };
+        case "TIMER_ALREADY_PAUSED":
+          return { success: false, error: "Timer is already paused" };
+        case "TIMER_NOT_PAUSED":
+          return { success: false, error: "Timer is not paused" };
+        case "TIMER_CHANGED":
+          return { success: false, error: "Timer changed, please try again" };
+      }
+    }
+    return { success: false, error: paused ? "Failed to pause timer" : "Failed to resume timer" };
+  }
+}
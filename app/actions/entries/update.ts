@@ -4,6 +4,13 @@ import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
 import { requireUserId } from "@/lib/auth/server";
+import { entryEditableWhere, trackerContributorWhere } from "@/lib/trackers/access";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { CustomFieldValuesSchema } from "@/lib/trackers/custom-fields";
+import { resolveEntryFields } from "@/lib/trackers/entry-fields";
+import { activeSeconds, closeBreaks, isTimerRunning } from "@/lib/trackers/timer";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import { WebhookEvent, type CustomFieldValues } from "@/types";
 import type { CreateEntryInput } from "./create";
 
 const EntrySchema = z.object({
@@ -14,6 +21,7 @@ const EntrySchema = z.object({
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().nullable(),
   tags: z.array(z.string()).optional().default([]),
   date: z.date().default(() => new Date()),
+  fields: CustomFieldValuesSchema.optional().nullable(),
 });
 
 export type EntryActionResponse<T = unknown> =
@@ -31,21 +39,47 @@ export async function updateEntry(
     const userId = await requireUserId();
 
     // Validate update data
-    const validatedData = EntrySchema.partial().parse(data);
+    const { fields: fieldInput, ...validatedData } = EntrySchema.partial().parse(data);
+
+    // Changed CUSTOM values are checked against the tracker's field schema.
+    // The tracker is only read if the user may log to it; otherwise the
+    // transaction below reports it as not found.
+    let fields: CustomFieldValues | null = null;
+    if (fieldInput !== undefined) {
+      const fieldTracker = validatedData.trackerId
+        ? await prisma.tracker.findFirst({
+            where: { id: validatedData.trackerId, ...trackerContributorWhere(userId) },
+            select: { type: true, fields: true },
+          })
+        : (
+            await prisma.trackerEntry.findFirst({
+              where: { id, ...entryEditableWhere(userId) },
+              select: { tracker: { select: { type: true, fields: true } } },
+            })
+          )?.tracker;
+      if (fieldTracker) {
+        const resolved = resolveEntryFields(fieldTracker, fieldInput);
+        if (!resolved.success) {
+          return { success: false, error: resolved.error };
+        }
+        fields = resolved.data;
+      }
+    }
 
     // Use a transaction to ensure atomic operations
     const result = await prisma.$transaction(async (tx) => {
-      // Get the original entry and verify tracker ownership
+      // Get the original entry and verify the user may edit it
       const originalEntry = await tx.trackerEntry.findFirst({
         where: {
           id,
-          tracker: { userId },
+          ...entryEditableWhere(userId),
         },
         select: {
           trackerId: true,
           startTime: true,
           endTime: true,
           value: true,
+          breaks: true,
         },
       });
 
@@ -53,10 +87,10 @@ export async function updateEntry(
         throw new Error("Entry not found");
       }
 
-      // If trackerId is being changed, verify the new tracker also belongs to user
+      // If trackerId is being changed, verify the user can log on the new tracker too
       if (validatedData.trackerId && validatedData.trackerId !== originalEntry.trackerId) {
         const newTracker = await tx.tracker.findFirst({
-          where: { id: validatedData.trackerId, userId },
+          where: { id: validatedData.trackerId, ...trackerContributorWhere(userId) },
           select: { id: true },
         });
         if (!newTracker) {
@@ -65,9 +99,14 @@ export async function updateEntry(
       }
 
       // Update entry in database
-      const entry = await tx.trackerEntry.update({
+      let entry = await tx.trackerEntry.update({
         where: { id },
-        data: validatedData,
+        data: {
+          ...validatedData,
+          ...(fields && { fields }),
+          // An edited value is in the tracker's unit, so the logged original no longer applies
+          ...(validatedData.value !== undefined && { enteredValue: null, enteredUnit: null }),
+        },
       });
 
       // Handle calculated duration for timer entries
@@ -81,94 +120,31 @@ export async function updateEntry(
         const endTime = validatedData.endTime || originalEntry.endTime;
 
         if (startTime && endTime) {
-          const durationInSeconds = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
-
-          // Update the entry with the calculated duration
-          await tx.trackerEntry.update({
+          // Breaks don't count; a paused timer being stopped has its open break closed
+          const breaks = isTimerRunning({ startTime, endTime })
+            ? originalEntry.breaks
+            : closeBreaks(originalEntry.breaks, endTime);
+          const durationInSeconds = activeSeconds(startTime, endTime, breaks);
+
+          // Update the entry with the calculated duration; edited times count as
+          // reviewing a timer that ran past the user's limit
+          entry = await tx.trackerEntry.update({
             where: { id: entry.id },
-            data: { value: durationInSeconds },
+            data: {
+              value: durationInSeconds,
+              breaks,
+              ...((validatedData.startTime || validatedData.endTime) && { overrun: false }),
+            },
           });
         }
       }
 
-      // Get the tracker to determine its type for statistics (scoped to owner)
-      const tracker = await tx.tracker.findFirst({
-        where: { id: trackerId, userId },
-        select: { type: true },
-      });
-
-      if (tracker) {
-        // Recalculate all statistics for the tracker
-        // This is a simpler approach than calculating the exact change
-        // and works for all tracker types and edge cases
-
-        switch (tracker.type) {
-          case "TIMER":
-            const timerStats = await tx.trackerEntry.aggregate({
-              where: {
-                trackerId,
-                startTime: { not: null },
-                endTime: { not: null },
-              },
-              _count: { id: true },
-              _sum: { value: true }, // Using value field for duration
-            });
-
-            await tx.tracker.update({
-              where: { id: trackerId },
-              data: {
-                statistics: {
-                  totalEntries: timerStats._count.id,
-                  totalTime: timerStats._sum.value || 0,
-                },
-                updatedAt: new Date(),
-              },
-            });
-            break;
-
-          case "COUNTER":
-          case "AMOUNT":
-            const valueStats = await tx.trackerEntry.aggregate({
-              where: { trackerId, value: { not: null } },
-              _count: { id: true },
-              _sum: { value: true },
-            });
-
-            await tx.tracker.update({
-              where: { id: trackerId },
-              data: {
-                statistics: {
-                  totalEntries: valueStats._count.id,
-                  totalValue: valueStats._sum.value || 0,
-                },
-                updatedAt: new Date(),
-              },
-            });
-            break;
-
-          case "OCCURRENCE":
-          case "CUSTOM":
-            const customCount = await tx.trackerEntry.count({
-              where: { trackerId },
-            });
-
-            const currentTracker = await tx.tracker.findUnique({
-              where: { id: trackerId },
-              select: { statistics: true },
-            });
-
-            await tx.tracker.update({
-              where: { id: trackerId },
-              data: {
-                statistics: {
-                  totalEntries: customCount,
-                  totalCustom: currentTracker?.statistics?.totalCustom || "",
-                },
-                updatedAt: new Date(),
-              },
-            });
-            break;
-        }
+      // Move the entry's share of the statistics, including between trackers
+      if (trackerId === originalEntry.trackerId) {
+        await applyEntryChange(tx, trackerId, originalEntry, entry);
+      } else {
+        await applyEntryChange(tx, originalEntry.trackerId, originalEntry, null);
+        await applyEntryChange(tx, trackerId, null, entry);
       }
 
       return entry;
@@ -180,6 +156,7 @@ export async function updateEntry(
     }
 
     revalidatePath("/dashboard");
+    emitEntryEvent(WebhookEvent.ENTRY_UPDATED, result);
 
     return { success: true, data: { id: result.id } };
   } catch (error) {
@@ -0,0 +1,223 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/db/prisma";
+import { requireUserId } from "@/lib/auth/server";
+import { getCompletedTimerEntries } from "@/lib/trackers/stats";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import { diffDateStrs, zonedDayRange } from "@/lib/timezone";
+import {
+  buildTimesheet,
+  RoundingSchema,
+  timesheetToCsv,
+  timesheetToHtml,
+  type BillingRates,
+  type Timesheet,
+} from "@/lib/trackers/timesheet";
+
+export type TimesheetActionResponse<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const MAX_RANGE_DAYS = 366;
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+const TimesheetSchema = z
+  .object({
+    from: dateStr,
+    to: dateStr,
+    trackerIds: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    rounding: RoundingSchema,
+  })
+  .refine((input) => diffDateStrs(input.from, input.to) >= 0, "Start date must be before end")
+  .refine(
+    (input) => diffDateStrs(input.from, input.to) < MAX_RANGE_DAYS,
+    `Range can be at most ${MAX_RANGE_DAYS} days`
+  );
+
+const RatesSchema = z.object({
+  trackers: z.record(z.string(), z.number().min(0).nullable()),
+  tags: z
+    .array(z.object({ tag: z.string().trim().min(1, "Tag is required"), rate: z.number().min(0) }))
+    .refine(
+      (rates) => new Set(rates.map((r) => r.tag)).size === rates.length,
+      "Each tag can only have one rate"
+    ),
+});
+
+export type TimesheetInput = z.infer<typeof TimesheetSchema>;
+
+export interface TimesheetTracker {
+  id: string;
+  name: string;
+  hourlyRate: number | null;
+}
+
+export interface TimesheetReport extends Timesheet {
+  trackers: TimesheetTracker[];
+}
+
+/** The user's own TIMER trackers and their billing rates */
+async function loadRates(userId: string) {
+  const [trackers, user] = await Promise.all([
+    prisma.tracker.findMany({
+      where: { userId, type: "TIMER" },
+      select: { id: true, name: true, hourlyRate: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.user.findUnique({ where: { id: userId }, select: { tagRates: true } }),
+  ]);
+  const rates: BillingRates = {
+    trackers: Object.fromEntries(trackers.map((t) => [t.id, t.hourlyRate])),
+    tags: user?.tagRates ?? [],
+  };
+  return { trackers, rates };
+}
+
+async function loadTimesheet(userId: string, input: TimesheetInput): Promise<TimesheetReport> {
+  const validated = TimesheetSchema.parse(input);
+  const settings = await getUserTimeSettings(userId);
+  const { trackers, rates } = await loadRates(userId);
+
+  const selected = validated.trackerIds?.length
+    ? trackers.filter((t) => validated.trackerIds!.includes(t.id))
+    : trackers;
+  const { start, end } = zonedDayRange(validated.from, validated.to, settings.timezone);
+  let entries = await getCompletedTimerEntries(
+    selected.map((t) => t.id),
+    start,
+    end
+  );
+  if (validated.tags?.length) {
+    entries = entries.filter((entry) => entry.tags.some((tag) => validated.tags!.includes(tag)));
+  }
+
+  const timesheet = buildTimesheet(
+    entries,
+    Object.fromEntries(trackers.map((t) => [t.id, t.name])),
+    { ...settings, rounding: validated.rounding, rates }
+  );
+  return { ...timesheet, trackers };
+}
+
+function toErrorResponse(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+  }
+  if (error instanceof Error && error.message === "Unauthorized") {
+    return { success: false, error: "Unauthorized" };
+  }
+  return { success: false, error: fallback };
+}
+
+/**
+ * Billable time for the user's timer trackers between two local dates,
+ * grouped by week, tracker and tag
+ */
+export async function getTimesheet(
+  input: TimesheetInput
+): Promise<TimesheetActionResponse<TimesheetReport>> {
+  try {
+    const userId = await requireUserId();
+    return { success: true, data: await loadTimesheet(userId, input) };
+  } catch (error) {
+    console.error("Error loading timesheet:", error);
+    return toErrorResponse(error, "Failed to load timesheet");
+  }
+}
+
+/**
+ * The timesheet as a CSV file or a printable HTML document
+ */
+export async function exportTimesheet(
+  input: TimesheetInput,
+  format: "csv" | "html"
+): Promise<TimesheetActionResponse<{ content: string; filename: string; mimeType: string }>> {
+  try {
+    const userId = await requireUserId();
+    const report = await loadTimesheet(userId, input);
+    const basename = `timesheet-${input.from}-to-${input.to}`;
+
+    if (format === "csv") {
+      return {
+        success: true,
+        data: {
+          content: timesheetToCsv(report),
+          filename: `${basename}.csv`,
+          mimeType: "text/csv;charset=utf-8;",
+        },
+      };
+    }
+    return {
+      success: true,
+      data: {
+        content: timesheetToHtml(report, `Timesheet ${input.from} to ${input.to}`),
+        filename: `${basename}.html`,
+        mimeType: "text/html;charset=utf-8;",
+      },
+    };
+  } catch (error) {
+    console.error("Error exporting timesheet:", error);
+    return toErrorResponse(error, "Failed to export timesheet");
+  }
+}
+
+/**
+ * Hourly rates for the user's timer trackers and entry tags
+ */
+export async function getBillingRates(): Promise<
+  TimesheetActionResponse<BillingRates & { trackerList: TimesheetTracker[] }>
+> {
+  try {
+    const userId = await requireUserId();
+    const { trackers, rates } = await loadRates(userId);
+    return { success: true, data: { ...rates, trackerList: trackers } };
+  } catch (error) {
+    console.error("Error loading billing rates:", error);
+    return toErrorResponse(error, "Failed to load billing rates");
+  }
+}
+
+/**
+ * Replace the user's tag rates and set rates on their timer trackers.
+ * Trackers left out of `trackers` keep their rate.
+ */
+export async function updateBillingRates(
+  input: BillingRates
+): Promise<TimesheetActionResponse<BillingRates>> {
+  try {
+    const userId = await requireUserId();
+    const validated = RatesSchema.parse(input);
+
+    const trackerIds = Object.keys(validated.trackers);
+    const owned = await prisma.tracker.findMany({
+      where: { id: { in: trackerIds }, userId, type: "TIMER" },
+      select: { id: true },
+    });
+    if (owned.length !== trackerIds.length) {
+      throw new Error("Tracker not found");
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: { tagRates: validated.tags } }),
+      ...owned.map((tracker) =>
+        prisma.tracker.update({
+          where: { id: tracker.id },
+          data: { hourlyRate: validated.trackers[tracker.id] },
+        })
+      ),
+    ]);
+
+    revalidatePath("/timesheet");
+    return { success: true, data: validated };
+  } catch (error) {
+    console.error("Error updating billing rates:", error);
+    if (error instanceof Error && error.message === "Tracker not found") {
+      return { success: false, error: error.message };
+    }
+    return toErrorResponse(error, "Failed to update billing rates");
+  }
+}
@@ -8,6 +8,18 @@ export {
   deleteTrackers,
 } from "./trackers/crud";
 export type { TrackerActionResponse, TrackerStatistics, CreateTrackerInput } from "./trackers/crud";
-export { getTracker, getTrackers } from "./trackers/list";
+export { getTracker, getTrackers, getSharedTrackers } from "./trackers/list";
 export type { TrackerWithEntriesCount, TrackerPagingResponse } from "./trackers/list";
-export { pinTracker, unpinTracker, setTrackerGoal, clearTrackerGoal } from "./trackers/actions";
+export { pinTracker, unpinTracker } from "./trackers/actions";
+export { getTrackerGoals, setTrackerGoal, clearTrackerGoal } from "./trackers/goals";
+export type { HabitSkipInput } from "./trackers/habits";
+export { skipHabitDay, unskipHabitDay } from "./trackers/habits";
+export type { ShareTrackerInput } from "./trackers/shares";
+export {
+  getTrackerShares,
+  shareTracker,
+  updateTrackerShareRole,
+  removeTrackerShare,
+} from "./trackers/shares";
+export type { StatisticsCheckResult } from "./trackers/statistics";
+export { rebuildTrackerStatistics, rebuildAccountStatistics } from "./trackers/statistics";
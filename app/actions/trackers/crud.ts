@@ -11,6 +11,13 @@ import {
 } from "@/types";
 import { revalidatePath } from "next/cache";
 import { requireUserId } from "@/lib/auth/server";
+import { CustomFieldsSchema } from "@/lib/trackers/custom-fields";
+import { PomodoroConfigSchema } from "@/lib/trackers/pomodoro";
+import { HabitScheduleSchema } from "@/lib/trackers/habits";
+import { setTrackerUnit } from "@/lib/trackers/entry-units";
+import { DerivedFormulaSchema } from "@/lib/trackers/formula";
+import { validateFormulaInputs } from "@/lib/trackers/derived";
+import { tracksUnits, UnitCodeSchema } from "@/lib/units";
 
 export type TrackerActionResponse<T = unknown> =
   | { success: true; data: T }
@@ -39,6 +46,11 @@ const TrackerSchema = z.object({
     .optional()
     .nullable(),
   icon: z.string().optional().nullable(),
+  fields: CustomFieldsSchema.optional(),
+  pomodoro: PomodoroConfigSchema.optional().nullable(),
+  schedule: HabitScheduleSchema.optional().nullable(),
+  unit: UnitCodeSchema.optional().nullable(),
+  formula: DerivedFormulaSchema.optional().nullable(),
   statistics: z
     .object({
       totalEntries: z.number().optional().default(0),
@@ -64,10 +76,29 @@ export async function createTracker(
     // Validate input data
     const validatedData = TrackerSchema.parse(data);
 
-    // Create tracker in database
+    // DERIVED trackers compute their values from the user's other trackers
+    if (validatedData.type === TrackerType.DERIVED) {
+      if (!validatedData.formula) {
+        return { success: false, error: "Derived trackers need a formula" };
+      }
+      const checked = await validateFormulaInputs(userId, validatedData.formula);
+      if (!checked.success) {
+        return { success: false, error: checked.error };
+      }
+    }
+
+    // Create tracker in database; only CUSTOM trackers have a field schema,
+    // only TIMER trackers a Pomodoro configuration and only OCCURRENCE
+    // trackers a habit schedule; units are for AMOUNT and COUNTER trackers and
+    // formulas for DERIVED ones
     const tracker = await prisma.tracker.create({
       data: {
         ...validatedData,
+        fields: validatedData.type === TrackerType.CUSTOM ? (validatedData.fields ?? []) : [],
+        pomodoro: validatedData.type === TrackerType.TIMER ? validatedData.pomodoro : null,
+        schedule: validatedData.type === TrackerType.OCCURRENCE ? validatedData.schedule : null,
+        unit: tracksUnits(validatedData.type) ? validatedData.unit : null,
+        formula: validatedData.type === TrackerType.DERIVED ? validatedData.formula : null,
         status: TrackerStatus.INACTIVE,
         userId,
       },
@@ -106,7 +137,22 @@ export async function updateTracker(
     const userId = await requireUserId();
 
     // Validate update data
-    const validatedData = TrackerSchema.partial().parse(data);
+    const { unit, ...validatedData } = TrackerSchema.partial().parse(data);
+
+    if (validatedData.formula) {
+      const checked = await validateFormulaInputs(userId, validatedData.formula, id);
+      if (!checked.success) {
+        return { success: false, error: checked.error };
+      }
+    }
+
+    // A new unit converts the values already logged
+    if (unit !== undefined) {
+      const changed = await setTrackerUnit(id, userId, unit);
+      if (!changed.success) {
+        return { success: false, error: changed.error };
+      }
+    }
 
     // Update tracker in database (scoped to owner)
     const tracker = await prisma.tracker.updateMany({
@@ -194,6 +240,11 @@ export async function duplicateTracker(id: string): Promise<TrackerActionRespons
         tags: original.tags,
         color: original.color,
         icon: original.icon,
+        fields: original.fields,
+        pomodoro: original.pomodoro,
+        schedule: original.schedule,
+        unit: original.unit,
+        formula: original.formula,
         userId: original.userId,
         statistics: {
           totalEntries: 0,
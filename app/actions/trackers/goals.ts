@@ -0,0 +1,179 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { trackerAccessWhere } from "@/lib/trackers/access";
+import { migrateLegacyGoal } from "@/lib/trackers/goal-history";
+import { evaluateTrackerGoals, type GoalWithProgress } from "@/lib/trackers/goal-progress";
+import {
+  GoalInputSchema,
+  MAX_GOALS_PER_TRACKER,
+  isGoalMet,
+  type GoalInput,
+} from "@/lib/trackers/goals";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import type { TrackerActionResponse } from "./crud";
+
+/**
+ * A tracker's goals with the outcome of their past periods and progress in
+ * the current one. Visible to anyone the tracker is shared with.
+ */
+export async function getTrackerGoals(
+  trackerId: string
+): Promise<TrackerActionResponse<GoalWithProgress[]>> {
+  try {
+    const userId = await requireUserId();
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true, type: true, userId: true, updatedAt: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+
+    // Periods close in the owner's calendar, whoever is looking
+    const settings = await getUserTimeSettings(tracker.userId);
+    const goals = await evaluateTrackerGoals(tracker, settings);
+
+    return { success: true, data: goals };
+  } catch (error) {
+    console.error("Error getting tracker goals:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to retrieve tracker goals" };
+  }
+}
+
+/**
+ * Add a goal to a tracker, or update one when `goal.id` is given. Changing
+ * an existing goal's kind, period or unit clears its history, which is then
+ * rebuilt from the entries under the new rules; changing only its target
+ * re-scores the recorded totals. History is kept by calendar period, so
+ * switching between calendar and rolling keeps it.
+ */
+export async function setTrackerGoal(
+  trackerId: string,
+  goal: GoalInput & { id?: string }
+): Promise<TrackerActionResponse<{ id: string }>> {
+  try {
+    const userId = await requireUserId();
+
+    z.string().min(1).parse(trackerId);
+    const validated = GoalInputSchema.parse(goal);
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, userId },
+      select: { id: true, type: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+    if (validated.kind === "streak" && tracker.type !== "OCCURRENCE") {
+      return { success: false, error: "Streak goals are only for occurrence trackers" };
+    }
+
+    const data = {
+      kind: validated.kind,
+      value: validated.value,
+      period: validated.period,
+      alignment: validated.alignment,
+      unit: validated.unit || null,
+    };
+
+    const id = await prisma.$transaction(async (tx) => {
+      // Bring a legacy goal across first so it isn't migrated on top of this one later
+      await migrateLegacyGoal(tx, trackerId);
+
+      if (goal.id) {
+        const existing = await tx.goal.findFirst({
+          where: { id: goal.id, trackerId },
+          select: { kind: true, period: true, unit: true, history: true },
+        });
+        if (!existing) throw new Error("GOAL_NOT_FOUND");
+        const resetHistory =
+          existing.kind !== data.kind ||
+          existing.period !== data.period ||
+          existing.unit !== data.unit;
+        const history = resetHistory
+          ? []
+          : existing.history.map((result) => ({ ...result, met: isGoalMet(data, result.total) }));
+        await tx.goal.update({
+          where: { id: goal.id },
+          data: { ...data, history },
+        });
+        return goal.id;
+      }
+
+      const count = await tx.goal.count({ where: { trackerId } });
+      if (count >= MAX_GOALS_PER_TRACKER) throw new Error("GOAL_LIMIT");
+      const created = await tx.goal.create({ data: { ...data, trackerId }, select: { id: true } });
+      return created.id;
+    });
+
+    revalidatePath(`/trackers/${trackerId}`);
+
+    return { success: true, data: { id } };
+  } catch (error) {
+    console.error("Error setting tracker goal:", error);
+    if (error instanceof Error) {
+      switch (error.message) {
+        case "Unauthorized":
+          return { success: false, error: "Unauthorized" };
+        case "GOAL_NOT_FOUND":
+          return { success: false, error: "Goal not found" };
+        case "GOAL_LIMIT":
+          return {
+            success: false,
+            error: `A tracker can have at most ${MAX_GOALS_PER_TRACKER} goals`,
+          };
+      }
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to set tracker goal" };
+  }
+}
+
+/**
+ * Remove a goal (and its history) from a tracker
+ */
+export async function clearTrackerGoal(
+  trackerId: string,
+  goalId: string
+): Promise<TrackerActionResponse<{ id: string }>> {
+  try {
+    const userId = await requireUserId();
+
+    const idSchema = z.string().min(1);
+    idSchema.parse(trackerId);
+    idSchema.parse(goalId);
+
+    const result = await prisma.goal.deleteMany({
+      where: { id: goalId, trackerId, tracker: { userId } },
+    });
+    if (result.count === 0) {
+      return { success: false, error: "Goal not found" };
+    }
+
+    revalidatePath(`/trackers/${trackerId}`);
+
+    return { success: true, data: { id: goalId } };
+  } catch (error) {
+    console.error("Error clearing tracker goal:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid goal ID" };
+    }
+    return { success: false, error: "Failed to clear tracker goal" };
+  }
+}
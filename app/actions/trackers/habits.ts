@@ -0,0 +1,95 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { trackerContributorWhere } from "@/lib/trackers/access";
+import { HabitSkipSchema } from "@/lib/trackers/habits";
+import type { TrackerActionResponse } from "./crud";
+
+export type HabitSkipInput = z.input<typeof HabitSkipSchema>;
+
+/**
+ * Excuse a habit from a day (sick, travelling, ...) so missing it doesn't
+ * break the streak. Anyone who can log entries on the tracker may skip days.
+ */
+export async function skipHabitDay(
+  trackerId: string,
+  input: HabitSkipInput
+): Promise<TrackerActionResponse<{ date: string }>> {
+  try {
+    const userId = await requireUserId();
+
+    z.string().min(1).parse(trackerId);
+    const { date, reason } = HabitSkipSchema.parse(input);
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, ...trackerContributorWhere(userId) },
+      select: { id: true, schedule: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+    if (!tracker.schedule) {
+      return { success: false, error: "Only habits with a schedule can skip days" };
+    }
+
+    await prisma.habitSkip.upsert({
+      where: { trackerId_date: { trackerId, date } },
+      create: { trackerId, date, reason: reason || null },
+      update: { reason: reason || null },
+    });
+
+    revalidatePath(`/trackers/${trackerId}`);
+
+    return { success: true, data: { date } };
+  } catch (error) {
+    console.error("Error skipping habit day:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to skip day" };
+  }
+}
+
+/**
+ * Take back a skipped day; it counts against the schedule again
+ */
+export async function unskipHabitDay(
+  trackerId: string,
+  date: string
+): Promise<TrackerActionResponse<{ date: string }>> {
+  try {
+    const userId = await requireUserId();
+
+    z.string().min(1).parse(trackerId);
+    HabitSkipSchema.shape.date.parse(date);
+
+    const result = await prisma.habitSkip.deleteMany({
+      where: { trackerId, date, tracker: trackerContributorWhere(userId) },
+    });
+    if (result.count === 0) {
+      return { success: false, error: "Day is not skipped" };
+    }
+
+    revalidatePath(`/trackers/${trackerId}`);
+
+    return { success: true, data: { date } };
+  } catch (error) {
+    console.error("Error unskipping habit day:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid date" };
+    }
+    return { success: false, error: "Failed to unskip day" };
+  }
+}
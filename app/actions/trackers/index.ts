@@ -8,5 +8,17 @@ export {
   deleteTrackers,
 } from "./crud";
 export type { TrackerWithEntriesCount, TrackerPagingResponse } from "./list";
-export { getTracker, getTrackers } from "./list";
-export { pinTracker, unpinTracker, setTrackerGoal, clearTrackerGoal } from "./actions";
+export { getTracker, getTrackers, getSharedTrackers } from "./list";
+export { pinTracker, unpinTracker } from "./actions";
+export { getTrackerGoals, setTrackerGoal, clearTrackerGoal } from "./goals";
+export type { HabitSkipInput } from "./habits";
+export { skipHabitDay, unskipHabitDay } from "./habits";
+export type { ShareTrackerInput } from "./shares";
+export {
+  getTrackerShares,
+  shareTracker,
+  updateTrackerShareRole,
+  removeTrackerShare,
+} from "./shares";
+export type { StatisticsCheckResult } from "./statistics";
+export { rebuildTrackerStatistics, rebuildAccountStatistics } from "./statistics";
@@ -1,8 +1,10 @@
 "use server";
 
 import prisma from "@/lib/db/prisma";
-import { Tracker, TrackerStatus, TrackerType } from "@/types";
+import { Tracker, TrackerShareRole, TrackerStatus, TrackerType, isTrackerShareRole } from "@/types";
 import { requireUserId } from "@/lib/auth/server";
+import { trackerAccessWhere } from "@/lib/trackers/access";
+import { GOAL_SUMMARY_INCLUDE } from "@/lib/trackers/goals";
 import type { TrackerActionResponse } from "./crud";
 
 export type TrackerWithEntriesCount = Tracker & {
@@ -17,19 +19,23 @@ export type TrackerPagingResponse = {
 };
 
 /**
- * Get a tracker by ID
+ * Get a tracker by ID, including trackers shared with the current user.
+ * `accessRole` tells the UI which controls to offer.
  */
 export async function getTracker(id: string): Promise<TrackerActionResponse<Tracker>> {
   try {
     const userId = await requireUserId();
 
     const tracker = await prisma.tracker.findFirst({
-      where: { id, userId },
+      where: { id, ...trackerAccessWhere(userId) },
       include: {
         entries: {
           orderBy: { date: "desc" },
           take: 5,
         },
+        shares: { where: { userId }, select: { role: true } },
+        user: { select: { id: true, name: true, email: true, image: true } },
+        goals: GOAL_SUMMARY_INCLUDE,
       },
     });
 
@@ -37,7 +43,22 @@ export async function getTracker(id: string): Promise<TrackerActionResponse<Trac
       return { success: false, error: "Tracker not found" };
     }
 
-    return { success: true, data: tracker };
+    const { shares, user, ...rest } = tracker;
+    const isOwner = tracker.userId === userId;
+    const shareRole = shares[0]?.role;
+
+    return {
+      success: true,
+      data: {
+        ...rest,
+        accessRole: isOwner
+          ? "OWNER"
+          : isTrackerShareRole(shareRole)
+            ? shareRole
+            : TrackerShareRole.VIEWER,
+        sharedBy: isOwner ? null : user,
+      },
+    };
   } catch (error) {
     console.error("Error getting tracker:", error);
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -124,6 +145,7 @@ export async function getTrackers(filters?: {
       //     select: { entries: true },
       //    },
       // },
+      include: { goals: GOAL_SUMMARY_INCLUDE },
       skip,
       take: limit,
     });
@@ -148,3 +170,43 @@ export async function getTrackers(filters?: {
     return { success: false, error: "Failed to retrieve trackers" };
   }
 }
+
+/**
+ * Get trackers other users have shared with the current user
+ */
+export async function getSharedTrackers(): Promise<
+  TrackerActionResponse<TrackerWithEntriesCount[]>
+> {
+  try {
+    const userId = await requireUserId();
+
+    const shares = await prisma.trackerShare.findMany({
+      where: { userId, tracker: { status: { not: "ARCHIVED" } } },
+      include: {
+        tracker: {
+          include: {
+            user: { select: { id: true, name: true, email: true, image: true } },
+            goals: GOAL_SUMMARY_INCLUDE,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return {
+      success: true,
+      data: shares.map(({ role, tracker: { user, ...tracker } }) => ({
+        ...tracker,
+        entriesCount: tracker.statistics?.totalEntries || 0,
+        accessRole: isTrackerShareRole(role) ? role : TrackerShareRole.VIEWER,
+        sharedBy: user,
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting shared trackers:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to retrieve shared trackers" };
+  }
+}
@@ -0,0 +1,210 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { trackerAccessWhere } from "@/lib/trackers/access";
+import {
+  TRACKER_SHARE_ROLE_VALUES,
+  TrackerShare,
+  TrackerShareRole,
+  isTrackerShareRole,
+} from "@/types";
+import type { TrackerActionResponse } from "./crud";
+
+const ShareSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(TRACKER_SHARE_ROLE_VALUES),
+});
+
+const RoleSchema = z.enum(TRACKER_SHARE_ROLE_VALUES);
+
+export type ShareTrackerInput = z.infer<typeof ShareSchema>;
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+function toTrackerShare(share: {
+  id: string;
+  trackerId: string;
+  userId: string;
+  role: string;
+  createdAt: Date;
+  user: TrackerShare["user"];
+}): TrackerShare {
+  return {
+    ...share,
+    role: isTrackerShareRole(share.role) ? share.role : TrackerShareRole.VIEWER,
+  };
+}
+
+/**
+ * List the users a tracker is shared with. Visible to the owner and to
+ * anyone the tracker is shared with.
+ */
+export async function getTrackerShares(
+  trackerId: string
+): Promise<TrackerActionResponse<TrackerShare[]>> {
+  if (!trackerId || trackerId.trim() === "") {
+    return { success: false, error: "Tracker ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, ...trackerAccessWhere(userId) },
+      select: { id: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+
+    const shares = await prisma.trackerShare.findMany({
+      where: { trackerId },
+      include: { user: { select: USER_SELECT } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return { success: true, data: shares.map(toTrackerShare) };
+  } catch (error) {
+    console.error("Error getting tracker shares:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to retrieve tracker shares" };
+  }
+}
+
+/**
+ * Share a tracker with another user by email (owner only)
+ */
+export async function shareTracker(
+  trackerId: string,
+  data: ShareTrackerInput
+): Promise<TrackerActionResponse<TrackerShare>> {
+  if (!trackerId || trackerId.trim() === "") {
+    return { success: false, error: "Tracker ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const validated = ShareSchema.parse(data);
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id: trackerId, userId },
+      select: { id: true },
+    });
+    if (!tracker) {
+      return { success: false, error: "Tracker not found" };
+    }
+
+    const recipient = await prisma.user.findFirst({
+      where: { email: { equals: validated.email, mode: "insensitive" } },
+      select: USER_SELECT,
+    });
+    if (!recipient) {
+      return { success: false, error: "No user found with that email" };
+    }
+    if (recipient.id === userId) {
+      return { success: false, error: "You already own this tracker" };
+    }
+
+    const existing = await prisma.trackerShare.findFirst({
+      where: { trackerId, userId: recipient.id },
+      select: { id: true },
+    });
+    if (existing) {
+      return { success: false, error: "This tracker is already shared with that user" };
+    }
+
+    const share = await prisma.trackerShare.create({
+      data: { trackerId, userId: recipient.id, role: validated.role },
+    });
+
+    revalidatePath(`/trackers/${trackerId}`);
+    return { success: true, data: toTrackerShare({ ...share, user: recipient }) };
+  } catch (error) {
+    console.error("Error sharing tracker:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to share tracker" };
+  }
+}
+
+/**
+ * Change a share between viewer and contributor (owner only)
+ */
+export async function updateTrackerShareRole(
+  shareId: string,
+  role: TrackerShareRole
+): Promise<TrackerActionResponse<null>> {
+  if (!shareId || shareId.trim() === "") {
+    return { success: false, error: "Share ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+    const validatedRole = RoleSchema.parse(role);
+
+    const share = await prisma.trackerShare.findFirst({
+      where: { id: shareId, tracker: { userId } },
+      select: { trackerId: true },
+    });
+    if (!share) {
+      return { success: false, error: "Share not found" };
+    }
+
+    await prisma.trackerShare.update({
+      where: { id: shareId },
+      data: { role: validatedRole },
+    });
+
+    revalidatePath(`/trackers/${share.trackerId}`);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Error updating tracker share:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid role" };
+    }
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to update tracker share" };
+  }
+}
+
+/**
+ * Revoke a share. The owner can remove anyone; a recipient can remove
+ * their own share to stop seeing the tracker.
+ */
+export async function removeTrackerShare(shareId: string): Promise<TrackerActionResponse<null>> {
+  if (!shareId || shareId.trim() === "") {
+    return { success: false, error: "Share ID is required" };
+  }
+  try {
+    const userId = await requireUserId();
+
+    const share = await prisma.trackerShare.findFirst({
+      where: { id: shareId, OR: [{ userId }, { tracker: { userId } }] },
+      select: { trackerId: true },
+    });
+    if (!share) {
+      return { success: false, error: "Share not found" };
+    }
+
+    await prisma.trackerShare.delete({ where: { id: shareId } });
+
+    revalidatePath("/trackers");
+    revalidatePath("/dashboard");
+    revalidatePath(`/trackers/${share.trackerId}`);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Error removing tracker share:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to remove tracker share" };
+  }
+}
@@ -0,0 +1,76 @@
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
+import { requireUserId } from "@/lib/auth/server";
+import { checkTrackerStatistics, type StatisticsCheckResult } from "@/lib/trackers/statistics";
+import type { TrackerActionResponse } from "./crud";
+
+export type { StatisticsCheckResult };
+
+/**
+ * Recompute one of the user's trackers' statistics from its entries and
+ * report whether they had drifted. With `dryRun` nothing is written.
+ */
+export async function rebuildTrackerStatistics(
+  trackerId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<TrackerActionResponse<StatisticsCheckResult>> {
+  try {
+    const userId = await requireUserId();
+
+    z.string().min(1).parse(trackerId);
+
+    const result = await checkTrackerStatistics(prisma, { id: trackerId, userId }, options);
+    if (result.checked === 0) {
+      return { success: false, error: "Tracker not found" };
+    }
+
+    if (result.repaired && result.discrepancies.length > 0) {
+      revalidatePath(`/trackers/${trackerId}`);
+      revalidatePath("/dashboard");
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error rebuilding tracker statistics:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation failed: ${error.issues.map((e) => e.message).join(", ")}`,
+      };
+    }
+    return { success: false, error: "Failed to rebuild statistics" };
+  }
+}
+
+/**
+ * Recompute the statistics of every tracker the user owns, including archived
+ * ones. With `dryRun` the discrepancies are only reported.
+ */
+export async function rebuildAccountStatistics(
+  options: { dryRun?: boolean } = {}
+): Promise<TrackerActionResponse<StatisticsCheckResult>> {
+  try {
+    const userId = await requireUserId();
+
+    const result = await checkTrackerStatistics(prisma, { userId }, options);
+
+    if (result.repaired && result.discrepancies.length > 0) {
+      revalidatePath("/trackers");
+      revalidatePath("/dashboard");
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error rebuilding account statistics:", error);
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: false, error: "Failed to rebuild statistics" };
+  }
+}
@@ -1,7 +1,12 @@
 "use server";
 
+import { z } from "zod";
 import prisma from "@/lib/db/prisma";
+import { revalidatePath } from "next/cache";
 import { auth } from "@/auth";
+import { boardAccessWhere } from "@/lib/boards/access";
+import { TimerPolicySchema, type TimerPolicy } from "@/lib/trackers/timer-policy";
+import { ExchangeRatesSchema, type ExchangeRatesInput } from "@/lib/units";
 import type { User } from "@/types";
 
 type UserActionResponse<T = unknown> =
@@ -10,7 +15,15 @@ type UserActionResponse<T = unknown> =
 
 type UserSummary = Pick<User, "id" | "name" | "email" | "image">;
 
-export async function searchUsers(query: string): Promise<UserActionResponse<UserSummary[]>> {
+/**
+ * Find users by name or email. With `boardId`, only the board's owner and
+ * members (the people its tasks can be assigned to), and only for someone
+ * with access to the board.
+ */
+export async function searchUsers(
+  query: string,
+  boardId?: string
+): Promise<UserActionResponse<UserSummary[]>> {
   if (!query || query.trim() === "") {
     return { success: false, error: "Search query is required" };
   }
@@ -20,8 +33,21 @@ export async function searchUsers(query: string): Promise<UserActionResponse<Use
       return { success: false, error: "Unauthorized" };
     }
 
+    let boardUserIds: string[] | undefined;
+    if (boardId) {
+      const board = await prisma.board.findFirst({
+        where: { id: boardId, ...boardAccessWhere(session.user.id) },
+        select: { userId: true, members: { select: { userId: true } } },
+      });
+      if (!board) {
+        return { success: false, error: "Board not found" };
+      }
+      boardUserIds = [board.userId, ...board.members.map((member) => member.userId)];
+    }
+
     const users = await prisma.user.findMany({
       where: {
+        ...(boardUserIds && { id: { in: boardUserIds } }),
         OR: [
           { name: { contains: query, mode: "insensitive" } },
           { email: { contains: query, mode: "insensitive" } },
@@ -37,3 +63,103 @@ export async function searchUsers(query: string): Promise<UserActionResponse<Use
     return { success: false, error: "Failed to search users" };
   }
 }
+
+/**
+ * Update the current user's timer policy: single running timer, what a
+ * conflicting start does, and the max timer length
+ */
+export async function updateTimerPolicy(
+  data: TimerPolicy
+): Promise<UserActionResponse<TimerPolicy>> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validated = TimerPolicySchema.parse(data);
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        singleActiveTimer: validated.singleActiveTimer,
+        timerConflict: validated.conflict,
+        maxTimerHours: validated.maxHours,
+        timerOverrun: validated.overrun,
+      },
+    });
+
+    revalidatePath("/settings/profile");
+    revalidatePath("/dashboard");
+
+    return { success: true, data: validated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    console.error("[users] Operation failed:", error);
+    return { success: false, error: "Failed to update timer settings" };
+  }
+}
+
+export async function getExchangeRates(): Promise<UserActionResponse<ExchangeRatesInput>> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { baseCurrency: true, exchangeRates: true },
+    });
+    const parsed = ExchangeRatesSchema.safeParse({
+      base: user?.baseCurrency,
+      rates: user?.exchangeRates ?? [],
+    });
+
+    return {
+      success: true,
+      data: parsed.success ? parsed.data : { base: "USD", rates: [] },
+    };
+  } catch (error) {
+    console.error("[users] Operation failed:", error);
+    return { success: false, error: "Failed to load exchange rates" };
+  }
+}
+
+export async function updateExchangeRates(
+  data: ExchangeRatesInput
+): Promise<UserActionResponse<ExchangeRatesInput>> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validated = ExchangeRatesSchema.parse(data);
+    // The base currency is implied at 1, and each currency gets one rate
+    const rates = [
+      ...new Map(
+        validated.rates
+          .filter((r) => r.currency !== validated.base)
+          .map((r) => [r.currency, r] as const)
+      ).values(),
+    ];
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { baseCurrency: validated.base, exchangeRates: rates },
+    });
+
+    revalidatePath("/settings/profile");
+
+    return { success: true, data: { base: validated.base, rates } };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    console.error("[users] Operation failed:", error);
+    return { success: false, error: "Failed to update exchange rates" };
+  }
+}
@@ -0,0 +1,260 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/db/prisma";
+import { requireUserId } from "@/lib/auth/server";
+import { generateWebhookSecret } from "@/lib/webhooks/signature";
+import { redeliverWebhook, resumeWebhookDeliveries } from "@/lib/webhooks/dispatch";
+import { WEBHOOK_EVENT_VALUES, type WebhookDeliveryStatus, type WebhookEvent } from "@/types";
+
+export type WebhookActionResponse<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface CreatedWebhook extends WebhookSummary {
+  secret: string; // plain-text signing secret — shown only once
+}
+
+export interface WebhookDeliverySummary {
+  id: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+const MAX_WEBHOOKS = 10;
+const DELIVERY_LOG_LIMIT = 25;
+
+const WebhookSchema = z.object({
+  url: z
+    .string()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  events: z.array(z.enum(WEBHOOK_EVENT_VALUES)).min(1, "Select at least one event"),
+});
+
+const UpdateWebhookSchema = WebhookSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export type WebhookInput = z.infer<typeof WebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
+
+const summarySelect = {
+  id: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+} as const;
+
+function toSummary(webhook: {
+  id: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  createdAt: Date;
+}): WebhookSummary {
+  return { ...webhook, events: webhook.events as WebhookEvent[] };
+}
+
+/**
+ * List the authenticated user's webhooks (without their secrets).
+ */
+export async function listWebhooks(): Promise<WebhookActionResponse<WebhookSummary[]>> {
+  try {
+    const userId = await requireUserId();
+    const webhooks = await prisma.webhook.findMany({
+      where: { userId },
+      select: summarySelect,
+      orderBy: { createdAt: "desc" },
+    });
+    return { success: true, data: webhooks.map(toSummary) };
+  } catch (error) {
+    console.error("Error listing webhooks:", error);
+    return { success: false, error: "Failed to load webhooks." };
+  }
+}
+
+/**
+ * Create a webhook. Returns the signing secret exactly once.
+ */
+export async function createWebhook(
+  data: WebhookInput
+): Promise<WebhookActionResponse<CreatedWebhook>> {
+  try {
+    const userId = await requireUserId();
+    const validated = WebhookSchema.parse(data);
+    const secret = generateWebhookSecret();
+
+    const webhook = await prisma.$transaction(async (tx) => {
+      const count = await tx.webhook.count({ where: { userId } });
+      if (count >= MAX_WEBHOOKS) {
+        throw new Error("WEBHOOK_LIMIT_EXCEEDED");
+      }
+      return tx.webhook.create({
+        data: { userId, url: validated.url, events: validated.events, secret },
+        select: summarySelect,
+      });
+    });
+
+    revalidatePath("/settings/api-tokens");
+    return { success: true, data: { ...toSummary(webhook), secret } };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error && error.message === "WEBHOOK_LIMIT_EXCEEDED") {
+      return {
+        success: false,
+        error: `Maximum of ${MAX_WEBHOOKS} webhooks allowed. Please delete one first.`,
+      };
+    }
+    console.error("Error creating webhook:", error);
+    return { success: false, error: "Failed to create webhook. Please try again." };
+  }
+}
+
+/**
+ * Update a webhook's URL, events or active flag.
+ */
+export async function updateWebhook(
+  id: string,
+  data: UpdateWebhookInput
+): Promise<WebhookActionResponse<WebhookSummary>> {
+  try {
+    const userId = await requireUserId();
+    const validated = UpdateWebhookSchema.parse(data);
+
+    const existing = await prisma.webhook.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Webhook not found." };
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: validated,
+      select: summarySelect,
+    });
+
+    revalidatePath("/settings/api-tokens");
+    return { success: true, data: toSummary(webhook) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map((e) => e.message).join(", ") };
+    }
+    console.error("Error updating webhook:", error);
+    return { success: false, error: "Failed to update webhook." };
+  }
+}
+
+/**
+ * Delete a webhook and its delivery log.
+ */
+export async function deleteWebhook(id: string): Promise<WebhookActionResponse<null>> {
+  try {
+    const userId = await requireUserId();
+
+    const existing = await prisma.webhook.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Webhook not found." };
+    }
+
+    await prisma.$transaction([
+      prisma.webhookDelivery.deleteMany({ where: { webhookId: id } }),
+      prisma.webhook.delete({ where: { id } }),
+    ]);
+
+    revalidatePath("/settings/api-tokens");
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return { success: false, error: "Failed to delete webhook." };
+  }
+}
+
+/**
+ * Most recent deliveries for a webhook, newest first. Retries interrupted by
+ * a server stopping are picked up again in the background.
+ */
+export async function listWebhookDeliveries(
+  webhookId: string
+): Promise<WebhookActionResponse<WebhookDeliverySummary[]>> {
+  try {
+    const userId = await requireUserId();
+    resumeWebhookDeliveries(userId);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId, webhook: { userId } },
+      select: {
+        id: true,
+        event: true,
+        status: true,
+        attempts: true,
+        responseStatus: true,
+        error: true,
+        createdAt: true,
+        deliveredAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return {
+      success: true,
+      data: deliveries.map((d) => ({ ...d, status: d.status as WebhookDeliveryStatus })),
+    };
+  } catch (error) {
+    console.error("Error listing webhook deliveries:", error);
+    return { success: false, error: "Failed to load deliveries." };
+  }
+}
+
+/**
+ * Send a logged delivery's payload again. The new attempt appears as a
+ * separate entry in the delivery log.
+ */
+export async function redeliverWebhookDelivery(
+  deliveryId: string
+): Promise<WebhookActionResponse<null>> {
+  try {
+    const userId = await requireUserId();
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhook: { userId } },
+      select: {
+        event: true,
+        payload: true,
+        webhook: { select: { id: true, url: true, secret: true } },
+      },
+    });
+    if (!delivery) {
+      return { success: false, error: "Delivery not found." };
+    }
+
+    redeliverWebhook(delivery.webhook, delivery.event, delivery.payload);
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Error redelivering webhook:", error);
+    return { success: false, error: "Failed to redeliver webhook." };
+  }
+}
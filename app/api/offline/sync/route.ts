@@ -0,0 +1,39 @@
+import { replayOfflineOperations } from "@/app/actions/entries";
+
+/**
+ * POST /api/offline/sync
+ * Replay writes queued while offline. Used by the service worker's Background
+ * Sync, which can't call server actions; authenticated by the session cookie.
+ * Body: { operations: OfflineOperationPayload[] }
+ * Returns { results: OfflineOperationResult[] }.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error("[api:offline-sync] Operation failed:", error);
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const operations = (body as { operations?: unknown } | null)?.operations;
+  if (!Array.isArray(operations)) {
+    return Response.json(
+      { error: "Validation failed", details: { operations: ["Expected an array"] } },
+      { status: 422 }
+    );
+  }
+
+  const result = await replayOfflineOperations(operations);
+  if (!result.success) {
+    if (result.error === "Unauthorized") {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (result.error.startsWith("Validation failed")) {
+      return Response.json({ error: result.error }, { status: 422 });
+    }
+    return Response.json({ error: result.error }, { status: 500 });
+  }
+
+  return Response.json({ results: result.data });
+}
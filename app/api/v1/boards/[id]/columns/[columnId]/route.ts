@@ -0,0 +1,96 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkBoardRole } from "@/lib/api/boards";
+import { ColumnSchema } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string; columnId: string }>;
+}
+
+function findColumn(boardId: string, columnId: string) {
+  return prisma.boardColumn.findFirst({
+    where: { id: columnId, boardId },
+    select: { id: true },
+  });
+}
+
+/**
+ * PUT /api/v1/boards/:id/columns/:columnId
+ * Rename a column. Requires EDITOR.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id, columnId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:columns] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = ColumnSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    if (!(await findColumn(id, columnId))) {
+      return Response.json({ error: "Column not found" }, { status: 404 });
+    }
+
+    const column = await prisma.boardColumn.update({
+      where: { id: columnId },
+      data: { name: parsed.data.name },
+    });
+
+    return Response.json({ data: column });
+  } catch (error) {
+    console.error("[api:columns] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v1/boards/:id/columns/:columnId
+ * Delete a column and the tasks in it. Requires EDITOR.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id, columnId } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    if (!(await findColumn(id, columnId))) {
+      return Response.json({ error: "Column not found" }, { status: 404 });
+    }
+
+    await prisma.boardColumn.delete({ where: { id: columnId } });
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("[api:columns] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
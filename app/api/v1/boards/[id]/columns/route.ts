@@ -0,0 +1,90 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkBoardRole } from "@/lib/api/boards";
+import { ColumnSchema } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/boards/:id/columns
+ * List a board's columns in display order.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:read");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId);
+    if (forbidden) return forbidden;
+
+    const columns = await prisma.boardColumn.findMany({
+      where: { boardId: id },
+      orderBy: { order: "asc" },
+    });
+
+    return Response.json({ data: columns, meta: { total: columns.length } });
+  } catch (error) {
+    console.error("[api:columns] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v1/boards/:id/columns
+ * Append a column to the board. Requires EDITOR.
+ */
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:columns] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = ColumnSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const lastColumn = await prisma.boardColumn.findFirst({
+      where: { boardId: id },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+
+    const column = await prisma.boardColumn.create({
+      data: { name: parsed.data.name, order: (lastColumn?.order ?? -1) + 1, boardId: id },
+    });
+
+    return Response.json({ data: column }, { status: 201 });
+  } catch (error) {
+    console.error("[api:columns] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
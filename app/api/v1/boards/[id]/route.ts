@@ -0,0 +1,124 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkBoardRole } from "@/lib/api/boards";
+import { BoardSchema } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/boards/:id
+ * Get a board with its columns and tasks.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:read");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId);
+    if (forbidden) return forbidden;
+
+    const board = await prisma.board.findUnique({
+      where: { id },
+      include: {
+        columns: {
+          orderBy: { order: "asc" },
+          include: {
+            tasks: {
+              orderBy: { order: "asc" },
+              include: { assignee: { select: { id: true, name: true, email: true, image: true } } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!board) {
+      return Response.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    return Response.json({ data: board });
+  } catch (error) {
+    console.error("[api:board] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v1/boards/:id
+ * Rename a board or change its description. Requires EDITOR.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:board] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = BoardSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const board = await prisma.board.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return Response.json({ data: board });
+  } catch (error) {
+    console.error("[api:board] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v1/boards/:id
+ * Delete a board with its columns and tasks. Owner only.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.OWNER);
+    if (forbidden) return forbidden;
+
+    await prisma.board.delete({ where: { id } });
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("[api:board] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkBoardRole } from "@/lib/api/boards";
+import { moveBoardTask } from "@/lib/boards/move";
+import { MoveTaskSchema } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string; taskId: string }>;
+}
+
+/**
+ * POST /api/v1/boards/:id/tasks/:taskId/move
+ * Move a task to position `order` (0-based) in `columnId`, which may be its
+ * current column. Moving a recurring task into the last column creates its
+ * next occurrence, returned as `nextTaskId`. Requires EDITOR.
+ */
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id, taskId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:task-move] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = MoveTaskSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const task = await prisma.boardTask.findFirst({ where: { id: taskId, boardId: id } });
+    if (!task) {
+      return Response.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { columnId, order } = parsed.data;
+    const targetColumn = await prisma.boardColumn.findFirst({
+      where: { id: columnId, boardId: id },
+      select: { id: true },
+    });
+    if (!targetColumn) {
+      return Response.json({ error: "Target column not found" }, { status: 404 });
+    }
+
+    const nextTaskId = await moveBoardTask(task, columnId, order);
+
+    const moved = await prisma.boardTask.findUnique({
+      where: { id: taskId },
+      include: { assignee: { select: { id: true, name: true, email: true, image: true } } },
+    });
+
+    return Response.json({ data: moved, meta: { nextTaskId } });
+  } catch (error) {
+    console.error("[api:task-move] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
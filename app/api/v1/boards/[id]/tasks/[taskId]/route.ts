@@ -0,0 +1,173 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import {
+  checkIfMatch,
+  conflictResponse,
+  hasIfMatch,
+  isStaleWrite,
+  versionHeaders,
+} from "@/lib/api/concurrency";
+import { checkBoardRole } from "@/lib/api/boards";
+import { ASSIGNEE_NOT_MEMBER, canAssignTask } from "@/lib/boards/access";
+import { TaskSchema } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string; taskId: string }>;
+}
+
+const ASSIGNEE_INCLUDE = {
+  assignee: { select: { id: true, name: true, email: true, image: true } },
+} as const;
+
+/**
+ * GET /api/v1/boards/:id/tasks/:taskId
+ * Get a single task.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:read");
+    if (denied) return denied;
+
+    const { id, taskId } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId);
+    if (forbidden) return forbidden;
+
+    const task = await prisma.boardTask.findFirst({
+      where: { id: taskId, boardId: id },
+      include: ASSIGNEE_INCLUDE,
+    });
+    if (!task) {
+      return Response.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return Response.json({ data: task }, { headers: versionHeaders(task.updatedAt) });
+  } catch (error) {
+    console.error("[api:task] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v1/boards/:id/tasks/:taskId
+ * Replace a task's details. Omitting `recurrence` keeps the current rule.
+ * Requires EDITOR. With If-Match, refused with 409 if it changed since read.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id, taskId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:task] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = TaskSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const existing = await prisma.boardTask.findFirst({
+      where: { id: taskId, boardId: id },
+      select: { assigneeId: true, updatedAt: true },
+    });
+    if (!existing) {
+      return Response.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const conflict = checkIfMatch(request, existing.updatedAt);
+    if (conflict) return conflict;
+
+    const data = parsed.data;
+    if (
+      data.assigneeId &&
+      data.assigneeId !== existing.assigneeId &&
+      !(await canAssignTask(id, data.assigneeId))
+    ) {
+      return Response.json(
+        { error: "Validation failed", details: { assigneeId: [ASSIGNEE_NOT_MEMBER] } },
+        { status: 422 }
+      );
+    }
+
+    let task;
+    try {
+      task = await prisma.boardTask.update({
+        // With If-Match, only the version checked above may be overwritten
+        where: { id: taskId, ...(hasIfMatch(request) && { updatedAt: existing.updatedAt }) },
+        data: {
+          title: data.title,
+          description: data.description ?? null,
+          startDate: data.startDate ?? null,
+          dueDate: data.dueDate ?? null,
+          priority: data.priority ?? "MEDIUM",
+          assigneeId: data.assigneeId ?? null,
+          ...(data.recurrence !== undefined && { recurrence: data.recurrence }),
+        },
+        include: ASSIGNEE_INCLUDE,
+      });
+    } catch (error) {
+      if (isStaleWrite(error)) return conflictResponse();
+      throw error;
+    }
+
+    return Response.json({ data: task }, { headers: versionHeaders(task.updatedAt) });
+  } catch (error) {
+    console.error("[api:task] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v1/boards/:id/tasks/:taskId
+ * Delete a task. Requires EDITOR.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id, taskId } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const existing = await prisma.boardTask.findFirst({
+      where: { id: taskId, boardId: id },
+      select: { id: true },
+    });
+    if (!existing) {
+      return Response.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    await prisma.boardTask.delete({ where: { id: taskId } });
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("[api:task] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkBoardRole } from "@/lib/api/boards";
+import { ASSIGNEE_NOT_MEMBER, canAssignTask } from "@/lib/boards/access";
+import { TaskSchema } from "@/lib/boards/schemas";
+import type { Prisma } from "@/app/generated/prisma";
+import { BoardRole } from "@/types";
+
+const TaskCreateSchema = TaskSchema.extend({
+  columnId: z.string().min(1, "Column ID is required"),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/boards/:id/tasks
+ * List a board's tasks, grouped by column order.
+ * Query params: columnId, page, limit
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:read");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    const forbidden = await checkBoardRole(id, auth.userId);
+    if (forbidden) return forbidden;
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") ?? "1", 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") ?? "50", 10) || 50));
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BoardTaskWhereInput = { boardId: id };
+    const columnId = searchParams.get("columnId");
+    if (columnId) where.columnId = columnId;
+
+    const [total, tasks] = await Promise.all([
+      prisma.boardTask.count({ where }),
+      prisma.boardTask.findMany({
+        where,
+        include: { assignee: { select: { id: true, name: true, email: true, image: true } } },
+        orderBy: [{ column: { order: "asc" } }, { order: "asc" }],
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    return Response.json({
+      data: tasks,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error("[api:tasks] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v1/boards/:id/tasks
+ * Create a task at the bottom of a column. Requires EDITOR.
+ */
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:tasks] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = TaskCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const forbidden = await checkBoardRole(id, auth.userId, BoardRole.EDITOR);
+    if (forbidden) return forbidden;
+
+    const { columnId, ...data } = parsed.data;
+    const column = await prisma.boardColumn.findFirst({
+      where: { id: columnId, boardId: id },
+      select: { id: true },
+    });
+    if (!column) {
+      return Response.json({ error: "Column not found" }, { status: 404 });
+    }
+
+    if (data.assigneeId && !(await canAssignTask(id, data.assigneeId))) {
+      return Response.json(
+        { error: "Validation failed", details: { assigneeId: [ASSIGNEE_NOT_MEMBER] } },
+        { status: 422 }
+      );
+    }
+
+    const lastTask = await prisma.boardTask.findFirst({
+      where: { columnId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+
+    const task = await prisma.boardTask.create({
+      data: {
+        title: data.title,
+        description: data.description ?? null,
+        startDate: data.startDate ?? null,
+        dueDate: data.dueDate ?? null,
+        priority: data.priority ?? "MEDIUM",
+        assigneeId: data.assigneeId ?? null,
+        recurrence: data.recurrence ?? null,
+        order: (lastTask?.order ?? -1) + 1,
+        columnId,
+        boardId: id,
+      },
+      include: { assignee: { select: { id: true, name: true, email: true, image: true } } },
+    });
+
+    return Response.json({ data: task }, { status: 201 });
+  } catch (error) {
+    console.error("[api:tasks] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,100 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { boardAccessWhere } from "@/lib/boards/access";
+import { BoardSchema, DEFAULT_COLUMNS } from "@/lib/boards/schemas";
+import { BoardRole } from "@/types";
+
+/**
+ * GET /api/v1/boards
+ * List boards the authenticated user owns or is a member of.
+ * Query params: page, limit
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:read");
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") ?? "1", 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") ?? "20", 10) || 20));
+    const skip = (page - 1) * limit;
+
+    const where = boardAccessWhere(auth.userId);
+    const [total, boards] = await Promise.all([
+      prisma.board.count({ where }),
+      prisma.board.findMany({
+        where,
+        include: {
+          columns: { orderBy: { order: "asc" }, select: { id: true, name: true, order: true } },
+          members: { where: { userId: auth.userId }, select: { role: true } },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    const data = boards.map(({ members, ...board }) => ({
+      ...board,
+      role: board.userId === auth.userId ? BoardRole.OWNER : (members[0]?.role ?? BoardRole.VIEWER),
+    }));
+
+    return Response.json({
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error("[api:boards] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v1/boards
+ * Create a board with the default To Do / In Progress / Done columns.
+ */
+export const POST = withIdempotency(async (request: Request) => {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "boards:write");
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:boards] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = BoardSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const board = await prisma.board.create({
+      data: {
+        ...parsed.data,
+        userId: auth.userId,
+        columns: { create: DEFAULT_COLUMNS },
+        members: { create: { userId: auth.userId, role: BoardRole.OWNER } },
+      },
+      include: { columns: { orderBy: { order: "asc" } } },
+    });
+
+    return Response.json({ data: board }, { status: 201 });
+  } catch (error) {
+    console.error("[api:boards] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,51 @@
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess, tokenTrackerWhere } from "@/lib/api/scopes";
+import { BulkEntriesSchema, createEntriesInBulk } from "@/lib/trackers/bulk-entries";
+
+/**
+ * POST /api/v1/entries/bulk
+ * Create up to MAX_BULK_ENTRIES entries, each naming its tracker. Body:
+ * `{ entries: [...], mode?: "atomic" | "best_effort" }`; every item is
+ * reported by index. In the default atomic mode any invalid item means
+ * nothing is written (422); best_effort writes the valid ones.
+ */
+export const POST = withIdempotency(async (request: Request) => {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const denied = checkApiAccess(auth, "entries:write");
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error("[api:entries-bulk] Operation failed:", error);
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = BulkEntriesSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    // Trackers outside the token's restriction are reported as not found
+    const result = await createEntriesInBulk(auth.userId, parsed.data.entries, {
+      mode: parsed.data.mode,
+      trackerWhere: { userId: auth.userId, ...tokenTrackerWhere(auth) },
+    });
+
+    if (result.created === 0) {
+      return Response.json({ error: "Validation failed", data: result }, { status: 422 });
+    }
+    return Response.json({ data: result }, { status: 201 });
+  } catch (error) {
+    console.error("[api:entries-bulk] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -1,6 +1,19 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import {
+  checkIfMatch,
+  conflictResponse,
+  hasIfMatch,
+  isStaleWrite,
+  versionHeaders,
+} from "@/lib/api/concurrency";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { CustomFieldValuesSchema, validateCustomFieldValues } from "@/lib/trackers/custom-fields";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import type { Prisma } from "@/app/generated/prisma";
+import { TrackerType, WebhookEvent, type CustomFieldValues } from "@/types";
 
 const EntryUpdateSchema = z.object({
   startTime: z.string().datetime().optional().nullable(),
@@ -9,12 +22,27 @@ const EntryUpdateSchema = z.object({
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().nullable(),
   tags: z.array(z.string()).optional(),
   date: z.string().datetime().optional(),
+  fields: CustomFieldValuesSchema.optional().nullable(),
 });
 
 interface RouteContext {
   params: Promise<{ id: string; entryId: string }>;
 }
 
+/** Entries not written since `updatedAt` was added are versioned by creation */
+function entryVersion(entry: { createdAt: Date; updatedAt: Date | null }): Date {
+  return entry.updatedAt ?? entry.createdAt;
+}
+
+/** Matches the entry only while it is still at the version `entry` was read at */
+function sameVersionWhere(entry: {
+  updatedAt: Date | null;
+}): Pick<Prisma.TrackerEntryWhereInput, "updatedAt" | "OR"> {
+  return entry.updatedAt
+    ? { updatedAt: entry.updatedAt }
+    : { OR: [{ updatedAt: null }, { updatedAt: { isSet: false } }] };
+}
+
 async function getOwnedEntry(trackerId: string, entryId: string, userId: string) {
   const tracker = await prisma.tracker.findFirst({
     where: { id: trackerId, userId },
@@ -38,12 +66,15 @@ export async function GET(request: Request, { params }: RouteContext) {
 
     const { id, entryId } = await params;
 
+    const denied = checkApiAccess(auth, "entries:read", id);
+    if (denied) return denied;
+
     const entry = await getOwnedEntry(id, entryId, auth.userId);
     if (!entry) {
       return Response.json({ error: "Entry not found" }, { status: 404 });
     }
 
-    return Response.json({ data: entry });
+    return Response.json({ data: entry }, { headers: versionHeaders(entryVersion(entry)) });
   } catch (error) {
     console.error("[api:entries] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
@@ -52,7 +83,7 @@ export async function GET(request: Request, { params }: RouteContext) {
 
 /**
  * PUT /api/v1/trackers/:id/entries/:entryId
- * Update a single entry.
+ * Update a single entry. With If-Match, refused with 409 if it changed since read.
  */
 export async function PUT(request: Request, { params }: RouteContext) {
   try {
@@ -61,11 +92,17 @@ export async function PUT(request: Request, { params }: RouteContext) {
 
     const { id, entryId } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     const existing = await getOwnedEntry(id, entryId, auth.userId);
     if (!existing) {
       return Response.json({ error: "Entry not found" }, { status: 404 });
     }
 
+    const conflict = checkIfMatch(request, entryVersion(existing));
+    if (conflict) return conflict;
+
     let body: unknown;
     try {
       body = await request.json();
@@ -82,19 +119,51 @@ export async function PUT(request: Request, { params }: RouteContext) {
       );
     }
 
-    const { startTime, endTime, date, ...rest } = parsed.data;
+    const { startTime, endTime, date, fields: fieldInput, ...rest } = parsed.data;
+
+    // Changed CUSTOM values are checked against the tracker's field schema
+    let fields: CustomFieldValues | null = null;
+    if (fieldInput !== undefined) {
+      const tracker = await prisma.tracker.findUnique({
+        where: { id },
+        select: { type: true, fields: true },
+      });
+      if (tracker?.type === TrackerType.CUSTOM && tracker.fields.length > 0) {
+        const checked = validateCustomFieldValues(tracker.fields, fieldInput);
+        if (!checked.success) {
+          return Response.json(
+            { error: "Validation failed", details: { fields: [checked.error] } },
+            { status: 422 }
+          );
+        }
+        fields = checked.data;
+      }
+    }
 
-    const updated = await prisma.trackerEntry.update({
-      where: { id: entryId },
-      data: {
-        ...rest,
-        ...(startTime !== undefined && { startTime: startTime ? new Date(startTime) : null }),
-        ...(endTime !== undefined && { endTime: endTime ? new Date(endTime) : null }),
-        ...(date !== undefined && { date: new Date(date) }),
-      },
-    });
+    let updated;
+    try {
+      updated = await prisma.$transaction(async (tx) => {
+        const entry = await tx.trackerEntry.update({
+          where: { id: entryId, ...(hasIfMatch(request) && sameVersionWhere(existing)) },
+          data: {
+            ...rest,
+            ...(fields && { fields }),
+            ...(startTime !== undefined && { startTime: startTime ? new Date(startTime) : null }),
+            ...(endTime !== undefined && { endTime: endTime ? new Date(endTime) : null }),
+            ...(date !== undefined && { date: new Date(date) }),
+          },
+        });
+        await applyEntryChange(tx, id, existing, entry);
+        return entry;
+      });
+    } catch (error) {
+      // Changed by another request after the If-Match check
+      if (isStaleWrite(error)) return conflictResponse();
+      throw error;
+    }
 
-    return Response.json({ data: updated });
+    emitEntryEvent(WebhookEvent.ENTRY_UPDATED, updated);
+    return Response.json({ data: updated }, { headers: versionHeaders(entryVersion(updated)) });
   } catch (error) {
     console.error("[api:entries] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
@@ -112,12 +181,19 @@ export async function DELETE(request: Request, { params }: RouteContext) {
 
     const { id, entryId } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     const existing = await getOwnedEntry(id, entryId, auth.userId);
     if (!existing) {
       return Response.json({ error: "Entry not found" }, { status: 404 });
     }
 
-    await prisma.trackerEntry.delete({ where: { id: entryId } });
+    await prisma.$transaction(async (tx) => {
+      await tx.trackerEntry.delete({ where: { id: entryId } });
+      await applyEntryChange(tx, id, existing, null);
+    });
+    emitEntryEvent(WebhookEvent.ENTRY_DELETED, existing);
 
     return new Response(null, { status: 204 });
   } catch (error) {
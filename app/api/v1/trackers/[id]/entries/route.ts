@@ -1,6 +1,18 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { CustomFieldValuesSchema, validateCustomFieldValues } from "@/lib/trackers/custom-fields";
+import { resolveEntryValue } from "@/lib/trackers/entry-units";
+import { DERIVED_NO_ENTRIES } from "@/lib/trackers/derived";
+import { applyEntryChange } from "@/lib/trackers/statistics";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import { UnitCodeSchema } from "@/lib/units";
+import { startOfZonedDay, zonedDayRange } from "@/lib/timezone";
+import type { Prisma } from "@/app/generated/prisma";
+import { TrackerType, WebhookEvent } from "@/types";
 
 const EntryCreateSchema = z.object({
   startTime: z.string().datetime().optional().nullable(),
@@ -9,6 +21,15 @@ const EntryCreateSchema = z.object({
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().nullable(),
   tags: z.array(z.string()).optional().default([]),
   date: z.string().datetime().optional(),
+  fields: CustomFieldValuesSchema.optional().nullable(),
+  unit: UnitCodeSchema.optional().nullable(),
+});
+
+const LocalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const RangeQuerySchema = z.object({
+  from: LocalDate.optional(),
+  to: LocalDate.optional(),
 });
 
 interface RouteContext {
@@ -18,7 +39,8 @@ interface RouteContext {
 /**
  * GET /api/v1/trackers/:id/entries
  * List entries for a tracker.
- * Query params: page, limit, sort (asc|desc)
+ * Query params: page, limit, sort (asc|desc), from/to (YYYY-MM-DD local days
+ * in the user's profile time zone, inclusive)
  */
 export async function GET(request: Request, { params }: RouteContext) {
   try {
@@ -27,6 +49,9 @@ export async function GET(request: Request, { params }: RouteContext) {
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "entries:read", id);
+    if (denied) return denied;
+
     const tracker = await prisma.tracker.findFirst({
       where: { id, userId: auth.userId },
       select: { id: true },
@@ -42,10 +67,31 @@ export async function GET(request: Request, { params }: RouteContext) {
     const skip = (page - 1) * limit;
     const sortOrder = searchParams.get("sort") === "asc" ? "asc" : "desc";
 
+    const rangeParsed = RangeQuerySchema.safeParse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+    });
+    if (!rangeParsed.success) {
+      return Response.json(
+        { error: "Validation failed", details: rangeParsed.error.flatten().fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const { from, to } = rangeParsed.data;
+    const where: Prisma.TrackerEntryWhereInput = { trackerId: id };
+    if (from || to) {
+      const { timezone } = await getUserTimeSettings(auth.userId);
+      where.date = {
+        ...(from && { gte: startOfZonedDay(from, timezone) }),
+        ...(to && { lte: zonedDayRange(to, to, timezone).end }),
+      };
+    }
+
     const [total, entries] = await Promise.all([
-      prisma.trackerEntry.count({ where: { trackerId: id } }),
+      prisma.trackerEntry.count({ where }),
       prisma.trackerEntry.findMany({
-        where: { trackerId: id },
+        where,
         orderBy: { date: sortOrder },
         skip,
         take: limit,
@@ -66,21 +112,27 @@ export async function GET(request: Request, { params }: RouteContext) {
  * POST /api/v1/trackers/:id/entries
  * Create a new entry for a tracker.
  */
-export async function POST(request: Request, { params }: RouteContext) {
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
   try {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     const tracker = await prisma.tracker.findFirst({
       where: { id, userId: auth.userId },
-      select: { id: true },
+      select: { id: true, type: true, fields: true, unit: true, userId: true },
     });
 
     if (!tracker) {
       return Response.json({ error: "Tracker not found" }, { status: 404 });
     }
+    if (tracker.type === TrackerType.DERIVED) {
+      return Response.json({ error: DERIVED_NO_ENTRIES }, { status: 422 });
+    }
 
     let body: unknown;
     try {
@@ -98,21 +150,53 @@ export async function POST(request: Request, { params }: RouteContext) {
       );
     }
 
-    const { startTime, endTime, date, ...rest } = parsed.data;
+    const { startTime, endTime, date, fields: fieldInput, unit, ...rest } = parsed.data;
+
+    // CUSTOM trackers with a field schema validate the structured values
+    let fields = null;
+    if (tracker.type === TrackerType.CUSTOM && tracker.fields.length > 0) {
+      const checked = validateCustomFieldValues(tracker.fields, fieldInput);
+      if (!checked.success) {
+        return Response.json(
+          { error: "Validation failed", details: { fields: [checked.error] } },
+          { status: 422 }
+        );
+      }
+      fields = checked.data;
+    }
 
-    const entry = await prisma.trackerEntry.create({
-      data: {
-        ...rest,
-        trackerId: id,
-        startTime: startTime ? new Date(startTime) : null,
-        endTime: endTime ? new Date(endTime) : null,
-        date: date ? new Date(date) : new Date(),
-      },
+    // Values given in another unit are stored in the tracker's
+    const converted = await resolveEntryValue(tracker, rest.value, unit);
+    if (!converted.success) {
+      return Response.json(
+        { error: "Validation failed", details: { unit: [converted.error] } },
+        { status: 422 }
+      );
+    }
+    const { value, enteredValue, enteredUnit } = converted.data;
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.trackerEntry.create({
+        data: {
+          ...rest,
+          value,
+          ...(fields && { fields }),
+          ...(enteredUnit && { enteredValue, enteredUnit }),
+          trackerId: id,
+          startTime: startTime ? new Date(startTime) : null,
+          endTime: endTime ? new Date(endTime) : null,
+          date: date ? new Date(date) : new Date(),
+          createdById: auth.userId,
+        },
+      });
+      await applyEntryChange(tx, id, null, created);
+      return created;
     });
 
+    emitEntryEvent(WebhookEvent.ENTRY_CREATED, entry);
     return Response.json({ data: entry }, { status: 201 });
   } catch (error) {
     console.error("[api:entries] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,44 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { evaluateTrackerGoals } from "@/lib/trackers/goal-progress";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/trackers/:id/goals
+ * The tracker's goals with their history and progress in the current
+ * (calendar or rolling) period, evaluated in the token owner's profile time
+ * zone and week start.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const { id } = await params;
+
+    const denied = checkApiAccess(auth, "trackers:read", id);
+    if (denied) return denied;
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id, userId: auth.userId },
+      select: { id: true, type: true, updatedAt: true },
+    });
+
+    if (!tracker) {
+      return Response.json({ error: "Tracker not found" }, { status: 404 });
+    }
+
+    const settings = await getUserTimeSettings(auth.userId);
+    const goals = await evaluateTrackerGoals(tracker, settings);
+
+    return Response.json({ data: goals, meta: settings });
+  } catch (error) {
+    console.error("[api:goals] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
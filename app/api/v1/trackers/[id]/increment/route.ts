@@ -1,7 +1,12 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { applyEntryChange } from "@/lib/trackers/statistics";
 import { TrackerType } from "@/app/generated/prisma";
+import { WebhookEvent } from "@/types";
 
 const IncrementSchema = z.object({
   value: z.number().positive("Value must be positive").optional().default(1),
@@ -17,13 +22,16 @@ interface RouteContext {
  * Increment a counter tracker.
  * Body: { value?: number (default: 1), note?: string }
  */
-export async function POST(request: Request, { params }: RouteContext) {
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
   try {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     let body: unknown;
     try {
       body = await request.json();
@@ -45,7 +53,7 @@ export async function POST(request: Request, { params }: RouteContext) {
     const result = await prisma.$transaction(async (tx) => {
       const tracker = await tx.tracker.findFirst({
         where: { id, userId: auth.userId },
-        select: { id: true, type: true, statistics: true },
+        select: { id: true, type: true },
       });
 
       if (!tracker) {
@@ -57,27 +65,12 @@ export async function POST(request: Request, { params }: RouteContext) {
       }
 
       const entry = await tx.trackerEntry.create({
-        data: { trackerId: id, value, note, date: new Date() },
+        data: { trackerId: id, value, note, date: new Date(), createdById: auth.userId },
       });
 
-      await tx.tracker.update({
-        where: { id },
-        data: {
-          updatedAt: new Date(),
-          statistics: {
-            totalEntries: (tracker.statistics?.totalEntries ?? 0) + 1,
-            totalValue: (tracker.statistics?.totalValue ?? 0) + value,
-            totalTime: tracker.statistics?.totalTime ?? 0,
-            totalCustom: tracker.statistics?.totalCustom ?? "",
-          },
-        },
-      });
+      const { totalValue, totalEntries } = await applyEntryChange(tx, id, null, entry);
 
-      return {
-        entryId: entry.id,
-        totalValue: (tracker.statistics?.totalValue ?? 0) + value,
-        totalEntries: (tracker.statistics?.totalEntries ?? 0) + 1,
-      };
+      return { entry, totalValue, totalEntries };
     });
 
     if ("notFound" in result) {
@@ -90,9 +83,11 @@ export async function POST(request: Request, { params }: RouteContext) {
       );
     }
 
-    return Response.json({ data: result }, { status: 200 });
+    const { entry, ...data } = result;
+    emitEntryEvent(WebhookEvent.ENTRY_CREATED, entry);
+    return Response.json({ data: { entryId: entry.id, ...data } }, { status: 200 });
   } catch (error) {
     console.error("[api:increment] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
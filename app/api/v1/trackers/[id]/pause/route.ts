@@ -0,0 +1,22 @@
+import { handleTimerPause } from "@/lib/api/timer";
+import { withIdempotency } from "@/lib/api/idempotency";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/v1/trackers/:id/pause
+ * Pause a running timer; the break lasts until /resume or /stop.
+ * Body: { entryId?: string (auto-detected if omitted) }
+ * Returns: { data: { entryId, paused, activeDuration, breaks } }
+ */
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
+  try {
+    const { id } = await params;
+    return await handleTimerPause(request, id, true);
+  } catch (error) {
+    console.error("[api:pause] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -1,6 +1,15 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { checkIfMatch, conflictResponse, hasIfMatch, versionHeaders } from "@/lib/api/concurrency";
+import { CustomFieldsSchema } from "@/lib/trackers/custom-fields";
+import { PomodoroConfigSchema } from "@/lib/trackers/pomodoro";
+import { HabitScheduleSchema } from "@/lib/trackers/habits";
+import { setTrackerUnit } from "@/lib/trackers/entry-units";
+import { UnitCodeSchema } from "@/lib/units";
+import { DerivedFormulaSchema } from "@/lib/trackers/formula";
+import { validateFormulaInputs } from "@/lib/trackers/derived";
 import { TrackerStatus, TrackerType } from "@/app/generated/prisma";
 
 const TrackerUpdateSchema = z.object({
@@ -23,6 +32,11 @@ const TrackerUpdateSchema = z.object({
     .optional()
     .nullable(),
   icon: z.string().optional().nullable(),
+  fields: CustomFieldsSchema.optional(),
+  pomodoro: PomodoroConfigSchema.optional().nullable(),
+  schedule: HabitScheduleSchema.optional().nullable(),
+  unit: UnitCodeSchema.optional().nullable(),
+  formula: DerivedFormulaSchema.optional().nullable(),
   isPinned: z.boolean().optional(),
 });
 
@@ -41,6 +55,9 @@ export async function GET(request: Request, { params }: RouteContext) {
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "trackers:read", id);
+    if (denied) return denied;
+
     const tracker = await prisma.tracker.findFirst({
       where: { id, userId: auth.userId },
     });
@@ -49,7 +66,7 @@ export async function GET(request: Request, { params }: RouteContext) {
       return Response.json({ error: "Tracker not found" }, { status: 404 });
     }
 
-    return Response.json({ data: tracker });
+    return Response.json({ data: tracker }, { headers: versionHeaders(tracker.updatedAt) });
   } catch (error) {
     console.error("[api:tracker] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
@@ -58,7 +75,7 @@ export async function GET(request: Request, { params }: RouteContext) {
 
 /**
  * PUT /api/v1/trackers/:id
- * Update a tracker.
+ * Update a tracker. With If-Match, refused with 409 if it changed since read.
  */
 export async function PUT(request: Request, { params }: RouteContext) {
   try {
@@ -67,6 +84,9 @@ export async function PUT(request: Request, { params }: RouteContext) {
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "trackers:write", id);
+    if (denied) return denied;
+
     let body: unknown;
     try {
       body = await request.json();
@@ -86,19 +106,55 @@ export async function PUT(request: Request, { params }: RouteContext) {
     // Verify ownership first, then update — avoids null race on findUnique after updateMany
     const existing = await prisma.tracker.findFirst({
       where: { id, userId: auth.userId },
-      select: { id: true },
+      select: { id: true, updatedAt: true },
     });
 
     if (!existing) {
       return Response.json({ error: "Tracker not found" }, { status: 404 });
     }
 
+    const conflict = checkIfMatch(request, existing.updatedAt);
+    if (conflict) return conflict;
+
+    if (parsed.data.formula) {
+      const checked = await validateFormulaInputs(auth.userId, parsed.data.formula, id);
+      if (!checked.success) {
+        return Response.json(
+          { error: "Validation failed", details: { formula: [checked.error] } },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Take the checked version before writing anything: of two requests with
+    // the same ETag only one gets past here. (The unit change below runs in
+    // its own transaction, so the final update can't carry the condition.)
+    if (hasIfMatch(request)) {
+      const { count } = await prisma.tracker.updateMany({
+        where: { id, updatedAt: existing.updatedAt },
+        data: { updatedAt: new Date() },
+      });
+      if (count === 0) return conflictResponse();
+    }
+
+    // A new unit converts the values already logged
+    const { unit, ...data } = parsed.data;
+    if (unit !== undefined) {
+      const changed = await setTrackerUnit(id, auth.userId, unit);
+      if (!changed.success) {
+        return Response.json(
+          { error: "Validation failed", details: { unit: [changed.error] } },
+          { status: 422 }
+        );
+      }
+    }
+
     const tracker = await prisma.tracker.update({
       where: { id },
-      data: parsed.data,
+      data,
     });
 
-    return Response.json({ data: tracker });
+    return Response.json({ data: tracker }, { headers: versionHeaders(tracker.updatedAt) });
   } catch (error) {
     console.error("[api:tracker] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
@@ -116,6 +172,9 @@ export async function DELETE(request: Request, { params }: RouteContext) {
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "trackers:write", id);
+    if (denied) return denied;
+
     // Verify ownership first — delete (not deleteMany) triggers Prisma cascade on MongoDB
     const existing = await prisma.tracker.findFirst({
       where: { id, userId: auth.userId },
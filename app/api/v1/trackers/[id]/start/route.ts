@@ -1,7 +1,13 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { claimTimerStart } from "@/lib/trackers/running-timers";
+import { getUserTimerPolicy } from "@/lib/users/timer-policy";
 import { TrackerType } from "@/app/generated/prisma";
+import { WebhookEvent } from "@/types";
 
 const StartSchema = z.object({
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().default(""),
@@ -13,17 +19,22 @@ interface RouteContext {
 
 /**
  * POST /api/v1/trackers/:id/start
- * Start a timer tracker.
+ * Start a timer tracker. Starting a running tracker returns its timer; other
+ * running timers (with the user's single-timer setting) are either a 409 or
+ * stopped first, per the user's timer policy.
  * Body: { note?: string }
- * Returns: { data: { entryId, startTime } }
+ * Returns: { data: { entryId, startTime, stopped: string[] (entry ids) } }
  */
-export async function POST(request: Request, { params }: RouteContext) {
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
   try {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     let body: unknown;
     try {
       body = await request.json();
@@ -72,8 +83,22 @@ export async function POST(request: Request, { params }: RouteContext) {
       }
 
       const startTime = new Date();
+      const policy = await getUserTimerPolicy(auth.userId, tx);
+      const claim = await claimTimerStart(tx, auth.userId, id, policy, startTime);
+      const [conflict] = claim.conflicts;
+      if (conflict) {
+        return { conflict: true, entryId: conflict.id, trackerId: conflict.trackerId } as const;
+      }
+
       const entry = await tx.trackerEntry.create({
-        data: { trackerId: id, startTime, endTime: null, note, date: startTime },
+        data: {
+          trackerId: id,
+          startTime,
+          endTime: null,
+          note,
+          date: startTime,
+          createdById: auth.userId,
+        },
       });
 
       await tx.tracker.update({
@@ -81,7 +106,7 @@ export async function POST(request: Request, { params }: RouteContext) {
         data: { status: "ACTIVE", updatedAt: new Date() },
       });
 
-      return { entryId: entry.id, startTime };
+      return { entry, stopped: claim.stopped };
     });
 
     if ("notFound" in result) {
@@ -101,9 +126,33 @@ export async function POST(request: Request, { params }: RouteContext) {
       );
     }
 
-    return Response.json({ data: result }, { status: 200 });
+    if ("conflict" in result) {
+      return Response.json(
+        {
+          error: "Another timer is already running",
+          entryId: result.entryId,
+          trackerId: result.trackerId,
+        },
+        { status: 409 }
+      );
+    }
+
+    for (const stopped of result.stopped) {
+      emitEntryEvent(WebhookEvent.TIMER_STOPPED, stopped);
+    }
+    emitEntryEvent(WebhookEvent.TIMER_STARTED, result.entry);
+    return Response.json(
+      {
+        data: {
+          entryId: result.entry.id,
+          startTime: result.entry.startTime,
+          stopped: result.stopped.map((entry) => entry.id),
+        },
+      },
+      { status: 200 }
+    );
   } catch (error) {
     console.error("[api:start] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,49 @@
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { getPeriodTotals, getTrackerStreak } from "@/lib/trackers/stats";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/trackers/:id/stats
+ * Today/week/month totals and the day streak (scheduled days only for
+ * habits), computed in the token owner's profile time zone and week start.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await validateApiToken(request);
+    if (!auth) return unauthorizedResponse();
+
+    const { id } = await params;
+
+    const denied = checkApiAccess(auth, "trackers:read", id);
+    if (denied) return denied;
+
+    const tracker = await prisma.tracker.findFirst({
+      where: { id, userId: auth.userId },
+      select: { id: true, type: true, schedule: true },
+    });
+
+    if (!tracker) {
+      return Response.json({ error: "Tracker not found" }, { status: 404 });
+    }
+
+    const settings = await getUserTimeSettings(auth.userId);
+    const [totals, streak] = await Promise.all([
+      getPeriodTotals(id, tracker.type, settings),
+      getTrackerStreak(tracker, settings),
+    ]);
+
+    return Response.json({
+      data: { ...totals, streak },
+      meta: settings,
+    });
+  } catch (error) {
+    console.error("[api:stats] Operation failed:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
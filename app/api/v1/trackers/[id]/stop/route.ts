@@ -1,11 +1,21 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess } from "@/lib/api/scopes";
+import { emitEntryEvent } from "@/lib/webhooks/dispatch";
+import { wallClockSeconds } from "@/lib/trackers/timer";
+import { settleTimer } from "@/lib/trackers/timer-policy";
+import { getUserTimerPolicy } from "@/lib/users/timer-policy";
+import { isPomodoroComplete } from "@/lib/trackers/pomodoro";
+import { applyEntryChange } from "@/lib/trackers/statistics";
 import { TrackerType } from "@/app/generated/prisma";
+import { WebhookEvent } from "@/types";
 
 const StopSchema = z.object({
   entryId: z.string().optional(),
   note: z.string().max(500, "Note cannot exceed 500 characters").optional().default(""),
+  pomodoro: z.boolean().optional().default(false),
 });
 
 interface RouteContext {
@@ -14,17 +24,23 @@ interface RouteContext {
 
 /**
  * POST /api/v1/trackers/:id/stop
- * Stop a running timer tracker.
- * Body: { entryId?: string (auto-detected if omitted), note?: string }
- * Returns: { data: { entryId, duration, totalTime } }
+ * Stop a running (or paused) timer tracker. `duration` is active time only;
+ * past the user's max timer length the entry is flagged (`overrun`) or capped.
+ * Body: { entryId?: string (auto-detected if omitted), note?: string, pomodoro?: boolean }
+ * `pomodoro` logs a completed Pomodoro when the tracker has Pomodoro timing and
+ * the work interval ran its full length.
+ * Returns: { data: { entryId, duration, wallClockDuration, totalTime, pomodoro, overrun } }
  */
-export async function POST(request: Request, { params }: RouteContext) {
+export const POST = withIdempotency(async (request: Request, { params }: RouteContext) => {
   try {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
     const { id } = await params;
 
+    const denied = checkApiAccess(auth, "entries:write", id);
+    if (denied) return denied;
+
     let body: unknown;
     try {
       body = await request.json();
@@ -41,12 +57,12 @@ export async function POST(request: Request, { params }: RouteContext) {
       );
     }
 
-    const { entryId: requestedEntryId, note } = parsed.data;
+    const { entryId: requestedEntryId, note, pomodoro: completesPomodoro } = parsed.data;
 
     const result = await prisma.$transaction(async (tx) => {
       const tracker = await tx.tracker.findFirst({
         where: { id, userId: auth.userId },
-        select: { id: true, type: true, statistics: true },
+        select: { id: true, type: true, statistics: true, pomodoro: true },
       });
 
       if (!tracker) {
@@ -71,7 +87,7 @@ export async function POST(request: Request, { params }: RouteContext) {
               startTime: { not: null },
               endTime: null,
             },
-        select: { id: true, startTime: true, note: true },
+        select: { id: true, startTime: true, note: true, date: true, tags: true, breaks: true },
         orderBy: { startTime: "desc" },
       });
 
@@ -79,38 +95,49 @@ export async function POST(request: Request, { params }: RouteContext) {
         return { noActiveTimer: true } as const;
       }
 
-      const endTime = new Date();
-      const duration = Math.round((endTime.getTime() - activeEntry.startTime.getTime()) / 1000);
+      const policy = await getUserTimerPolicy(auth.userId, tx);
+      const { endTime, breaks, duration, overrun } = settleTimer(
+        policy,
+        activeEntry.startTime,
+        new Date(),
+        activeEntry.breaks
+      );
+      const pomodoro =
+        completesPomodoro && !!tracker.pomodoro && isPomodoroComplete(tracker.pomodoro, duration);
 
       const updatedNote = note ? `${activeEntry.note ?? ""} ${note}`.trim() : activeEntry.note;
 
       // Guard endTime: null in the update filter so a concurrent stop can't double-fire
-      await tx.trackerEntry.updateMany({
+      const { count } = await tx.trackerEntry.updateMany({
         where: { id: activeEntry.id, endTime: null },
-        data: { endTime, note: updatedNote, value: duration },
+        data: { endTime, note: updatedNote, value: duration, breaks, pomodoro, overrun },
       });
 
-      const currentEntries = tracker.statistics?.totalEntries ?? 0;
-      const currentTime = tracker.statistics?.totalTime ?? 0;
-
-      await tx.tracker.update({
-        where: { id },
-        data: {
-          status: "INACTIVE",
-          updatedAt: new Date(),
-          statistics: {
-            totalEntries: currentEntries + 1,
-            totalTime: currentTime + duration,
-            totalValue: tracker.statistics?.totalValue ?? 0,
-            totalCustom: tracker.statistics?.totalCustom ?? "",
-          },
-        },
-      });
+      await tx.tracker.update({ where: { id }, data: { status: "INACTIVE" } });
+      // Only the stop that actually closed the entry counts it
+      const { totalTime } =
+        count > 0
+          ? await applyEntryChange(tx, id, activeEntry, {
+              startTime: activeEntry.startTime,
+              endTime,
+              value: duration,
+            })
+          : { totalTime: tracker.statistics?.totalTime ?? 0 };
 
       return {
-        entryId: activeEntry.id,
+        entry: {
+          ...activeEntry,
+          trackerId: id,
+          endTime,
+          note: updatedNote,
+          value: duration,
+          pomodoro,
+        },
         duration,
-        totalTime: currentTime + duration,
+        wallClockDuration: wallClockSeconds(activeEntry.startTime, endTime),
+        totalTime,
+        pomodoro,
+        overrun,
       };
     });
 
@@ -127,9 +154,11 @@ export async function POST(request: Request, { params }: RouteContext) {
       return Response.json({ error: "No active timer found" }, { status: 409 });
     }
 
-    return Response.json({ data: result }, { status: 200 });
+    const { entry, ...data } = result;
+    emitEntryEvent(WebhookEvent.TIMER_STOPPED, entry);
+    return Response.json({ data: { entryId: entry.id, ...data } }, { status: 200 });
   } catch (error) {
     console.error("[api:stop] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
@@ -1,6 +1,14 @@
 import { z } from "zod";
 import prisma from "@/lib/db/prisma";
 import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { checkApiAccess, forbiddenResponse, tokenTrackerWhere } from "@/lib/api/scopes";
+import { CustomFieldsSchema } from "@/lib/trackers/custom-fields";
+import { PomodoroConfigSchema } from "@/lib/trackers/pomodoro";
+import { HabitScheduleSchema } from "@/lib/trackers/habits";
+import { tracksUnits, UnitCodeSchema } from "@/lib/units";
+import { DerivedFormulaSchema } from "@/lib/trackers/formula";
+import { validateFormulaInputs } from "@/lib/trackers/derived";
 import { TrackerStatus, TrackerType } from "@/app/generated/prisma";
 
 const TrackerCreateSchema = z.object({
@@ -18,6 +26,11 @@ const TrackerCreateSchema = z.object({
     .optional()
     .nullable(),
   icon: z.string().optional().nullable(),
+  fields: CustomFieldsSchema.optional(),
+  pomodoro: PomodoroConfigSchema.optional().nullable(),
+  schedule: HabitScheduleSchema.optional().nullable(),
+  unit: UnitCodeSchema.optional().nullable(),
+  formula: DerivedFormulaSchema.optional().nullable(),
 });
 
 /**
@@ -30,9 +43,12 @@ export async function GET(request: Request) {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
+    const denied = checkApiAccess(auth, "trackers:read");
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
 
-    const where: Record<string, unknown> = { userId: auth.userId };
+    const where: Record<string, unknown> = { userId: auth.userId, ...tokenTrackerWhere(auth) };
 
     const status = searchParams.get("status");
     if (status && Object.values(TrackerStatus).includes(status as TrackerStatus)) {
@@ -80,11 +96,17 @@ export async function GET(request: Request) {
  * POST /api/v1/trackers
  * Create a new tracker.
  */
-export async function POST(request: Request) {
+export const POST = withIdempotency(async (request: Request) => {
   try {
     const auth = await validateApiToken(request);
     if (!auth) return unauthorizedResponse();
 
+    const denied = checkApiAccess(auth, "trackers:write");
+    if (denied) return denied;
+    if (auth.trackerIds.length > 0) {
+      return forbiddenResponse("Tokens restricted to specific trackers cannot create trackers");
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -101,9 +123,26 @@ export async function POST(request: Request) {
       );
     }
 
+    if (parsed.data.type === TrackerType.DERIVED) {
+      const checked = parsed.data.formula
+        ? await validateFormulaInputs(auth.userId, parsed.data.formula)
+        : { success: false as const, error: "Derived trackers need a formula" };
+      if (!checked.success) {
+        return Response.json(
+          { error: "Validation failed", details: { formula: [checked.error] } },
+          { status: 422 }
+        );
+      }
+    }
+
     const tracker = await prisma.tracker.create({
       data: {
         ...parsed.data,
+        fields: parsed.data.type === TrackerType.CUSTOM ? (parsed.data.fields ?? []) : [],
+        pomodoro: parsed.data.type === TrackerType.TIMER ? parsed.data.pomodoro : null,
+        schedule: parsed.data.type === TrackerType.OCCURRENCE ? parsed.data.schedule : null,
+        unit: tracksUnits(parsed.data.type) ? parsed.data.unit : null,
+        formula: parsed.data.type === TrackerType.DERIVED ? parsed.data.formula : null,
         status: TrackerStatus.INACTIVE,
         userId: auth.userId,
       },
@@ -114,4 +153,4 @@ export async function POST(request: Request) {
     console.error("[api:trackers] Operation failed:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
@@ -8,18 +8,85 @@ import {
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Plus, Trash2, KanbanSquare } from "lucide-react";
+import { Plus, Trash2, KanbanSquare, Users } from "lucide-react";
 import Link from "next/link";
 import { CreateBoardDialog } from "./CreateBoardDialog";
 import { useState } from "react";
 import { toast } from "sonner";
+import { BoardRole } from "@/types";
 import type { Board } from "@/types";
 
+const ROLE_LABELS: Record<BoardRole, string> = {
+  OWNER: "Owner",
+  EDITOR: "Editor",
+  VIEWER: "Viewer",
+};
+
+interface BoardCardProps {
+  board: Board;
+  onDelete?: () => void;
+}
+
+function BoardCard({ board, onDelete }: BoardCardProps) {
+  const taskCount = board.columns.reduce((sum, col) => sum + col.tasks.length, 0);
+  const isShared = board.role !== undefined && board.role !== BoardRole.OWNER;
+  return (
+    <Card className="group relative transition-shadow hover:shadow-md">
+      <Link
+        href={`/boards/${board.id}`}
+        className="absolute inset-0 z-0"
+        aria-label={`Open board ${board.name}`}
+      />
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="min-w-0 flex-1">
+            <CardTitle className="truncate text-lg">{board.name}</CardTitle>
+            {board.description && (
+              <CardDescription className="mt-1 line-clamp-2">{board.description}</CardDescription>
+            )}
+          </div>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative z-10 opacity-0 transition-opacity group-hover:opacity-100"
+              onClick={(e) => {
+                e.preventDefault();
+                onDelete();
+              }}
+              aria-label={`Delete board ${board.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="text-muted-foreground mt-2 flex items-center gap-3 text-xs">
+          <span>{board.columns.length} columns</span>
+          <span>{taskCount} tasks</span>
+          {isShared && board.role && (
+            <span className="bg-muted rounded-full px-2 py-0.5 font-medium">
+              {ROLE_LABELS[board.role]}
+            </span>
+          )}
+        </div>
+        {isShared && board.owner && (
+          <p className="text-muted-foreground mt-1 truncate text-xs">
+            Shared by {board.owner.name || board.owner.email}
+          </p>
+        )}
+      </CardHeader>
+    </Card>
+  );
+}
+
 export function BoardList() {
   const { data: boards, isLoading } = useBoardsQuery();
   const [showCreate, setShowCreate] = useState(false);
   const deleteMutation = useDeleteBoardMutation();
 
+  const ownedBoards = boards?.filter((b) => b.role === BoardRole.OWNER) ?? [];
+  const sharedBoards = boards?.filter((b) => b.role !== BoardRole.OWNER) ?? [];
+
   const handleDelete = (board: Board) => {
     if (!confirm(`Delete board "${board.name}"? All tasks will be lost.`)) return;
     deleteMutation.mutate(board.id, {
@@ -51,7 +118,7 @@ export function BoardList() {
         </Button>
       </div>
 
-      {boards && boards.length === 0 ? (
+      {ownedBoards.length === 0 ? (
         <div className="flex flex-col items-center justify-center rounded-xl border border-dashed py-16">
           <KanbanSquare className="text-muted-foreground mb-4 h-12 w-12" />
           <p className="text-muted-foreground mb-4 text-lg">No boards yet</p>
@@ -62,46 +129,23 @@ export function BoardList() {
         </div>
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {boards?.map((board) => {
-            const taskCount = board.columns.reduce((sum, col) => sum + col.tasks.length, 0);
-            return (
-              <Card key={board.id} className="group relative transition-shadow hover:shadow-md">
-                <Link
-                  href={`/boards/${board.id}`}
-                  className="absolute inset-0 z-0"
-                  aria-label={`Open board ${board.name}`}
-                />
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="min-w-0 flex-1">
-                      <CardTitle className="truncate text-lg">{board.name}</CardTitle>
-                      {board.description && (
-                        <CardDescription className="mt-1 line-clamp-2">
-                          {board.description}
-                        </CardDescription>
-                      )}
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="relative z-10 opacity-0 transition-opacity group-hover:opacity-100"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        handleDelete(board);
-                      }}
-                      aria-label={`Delete board ${board.name}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  <div className="text-muted-foreground mt-2 flex items-center gap-3 text-xs">
-                    <span>{board.columns.length} columns</span>
-                    <span>{taskCount} tasks</span>
-                  </div>
-                </CardHeader>
-              </Card>
-            );
-          })}
+          {ownedBoards.map((board) => (
+            <BoardCard key={board.id} board={board} onDelete={() => handleDelete(board)} />
+          ))}
+        </div>
+      )}
+
+      {sharedBoards.length > 0 && (
+        <div className="mt-10">
+          <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold">
+            <Users className="h-5 w-5" />
+            Shared with me
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {sharedBoards.map((board) => (
+              <BoardCard key={board.id} board={board} />
+            ))}
+          </div>
         </div>
       )}
 
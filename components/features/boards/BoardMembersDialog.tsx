@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { Loader2, UserMinus, UserPlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useBoardMembersQuery,
+  useInviteBoardMemberMutation,
+  useUpdateBoardMemberRoleMutation,
+  useRemoveBoardMemberMutation,
+} from "@/hooks/useBoardQuery";
+import { BoardRole } from "@/types";
+import type { Board, BoardMember } from "@/types";
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  OWNER: "Owner",
+  EDITOR: "Editor",
+  VIEWER: "Viewer",
+};
+
+type InviteRole = typeof BoardRole.EDITOR | typeof BoardRole.VIEWER;
+
+interface BoardMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  board: Board;
+}
+
+export function BoardMembersDialog({ open, onOpenChange, board }: BoardMembersDialogProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>(BoardRole.EDITOR);
+
+  const isOwner = board.role === BoardRole.OWNER;
+  const { data: members, isLoading } = useBoardMembersQuery(board.id, open);
+  const inviteMutation = useInviteBoardMemberMutation(board.id);
+  const roleMutation = useUpdateBoardMemberRoleMutation(board.id);
+  const removeMutation = useRemoveBoardMemberMutation(board.id);
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate(
+      { email, role: inviteRole },
+      {
+        onSuccess: (member) => {
+          toast.success(`${member.user.name || member.user.email} added to the board`);
+          setEmail("");
+        },
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  };
+
+  const handleRemove = (member: BoardMember) => {
+    const isSelf = member.userId === session?.user?.id;
+    removeMutation.mutate(member.id, {
+      onSuccess: () => {
+        if (isSelf) {
+          toast.success("You left the board");
+          onOpenChange(false);
+          router.push("/boards");
+        } else {
+          toast.success("Member removed");
+        }
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share board</DialogTitle>
+          <DialogDescription>
+            Editors can manage columns and tasks. Viewers can only look.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Label htmlFor="invite-email">Invite by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="teammate@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="flex-1"
+              />
+              <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as InviteRole)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BoardRole.EDITOR}>Editor</SelectItem>
+                  <SelectItem value={BoardRole.VIEWER}>Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!email.trim() || inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <UserPlus className="h-4 w-4" />
+                )}
+                Invite
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-1">
+          <h4 className="text-muted-foreground text-xs font-semibold tracking-wide uppercase">
+            Members
+          </h4>
+          {isLoading ? (
+            <div className="text-muted-foreground flex items-center gap-2 py-4 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading members...
+            </div>
+          ) : (
+            <ul className="divide-border/50 divide-y">
+              {members?.map((member) => {
+                const isSelf = member.userId === session?.user?.id;
+                const memberIsOwner = member.role === BoardRole.OWNER;
+                return (
+                  <li key={member.id} className="flex items-center gap-3 py-2">
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-indigo-500 to-fuchsia-500 text-xs font-bold text-white">
+                      {(member.user.name ?? member.user.email)[0].toUpperCase()}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {member.user.name || member.user.email}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      {member.user.name && (
+                        <p className="text-muted-foreground truncate text-xs">
+                          {member.user.email}
+                        </p>
+                      )}
+                    </div>
+                    {isOwner && !memberIsOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) =>
+                          roleMutation.mutate(
+                            { memberId: member.id, role: role as BoardRole },
+                            { onError: (err) => toast.error(err.message) }
+                          )
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BoardRole.EDITOR}>Editor</SelectItem>
+                          <SelectItem value={BoardRole.VIEWER}>Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-muted-foreground text-xs font-medium">
+                        {ROLE_LABELS[member.role]}
+                      </span>
+                    )}
+                    {!memberIsOwner && (isOwner || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemove(member)}
+                        disabled={removeMutation.isPending}
+                        aria-label={isSelf ? "Leave board" : `Remove ${member.user.email}`}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ import { TaskDialog } from "./TaskDialog";
 import { TaskDetailSheet } from "./TaskDetailSheet";
 import { AddColumnDialog } from "./AddColumnDialog";
 import { CreateBoardDialog } from "./CreateBoardDialog";
+import { BoardMembersDialog } from "./BoardMembersDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,10 +31,11 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-import { Plus, Settings2, ArrowLeft } from "lucide-react";
+import { Plus, Settings2, ArrowLeft, Users } from "lucide-react";
 import { useMoveTaskMutation, useDeleteColumnMutation } from "@/hooks/useBoardQuery";
 import { toast } from "sonner";
 import Link from "next/link";
+import { BoardRole } from "@/types";
 import type { Board, BoardTask } from "@/types";
 
 interface KanbanBoardProps {
@@ -58,11 +60,13 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
   const [showAddColumn, setShowAddColumn] = useState(false);
   const [editColumn, setEditColumn] = useState<{ id: string; name: string } | null>(null);
   const [showEditBoard, setShowEditBoard] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
   const [deleteColumnTarget, setDeleteColumnTarget] = useState<{
     id: string;
     name: string;
   } | null>(null);
 
+  const readOnly = board.role === BoardRole.VIEWER;
   const moveMutation = useMoveTaskMutation(board.id);
   const deleteColumnMutation = useDeleteColumnMutation(board.id);
 
@@ -91,7 +95,7 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
   const handleDragEnd = (event: DragEndEvent) => {
     setActiveTask(null);
     const { active, over } = event;
-    if (!over) return;
+    if (!over || readOnly) return;
 
     const taskId = active.id as string;
     const task = findTask(taskId);
@@ -125,7 +129,12 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
 
     moveMutation.mutate(
       { taskId, targetColumnId, newOrder },
-      { onError: (err) => toast.error(err.message) }
+      {
+        onSuccess: (data) => {
+          if (data.nextTaskId) toast.success(`Next "${task.title}" scheduled`);
+        },
+        onError: (err) => toast.error(err.message),
+      }
     );
   };
 
@@ -162,18 +171,26 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={() => setShowAddColumn(true)}>
-            <Plus className="mr-1 h-4 w-4" />
-            <span className="hidden sm:inline">Column</span>
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setShowEditBoard(true)}
-            aria-label="Board settings"
-          >
-            <Settings2 className="h-4 w-4" />
+          <Button variant="outline" size="sm" onClick={() => setShowMembers(true)}>
+            <Users className="mr-1 h-4 w-4" />
+            <span className="hidden sm:inline">Share</span>
           </Button>
+          {!readOnly && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setShowAddColumn(true)}>
+                <Plus className="mr-1 h-4 w-4" />
+                <span className="hidden sm:inline">Column</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowEditBoard(true)}
+                aria-label="Board settings"
+              >
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -198,6 +215,7 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
                 }}
                 onEditColumn={() => setEditColumn({ id: column.id, name: column.name })}
                 onDeleteColumn={() => setDeleteColumnTarget({ id: column.id, name: column.name })}
+                readOnly={readOnly}
               />
             ))}
           </div>
@@ -214,6 +232,7 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
         }}
         boardId={board.id}
         task={taskSheet.task}
+        readOnly={readOnly}
       />
 
       {/* Dialog for creating new tasks */}
@@ -241,6 +260,7 @@ export function KanbanBoard({ board }: KanbanBoardProps) {
 
       {/* Board settings */}
       <CreateBoardDialog open={showEditBoard} onOpenChange={setShowEditBoard} board={board} />
+      <BoardMembersDialog open={showMembers} onOpenChange={setShowMembers} board={board} />
 
       {/* Column delete confirmation */}
       <AlertDialog
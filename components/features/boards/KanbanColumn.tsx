@@ -19,6 +19,7 @@ interface KanbanColumnProps {
   onViewTask: (taskId: string) => void;
   onEditColumn: () => void;
   onDeleteColumn: () => void;
+  readOnly?: boolean;
 }
 
 export function KanbanColumn({
@@ -27,6 +28,7 @@ export function KanbanColumn({
   onViewTask,
   onEditColumn,
   onDeleteColumn,
+  readOnly = false,
 }: KanbanColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: column.id,
@@ -45,39 +47,41 @@ export function KanbanColumn({
             {column.tasks.length}
           </span>
         </div>
-        <div className="flex items-center gap-1">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7"
-            onClick={onAddTask}
-            aria-label={`Add task to ${column.name}`}
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-7 w-7"
-                aria-label={`Column options for ${column.name}`}
-              >
-                <MoreHorizontal className="h-4 w-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={onEditColumn}>
-                <Pencil className="mr-2 h-4 w-4" />
-                Rename
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={onDeleteColumn} className="text-destructive">
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        </div>
+        {!readOnly && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onAddTask}
+              aria-label={`Add task to ${column.name}`}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Column options for ${column.name}`}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={onEditColumn}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onDeleteColumn} className="text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
       </div>
 
       {/* Task list */}
@@ -90,11 +94,16 @@ export function KanbanColumn({
       >
         <SortableContext items={taskIds} strategy={verticalListSortingStrategy}>
           {column.tasks.map((task) => (
-            <TaskCard key={task.id} task={task} onClick={() => onViewTask(task.id)} />
+            <TaskCard
+              key={task.id}
+              task={task}
+              onClick={() => onViewTask(task.id)}
+              readOnly={readOnly}
+            />
           ))}
         </SortableContext>
 
-        {column.tasks.length === 0 && (
+        {column.tasks.length === 0 && !readOnly && (
           <button
             onClick={onAddTask}
             className="text-muted-foreground hover:text-foreground hover:border-foreground/20 flex w-full items-center justify-center rounded-lg border border-dashed py-8 text-sm transition-colors"
@@ -2,13 +2,15 @@
 
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical, User as UserIcon, Calendar, Flag } from "lucide-react";
+import { GripVertical, User as UserIcon, Calendar, Clock3, Flag, Repeat } from "lucide-react";
 import type { BoardTask } from "@/types";
-import { cn } from "@/lib/utils";
+import { cn, formatDuration } from "@/lib/utils";
+import { describeRecurrence, parseRecurrenceRule } from "@/lib/recurrence";
 
 interface TaskCardProps {
   task: BoardTask;
   onClick: () => void;
+  readOnly?: boolean;
 }
 
 const priorityColors: Record<string, string> = {
@@ -18,10 +20,38 @@ const priorityColors: Record<string, string> = {
   URGENT: "text-rose-500 bg-rose-500/10 dark:text-rose-400 dark:bg-rose-400/10 font-bold",
 };
 
-export function TaskCard({ task, onClick }: TaskCardProps) {
+function RecurrenceBadge({ recurrence }: { recurrence: string }) {
+  const rule = parseRecurrenceRule(recurrence);
+  if (!rule) return null;
+  const description = describeRecurrence(rule);
+  return (
+    <div
+      className="text-muted-foreground bg-muted/50 flex items-center rounded-sm px-1.5 py-0.5"
+      title={description}
+      aria-label={`Repeats: ${description}`}
+    >
+      <Repeat className="h-3 w-3" />
+    </div>
+  );
+}
+
+function TrackedTimeBadge({ seconds }: { seconds: number }) {
+  return (
+    <div
+      className="text-muted-foreground bg-muted/50 flex items-center gap-1 rounded-sm px-1.5 py-0.5 text-[11px] font-medium"
+      title="Time tracked"
+    >
+      <Clock3 className="h-3 w-3" />
+      {formatDuration(seconds)}
+    </div>
+  );
+}
+
+export function TaskCard({ task, onClick, readOnly = false }: TaskCardProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: task.id,
     data: { type: "task", task },
+    disabled: readOnly,
   });
 
   const style = {
@@ -46,14 +76,16 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
       )}
     >
       <div className="flex w-full items-start gap-2">
-        <button
-          className="text-muted-foreground hover:text-foreground mt-0.5 shrink-0 cursor-grab touch-none opacity-0 transition-opacity group-hover:opacity-100 active:cursor-grabbing"
-          aria-label="Drag to reorder"
-          {...attributes}
-          {...listeners}
-        >
-          <GripVertical className="h-4 w-4" />
-        </button>
+        {!readOnly && (
+          <button
+            className="text-muted-foreground hover:text-foreground mt-0.5 shrink-0 cursor-grab touch-none opacity-0 transition-opacity group-hover:opacity-100 active:cursor-grabbing"
+            aria-label="Drag to reorder"
+            {...attributes}
+            {...listeners}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        )}
 
         <button
           className="-ml-2 min-w-0 flex-1 text-left transition-all duration-200 group-hover:ml-0"
@@ -95,6 +127,9 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
               })}
             </div>
           )}
+
+          {task.recurrence && <RecurrenceBadge recurrence={task.recurrence} />}
+          {!!task.trackedSeconds && <TrackedTimeBadge seconds={task.trackedSeconds} />}
         </div>
 
         {task.assignee ? (
@@ -165,6 +200,9 @@ export function TaskCardOverlay({ task }: { task: BoardTask }) {
               })}
             </div>
           )}
+
+          {task.recurrence && <RecurrenceBadge recurrence={task.recurrence} />}
+          {!!task.trackedSeconds && <TrackedTimeBadge seconds={task.trackedSeconds} />}
         </div>
 
         {task.assignee ? (
@@ -16,10 +16,12 @@ import { Button } from "@/components/ui/button";
 import { useUpdateTaskMutation, useDeleteTaskMutation } from "@/hooks/useBoardQuery";
 import { UserAssignment } from "./UserAssignment";
 import { TaskDescription } from "./TaskDescription";
+import { TaskTimeTracking } from "./TaskTimeTracking";
 import { toast } from "sonner";
-import { Trash2, X, Calendar as CalendarIcon, Flag, ExternalLink } from "lucide-react";
+import { Trash2, X, Calendar as CalendarIcon, Flag, ExternalLink, Repeat } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { describeRecurrence, isValidRecurrenceRule, parseRecurrenceRule } from "@/lib/recurrence";
 import {
   Select,
   SelectContent,
@@ -45,6 +47,7 @@ type EditingField =
   | "startDate"
   | "dueDate"
   | "priority"
+  | "recurrence"
   | null;
 
 interface Draft {
@@ -54,6 +57,19 @@ interface Draft {
   startDate: Date | null;
   dueDate: Date | null;
   priority: "LOW" | "MEDIUM" | "HIGH" | "URGENT" | null;
+  recurrence: string | null;
+}
+
+const RECURRENCE_PRESETS: Record<string, string> = {
+  DAILY: "FREQ=DAILY",
+  WEEKLY: "FREQ=WEEKLY",
+  MONTHLY: "FREQ=MONTHLY",
+};
+
+function recurrencePreset(rule: string | null): string {
+  if (!rule) return "NONE";
+  const match = Object.entries(RECURRENCE_PRESETS).find(([, value]) => value === rule);
+  return match ? match[0] : "CUSTOM";
 }
 
 interface TaskDetailContentProps {
@@ -61,6 +77,7 @@ interface TaskDetailContentProps {
   task: BoardTask;
   onClose?: () => void;
   isSheet?: boolean;
+  readOnly?: boolean; // Board viewers can look but not edit
 }
 
 export function TaskDetailContent({
@@ -68,6 +85,7 @@ export function TaskDetailContent({
   task,
   onClose,
   isSheet = false,
+  readOnly = false,
 }: TaskDetailContentProps) {
   const router = useRouter();
   const [editingField, setEditingField] = useState<EditingField>(null);
@@ -78,8 +96,10 @@ export function TaskDetailContent({
     startDate: task.startDate ? new Date(task.startDate) : null,
     dueDate: task.dueDate ? new Date(task.dueDate) : null,
     priority: (task.priority as Draft["priority"]) ?? "MEDIUM",
+    recurrence: task.recurrence ?? null,
   });
   const [titleError, setTitleError] = useState<string | null>(null);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const titleInputRef = useRef<HTMLInputElement>(null);
@@ -95,9 +115,11 @@ export function TaskDetailContent({
       startDate: task.startDate ? new Date(task.startDate) : null,
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
       priority: (task.priority as Draft["priority"]) ?? "MEDIUM",
+      recurrence: task.recurrence ?? null,
     });
     setEditingField(null);
     setTitleError(null);
+    setRecurrenceError(null);
   }, [task]);
 
   useEffect(() => {
@@ -144,12 +166,23 @@ export function TaskDetailContent({
             : draft.priority
           : (task.priority ?? "MEDIUM")
       ) as "LOW" | "MEDIUM" | "HIGH" | "URGENT" | null;
+      const recurrence =
+        field === "recurrence"
+          ? overrideDraft?.recurrence !== undefined
+            ? overrideDraft.recurrence
+            : draft.recurrence?.trim() || null
+          : (task.recurrence ?? null);
 
       if (field === "title" && !title) {
         setTitleError("Title is required");
         return;
       }
 
+      if (field === "recurrence" && recurrence && !isValidRecurrenceRule(recurrence)) {
+        setRecurrenceError("Use e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH");
+        return;
+      }
+
       try {
         await updateMutation.mutateAsync({
           taskId: task.id,
@@ -160,12 +193,14 @@ export function TaskDetailContent({
             startDate,
             dueDate,
             priority,
+            recurrence,
           },
         });
         if (field !== "description") {
           setEditingField(null);
         }
         setTitleError(null);
+        setRecurrenceError(null);
       } catch (err) {
         toast.error(err instanceof Error ? err.message : "Failed to update");
       }
@@ -182,9 +217,11 @@ export function TaskDetailContent({
       startDate: task.startDate ? new Date(task.startDate) : null,
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
       priority: (task.priority as Draft["priority"]) ?? "MEDIUM",
+      recurrence: task.recurrence ?? null,
     });
     setEditingField(null);
     setTitleError(null);
+    setRecurrenceError(null);
   }, [task]);
 
   const handleDelete = async () => {
@@ -209,6 +246,23 @@ export function TaskDetailContent({
     saveField("priority", { priority: p });
   };
 
+  const setRecurrence = (val: string) => {
+    if (val === "CUSTOM") {
+      setDraft((d) => ({ ...d, recurrence: d.recurrence ?? "FREQ=WEEKLY;INTERVAL=2" }));
+      setEditingField("recurrence");
+      return;
+    }
+    const rule = val === "NONE" ? null : RECURRENCE_PRESETS[val];
+    setDraft((d) => ({ ...d, recurrence: rule }));
+    saveField("recurrence", { recurrence: rule });
+  };
+
+  const startEdit = (field: Exclude<EditingField, null>) => {
+    if (!readOnly) setEditingField(field);
+  };
+
+  const parsedRecurrence = task.recurrence ? parseRecurrenceRule(task.recurrence) : null;
+
   return (
     <>
       <div
@@ -234,14 +288,16 @@ export function TaskDetailContent({
             )}
           </div>
           <div className="flex items-center gap-1">
-            <Button
-              variant="ghost"
-              size="icon"
-              className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 rounded-full"
-              onClick={() => setShowDeleteConfirm(true)}
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 rounded-full"
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
             {onClose && (
               <Button
                 variant="ghost"
@@ -293,7 +349,7 @@ export function TaskDetailContent({
                   "hover:bg-muted/50 hover:border-border/50 -ml-2 cursor-pointer rounded-lg border border-transparent p-2 font-extrabold tracking-tight break-words transition-colors",
                   isSheet ? "text-3xl" : "text-4xl md:text-5xl"
                 )}
-                onClick={() => setEditingField("title")}
+                onClick={() => startEdit("title")}
               >
                 {task.title}
               </h1>
@@ -309,6 +365,7 @@ export function TaskDetailContent({
                 {editingField === "assignee" ? (
                   <div className="bg-background flex items-center gap-2 rounded-md border p-1 shadow-sm">
                     <UserAssignment
+                      boardId={boardId}
                       value={draft.assigneeId}
                       onSelect={(id) => {
                         setDraft((d) => ({ ...d, assigneeId: id }));
@@ -323,7 +380,7 @@ export function TaskDetailContent({
                 ) : (
                   <div
                     className="hover:bg-muted/80 -ml-1.5 flex cursor-pointer items-center gap-2 rounded-md p-1.5 transition-colors"
-                    onClick={() => setEditingField("assignee")}
+                    onClick={() => startEdit("assignee")}
                   >
                     {task.assignee ? (
                       <>
@@ -348,7 +405,11 @@ export function TaskDetailContent({
                 <Flag className="h-3.5 w-3.5" /> Priority
               </span>
               <div className="flex-1">
-                <Select value={draft.priority ?? "MEDIUM"} onValueChange={setPriority}>
+                <Select
+                  value={draft.priority ?? "MEDIUM"}
+                  onValueChange={setPriority}
+                  disabled={readOnly}
+                >
                   <SelectTrigger className="hover:border-border hover:bg-muted/80 -ml-2 h-8 border-transparent bg-transparent px-2 shadow-none transition-colors focus:ring-1 focus:ring-indigo-500">
                     <SelectValue placeholder="Select priority" />
                   </SelectTrigger>
@@ -378,6 +439,7 @@ export function TaskDetailContent({
               <div className="flex flex-1 items-center">
                 <input
                   type="date"
+                  disabled={readOnly}
                   className="hover:border-border hover:bg-muted/80 text-foreground -ml-1.5 cursor-pointer rounded-md border border-transparent bg-transparent p-1.5 text-sm font-medium transition-colors outline-none focus:ring-1 focus:ring-indigo-500"
                   value={
                     draft.dueDate
@@ -408,6 +470,7 @@ export function TaskDetailContent({
               <div className="flex flex-1 items-center">
                 <input
                   type="date"
+                  disabled={readOnly}
                   className="hover:border-border hover:bg-muted/80 text-foreground -ml-1.5 cursor-pointer rounded-md border border-transparent bg-transparent p-1.5 text-sm font-medium transition-colors outline-none focus:ring-1 focus:ring-indigo-500"
                   value={
                     draft.startDate
@@ -429,6 +492,83 @@ export function TaskDetailContent({
                 />
               </div>
             </div>
+
+            {/* Repeat */}
+            <div className="flex items-start gap-3 md:col-span-2">
+              <span className="text-muted-foreground flex h-8 w-24 items-center gap-1.5 text-sm font-medium">
+                <Repeat className="h-3.5 w-3.5" /> Repeat
+              </span>
+              <div className="flex flex-1 flex-col gap-1">
+                <Select
+                  value={
+                    editingField === "recurrence" ? "CUSTOM" : recurrencePreset(draft.recurrence)
+                  }
+                  onValueChange={setRecurrence}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger className="hover:border-border hover:bg-muted/80 -ml-2 h-8 w-fit border-transparent bg-transparent px-2 shadow-none transition-colors focus:ring-1 focus:ring-indigo-500">
+                    <SelectValue placeholder="Does not repeat" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">Does not repeat</SelectItem>
+                    <SelectItem value="DAILY">Daily</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                    <SelectItem value="CUSTOM">Custom…</SelectItem>
+                  </SelectContent>
+                </Select>
+                {editingField === "recurrence" ? (
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        autoFocus
+                        aria-label="Custom recurrence rule"
+                        value={draft.recurrence ?? ""}
+                        onChange={(e) => {
+                          setDraft((d) => ({ ...d, recurrence: e.target.value }));
+                          setRecurrenceError(null);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") saveField("recurrence");
+                          if (e.key === "Escape") cancelEdit();
+                        }}
+                        placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                        className={cn(
+                          "bg-background/50 flex-1 rounded-md border border-indigo-500/30 px-2 py-1 font-mono text-xs outline-none focus:ring-1 focus:ring-indigo-500",
+                          recurrenceError && "border-destructive focus:ring-destructive"
+                        )}
+                      />
+                      <Button
+                        size="sm"
+                        className="h-7 px-3"
+                        onClick={() => saveField("recurrence")}
+                      >
+                        Save
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={cancelEdit}>
+                        Cancel
+                      </Button>
+                    </div>
+                    {recurrenceError && (
+                      <p className="text-destructive text-xs">{recurrenceError}</p>
+                    )}
+                  </div>
+                ) : (
+                  parsedRecurrence && (
+                    <p className="text-muted-foreground text-xs">
+                      {describeRecurrence(parsedRecurrence)} — the next task is created when this
+                      one reaches the last column
+                    </p>
+                  )
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Time tracking */}
+          <div className="bg-muted/30 border-border/50 rounded-xl border p-5 shadow-sm">
+            <TaskTimeTracking boardId={boardId} taskId={task.id} />
           </div>
 
           <Separator className="bg-border/50 mt-4" />
@@ -451,14 +591,16 @@ export function TaskDetailContent({
                   </Button>
                 </div>
               ) : (
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => setEditingField("description")}
-                  className="border-border/80 rounded-full text-xs font-semibold shadow-sm"
-                >
-                  Edit Description
-                </Button>
+                !readOnly && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startEdit("description")}
+                    className="border-border/80 rounded-full text-xs font-semibold shadow-sm"
+                  >
+                    Edit Description
+                  </Button>
+                )
               )}
             </div>
 
@@ -487,7 +629,7 @@ export function TaskDetailContent({
                   "bg-muted/20 flex-1 cursor-text rounded-xl border border-transparent p-6 text-sm transition-all",
                   "hover:bg-muted/30 hover:border-border/60 hover:shadow-sm"
                 )}
-                onClick={() => setEditingField("description")}
+                onClick={() => startEdit("description")}
               >
                 {task.description ? (
                   <div data-color-mode="auto" className="wmde-markdown-var">
@@ -9,9 +9,16 @@ interface TaskDetailSheetProps {
   onOpenChange: (open: boolean) => void;
   boardId: string;
   task: BoardTask | null;
+  readOnly?: boolean;
 }
 
-export function TaskDetailSheet({ open, onOpenChange, boardId, task }: TaskDetailSheetProps) {
+export function TaskDetailSheet({
+  open,
+  onOpenChange,
+  boardId,
+  task,
+  readOnly = false,
+}: TaskDetailSheetProps) {
   if (!task) return null;
 
   return (
@@ -26,6 +33,7 @@ export function TaskDetailSheet({ open, onOpenChange, boardId, task }: TaskDetai
           boardId={boardId}
           onClose={() => onOpenChange(false)}
           isSheet={true}
+          readOnly={readOnly}
         />
       </SheetContent>
     </Sheet>
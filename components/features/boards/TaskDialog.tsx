@@ -187,6 +187,7 @@ export function TaskDialog({ open, onOpenChange, boardId, columnId, task }: Task
                 name="assigneeId"
                 render={({ field }) => (
                   <UserAssignment
+                    boardId={boardId}
                     value={field.value}
                     onSelect={field.onChange}
                     assignee={task?.assignee}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Clock3, Loader2, PlayCircle, StopCircle } from "lucide-react";
+import { getTrackers } from "@/app/actions/trackers";
+import { trackerKeys } from "@/hooks/queries/trackerQueries";
+import {
+  useTaskTimeQuery,
+  useStartTaskTimerMutation,
+  useStopTaskTimerMutation,
+} from "@/hooks/useBoardQuery";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatDuration } from "@/lib/utils";
+import { activeSeconds, isTimerPaused } from "@/lib/trackers/timer";
+import { TrackerStatus, TrackerType } from "@/types";
+
+interface TaskTimeTrackingProps {
+  boardId: string;
+  taskId: string;
+}
+
+const TIMER_FILTERS = { type: TrackerType.TIMER, limit: 100 };
+
+export function TaskTimeTracking({ boardId, taskId }: TaskTimeTrackingProps) {
+  const [trackerId, setTrackerId] = useState<string>("");
+  const [elapsed, setElapsed] = useState(0);
+
+  const { data: timeData, isLoading } = useTaskTimeQuery(taskId);
+  const startTimer = useStartTaskTimerMutation(boardId, taskId);
+  const stopTimer = useStopTaskTimerMutation(boardId, taskId);
+
+  const { data: trackers = [] } = useQuery({
+    queryKey: trackerKeys.list(TIMER_FILTERS),
+    queryFn: async () => {
+      const res = await getTrackers(TIMER_FILTERS);
+      if (!res.success) throw new Error(res.error);
+      return res.data.trackers;
+    },
+  });
+
+  const timerTrackers = trackers.filter((t) => t.status !== TrackerStatus.ARCHIVED);
+  const running = timeData?.runningEntry ?? null;
+  const paused = running ? isTimerPaused(running) : false;
+
+  // Tick the live display while a linked timer is running (breaks excluded)
+  useEffect(() => {
+    if (!running) {
+      setElapsed(0);
+      return;
+    }
+    const tick = () => setElapsed(activeSeconds(running.startTime, new Date(), running.breaks));
+    tick();
+    if (paused) return;
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [running, paused]);
+
+  const handleStart = () => {
+    if (!trackerId) return;
+    startTimer.mutate(trackerId, {
+      onSuccess: () => toast.success("Timer started"),
+      onError: (err) => toast.error(err.message || "Failed to start timer"),
+    });
+  };
+
+  const handleStop = () => {
+    if (!running) return;
+    stopTimer.mutate(
+      { entryId: running.id, trackerId: running.trackerId },
+      {
+        onSuccess: (data) => toast.success(`Logged ${formatDuration(data.duration)}`),
+        onError: (err) => toast.error(err.message || "Failed to stop timer"),
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-semibold">
+          <Clock3 className="h-4 w-4" /> Time tracked
+        </h3>
+        <span className="text-sm font-medium tabular-nums">
+          {isLoading ? "…" : formatDuration(timeData?.totalSeconds ?? 0)}
+          {timeData && timeData.entryCount > 0 && (
+            <span className="text-muted-foreground ml-1 text-xs">
+              ({timeData.entryCount} {timeData.entryCount === 1 ? "session" : "sessions"})
+            </span>
+          )}
+        </span>
+      </div>
+
+      {running ? (
+        <div className="flex items-center gap-3 rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-3">
+          <span
+            className={`h-2 w-2 rounded-full ${paused ? "bg-amber-500" : "animate-pulse bg-emerald-500"}`}
+          />
+          <div className="flex-1 text-sm">
+            <span className="font-mono font-semibold tabular-nums">{formatDuration(elapsed)}</span>
+            {paused && <span className="text-muted-foreground"> (paused)</span>}
+            <span className="text-muted-foreground"> on </span>
+            <Link href={`/trackers/${running.trackerId}`} className="font-medium hover:underline">
+              {running.trackerName}
+            </Link>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleStop} disabled={stopTimer.isPending}>
+            {stopTimer.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <StopCircle className="h-4 w-4" />
+            )}
+            Stop
+          </Button>
+        </div>
+      ) : timerTrackers.length === 0 ? (
+        <p className="text-muted-foreground text-xs">
+          Create a timer tracker to log time against this task.
+        </p>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Select value={trackerId} onValueChange={setTrackerId}>
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue placeholder="Choose a timer tracker" />
+            </SelectTrigger>
+            <SelectContent>
+              {timerTrackers.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={handleStart}
+            disabled={!trackerId || startTimer.isPending}
+            className="bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            {startTimer.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <PlayCircle className="h-4 w-4" />
+            )}
+            Start
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,15 +9,17 @@ import type { User } from "@/types";
 type UserSummary = Pick<User, "id" | "name" | "email" | "image">;
 
 interface UserAssignmentProps {
+  /** Only the board's owner and members can be assigned */
+  boardId: string;
   value: string | null | undefined;
   onSelect: (userId: string | null) => void;
   assignee?: UserSummary | null;
 }
 
-export function UserAssignment({ value, onSelect, assignee }: UserAssignmentProps) {
+export function UserAssignment({ boardId, value, onSelect, assignee }: UserAssignmentProps) {
   const [query, setQuery] = useState("");
   const [open, setOpen] = useState(false);
-  const { data: users } = useUserSearch(query);
+  const { data: users } = useUserSearch(boardId, query);
 
   const displayName = assignee?.name ?? assignee?.email ?? null;
 
@@ -45,7 +47,7 @@ export function UserAssignment({ value, onSelect, assignee }: UserAssignmentProp
         <div className="relative">
           <UserIcon className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
           <Input
-            placeholder="Search users to assign..."
+            placeholder="Search board members to assign..."
             value={query}
             onChange={(e) => {
               setQuery(e.target.value);
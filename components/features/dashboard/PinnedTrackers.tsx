@@ -3,10 +3,10 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getTrackers, TrackerWithEntriesCount } from "@/app/actions/trackers";
 import { BadgeDollarSign, CalendarRange, Clock3, Hash, Pin, Plus, RefreshCw } from "lucide-react";
 import TrackerCard from "@/components/features/trackers/TrackerCard";
-import { useEffect, useState, useCallback } from "react";
+import { useEffect } from "react";
+import { useTrackersQuery } from "@/hooks/useTrackerQuery";
 import { TrackerStatus } from "@/types";
 import {
   DropdownMenu,
@@ -15,39 +15,20 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-export default function PinnedTrackers() {
-  const [pinnedTrackers, setPinnedTrackers] = useState<TrackerWithEntriesCount[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+const PINNED_FILTERS = { pinned: true, limit: 100 };
 
-  const fetchPinnedTrackers = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const response = await getTrackers({ pinned: true, limit: 100 });
-      if (response.success) {
-        // Exclude archived trackers
-        const active = response.data.trackers.filter((t) => t.status !== TrackerStatus.ARCHIVED);
-        setPinnedTrackers(active);
-      } else {
-        setPinnedTrackers([]);
-      }
-    } catch (error) {
-      console.error("Failed to fetch pinned trackers:", error);
-      setPinnedTrackers([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+export default function PinnedTrackers() {
+  const { data: trackers = [], isLoading, isFetching, refetch } = useTrackersQuery(PINNED_FILTERS);
 
-  useEffect(() => {
-    fetchPinnedTrackers();
-  }, [fetchPinnedTrackers]);
+  // Exclude archived trackers
+  const pinnedTrackers = trackers.filter((t) => t.status !== TrackerStatus.ARCHIVED);
 
   // Re-fetch when any TrackerCard signals a pin change
   useEffect(() => {
-    const handler = () => fetchPinnedTrackers();
+    const handler = () => void refetch();
     window.addEventListener("pinned-trackers-changed", handler);
     return () => window.removeEventListener("pinned-trackers-changed", handler);
-  }, [fetchPinnedTrackers]);
+  }, [refetch]);
 
   return (
     <section className="space-y-4">
@@ -61,12 +42,12 @@ export default function PinnedTrackers() {
           <Button
             variant="ghost"
             size="icon"
-            onClick={fetchPinnedTrackers}
-            disabled={isLoading}
+            onClick={() => refetch()}
+            disabled={isFetching}
             aria-label="Refresh pinned trackers"
             className="h-8 w-8"
           >
-            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
           </Button>
         </div>
       </div>
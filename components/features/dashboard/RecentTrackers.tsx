@@ -3,10 +3,10 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getTrackers, TrackerWithEntriesCount } from "@/app/actions/trackers";
 import { RefreshCw } from "lucide-react";
 import TrackerCard from "@/components/features/trackers/TrackerCard";
-import { useEffect, useState, useCallback } from "react";
+import { useMemo, useState } from "react";
+import { useTrackersQuery } from "@/hooks/useTrackerQuery";
 import {
   Select,
   SelectContent,
@@ -19,67 +19,44 @@ import { Label } from "@/components/ui/label";
 const LIMIT_OPTIONS = [5, 10, 15, 25];
 
 export default function RecentTrackers() {
-  const [displayTrackers, setDisplayTrackers] = useState<TrackerWithEntriesCount[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [limit, setLimit] = useState<number>(LIMIT_OPTIONS[0]); // Default limit
+  const { data: allTrackers, isLoading, isFetching, refetch } = useTrackersQuery();
 
-  const fetchAndProcessTrackers = useCallback(async (currentLimit: number) => {
-    setIsLoading(true);
-    try {
-      // Fetch all trackers initially (consider optimizing if performance becomes an issue)
-      const response = await getTrackers();
-      const allTrackers = response.success
-        ? (response.data.trackers as TrackerWithEntriesCount[])
-        : [];
+  const displayTrackers = useMemo(() => {
+    // Process trackers to include only the active ones and not archived
+    const activeTrackers = (allTrackers ?? []).filter((tracker) => tracker.status !== "ARCHIVED");
 
-      // Process trackers to include only the active ones and not archived
-      const activeTrackers = allTrackers.filter((tracker) => tracker.status !== "ARCHIVED");
+    // Get the most recently updated trackers (based on updatedAt)
+    const recentTrackers = [...activeTrackers]
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+      .slice(0, limit);
 
-      // Get the most recently updated trackers (based on updatedAt)
-      const recentTrackers = [...activeTrackers]
-        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-        .slice(0, currentLimit); // Use currentLimit for slicing
+    // Get the most frequently used trackers (based on entry count)
+    const frequentTrackers = [...activeTrackers]
+      .sort((a, b) => b.entriesCount - a.entriesCount)
+      .slice(0, limit);
 
-      // Get the most frequently used trackers (based on entry count)
-      const frequentTrackers = [...activeTrackers]
-        .sort((a, b) => b.entriesCount - a.entriesCount)
-        .slice(0, currentLimit); // Use currentLimit for slicing
-
-      // Combine and deduplicate (prioritizing recently used)
-      const combinedTrackers = [...recentTrackers];
-      for (const tracker of frequentTrackers) {
-        // Add only if not already present and we haven't reached the limit
-        if (
-          !combinedTrackers.some((t) => t.id === tracker.id) &&
-          combinedTrackers.length < currentLimit
-        ) {
-          combinedTrackers.push(tracker);
-        }
+    // Combine and deduplicate (prioritizing recently used)
+    const combinedTrackers = [...recentTrackers];
+    for (const tracker of frequentTrackers) {
+      // Add only if not already present and we haven't reached the limit
+      if (!combinedTrackers.some((t) => t.id === tracker.id) && combinedTrackers.length < limit) {
+        combinedTrackers.push(tracker);
       }
-
-      // Ensure the final list respects the limit
-      setDisplayTrackers(combinedTrackers.slice(0, currentLimit));
-    } catch (error) {
-      console.error("Failed to fetch trackers:", error);
-      setDisplayTrackers([]);
-    } finally {
-      setIsLoading(false);
     }
-  }, []); // Removed limit from dependencies here, pass it directly
 
-  useEffect(() => {
-    fetchAndProcessTrackers(limit);
-  }, [fetchAndProcessTrackers, limit]); // Add limit as a dependency
+    // Ensure the final list respects the limit
+    return combinedTrackers.slice(0, limit);
+  }, [allTrackers, limit]);
 
   const handleRefresh = () => {
-    fetchAndProcessTrackers(limit);
+    void refetch();
   };
 
   const handleLimitChange = (value: string) => {
     const newLimit = parseInt(value, 10);
     if (!isNaN(newLimit) && LIMIT_OPTIONS.includes(newLimit)) {
       setLimit(newLimit);
-      // Fetching is handled by the useEffect hook reacting to limit change
     }
   };
 
@@ -95,11 +72,11 @@ export default function RecentTrackers() {
             variant="ghost"
             size="icon"
             onClick={handleRefresh}
-            disabled={isLoading}
+            disabled={isFetching}
             aria-label="Refresh recent trackers"
             className="h-8 w-8" // Match height with select trigger
           >
-            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
           </Button>
           <Select value={limit.toString()} onValueChange={handleLimitChange} disabled={isLoading}>
             <SelectTrigger id="recent-limit" className="h-8 w-[70px]">
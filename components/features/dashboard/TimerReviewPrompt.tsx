@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { AlarmClockOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useResolveTimerReview, useTimersNeedingReview } from "@/hooks/useTrackerQuery";
+import { formatDuration } from "@/lib/utils";
+import type { TimerReviewItem, TimerReviewResolution } from "@/app/actions/entries";
+
+/** "YYYY-MM-DDTHH:mm" in local time, for a datetime-local input */
+function toDatetimeLocal(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Dashboard prompt for timers that ran past the user's max timer length:
+ * still running (probably forgotten) or stopped and flagged for review.
+ */
+export default function TimerReviewPrompt() {
+  const { data: items = [] } = useTimersNeedingReview();
+
+  if (items.length === 0) return null;
+
+  return (
+    <section className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950/30">
+      <div className="flex items-center gap-2">
+        <AlarmClockOff className="h-5 w-5 text-amber-600" />
+        <h2 className="font-semibold">
+          {items.length === 1 ? "A timer needs a look" : `${items.length} timers need a look`}
+        </h2>
+      </div>
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <TimerReviewRow key={item.id} item={item} />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function TimerReviewRow({ item }: { item: TimerReviewItem }) {
+  const resolve = useResolveTimerReview();
+  const [editing, setEditing] = useState(false);
+  const [endTime, setEndTime] = useState(() =>
+    toDatetimeLocal(item.endTime ? new Date(item.endTime) : new Date())
+  );
+
+  const running = item.endTime === null;
+
+  const submit = (resolution: TimerReviewResolution) =>
+    resolve.mutate(
+      { item, resolution },
+      {
+        onSuccess: (data) => toast.success(`Logged ${formatDuration(data.duration)}`),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+
+  return (
+    <li className="bg-background border-border space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <Link href={`/trackers/${item.trackerId}`} className="font-medium hover:underline">
+            {item.trackerName}
+          </Link>
+          <span className="text-foreground/70">
+            {" "}
+            {running ? "has been running for" : "recorded"} {formatDuration(item.duration)}
+            {item.limitHours !== null && ` (limit ${item.limitHours}h)`}
+          </span>
+          <div className="text-foreground/60 text-xs">
+            Started {new Date(item.startTime).toLocaleString()}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {item.limitHours !== null && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={resolve.isPending}
+              onClick={() => submit({ action: "cap" })}
+            >
+              Cap at {item.limitHours}h
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={resolve.isPending}
+            onClick={() => setEditing((value) => !value)}
+          >
+            Set end time
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={resolve.isPending}
+            onClick={() => submit({ action: "keep" })}
+          >
+            {running ? "Stop now" : "Keep"}
+          </Button>
+        </div>
+      </div>
+      {editing && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={endTime}
+            min={toDatetimeLocal(new Date(item.startTime))}
+            max={toDatetimeLocal(new Date())}
+            onChange={(e) => setEndTime(e.target.value)}
+            className="w-56"
+          />
+          <Button
+            size="sm"
+            disabled={!endTime || resolve.isPending}
+            onClick={() => submit({ action: "end", endTime: new Date(endTime) })}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
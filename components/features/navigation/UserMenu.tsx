@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { logout } from "@/app/actions/auth";
+import { clearOfflineReadCache } from "@/lib/offline/queryCache";
+import { useOfflineQueue } from "@/lib/offlineQueue";
 
 interface UserMenuProps {
   user?: {
@@ -21,6 +23,19 @@ interface UserMenuProps {
   };
 }
 
+/**
+ * Wipe data kept for offline use before the session ends, including queued
+ * writes, so they are never replayed under the next user's session
+ */
+async function signOut() {
+  try {
+    await Promise.all([clearOfflineReadCache(), useOfflineQueue.getState().clearQueue()]);
+  } catch (error) {
+    console.error("Error clearing offline data:", error);
+  }
+  await logout();
+}
+
 function getInitials(name?: string | null, email?: string | null): string {
   if (name && name.length > 0) {
     return name.charAt(0).toUpperCase();
@@ -73,7 +88,7 @@ export default function UserMenu({ user: propUser }: UserMenuProps) {
         <DropdownMenuSeparator />
 
         <DropdownMenuItem asChild>
-          <form action={logout} className="w-full">
+          <form action={signOut} className="w-full">
             <button
               type="submit"
               className="text-destructive focus:text-destructive w-full text-left"
@@ -1,9 +1,12 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { WifiOff, CheckCircle, X, AlertTriangle } from "lucide-react";
 import { useOfflineStatus } from "@/hooks/useOfflineStatus";
 import { useOfflineQueue } from "@/lib/offlineQueue";
+import { OFFLINE_SYNCED_MESSAGE } from "@/lib/offline/operations";
+import { lastFetchedAt } from "@/lib/offline/queryCache";
 
 type BannerState = "offline" | "syncing" | "hidden";
 
@@ -11,12 +14,54 @@ const RETRY_DELAY_MS = 5_000;
 
 export default function OfflineIndicator() {
   const { isOnline } = useOfflineStatus();
-  const { queue, processQueue, isProcessing } = useOfflineQueue();
+  const queryClient = useQueryClient();
+  const { queue, hydrate, processQueue: runQueue, isProcessing } = useOfflineQueue();
   const [bannerState, setBannerState] = useState<BannerState>("hidden");
+  const [fetchedAt, setFetchedAt] = useState<Date | null>(null);
   const dismissTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const prevIsOnlineRef = useRef<boolean>(isOnline);
 
+  /** Replay the queue, then refetch whatever the synced changes touched. */
+  const processQueue = React.useCallback(async () => {
+    const synced = await runQueue();
+    if (synced > 0) void queryClient.invalidateQueries();
+  }, [runQueue, queryClient]);
+
+  // Load changes queued in earlier sessions and send them if we're online.
+  // The service worker may also sync the queue; reload it when it says so.
+  useEffect(() => {
+    let cancelled = false;
+    hydrate()
+      .then(() => {
+        if (cancelled || !navigator.onLine) return;
+        if (useOfflineQueue.getState().queue.some((op) => !op.permanentlyFailed)) {
+          setBannerState("syncing");
+          processQueue();
+        }
+      })
+      .catch((error) => console.error("Error loading offline queue:", error));
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== OFFLINE_SYNCED_MESSAGE) return;
+      void hydrate();
+      void queryClient.invalidateQueries();
+    };
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      cancelled = true;
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [hydrate, processQueue, queryClient]);
+
+  // While offline everything shown comes from the cache; track how old it is
+  useEffect(() => {
+    if (isOnline) return;
+    const update = () => setFetchedAt(lastFetchedAt(queryClient));
+    update();
+    return queryClient.getQueryCache().subscribe(update);
+  }, [isOnline, queryClient]);
+
   // Counts
   const pendingCount = queue.filter((op) => !op.permanentlyFailed).length;
   const failedCount = queue.filter((op) => op.permanentlyFailed).length;
@@ -124,6 +169,12 @@ export default function OfflineIndicator() {
       <WifiOff className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
       <div className="flex flex-1 flex-wrap items-center gap-x-3 gap-y-0.5 text-sm font-medium">
         <span>You&apos;re offline</span>
+        {fetchedAt && (
+          <span className="text-amber-600 dark:text-amber-400">
+            Showing saved data from{" "}
+            {fetchedAt.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+          </span>
+        )}
         {pendingCount > 0 && (
           <span className="text-amber-600 dark:text-amber-400">
             {pendingCount} {pendingCount === 1 ? "change" : "changes"} queued
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { persistQueryCache, restoreQueryCache } from "@/lib/offline/queryCache";
+
+/**
+ * Restore the signed-in user's saved query cache, then keep saving it, so
+ * data seen before is still there when the app opens offline.
+ */
+export default function QueryCachePersistence() {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    let stop: (() => void) | undefined;
+
+    // Restore first so saving can't overwrite the snapshot with an empty cache
+    restoreQueryCache(queryClient, userId)
+      .catch((error) => console.error("Error restoring query cache:", error))
+      .finally(() => {
+        if (!cancelled) stop = persistQueryCache(queryClient, userId);
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [queryClient, userId]);
+
+  return null;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useTransition } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -9,6 +10,15 @@ import { Copy, Plus, Trash2, Key, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -32,6 +42,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -52,17 +63,61 @@ import {
   type ApiTokenSummary,
   type GenerateTokenInput,
 } from "@/app/actions/api-tokens";
+import { getTrackers } from "@/app/actions/trackers";
+import { API_TOKEN_RESOURCES, type ApiTokenResource } from "@/types";
+
+const ACCESS_LEVELS = ["none", "read", "write", "all"] as const;
+
+type AccessLevel = (typeof ACCESS_LEVELS)[number];
+
+const ACCESS_LABELS: Record<AccessLevel, string> = {
+  none: "No access",
+  read: "Read",
+  write: "Write",
+  all: "Read & write",
+};
+
+const RESOURCE_LABELS: Record<ApiTokenResource, string> = {
+  trackers: "Trackers",
+  entries: "Entries",
+  boards: "Boards",
+};
+
+/** Turn per-resource access levels into stored scopes, e.g. entries:write or boards:* */
+function toScopes(access: Record<ApiTokenResource, AccessLevel>): string[] {
+  return API_TOKEN_RESOURCES.flatMap((resource) => {
+    const level = access[resource];
+    if (level === "none") return [];
+    return [`${resource}:${level === "all" ? "*" : level}`];
+  });
+}
 
-const generateTokenSchema = z.object({
-  name: z.string().min(1, "Token name is required").max(50, "Name cannot exceed 50 characters"),
-  expiresInDaysStr: z
-    .string()
-    .optional()
-    .refine(
-      (v) => !v || (!isNaN(parseInt(v, 10)) && parseInt(v, 10) >= 1 && parseInt(v, 10) <= 365),
-      { message: "Must be between 1 and 365" }
-    ),
-});
+const generateTokenSchema = z
+  .object({
+    name: z.string().min(1, "Token name is required").max(50, "Name cannot exceed 50 characters"),
+    expiresInDaysStr: z
+      .string()
+      .optional()
+      .refine(
+        (v) => !v || (!isNaN(parseInt(v, 10)) && parseInt(v, 10) >= 1 && parseInt(v, 10) <= 365),
+        { message: "Must be between 1 and 365" }
+      ),
+    access: z
+      .object({
+        trackers: z.enum(ACCESS_LEVELS),
+        entries: z.enum(ACCESS_LEVELS),
+        boards: z.enum(ACCESS_LEVELS),
+      })
+      .refine((access) => Object.values(access).some((level) => level !== "none"), {
+        message: "Grant access to at least one resource",
+      }),
+    restrictTrackers: z.boolean(),
+    trackerIds: z.array(z.string()),
+  })
+  .refine((values) => !values.restrictTrackers || values.trackerIds.length > 0, {
+    message: "Select at least one tracker",
+    path: ["trackerIds"],
+  });
 
 type GenerateFormValues = z.infer<typeof generateTokenSchema>;
 
@@ -91,7 +146,24 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
 
   const form = useForm<GenerateFormValues>({
     resolver: zodResolver(generateTokenSchema),
-    defaultValues: { name: "", expiresInDaysStr: "" },
+    defaultValues: {
+      name: "",
+      expiresInDaysStr: "",
+      access: { trackers: "read", entries: "all", boards: "none" },
+      restrictTrackers: false,
+      trackerIds: [],
+    },
+  });
+  const restrictTrackers = form.watch("restrictTrackers");
+
+  const { data: trackerOptions } = useQuery({
+    queryKey: ["trackers", "token-scope-list"],
+    queryFn: async () => {
+      const res = await getTrackers({ sort: "name", limit: 100 });
+      if (!res.success) throw new Error(res.error);
+      return res.data.trackers;
+    },
+    enabled: dialogOpen && restrictTrackers,
   });
 
   async function onGenerate(values: GenerateFormValues) {
@@ -103,6 +175,8 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
     const input: GenerateTokenInput = {
       name: values.name,
       expiresInDays,
+      scopes: toScopes(values.access),
+      trackerIds: values.restrictTrackers ? values.trackerIds : [],
     };
 
     const result = await generateApiToken(input);
@@ -229,6 +303,96 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="access"
+                    render={() => (
+                      <FormItem>
+                        <FormLabel>Access</FormLabel>
+                        <div className="space-y-2">
+                          {API_TOKEN_RESOURCES.map((resource) => (
+                            <FormField
+                              key={resource}
+                              control={form.control}
+                              name={`access.${resource}`}
+                              render={({ field }) => (
+                                <div className="flex items-center justify-between gap-4">
+                                  <span className="text-sm">{RESOURCE_LABELS[resource]}</span>
+                                  <Select value={field.value} onValueChange={field.onChange}>
+                                    <SelectTrigger
+                                      className="w-36"
+                                      aria-label={`${RESOURCE_LABELS[resource]} access`}
+                                    >
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {ACCESS_LEVELS.map((level) => (
+                                        <SelectItem key={level} value={level}>
+                                          {ACCESS_LABELS[level]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              )}
+                            />
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="restrictTrackers"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <div className="space-y-0.5">
+                          <FormLabel>Limit to specific trackers</FormLabel>
+                          <FormDescription>
+                            For devices that only need one tracker, such as an IoT button.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {restrictTrackers && (
+                    <FormField
+                      control={form.control}
+                      name="trackerIds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border p-3">
+                            {(trackerOptions ?? []).map((tracker) => (
+                              <label
+                                key={tracker.id}
+                                className="flex cursor-pointer items-center gap-2 text-sm"
+                              >
+                                <Checkbox
+                                  checked={field.value.includes(tracker.id)}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(
+                                      checked
+                                        ? [...field.value, tracker.id]
+                                        : field.value.filter((id) => id !== tracker.id)
+                                    )
+                                  }
+                                />
+                                <span className="truncate">{tracker.name}</span>
+                              </label>
+                            ))}
+                            {trackerOptions?.length === 0 && (
+                              <p className="text-muted-foreground text-sm">No trackers yet.</p>
+                            )}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <DialogFooter>
                     <Button
                       type="button"
@@ -262,6 +426,7 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
               <TableRow>
                 <TableHead>Name</TableHead>
                 <TableHead>Prefix</TableHead>
+                <TableHead>Access</TableHead>
                 <TableHead>Last Used</TableHead>
                 <TableHead>Expires</TableHead>
                 <TableHead className="sr-only">Actions</TableHead>
@@ -276,6 +441,25 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
                       {token.tokenPrefix}…
                     </code>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.length === 0 ? (
+                        <Badge variant="secondary">Full access</Badge>
+                      ) : (
+                        token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="text-xs">
+                            {scope}
+                          </Badge>
+                        ))
+                      )}
+                      {token.trackerIds.length > 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          {token.trackerIds.length}{" "}
+                          {token.trackerIds.length === 1 ? "tracker" : "trackers"}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell className="text-muted-foreground text-sm">
                     <span className="flex items-center gap-1">
                       <Clock className="h-3 w-3" aria-hidden="true" />
@@ -337,7 +521,18 @@ export default function ApiTokensSection({ initialTokens }: ApiTokensSectionProp
           Authorization: Bearer &lt;your-token&gt;
         </code>
         <p className="text-muted-foreground mt-2 text-xs">
-          Base URL: <code>/api/v1/trackers</code>
+          Requests outside a token&apos;s scopes or trackers get a <code>403</code> naming the
+          missing scope.
+        </p>
+        <p className="text-muted-foreground mt-2 text-xs">
+          Send an <code>Idempotency-Key</code> header with a <code>POST</code> to retry it safely:
+          repeats within 24 hours return the first response. Reads return an <code>ETag</code>; send
+          it back as <code>If-Match</code> on a <code>PUT</code> to get a <code>409</code> instead
+          of overwriting a newer change.
+        </p>
+        <p className="text-muted-foreground mt-2 text-xs">
+          Endpoints: <code>/api/v1/trackers</code>, <code>/api/v1/boards</code>,{" "}
+          <code>/api/v1/entries/bulk</code> (up to 1000 entries per request)
         </p>
       </div>
     </div>
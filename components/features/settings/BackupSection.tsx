@@ -0,0 +1,211 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Archive, Download, Loader2, Upload } from "lucide-react";
+import { exportBackup, restoreBackup } from "@/app/actions/backup";
+import type { RestoreMode, RestoreSummary } from "@/lib/backup";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function describeSummary(summary: RestoreSummary): string {
+  const parts = [
+    `${summary.trackers} trackers`,
+    `${summary.entries} entries`,
+    `${summary.boards} boards`,
+    `${summary.tasks} tasks`,
+  ];
+  const skipped = summary.skipped > 0 ? `, ${summary.skipped} already present` : "";
+  return `Restored ${parts.join(", ")}${skipped}`;
+}
+
+/**
+ * Full-account JSON backup download and restore (merge or replace).
+ */
+export default function BackupSection() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [lastSummary, setLastSummary] = useState<RestoreSummary | null>(null);
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      const res = await exportBackup();
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      downloadFile(res.data.json, res.data.filename, "application/json");
+      toast.success("Backup downloaded");
+    } catch {
+      toast.error("Failed to export backup");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  async function runRestore() {
+    if (!file) return;
+    setIsRestoring(true);
+    try {
+      const res = await restoreBackup(await file.text(), mode);
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      setLastSummary(res.data);
+      toast.success(describeSummary(res.data));
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      void queryClient.invalidateQueries();
+    } catch {
+      toast.error("Failed to restore backup");
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  function handleRestore() {
+    if (mode === "replace") {
+      setConfirmOpen(true);
+    } else {
+      void runRestore();
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base font-medium">
+          <Archive className="h-4 w-4" />
+          Full Backup
+        </CardTitle>
+        <CardDescription>
+          A single JSON file with all your trackers, entries, goals, boards and tasks. Use it to
+          move between self-hosted instances.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button onClick={handleExport} disabled={isExporting} size="sm">
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Download Backup
+        </Button>
+
+        <div className="border-border space-y-4 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="backup-file">Restore from backup</Label>
+            <input
+              id="backup-file"
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={isRestoring}
+              className="file:bg-muted file:text-foreground block w-full text-sm file:mr-3 file:rounded-md file:border-0 file:px-3 file:py-1.5 file:text-sm"
+            />
+          </div>
+
+          <RadioGroup
+            value={mode}
+            onValueChange={(value) => setMode(value as RestoreMode)}
+            disabled={isRestoring}
+          >
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+              <Label htmlFor="restore-merge" className="flex flex-col items-start gap-0.5">
+                <span>Merge</span>
+                <span className="text-muted-foreground text-xs font-normal">
+                  Keep existing data. Matching trackers and boards are filled in; duplicates are
+                  skipped.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+              <Label htmlFor="restore-replace" className="flex flex-col items-start gap-0.5">
+                <span>Replace</span>
+                <span className="text-muted-foreground text-xs font-normal">
+                  Delete all your trackers and boards, then restore the backup.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <Button
+            onClick={handleRestore}
+            disabled={!file || isRestoring}
+            size="sm"
+            variant={mode === "replace" ? "destructive" : "default"}
+          >
+            {isRestoring ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Restore
+          </Button>
+
+          {lastSummary && (
+            <p className="text-muted-foreground text-sm">{describeSummary(lastSummary)}.</p>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of your trackers, entries, boards and tasks will be deleted and replaced with the
+              contents of <strong>{file?.name}</strong>. Items shared with you are not affected.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => void runRestore()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import {
+  useExchangeRatesQuery,
+  useUpdateExchangeRatesMutation,
+} from "@/hooks/useExchangeRatesQuery";
+import { CURRENCY_CODES, type ExchangeRatesInput } from "@/lib/units";
+
+type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+export default function ExchangeRatesForm() {
+  const { data, isLoading } = useExchangeRatesQuery();
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-32 w-full rounded-md" />;
+  }
+  return <RatesForm initial={data} />;
+}
+
+function RatesForm({ initial }: { initial: ExchangeRatesInput }) {
+  const update = useUpdateExchangeRatesMutation();
+  const [base, setBase] = useState<CurrencyCode>(initial.base);
+  const [rows, setRows] = useState(() =>
+    initial.rates.map((r) => ({ currency: r.currency, rate: r.rate.toString() }))
+  );
+
+  const unused = CURRENCY_CODES.filter(
+    (code) => code !== base && !rows.some((r) => r.currency === code)
+  );
+
+  const handleSave = () => {
+    const rates = rows.map((r) => ({ currency: r.currency, rate: Number(r.rate) }));
+    if (rates.some((r) => !Number.isFinite(r.rate) || r.rate <= 0)) {
+      toast.error("Rates must be greater than 0");
+      return;
+    }
+
+    update.mutate(
+      { base, rates },
+      {
+        onSuccess: () => toast.success("Exchange rates saved"),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="base-currency" className="font-normal">
+          Base currency
+        </Label>
+        <NativeSelect
+          id="base-currency"
+          value={base}
+          onChange={(e) => {
+            const next = e.target.value as CurrencyCode;
+            setBase(next);
+            setRows((current) => current.filter((r) => r.currency !== next));
+          }}
+          className="w-32"
+        >
+          {CURRENCY_CODES.map((code) => (
+            <NativeSelectOption key={code} value={code}>
+              {code}
+            </NativeSelectOption>
+          ))}
+        </NativeSelect>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-muted-foreground flex-1 text-sm">1 {base} =</span>
+            <Input
+              aria-label={`${row.currency} per ${base}`}
+              type="number"
+              min={0}
+              step="any"
+              value={row.rate}
+              onChange={(e) =>
+                setRows((current) =>
+                  current.map((r, i) => (i === index ? { ...r, rate: e.target.value } : r))
+                )
+              }
+              className="w-32"
+            />
+            <NativeSelect
+              aria-label="Currency"
+              value={row.currency}
+              onChange={(e) =>
+                setRows((current) =>
+                  current.map((r, i) =>
+                    i === index ? { ...r, currency: e.target.value as CurrencyCode } : r
+                  )
+                )
+              }
+              className="w-24"
+            >
+              {[row.currency, ...unused].map((code) => (
+                <NativeSelectOption key={code} value={code}>
+                  {code}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${row.currency} rate`}
+              onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {unused.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRows((current) => [...current, { currency: unused[0]!, rate: "" }])}
+          >
+            <Plus className="h-4 w-4" />
+            Add rate
+          </Button>
+        )}
+      </div>
+
+      <Button onClick={handleSave} disabled={update.isPending}>
+        {update.isPending ? "Saving…" : "Save Rates"}
+      </Button>
+    </div>
+  );
+}
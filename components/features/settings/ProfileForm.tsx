@@ -10,13 +10,28 @@ import { Input } from "@/components/ui/input";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { updateUserProfile } from "@/app/actions/auth";
+import {
+  isValidTimeZone,
+  listTimeZones,
+  WEEK_START_OPTIONS,
+  type WeekStartDay,
+} from "@/lib/timezone";
 
 const profileSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name too long"),
@@ -25,6 +40,8 @@ const profileSchema = z.object({
     .url("Must be a valid URL")
     .optional()
     .or(z.literal("")),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  weekStartsOn: z.union([z.literal(0), z.literal(1)]),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
@@ -32,28 +49,51 @@ type ProfileFormValues = z.infer<typeof profileSchema>;
 interface ProfileFormProps {
   initialName: string;
   initialImage: string;
+  initialTimezone: string;
+  initialWeekStartsOn: WeekStartDay;
   email: string;
 }
 
-export default function ProfileForm({ initialName, initialImage, email }: ProfileFormProps) {
+export default function ProfileForm({
+  initialName,
+  initialImage,
+  initialTimezone,
+  initialWeekStartsOn,
+  email,
+}: ProfileFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [timeZones] = useState(() => {
+    const zones = listTimeZones();
+    return zones.includes(initialTimezone) ? zones : [initialTimezone, ...zones];
+  });
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       name: initialName,
       image: initialImage,
+      timezone: initialTimezone,
+      weekStartsOn: initialWeekStartsOn,
     },
   });
 
   const imageValue = form.watch("image");
 
+  const applyBrowserTimeZone = () => {
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (detected && isValidTimeZone(detected)) {
+      form.setValue("timezone", detected, { shouldDirty: true });
+    }
+  };
+
   const onSubmit = async (values: ProfileFormValues) => {
     setIsSubmitting(true);
     try {
       const result = await updateUserProfile({
         name: values.name,
         image: values.image || null,
+        timezone: values.timezone,
+        weekStartsOn: values.weekStartsOn,
       });
 
       if (result.success) {
@@ -122,6 +162,62 @@ export default function ProfileForm({ initialName, initialImage, email }: Profil
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="timezone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time Zone</FormLabel>
+                <div className="flex items-center gap-2">
+                  <FormControl>
+                    <NativeSelect {...field} className="w-72">
+                      {timeZones.map((zone) => (
+                        <NativeSelectOption key={zone} value={zone}>
+                          {zone.replace(/_/g, " ")}
+                        </NativeSelectOption>
+                      ))}
+                    </NativeSelect>
+                  </FormControl>
+                  <Button type="button" variant="outline" size="sm" onClick={applyBrowserTimeZone}>
+                    Use browser time zone
+                  </Button>
+                </div>
+                <FormDescription>
+                  Days, weeks, months and streaks are counted in this time zone.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="weekStartsOn"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Week Starts On</FormLabel>
+                <Select
+                  value={String(field.value)}
+                  onValueChange={(value) => field.onChange(Number(value) as WeekStartDay)}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {WEEK_START_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           {/* Email — read-only */}
           <FormItem>
             <FormLabel>Email</FormLabel>
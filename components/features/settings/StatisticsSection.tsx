@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import { rebuildAccountStatistics, type StatisticsCheckResult } from "@/app/actions/trackers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Check cached tracker totals against their entries and repair any that
+ * have drifted.
+ */
+export default function StatisticsSection() {
+  const queryClient = useQueryClient();
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<StatisticsCheckResult | null>(null);
+
+  async function run(dryRun: boolean) {
+    setIsRunning(true);
+    try {
+      const res = await rebuildAccountStatistics({ dryRun });
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      setResult(res.data);
+      if (!dryRun) {
+        toast.success(`Repaired ${res.data.discrepancies.length} trackers`);
+        void queryClient.invalidateQueries();
+      }
+    } catch {
+      toast.error("Failed to check statistics");
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  const needsRepair = result && !result.repaired && result.discrepancies.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base font-medium">
+          <RefreshCw className="h-4 w-4" />
+          Tracker Statistics
+        </CardTitle>
+        <CardDescription>
+          Entry counts and totals shown on tracker cards are kept up to date as you log. If they
+          look wrong, check them against your entries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => run(true)} disabled={isRunning}>
+            {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+            Check
+          </Button>
+          {needsRepair && (
+            <Button size="sm" onClick={() => run(false)} disabled={isRunning}>
+              Repair
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              {result.discrepancies.length === 0
+                ? `All ${result.checked} trackers are correct.`
+                : result.repaired
+                  ? `Repaired ${result.discrepancies.length} of ${result.checked} trackers.`
+                  : `${result.discrepancies.length} of ${result.checked} trackers are out of date.`}
+            </p>
+            {result.discrepancies.length > 0 && (
+              <ul className="space-y-1">
+                {result.discrepancies.map(({ trackerId, name, stored, actual }) => (
+                  <li key={trackerId} className="flex justify-between gap-4">
+                    <span className="truncate">{name}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {stored.totalEntries} → {actual.totalEntries} entries
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
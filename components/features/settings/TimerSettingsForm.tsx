@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import { updateTimerPolicy } from "@/app/actions/users";
+import {
+  TIMER_CONFLICT_VALUES,
+  TIMER_OVERRUN_VALUES,
+  type TimerPolicy,
+} from "@/lib/trackers/timer-policy";
+
+const timerSettingsSchema = z.object({
+  singleActiveTimer: z.boolean(),
+  conflict: z.enum(TIMER_CONFLICT_VALUES),
+  limitEnabled: z.boolean(),
+  maxHours: z
+    .number()
+    .int("Whole hours only")
+    .min(1, "At least 1 hour")
+    .max(168, "At most 168 hours"),
+  overrun: z.enum(TIMER_OVERRUN_VALUES),
+});
+
+type TimerSettingsValues = z.infer<typeof timerSettingsSchema>;
+
+const CONFLICT_LABELS: Record<TimerPolicy["conflict"], string> = {
+  reject: "Refuse to start it",
+  stop: "Stop the running timer first",
+};
+
+const OVERRUN_LABELS: Record<TimerPolicy["overrun"], string> = {
+  flag: "Keep the time and flag it for review",
+  cap: "Cut it off at the limit",
+};
+
+interface TimerSettingsFormProps {
+  initialPolicy: TimerPolicy;
+}
+
+export default function TimerSettingsForm({ initialPolicy }: TimerSettingsFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<TimerSettingsValues>({
+    resolver: zodResolver(timerSettingsSchema),
+    defaultValues: {
+      singleActiveTimer: initialPolicy.singleActiveTimer,
+      conflict: initialPolicy.conflict,
+      limitEnabled: initialPolicy.maxHours !== null,
+      maxHours: initialPolicy.maxHours ?? 12,
+      overrun: initialPolicy.overrun,
+    },
+  });
+
+  const limitEnabled = form.watch("limitEnabled");
+
+  const onSubmit = async (values: TimerSettingsValues) => {
+    setIsSubmitting(true);
+    try {
+      const result = await updateTimerPolicy({
+        singleActiveTimer: values.singleActiveTimer,
+        conflict: values.conflict,
+        maxHours: values.limitEnabled ? values.maxHours : null,
+        overrun: values.overrun,
+      });
+
+      if (result.success) {
+        toast.success("Timer settings updated");
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("Failed to update timer settings");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="singleActiveTimer"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <FormLabel>One timer at a time</FormLabel>
+                <FormDescription>
+                  Only one timer may run across all your trackers. A single tracker never runs two.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="conflict"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>When another timer is already running</FormLabel>
+              <FormControl>
+                <NativeSelect {...field} className="w-72">
+                  {TIMER_CONFLICT_VALUES.map((value) => (
+                    <NativeSelectOption key={value} value={value}>
+                      {CONFLICT_LABELS[value]}
+                    </NativeSelectOption>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="limitEnabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <FormLabel>Max timer length</FormLabel>
+                <FormDescription>
+                  Timers left running past this show up on the dashboard to fix.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {limitEnabled && (
+          <>
+            <FormField
+              control={form.control}
+              name="maxHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Limit (hours)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={168}
+                      step={1}
+                      className="w-32"
+                      value={Number.isNaN(field.value) ? "" : field.value}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="overrun"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When a timer is stopped past the limit</FormLabel>
+                  <FormControl>
+                    <NativeSelect {...field} className="w-72">
+                      {TIMER_OVERRUN_VALUES.map((value) => (
+                        <NativeSelectOption key={value} value={value}>
+                          {OVERRUN_LABELS[value]}
+                        </NativeSelectOption>
+                      ))}
+                    </NativeSelect>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving…" : "Save Timer Settings"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
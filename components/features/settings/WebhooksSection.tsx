@@ -0,0 +1,418 @@
+"use client";
+
+import { Fragment, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Copy, History, Plus, RotateCw, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  redeliverWebhookDelivery,
+  updateWebhook,
+  type WebhookDeliverySummary,
+  type WebhookSummary,
+} from "@/app/actions/webhooks";
+import { WEBHOOK_EVENT_VALUES, WebhookDeliveryStatus, type WebhookEvent } from "@/types";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "entry.created": "Entry created",
+  "entry.updated": "Entry updated",
+  "entry.deleted": "Entry deleted",
+  "timer.started": "Timer started",
+  "timer.stopped": "Timer stopped",
+  "goal.reached": "Goal reached",
+};
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  SUCCEEDED: "default",
+  PENDING: "secondary",
+  FAILED: "destructive",
+};
+
+interface WebhooksSectionProps {
+  initialWebhooks: WebhookSummary[];
+}
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(date));
+}
+
+export default function WebhooksSection({ initialWebhooks }: WebhooksSectionProps) {
+  const [webhooks, setWebhooks] = useState<WebhookSummary[]>(initialWebhooks);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENT_VALUES]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliverySummary[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  function handleDialogClose(open: boolean) {
+    if (!open) {
+      setCreatedSecret(null);
+      setUrl("");
+      setEvents([...WEBHOOK_EVENT_VALUES]);
+    }
+    setDialogOpen(open);
+  }
+
+  function toggleEvent(event: WebhookEvent) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const result = await createWebhook({ url: url.trim(), events });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      const { secret, ...webhook } = result.data;
+      setWebhooks((prev) => [webhook, ...prev]);
+      setCreatedSecret(secret);
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  function copyToClipboard(value: string) {
+    navigator.clipboard.writeText(value).then(() => {
+      toast.success("Secret copied to clipboard");
+    });
+  }
+
+  function handleToggleActive(webhook: WebhookSummary, active: boolean) {
+    startTransition(async () => {
+      const result = await updateWebhook(webhook.id, { active });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? result.data : w)));
+    });
+  }
+
+  function handleDelete(id: string) {
+    startTransition(async () => {
+      const result = await deleteWebhook(id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setWebhooks((prev) => prev.filter((w) => w.id !== id));
+      if (openLogId === id) setOpenLogId(null);
+      toast.success("Webhook deleted");
+    });
+  }
+
+  function loadDeliveries(webhookId: string) {
+    startTransition(async () => {
+      const result = await listWebhookDeliveries(webhookId);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setDeliveries(result.data);
+      setOpenLogId(webhookId);
+    });
+  }
+
+  function handleToggleLog(webhookId: string) {
+    if (openLogId === webhookId) {
+      setOpenLogId(null);
+    } else {
+      loadDeliveries(webhookId);
+    }
+  }
+
+  function handleRedeliver(delivery: WebhookDeliverySummary) {
+    startTransition(async () => {
+      const result = await redeliverWebhookDelivery(delivery.id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Redelivery queued");
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-sm">
+          Webhooks POST a signed JSON payload to your URL when entries change, timers start or stop,
+          or a goal is reached. Failed deliveries are retried with backoff.
+        </p>
+        <Dialog open={dialogOpen} onOpenChange={handleDialogClose}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+              Add Webhook
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Webhook</DialogTitle>
+              <DialogDescription>
+                Choose where to send events and which events to send.
+              </DialogDescription>
+            </DialogHeader>
+
+            {createdSecret ? (
+              <div className="space-y-4">
+                <div className="bg-muted rounded-md p-3">
+                  <p className="mb-2 text-sm font-medium text-green-600 dark:text-green-400">
+                    Webhook created — copy the signing secret now. You won&apos;t see it again.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 text-xs break-all">{createdSecret}</code>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => copyToClipboard(createdSecret)}
+                      aria-label="Copy secret"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button onClick={() => handleDialogClose(false)}>Done</Button>
+                </DialogFooter>
+              </div>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Payload URL</Label>
+                  <Input
+                    id="webhook-url"
+                    type="url"
+                    placeholder="https://example.com/hooks/htasker"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    autoFocus
+                    required
+                  />
+                </div>
+                <fieldset className="space-y-2">
+                  <legend className="mb-2 text-sm font-medium">Events</legend>
+                  {WEBHOOK_EVENT_VALUES.map((event) => (
+                    <div key={event} className="flex items-center gap-3">
+                      <Checkbox
+                        id={`webhook-event-${event}`}
+                        checked={events.includes(event)}
+                        onCheckedChange={() => toggleEvent(event)}
+                      />
+                      <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                        {EVENT_LABELS[event]}
+                        <code className="text-muted-foreground text-xs">{event}</code>
+                      </Label>
+                    </div>
+                  ))}
+                </fieldset>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => handleDialogClose(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isCreating || events.length === 0 || !url}>
+                    Create
+                  </Button>
+                </DialogFooter>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {webhooks.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <Webhook className="text-muted-foreground mx-auto mb-2 h-8 w-8" aria-hidden="true" />
+          <p className="text-muted-foreground text-sm">No webhooks yet.</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="sr-only">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <Fragment key={webhook.id}>
+                  <TableRow>
+                    <TableCell className="max-w-56 truncate font-medium" title={webhook.url}>
+                      {webhook.url}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((event) => (
+                          <Badge key={event} variant="outline" className="text-xs">
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={webhook.active}
+                        onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                        disabled={isPending}
+                        aria-label={`Toggle webhook ${webhook.url}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleToggleLog(webhook.id)}
+                        aria-label="Show recent deliveries"
+                        aria-expanded={openLogId === webhook.id}
+                        disabled={isPending}
+                      >
+                        <History className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            aria-label={`Delete webhook ${webhook.url}`}
+                            disabled={isPending}
+                          >
+                            <Trash2 className="h-4 w-4" aria-hidden="true" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Events will no longer be sent to <strong>{webhook.url}</strong> and
+                              its delivery log will be removed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(webhook.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+
+                  {openLogId === webhook.id && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={4} className="bg-muted/30">
+                        <div className="mb-2 flex items-center justify-between">
+                          <span className="text-sm font-medium">Recent deliveries</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => loadDeliveries(webhook.id)}
+                            disabled={isPending}
+                          >
+                            <RotateCw className="mr-1 h-3 w-3" aria-hidden="true" />
+                            Refresh
+                          </Button>
+                        </div>
+                        {deliveries.length === 0 ? (
+                          <p className="text-muted-foreground text-sm">No deliveries yet.</p>
+                        ) : (
+                          <ul className="space-y-1 text-sm">
+                            {deliveries.map((delivery) => (
+                              <li key={delivery.id} className="flex items-center gap-3">
+                                <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                                  {delivery.responseStatus ?? delivery.status}
+                                </Badge>
+                                <code className="text-xs">{delivery.event}</code>
+                                <span className="text-muted-foreground flex-1 truncate text-xs">
+                                  {formatDate(delivery.createdAt)}
+                                  {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                                  {delivery.error && ` · ${delivery.error}`}
+                                </span>
+                                {delivery.status === WebhookDeliveryStatus.FAILED && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleRedeliver(delivery)}
+                                    disabled={isPending}
+                                  >
+                                    Redeliver
+                                  </Button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="bg-muted rounded-md p-4 text-sm">
+        <p className="mb-1 font-medium">Verifying payloads</p>
+        <p className="text-muted-foreground text-xs">
+          Each request has an <code>X-HTasker-Signature: t=&lt;timestamp&gt;,v1=&lt;hmac&gt;</code>{" "}
+          header. Compute HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> with your
+          signing secret and compare it to <code>v1</code>.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useBillingRatesQuery, useUpdateBillingRatesMutation } from "@/hooks/useTimesheetQuery";
+import type { TimesheetTracker } from "@/app/actions/timesheet";
+import type { TagRate } from "@/types";
+
+/** Rate inputs hold text so they can be cleared; empty means no rate */
+function parseRate(value: string): number | null {
+  if (value.trim() === "") return null;
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate >= 0 ? rate : NaN;
+}
+
+export default function BillingRatesEditor() {
+  const { data, isLoading } = useBillingRatesQuery();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hourly rates</CardTitle>
+        <CardDescription>
+          A tag&apos;s rate applies to entries with that tag; other entries use their tracker&apos;s
+          rate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <Skeleton className="h-32 w-full rounded-md" />
+        ) : (
+          <RatesForm trackers={data.trackerList} tagRates={data.tags} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RatesForm({ trackers, tagRates }: { trackers: TimesheetTracker[]; tagRates: TagRate[] }) {
+  const update = useUpdateBillingRatesMutation();
+  const [trackerRates, setTrackerRates] = useState<Record<string, string>>(() =>
+    Object.fromEntries(trackers.map((t) => [t.id, t.hourlyRate?.toString() ?? ""]))
+  );
+  const [tags, setTags] = useState(() =>
+    tagRates.map((r) => ({ tag: r.tag, rate: r.rate.toString() }))
+  );
+
+  const handleSave = () => {
+    const trackerValues = Object.fromEntries(
+      Object.entries(trackerRates).map(([id, value]) => [id, parseRate(value)])
+    );
+    const tagValues = tags
+      .filter((r) => r.tag.trim() !== "")
+      .map((r) => ({ tag: r.tag.trim(), rate: parseRate(r.rate) }));
+
+    if (
+      Object.values(trackerValues).some((rate) => Number.isNaN(rate)) ||
+      tagValues.some((r) => r.rate === null || Number.isNaN(r.rate))
+    ) {
+      toast.error("Rates must be zero or more");
+      return;
+    }
+
+    update.mutate(
+      { trackers: trackerValues, tags: tagValues as TagRate[] },
+      {
+        onSuccess: () => toast.success("Rates saved"),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Trackers</h3>
+        {trackers.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No timer trackers yet.</p>
+        ) : (
+          trackers.map((tracker) => (
+            <div key={tracker.id} className="flex items-center justify-between gap-4">
+              <Label htmlFor={`rate-${tracker.id}`} className="font-normal">
+                {tracker.name}
+              </Label>
+              <Input
+                id={`rate-${tracker.id}`}
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="No rate"
+                value={trackerRates[tracker.id] ?? ""}
+                onChange={(e) =>
+                  setTrackerRates((rates) => ({ ...rates, [tracker.id]: e.target.value }))
+                }
+                className="w-32"
+              />
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Tags</h3>
+        {tags.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              aria-label="Tag"
+              placeholder="Tag"
+              value={row.tag}
+              onChange={(e) =>
+                setTags((rows) =>
+                  rows.map((r, i) => (i === index ? { ...r, tag: e.target.value } : r))
+                )
+              }
+              className="flex-1"
+            />
+            <Input
+              aria-label="Hourly rate"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="Rate"
+              value={row.rate}
+              onChange={(e) =>
+                setTags((rows) =>
+                  rows.map((r, i) => (i === index ? { ...r, rate: e.target.value } : r))
+                )
+              }
+              className="w-32"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${row.tag || "tag"} rate`}
+              onClick={() => setTags((rows) => rows.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setTags((rows) => [...rows, { tag: "", rate: "" }])}
+        >
+          <Plus className="h-4 w-4" />
+          Add tag rate
+        </Button>
+      </div>
+
+      <Button onClick={handleSave} disabled={update.isPending}>
+        {update.isPending ? "Saving…" : "Save Rates"}
+      </Button>
+    </div>
+  );
+}
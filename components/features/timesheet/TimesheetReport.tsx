@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FileDown, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTimesheetQuery } from "@/hooks/useTimesheetQuery";
+import { exportTimesheet, type TimesheetInput } from "@/app/actions/timesheet";
+import {
+  DEFAULT_ROUNDING,
+  formatHours,
+  ROUNDING_MODES,
+  type RoundingMode,
+} from "@/lib/trackers/timesheet";
+
+const ROUNDING_LABELS: Record<RoundingMode, string> = {
+  none: "No rounding",
+  up: "Round up",
+  nearest: "Round to nearest",
+  down: "Round down",
+};
+
+/** Local calendar date as "YYYY-MM-DD" */
+function toDateInput(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function TimesheetReport() {
+  const [from, setFrom] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [trackerId, setTrackerId] = useState("");
+  const [tag, setTag] = useState("");
+  const [rounding, setRounding] = useState(DEFAULT_ROUNDING);
+  const [exporting, setExporting] = useState(false);
+
+  const input: TimesheetInput = {
+    from,
+    to,
+    trackerIds: trackerId ? [trackerId] : undefined,
+    tags: tag.trim() ? [tag.trim()] : undefined,
+    rounding,
+  };
+  const { data: report, isLoading, error } = useTimesheetQuery(input);
+
+  async function handleExport(format: "csv" | "html") {
+    setExporting(true);
+    try {
+      const res = await exportTimesheet(input, format);
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      const { content, filename, mimeType } = res.data;
+      const blob = new Blob([content], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      if (format === "html") {
+        // Open the printable version in a new tab rather than downloading it
+        window.open(url, "_blank", "noopener");
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        return;
+      }
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Failed to export timesheet");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="timesheet-from">From</Label>
+          <Input
+            id="timesheet-from"
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timesheet-to">To</Label>
+          <Input
+            id="timesheet-to"
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timesheet-tracker">Tracker</Label>
+          <NativeSelect
+            id="timesheet-tracker"
+            value={trackerId}
+            onChange={(e) => setTrackerId(e.target.value)}
+            className="w-48"
+          >
+            <NativeSelectOption value="">All timers</NativeSelectOption>
+            {report?.trackers.map((tracker) => (
+              <NativeSelectOption key={tracker.id} value={tracker.id}>
+                {tracker.name}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timesheet-tag">Tag</Label>
+          <Input
+            id="timesheet-tag"
+            value={tag}
+            placeholder="Any tag"
+            onChange={(e) => setTag(e.target.value)}
+            className="w-36"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timesheet-rounding">Rounding</Label>
+          <div className="flex gap-2">
+            <NativeSelect
+              id="timesheet-rounding"
+              value={rounding.mode}
+              onChange={(e) => setRounding((r) => ({ ...r, mode: e.target.value as RoundingMode }))}
+              className="w-44"
+            >
+              {ROUNDING_MODES.map((mode) => (
+                <NativeSelectOption key={mode} value={mode}>
+                  {ROUNDING_LABELS[mode]}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+            {rounding.mode !== "none" && (
+              <NativeSelect
+                aria-label="Rounding increment"
+                value={rounding.minutes}
+                onChange={(e) => setRounding((r) => ({ ...r, minutes: Number(e.target.value) }))}
+                className="w-28"
+              >
+                {[1, 5, 6, 10, 15, 30, 60].map((minutes) => (
+                  <NativeSelectOption key={minutes} value={minutes}>
+                    {minutes} min
+                  </NativeSelectOption>
+                ))}
+              </NativeSelect>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            disabled={exporting || !report}
+            onClick={() => handleExport("csv")}
+          >
+            <FileDown className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={exporting || !report}
+            onClick={() => handleExport("html")}
+          >
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full rounded-md" />
+      ) : error ? (
+        <p className="text-destructive text-sm">{error.message}</p>
+      ) : !report || report.weeks.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center text-sm">
+          No completed timer entries in this range.
+        </p>
+      ) : (
+        <>
+          {report.weeks.map((week) => (
+            <Card key={week.week}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Week of {week.week}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tracker</TableHead>
+                      <TableHead>Tag</TableHead>
+                      <TableHead className="text-right">Entries</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                      <TableHead className="text-right">Billed</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {week.rows.map((row) => (
+                      <TableRow key={`${row.trackerId}-${row.tag ?? ""}`}>
+                        <TableCell>{row.trackerName}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.tag ?? "—"}</TableCell>
+                        <TableCell className="text-right">{row.entries}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.seconds)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatHours(row.billedSeconds)}
+                        </TableCell>
+                        <TableCell className="text-right">{row.rate ?? "—"}</TableCell>
+                        <TableCell className="text-right">{row.amount.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={3}>Week total</TableCell>
+                      <TableCell className="text-right">{formatHours(week.seconds)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatHours(week.billedSeconds)}
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{week.amount.toFixed(2)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+          <div className="flex flex-wrap justify-end gap-6 text-sm">
+            <span>
+              Recorded <strong>{formatHours(report.seconds)} h</strong>
+            </span>
+            <span>
+              Billed <strong>{formatHours(report.billedSeconds)} h</strong>
+            </span>
+            <span>
+              Amount <strong>{report.amount.toFixed(2)}</strong>
+            </span>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
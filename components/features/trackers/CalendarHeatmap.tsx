@@ -2,7 +2,8 @@
 
 import React, { useState, useMemo, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getCalendarData } from "@/app/actions/entries";
+import { getCalendarData, type CalendarDayData } from "@/app/actions/entries";
+import type { HabitDayState } from "@/lib/trackers/habits";
 import { Tracker, TrackerType } from "@/types";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -13,6 +14,7 @@ import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
 interface CalendarDay {
   date: string; // "YYYY-MM-DD" — empty string for padding cells
   count: number;
+  state?: HabitDayState; // Habits only
   isCurrentYear: boolean;
   isPadding: boolean;
 }
@@ -51,6 +53,22 @@ const ROW_LABELS: Record<number, string> = {
   5: "Fri",
 };
 
+const HABIT_STATE_CLASSES: Record<HabitDayState, string> = {
+  done: "bg-green-500 dark:bg-green-600",
+  missed: "bg-red-400 dark:bg-red-700",
+  skipped: "bg-amber-300 dark:bg-amber-600",
+  unscheduled: "bg-slate-200 dark:bg-slate-700",
+  due: "bg-slate-100 ring-1 ring-indigo-400 ring-inset dark:bg-slate-800",
+};
+
+const HABIT_STATE_LABELS: Record<HabitDayState, string> = {
+  done: "Done",
+  missed: "Missed",
+  skipped: "Skipped",
+  unscheduled: "Rest day",
+  due: "Due",
+};
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function toDateStr(date: Date): string {
@@ -77,6 +95,15 @@ function getIntensityClass(count: number): string {
   return "bg-indigo-800 dark:bg-indigo-300";
 }
 
+function getCellClass(day: CalendarDay): string {
+  return day.state ? HABIT_STATE_CLASSES[day.state] : getIntensityClass(day.count);
+}
+
+function buildDayLabel(day: CalendarDay, trackerType: TrackerType): string {
+  const entries = buildEntryLabel(day.count, trackerType);
+  return day.state ? `${HABIT_STATE_LABELS[day.state]} · ${entries}` : entries;
+}
+
 function buildEntryLabel(count: number, trackerType: TrackerType): string {
   if (trackerType === TrackerType.OCCURRENCE) {
     return count === 1 ? "1 occurrence" : `${count} occurrences`;
@@ -159,40 +186,43 @@ export default function CalendarHeatmap({ tracker }: CalendarHeatmapProps) {
   const [year, setYear] = useState(currentYear);
   const [tooltip, setTooltip] = useState<TooltipState | null>(null);
 
-  const { data, isLoading, isError } = useQuery<{ date: string; count: number }[], Error>({
+  const isHabit = !!tracker.schedule;
+
+  const { data, isLoading, isError } = useQuery<CalendarDayData[], Error>({
     queryKey: ["calendarData", tracker.id, year],
     queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getCalendarData(tracker.id, year, timezoneOffset);
+      const res = await getCalendarData(tracker.id, year);
       if (!res.success) throw new Error(res.error);
       return res.data;
     },
   });
 
   // Build O(1) lookup map from API data
-  const countMap = useMemo<Map<string, number>>(() => {
-    const map = new Map<string, number>();
+  const dayMap = useMemo<Map<string, CalendarDayData>>(() => {
+    const map = new Map<string, CalendarDayData>();
     if (data) {
       for (const entry of data) {
-        map.set(entry.date, entry.count);
+        map.set(entry.date, entry);
       }
     }
     return map;
   }, [data]);
 
-  // Build the 52-week grid with counts merged in
+  // Build the 52-week grid with counts (and habit states) merged in
   const { weeks, monthCols } = useMemo(() => {
     const grid = buildGrid(year);
     // Merge counts into cells
     for (const week of grid.weeks) {
       for (const day of week) {
         if (!day.isPadding && day.date) {
-          day.count = countMap.get(day.date) ?? 0;
+          const entry = dayMap.get(day.date);
+          day.count = entry?.count ?? 0;
+          day.state = entry?.state;
         }
       }
     }
     return grid;
-  }, [year, countMap]);
+  }, [year, dayMap]);
 
   const handleMouseEnter = useCallback((day: CalendarDay, e: React.MouseEvent<HTMLDivElement>) => {
     if (day.isPadding || !day.date) return;
@@ -282,16 +312,14 @@ export default function CalendarHeatmap({ tracker }: CalendarHeatmapProps) {
                         key={row}
                         className={[
                           "h-3 w-3 cursor-default rounded-sm transition-opacity",
-                          day.isPadding
-                            ? "pointer-events-none opacity-0"
-                            : getIntensityClass(day.count),
+                          day.isPadding ? "pointer-events-none opacity-0" : getCellClass(day),
                         ].join(" ")}
                         onMouseEnter={day.isPadding ? undefined : (e) => handleMouseEnter(day, e)}
                         onMouseLeave={day.isPadding ? undefined : handleMouseLeave}
                         aria-label={
                           day.isPadding
                             ? undefined
-                            : `${day.date}: ${buildEntryLabel(day.count, tracker.type)}`
+                            : `${day.date}: ${buildDayLabel(day, tracker.type)}`
                         }
                       />
                     ))}
@@ -300,21 +328,34 @@ export default function CalendarHeatmap({ tracker }: CalendarHeatmapProps) {
               </div>
 
               {/* Legend */}
-              <div className="flex items-center gap-1 pt-1 pl-8">
-                <span className="text-muted-foreground mr-1 text-[10px]">Less</span>
-                {(
-                  [
-                    "bg-slate-100 dark:bg-slate-800",
-                    "bg-indigo-200 dark:bg-indigo-900",
-                    "bg-indigo-400 dark:bg-indigo-700",
-                    "bg-indigo-600 dark:bg-indigo-500",
-                    "bg-indigo-800 dark:bg-indigo-300",
-                  ] as const
-                ).map((cls, i) => (
-                  <div key={i} className={`h-3 w-3 rounded-sm ${cls}`} />
-                ))}
-                <span className="text-muted-foreground ml-1 text-[10px]">More</span>
-              </div>
+              {isHabit ? (
+                <div className="flex flex-wrap items-center gap-3 pt-1 pl-8">
+                  {(Object.keys(HABIT_STATE_CLASSES) as HabitDayState[]).map((state) => (
+                    <div key={state} className="flex items-center gap-1">
+                      <div className={`h-3 w-3 rounded-sm ${HABIT_STATE_CLASSES[state]}`} />
+                      <span className="text-muted-foreground text-[10px]">
+                        {HABIT_STATE_LABELS[state]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 pt-1 pl-8">
+                  <span className="text-muted-foreground mr-1 text-[10px]">Less</span>
+                  {(
+                    [
+                      "bg-slate-100 dark:bg-slate-800",
+                      "bg-indigo-200 dark:bg-indigo-900",
+                      "bg-indigo-400 dark:bg-indigo-700",
+                      "bg-indigo-600 dark:bg-indigo-500",
+                      "bg-indigo-800 dark:bg-indigo-300",
+                    ] as const
+                  ).map((cls, i) => (
+                    <div key={i} className={`h-3 w-3 rounded-sm ${cls}`} />
+                  ))}
+                  <span className="text-muted-foreground ml-1 text-[10px]">More</span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -328,9 +369,7 @@ export default function CalendarHeatmap({ tracker }: CalendarHeatmapProps) {
         >
           <div className="bg-popover text-popover-foreground rounded-md border px-2.5 py-1.5 text-xs whitespace-nowrap shadow-md">
             <div className="font-medium">{formatTooltipDate(tooltip.day.date)}</div>
-            <div className="text-muted-foreground">
-              {buildEntryLabel(tooltip.day.count, tracker.type)}
-            </div>
+            <div className="text-muted-foreground">{buildDayLabel(tooltip.day, tracker.type)}</div>
           </div>
         </div>
       )}
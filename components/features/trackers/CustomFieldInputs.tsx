@@ -0,0 +1,146 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import { Switch } from "@/components/ui/switch";
+import { MAX_RATING, type CustomFieldInputValues } from "@/lib/trackers/custom-fields";
+import { cn } from "@/lib/utils";
+import { CustomFieldType, type CustomField } from "@/types";
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldInputValues;
+  onChange: (key: string, value: string | boolean) => void;
+  idPrefix?: string;
+}
+
+/**
+ * Inputs generated from a CUSTOM tracker's field schema. Values are form
+ * state; convert them with fromFieldInputValues before saving.
+ */
+export default function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  idPrefix = "field",
+}: CustomFieldInputsProps) {
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.key}`;
+        const value = values[field.key];
+        const text = typeof value === "string" ? value : "";
+        const label = (
+          <Label htmlFor={id}>
+            {field.label}
+            {field.type === CustomFieldType.DURATION && " (minutes)"}
+            {field.unit && field.type === CustomFieldType.NUMBER && ` (${field.unit})`}
+            {field.required && <span className="text-red-500"> *</span>}
+          </Label>
+        );
+
+        switch (field.type) {
+          case CustomFieldType.BOOLEAN:
+            return (
+              <div key={field.key} className="flex items-center justify-between gap-3">
+                {label}
+                <Switch
+                  id={id}
+                  checked={value === true}
+                  onCheckedChange={(checked) => onChange(field.key, checked)}
+                />
+              </div>
+            );
+
+          case CustomFieldType.SELECT:
+            return (
+              <div key={field.key} className="space-y-1.5">
+                {label}
+                <NativeSelect
+                  id={id}
+                  className="w-full"
+                  value={text}
+                  onChange={(e) => onChange(field.key, e.target.value)}
+                >
+                  <NativeSelectOption value="">Select…</NativeSelectOption>
+                  {field.options.map((option) => (
+                    <NativeSelectOption key={option} value={option}>
+                      {option}
+                    </NativeSelectOption>
+                  ))}
+                </NativeSelect>
+              </div>
+            );
+
+          case CustomFieldType.RATING:
+            return (
+              <div key={field.key} className="space-y-1.5">
+                {label}
+                <div id={id} role="radiogroup" className="flex gap-1">
+                  {Array.from({ length: MAX_RATING }, (_, index) => {
+                    const rating = index + 1;
+                    const selected = Number(text) >= rating;
+                    return (
+                      <button
+                        key={rating}
+                        type="button"
+                        role="radio"
+                        aria-checked={Number(text) === rating}
+                        aria-label={`${rating} of ${MAX_RATING}`}
+                        onClick={() =>
+                          onChange(field.key, Number(text) === rating ? "" : String(rating))
+                        }
+                        className="flex min-h-[44px] min-w-[44px] items-center justify-center"
+                      >
+                        <Star
+                          className={cn(
+                            "h-6 w-6",
+                            selected ? "fill-amber-400 text-amber-400" : "text-muted-foreground"
+                          )}
+                        />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+
+          case CustomFieldType.NUMBER:
+          case CustomFieldType.DURATION:
+            return (
+              <div key={field.key} className="space-y-1.5">
+                {label}
+                <Input
+                  id={id}
+                  type="number"
+                  step="any"
+                  min={field.type === CustomFieldType.DURATION ? 0 : undefined}
+                  value={text}
+                  onChange={(e) => onChange(field.key, e.target.value)}
+                />
+              </div>
+            );
+
+          case CustomFieldType.TEXT:
+            return (
+              <div key={field.key} className="space-y-1.5">
+                {label}
+                <Input
+                  id={id}
+                  type="text"
+                  maxLength={500}
+                  value={text}
+                  onChange={(e) => onChange(field.key, e.target.value)}
+                />
+              </div>
+            );
+
+          default:
+            return null;
+        }
+      })}
+    </div>
+  );
+}
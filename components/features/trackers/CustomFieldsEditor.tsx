@@ -0,0 +1,229 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import { fieldKeyFromLabel, MAX_CUSTOM_FIELDS } from "@/lib/trackers/custom-fields";
+import {
+  CUSTOM_FIELD_TYPE_VALUES,
+  CustomFieldType,
+  isCustomFieldType,
+  type CustomField,
+} from "@/types";
+
+/** Editable form of a field; options are comma-separated and new fields have no key yet */
+export interface CustomFieldDraft {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string;
+  unit: string;
+  required: boolean;
+}
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  number: "Number",
+  text: "Text",
+  select: "Select",
+  boolean: "Yes / No",
+  rating: "Rating (1–5)",
+  duration: "Duration",
+};
+
+export function toFieldDrafts(fields: CustomField[] = []): CustomFieldDraft[] {
+  return fields
+    .filter((field): field is CustomField & { type: CustomFieldType } =>
+      isCustomFieldType(field.type)
+    )
+    .map((field) => ({
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      options: field.options.join(", "),
+      unit: field.unit ?? "",
+      required: field.required,
+    }));
+}
+
+/** Drafts → field definitions. Existing keys are kept so stored values stay attached. */
+export function fromFieldDrafts(
+  drafts: CustomFieldDraft[]
+): (CustomField & { type: CustomFieldType })[] {
+  const taken = drafts.map((draft) => draft.key).filter(Boolean);
+  return drafts.map((draft) => {
+    const key = draft.key || fieldKeyFromLabel(draft.label, taken);
+    if (!draft.key) taken.push(key);
+    return {
+      key,
+      label: draft.label.trim(),
+      type: draft.type,
+      options:
+        draft.type === CustomFieldType.SELECT
+          ? draft.options
+              .split(",")
+              .map((option) => option.trim())
+              .filter(Boolean)
+          : [],
+      unit: draft.type === CustomFieldType.NUMBER ? draft.unit.trim() || null : null,
+      required: draft.required,
+    };
+  });
+}
+
+interface CustomFieldsEditorProps {
+  value: CustomFieldDraft[];
+  onChange: (drafts: CustomFieldDraft[]) => void;
+  errors?: string[];
+}
+
+export default function CustomFieldsEditor({ value, onChange, errors }: CustomFieldsEditorProps) {
+  const update = (index: number, patch: Partial<CustomFieldDraft>) =>
+    onChange(value.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    const [draft] = next.splice(index, 1);
+    next.splice(index + offset, 0, draft);
+    onChange(next);
+  };
+
+  const add = () =>
+    onChange([
+      ...value,
+      { key: "", label: "", type: CustomFieldType.NUMBER, options: "", unit: "", required: false },
+    ]);
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-muted-foreground text-sm">
+          No fields yet — entries will have a free-form value. Add fields to get a form with
+          numbers, ratings, choices and more; each numeric field gets its own chart series.
+        </p>
+      )}
+
+      {value.map((draft, index) => (
+        <div
+          key={draft.key || `new-${index}`}
+          className="border-border space-y-3 rounded-md border p-3"
+        >
+          <div className="flex items-end gap-2">
+            <div className="flex-grow space-y-1.5">
+              <Label htmlFor={`field-label-${index}`}>Label</Label>
+              <Input
+                id={`field-label-${index}`}
+                value={draft.label}
+                maxLength={50}
+                placeholder="e.g. Mood"
+                onChange={(e) => update(index, { label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor={`field-type-${index}`}>Type</Label>
+              <NativeSelect
+                id={`field-type-${index}`}
+                value={draft.type}
+                onChange={(e) =>
+                  isCustomFieldType(e.target.value) && update(index, { type: e.target.value })
+                }
+              >
+                {CUSTOM_FIELD_TYPE_VALUES.map((type) => (
+                  <NativeSelectOption key={type} value={type}>
+                    {TYPE_LABELS[type]}
+                  </NativeSelectOption>
+                ))}
+              </NativeSelect>
+            </div>
+          </div>
+
+          {draft.type === CustomFieldType.SELECT && (
+            <div className="space-y-1.5">
+              <Label htmlFor={`field-options-${index}`}>Options</Label>
+              <Input
+                id={`field-options-${index}`}
+                value={draft.options}
+                placeholder="Low, Medium, High"
+                onChange={(e) => update(index, { options: e.target.value })}
+              />
+              <p className="text-muted-foreground text-xs">Separate options with commas.</p>
+            </div>
+          )}
+
+          {draft.type === CustomFieldType.NUMBER && (
+            <div className="space-y-1.5">
+              <Label htmlFor={`field-unit-${index}`}>Unit</Label>
+              <Input
+                id={`field-unit-${index}`}
+                value={draft.unit}
+                maxLength={20}
+                placeholder="e.g. kg (optional)"
+                onChange={(e) => update(index, { unit: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`field-required-${index}`}
+                checked={draft.required}
+                onCheckedChange={(checked) => update(index, { required: checked === true })}
+              />
+              <Label htmlFor={`field-required-${index}`} className="font-normal">
+                Required
+              </Label>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Move field up"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Move field down"
+                disabled={index === value.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove field"
+                className="text-destructive hover:text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {errors?.[index] && <p className="text-sm text-red-600">{errors[index]}</p>}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        onClick={add}
+        disabled={value.length >= MAX_CUSTOM_FIELDS}
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add field
+      </Button>
+    </div>
+  );
+}
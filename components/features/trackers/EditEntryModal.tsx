@@ -33,7 +33,13 @@ import {
 
 import { updateEntry } from "@/app/actions/entries";
 import { useDeleteEntryMutation } from "@/hooks/useTrackerQuery";
-import { TrackerEntry, TrackerType } from "@/types";
+import {
+  fromFieldInputValues,
+  readCustomFieldValues,
+  toFieldInputValues,
+} from "@/lib/trackers/custom-fields";
+import { CustomField, TrackerEntry, TrackerType } from "@/types";
+import CustomFieldInputs from "./CustomFieldInputs";
 
 // ── Form schema ───────────────────────────────────────────────────────────────
 // All values are kept as strings because HTML inputs return strings.
@@ -78,21 +84,31 @@ function fromDatetimeLocal(value: string): Date | null {
 interface EditEntryModalProps {
   entry: TrackerEntry;
   trackerType: TrackerType;
+  fields?: CustomField[]; // CUSTOM tracker field schema
   onSuccess: () => void;
 }
 
 // ── Component ─────────────────────────────────────────────────────────────────
 
-export default function EditEntryModal({ entry, trackerType, onSuccess }: EditEntryModalProps) {
+export default function EditEntryModal({
+  entry,
+  trackerType,
+  fields = [],
+  onSuccess,
+}: EditEntryModalProps) {
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const deleteEntryMutation = useDeleteEntryMutation(entry.trackerId);
 
   const isTimer = trackerType === TrackerType.TIMER;
   const hasNumericValue = trackerType === TrackerType.COUNTER || trackerType === TrackerType.AMOUNT;
-  const hasCustomValue = trackerType === TrackerType.CUSTOM;
+  const hasCustomFields = trackerType === TrackerType.CUSTOM && fields.length > 0;
+  const hasCustomValue = trackerType === TrackerType.CUSTOM && !hasCustomFields;
   const showValueField = hasNumericValue || hasCustomValue;
 
+  const initialFieldValues = () => toFieldInputValues(fields, readCustomFieldValues(entry.fields));
+  const [fieldValues, setFieldValues] = useState(initialFieldValues);
+
   const {
     register,
     handleSubmit,
@@ -142,6 +158,10 @@ export default function EditEntryModal({ entry, trackerType, onSuccess }: EditEn
         updatePayload.value = isNaN(parsed) ? null : parsed;
       }
 
+      if (hasCustomFields) {
+        updatePayload.fields = fromFieldInputValues(fields, fieldValues);
+      }
+
       const result = await updateEntry(entry.id, updatePayload);
 
       if (result.success) {
@@ -182,6 +202,7 @@ export default function EditEntryModal({ entry, trackerType, onSuccess }: EditEn
         startTime: toDatetimeLocal(entry.startTime),
         endTime: toDatetimeLocal(entry.endTime),
       });
+      setFieldValues(initialFieldValues());
     }
     setOpen(nextOpen);
   };
@@ -256,6 +277,16 @@ export default function EditEntryModal({ entry, trackerType, onSuccess }: EditEn
             </div>
           )}
 
+          {/* CUSTOM trackers with a field schema */}
+          {hasCustomFields && (
+            <CustomFieldInputs
+              fields={fields}
+              values={fieldValues}
+              onChange={(key, value) => setFieldValues((prev) => ({ ...prev, [key]: value }))}
+              idPrefix={`entry-${entry.id}`}
+            />
+          )}
+
           {/* Note — all types */}
           <div className="space-y-1.5">
             <Label htmlFor="entry-note">Note</Label>
@@ -0,0 +1,121 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import { useFormulaInputOptions } from "@/hooks/useTrackerQuery";
+import { MAX_FORMULA_INPUTS, type DerivedFormulaConfig } from "@/lib/trackers/formula";
+
+interface FormulaSettingsProps {
+  value: DerivedFormulaConfig | null;
+  onChange: (value: DerivedFormulaConfig) => void;
+  /** The tracker being edited, which can't be one of its own inputs */
+  trackerId?: string;
+  error?: string;
+}
+
+const EMPTY_FORMULA: DerivedFormulaConfig = {
+  expression: "",
+  inputs: [{ name: "a", trackerId: "" }],
+};
+
+/** Next unused single-letter name for an input */
+function nextName(inputs: DerivedFormulaConfig["inputs"]): string {
+  const used = new Set(inputs.map((input) => input.name));
+  return "abcdefghijklmnopqrstuvwxyz".split("").find((letter) => !used.has(letter)) ?? "x";
+}
+
+/** Formula and input trackers for a DERIVED tracker */
+export default function FormulaSettings({
+  value,
+  onChange,
+  trackerId,
+  error,
+}: FormulaSettingsProps) {
+  const formula = value ?? EMPTY_FORMULA;
+
+  const { data: options } = useFormulaInputOptions();
+  const trackerOptions = options?.filter((tracker) => tracker.id !== trackerId);
+
+  const updateInput = (index: number, patch: Partial<DerivedFormulaConfig["inputs"][number]>) =>
+    onChange({
+      ...formula,
+      inputs: formula.inputs.map((input, i) => (i === index ? { ...input, ...patch } : input)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {formula.inputs.map((input, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              aria-label="Name"
+              value={input.name}
+              onChange={(e) => updateInput(index, { name: e.target.value.trim() })}
+              className="w-24 font-mono"
+            />
+            <span className="text-muted-foreground text-sm">=</span>
+            <NativeSelect
+              aria-label={`Tracker for ${input.name || "input"}`}
+              value={input.trackerId}
+              onChange={(e) => updateInput(index, { trackerId: e.target.value })}
+              className="flex-1"
+            >
+              <NativeSelectOption value="">Choose a tracker</NativeSelectOption>
+              {trackerOptions?.map((tracker) => (
+                <NativeSelectOption key={tracker.id} value={tracker.id}>
+                  {tracker.name}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${input.name || "input"}`}
+              disabled={formula.inputs.length === 1}
+              onClick={() =>
+                onChange({ ...formula, inputs: formula.inputs.filter((_, i) => i !== index) })
+              }
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {formula.inputs.length < MAX_FORMULA_INPUTS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...formula,
+                inputs: [...formula.inputs, { name: nextName(formula.inputs), trackerId: "" }],
+              })
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add tracker
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Input
+          aria-label="Formula"
+          placeholder="sum(a) / sum(b)"
+          value={formula.expression}
+          onChange={(e) => onChange({ ...formula, expression: e.target.value })}
+          className="font-mono"
+        />
+        <p className="text-muted-foreground text-xs">
+          Use sum(), count() or avg() of each name with + - * / and parentheses. Each day, week or
+          month is calculated from that period&apos;s totals.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
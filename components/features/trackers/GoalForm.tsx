@@ -1,6 +1,5 @@
 "use client";
 
-import { useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -9,8 +8,20 @@ import { toast } from "sonner";
 import { Target, Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 
-import { Tracker, TrackerType } from "@/types";
-import { setTrackerGoal, clearTrackerGoal } from "@/app/actions/trackers";
+import { GoalSummary, Tracker, TrackerType } from "@/types";
+import { setTrackerGoal } from "@/app/actions/trackers";
+import { trackerKeys } from "@/hooks/queries/trackerQueries";
+import { POMODORO_GOAL_UNIT } from "@/lib/trackers/pomodoro";
+import {
+  GOAL_ALIGNMENTS,
+  GOAL_KINDS,
+  GOAL_PERIOD_VALUES,
+  isGoalKind,
+  toGoalAlignment,
+  toGoalPeriod,
+  type GoalAlignment,
+  type GoalKind,
+} from "@/lib/trackers/goals";
 
 import {
   Card,
@@ -31,26 +42,45 @@ import {
 
 // ─── Zod schema ───────────────────────────────────────────────────────────────
 
-const goalSchema = z.object({
-  goalValue: z
-    .number({ message: "Must be a number" })
-    .positive("Must be greater than 0"),
-  goalPeriod: z.enum(["daily", "weekly", "monthly"] as const, {
-    message: "Select a period",
-  }),
-  goalUnit: z
-    .string()
-    .min(1, "Unit is required")
-    .max(20, "Unit must be 20 characters or less"),
-});
+const goalSchema = z
+  .object({
+    goalKind: z.enum(GOAL_KINDS),
+    goalValue: z
+      .number({ message: "Must be a number" })
+      .positive("Must be greater than 0"),
+    goalPeriod: z.enum(GOAL_PERIOD_VALUES, {
+      message: "Select a period",
+    }),
+    goalAlignment: z.enum(GOAL_ALIGNMENTS),
+    goalUnit: z
+      .string()
+      .max(20, "Unit must be 20 characters or less"),
+  })
+  .refine(
+    (data) => data.goalKind === "streak" || data.goalUnit.trim().length > 0,
+    { message: "Unit is required", path: ["goalUnit"] }
+  )
+  .refine(
+    (data) => data.goalKind !== "streak" || Number.isInteger(data.goalValue),
+    { message: "Streaks are a whole number of days", path: ["goalValue"] }
+  );
 
 type GoalFormValues = z.infer<typeof goalSchema>;
 
+const KIND_LABELS: Record<GoalKind, string> = {
+  min: "At least",
+  max: "At most (limit)",
+  streak: "Streak of days",
+};
+
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 interface GoalFormProps {
   tracker: Tracker;
+  /** Goal to edit; without one the form adds a new goal */
+  goal?: GoalSummary;
   onSuccess?: () => void;
+  onCancel?: () => void;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -65,6 +95,8 @@ function defaultUnitForType(type: TrackerType): string {
       return "units";
     case TrackerType.OCCURRENCE:
       return "occurrences";
+    case TrackerType.DERIVED:
+      return "value";
     default:
       return "entries";
   }
@@ -72,36 +104,50 @@ function defaultUnitForType(type: TrackerType): string {
 
 // ─── Component ───────────────────────────────────────────────────────────────
 
-export default function GoalForm({ tracker, onSuccess }: GoalFormProps) {
+export default function GoalForm({ tracker, goal, onSuccess, onCancel }: GoalFormProps) {
   const queryClient = useQueryClient();
   const router = useRouter();
-  const isEditing = tracker.goalEnabled === true;
+  const isEditing = goal !== undefined;
+  const kinds = GOAL_KINDS.filter(
+    (kind) => kind !== "streak" || tracker.type === TrackerType.OCCURRENCE
+  );
 
   const {
     register,
     handleSubmit,
     setValue,
     watch,
+    reset,
     formState: { errors, isSubmitting },
   } = useForm<GoalFormValues>({
     resolver: zodResolver(goalSchema),
     defaultValues: {
-      goalValue: tracker.goalValue ?? undefined,
-      goalPeriod: (tracker.goalPeriod as GoalFormValues["goalPeriod"]) ?? "daily",
-      goalUnit: tracker.goalUnit ?? defaultUnitForType(tracker.type),
+      goalKind: goal && isGoalKind(goal.kind) ? goal.kind : "min",
+      goalValue: goal?.value,
+      goalPeriod: toGoalPeriod(goal?.period),
+      goalAlignment: toGoalAlignment(goal?.alignment),
+      goalUnit:
+        goal?.unit ??
+        (tracker.pomodoro ? POMODORO_GOAL_UNIT : defaultUnitForType(tracker.type)),
     },
   });
 
+  const watchedKind = watch("goalKind");
   const watchedPeriod = watch("goalPeriod");
+  const watchedAlignment = watch("goalAlignment");
+  const isStreak = watchedKind === "streak";
 
   // ── Submit ──────────────────────────────────────────────────────────────────
 
   const onSubmit = async (data: GoalFormValues) => {
     const res = await setTrackerGoal(tracker.id, {
-      enabled: true,
+      id: goal?.id,
+      kind: data.goalKind,
       value: data.goalValue,
-      period: data.goalPeriod,
-      unit: data.goalUnit,
+      // Streaks always count consecutive days
+      period: data.goalKind === "streak" ? "daily" : data.goalPeriod,
+      alignment: data.goalKind === "streak" ? "calendar" : data.goalAlignment,
+      unit: data.goalKind === "streak" ? "days" : data.goalUnit,
     });
 
     if (!res.success) {
@@ -109,33 +155,13 @@ export default function GoalForm({ tracker, onSuccess }: GoalFormProps) {
       return;
     }
 
-    await queryClient.invalidateQueries({ queryKey: ["tracker", tracker.id] });
+    await queryClient.invalidateQueries({ queryKey: trackerKeys.detail(tracker.id) });
     router.refresh();
-    toast.success(isEditing ? "Goal updated" : "Goal set");
+    toast.success(isEditing ? "Goal updated" : "Goal added");
+    if (!isEditing) reset({ ...data, goalValue: undefined });
     onSuccess?.();
   };
 
-  // ── Clear ───────────────────────────────────────────────────────────────────
-
-  const [isClearing, setIsClearing] = useState(false);
-
-  const handleClear = async () => {
-    setIsClearing(true);
-    try {
-      const res = await clearTrackerGoal(tracker.id);
-      if (!res.success) {
-        toast.error(res.error);
-        return;
-      }
-      await queryClient.invalidateQueries({ queryKey: ["tracker", tracker.id] });
-      router.refresh();
-      toast.success("Goal cleared");
-      onSuccess?.();
-    } finally {
-      setIsClearing(false);
-    }
-  };
-
   // ── Render ──────────────────────────────────────────────────────────────────
 
   return (
@@ -143,81 +169,135 @@ export default function GoalForm({ tracker, onSuccess }: GoalFormProps) {
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-base">
           <Target className="size-4" />
-          Goal
+          {isEditing ? "Edit Goal" : "Add Goal"}
         </CardTitle>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          {/* Target value */}
+          {/* Kind */}
           <div className="space-y-1.5">
-            <Label htmlFor="goalValue">Target value</Label>
-            <Input
-              id="goalValue"
-              type="number"
-              step="any"
-              min={0.001}
-              placeholder="e.g. 30"
-              {...register("goalValue", { valueAsNumber: true })}
-            />
-            {errors.goalValue && (
-              <p className="text-xs text-destructive">{errors.goalValue.message}</p>
-            )}
-          </div>
-
-          {/* Period */}
-          <div className="space-y-1.5">
-            <Label htmlFor="goalPeriod">Period</Label>
+            <Label htmlFor="goalKind">Goal type</Label>
             <Select
-              value={watchedPeriod}
+              value={watchedKind}
               onValueChange={(val) =>
-                setValue("goalPeriod", val as GoalFormValues["goalPeriod"], {
-                  shouldValidate: true,
-                })
+                setValue("goalKind", val as GoalKind, { shouldValidate: true })
               }
             >
-              <SelectTrigger id="goalPeriod" className="w-full">
-                <SelectValue placeholder="Select period" />
+              <SelectTrigger id="goalKind" className="w-full">
+                <SelectValue placeholder="Select goal type" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="daily">Daily</SelectItem>
-                <SelectItem value="weekly">Weekly</SelectItem>
-                <SelectItem value="monthly">Monthly</SelectItem>
+                {kinds.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {KIND_LABELS[kind]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            {errors.goalPeriod && (
-              <p className="text-xs text-destructive">{errors.goalPeriod.message}</p>
-            )}
           </div>
 
-          {/* Unit */}
+          {/* Target value */}
           <div className="space-y-1.5">
-            <Label htmlFor="goalUnit">Unit</Label>
+            <Label htmlFor="goalValue">
+              {isStreak ? "Days in a row" : watchedKind === "max" ? "Limit" : "Target value"}
+            </Label>
             <Input
-              id="goalUnit"
-              type="text"
-              placeholder={`e.g. ${defaultUnitForType(tracker.type)}`}
-              {...register("goalUnit")}
+              id="goalValue"
+              type="number"
+              step={isStreak ? 1 : "any"}
+              min={isStreak ? 1 : 0.001}
+              placeholder={isStreak ? "e.g. 7" : "e.g. 30"}
+              {...register("goalValue", { valueAsNumber: true })}
             />
-            {errors.goalUnit && (
-              <p className="text-xs text-destructive">{errors.goalUnit.message}</p>
+            {errors.goalValue && (
+              <p className="text-xs text-destructive">{errors.goalValue.message}</p>
             )}
           </div>
 
+          {!isStreak && (
+            <>
+              {/* Period */}
+              <div className="space-y-1.5">
+                <Label htmlFor="goalPeriod">Period</Label>
+                <Select
+                  value={watchedPeriod}
+                  onValueChange={(val) =>
+                    setValue("goalPeriod", val as GoalFormValues["goalPeriod"], {
+                      shouldValidate: true,
+                    })
+                  }
+                >
+                  <SelectTrigger id="goalPeriod" className="w-full">
+                    <SelectValue placeholder="Select period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                {errors.goalPeriod && (
+                  <p className="text-xs text-destructive">{errors.goalPeriod.message}</p>
+                )}
+              </div>
+
+              {/* Alignment; a rolling day is the same as a calendar day */}
+              {watchedPeriod !== "daily" && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="goalAlignment">Counted over</Label>
+                  <Select
+                    value={watchedAlignment}
+                    onValueChange={(val) =>
+                      setValue("goalAlignment", val as GoalAlignment, {
+                        shouldValidate: true,
+                      })
+                    }
+                  >
+                    <SelectTrigger id="goalAlignment" className="w-full">
+                      <SelectValue placeholder="Select alignment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="calendar">
+                        {watchedPeriod === "weekly" ? "This week" : "This month"}
+                      </SelectItem>
+                      <SelectItem value="rolling">
+                        {watchedPeriod === "weekly" ? "Last 7 days" : "Last 30 days"}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Unit */}
+              <div className="space-y-1.5">
+                <Label htmlFor="goalUnit">Unit</Label>
+                <Input
+                  id="goalUnit"
+                  type="text"
+                  placeholder={`e.g. ${defaultUnitForType(tracker.type)}`}
+                  {...register("goalUnit")}
+                />
+                {tracker.type === TrackerType.TIMER && tracker.pomodoro && (
+                  <p className="text-xs text-muted-foreground">
+                    Use &ldquo;{POMODORO_GOAL_UNIT}&rdquo; to count completed focus sessions.
+                  </p>
+                )}
+                {errors.goalUnit && (
+                  <p className="text-xs text-destructive">{errors.goalUnit.message}</p>
+                )}
+              </div>
+            </>
+          )}
+
           {/* Actions */}
           <div className="flex gap-2 pt-1">
-            <Button type="submit" disabled={isSubmitting || isClearing} className="flex-1">
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
               {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
-              {isEditing ? "Update Goal" : "Set Goal"}
+              {isEditing ? "Update Goal" : "Add Goal"}
             </Button>
-            {isEditing && (
-              <Button
-                type="button"
-                variant="outline"
-                disabled={isClearing}
-                onClick={handleClear}
-              >
-                {isClearing && <Loader2 className="mr-2 size-4 animate-spin" />}
-                Clear Goal
+            {onCancel && (
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
               </Button>
             )}
           </div>
@@ -1,96 +1,80 @@
 "use client";
 
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { TrendingUp, CheckCircle2 } from "lucide-react";
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { TrendingUp, CheckCircle2, Pencil, Trash2, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 
 import { Tracker } from "@/types";
-import { getTrackerTrend } from "@/app/actions/entries";
+import { clearTrackerGoal } from "@/app/actions/trackers";
+import { useTrackerGoals } from "@/hooks/useTrackerQuery";
+import { trackerKeys } from "@/hooks/queries/trackerQueries";
+import type { GoalWithProgress } from "@/lib/trackers/goal-progress";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import GoalForm from "./GoalForm";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function toLocalDateStr(d: Date): string {
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
-    d.getDate()
-  ).padStart(2, "0")}`;
+/** Past periods shown as dots under each goal */
+const HISTORY_SHOWN = 14;
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
 }
 
-function getPeriodDates(period: string): { start: Date; end: Date; label: string } {
-  const today = new Date();
+/** "YYYY-MM-DD" as a short local date, e.g. "Mon, Mar 4" */
+function formatDay(dateStr: string): string {
+  const [year, month, day] = dateStr.split("-").map(Number) as [number, number, number];
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
 
-  switch (period) {
-    case "daily": {
-      const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const end = new Date(start);
-      return { start, end, label: "Today" };
-    }
-    case "weekly": {
-      const end = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const start = new Date(end);
-      start.setDate(end.getDate() - 6);
-      return { start, end, label: "This week" };
-    }
-    case "monthly":
-    default: {
-      const end = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const start = new Date(end);
-      start.setDate(end.getDate() - 29);
-      return { start, end, label: "This month" };
-    }
+/** What's left, and where the current pace leads */
+function describeOutlook(goal: GoalWithProgress): string | null {
+  const { kind, value } = goal;
+  const { remaining, met, projectedTotal, projectedCompletion } = goal.progress;
+  const unit = kind === "streak" ? "days" : (goal.unit ?? "");
+
+  if (kind === "max") {
+    const left =
+      remaining >= 0
+        ? `${formatNumber(remaining)} ${unit} left before the limit`
+        : `${formatNumber(-remaining)} ${unit} over the limit`;
+    if (projectedTotal === null || remaining < 0) return left;
+    return projectedTotal > value ? `${left} · on pace for ${formatNumber(projectedTotal)}` : left;
   }
+
+  if (met) return null;
+  const left = `${formatNumber(remaining)} ${unit} to go`;
+  if (projectedCompletion) return `${left} · on pace for ${formatDay(projectedCompletion)}`;
+  if (projectedTotal !== null) return `${left} · on pace for ${formatNumber(projectedTotal)}`;
+  return left;
 }
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 interface GoalProgressProps {
   tracker: Tracker;
+  /** Owners can edit and remove goals */
+  canEdit?: boolean;
 }
 
 // ─── Component ───────────────────────────────────────────────────────────────
 
-export default function GoalProgress({ tracker }: GoalProgressProps) {
-  // Guard — caller should check this, but be defensive
-  if (!tracker.goalEnabled || !tracker.goalValue) return null;
-
-  const goalValue = tracker.goalValue;
-  const period = tracker.goalPeriod ?? "daily";
-  const goalUnit = tracker.goalUnit ?? "";
-
-  const { start, end, label } = useMemo(() => getPeriodDates(period), [period]);
-
-  const {
-    data: trendData,
-    isLoading,
-    isError,
-  } = useQuery({
-    queryKey: ["trackerTrend", tracker.id, toLocalDateStr(start), toLocalDateStr(end)],
-    queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getTrackerTrend(
-        tracker.id,
-        toLocalDateStr(start),
-        toLocalDateStr(end),
-        timezoneOffset
-      );
-      if (!res.success) throw new Error(res.error);
-      return res.data;
-    },
-  });
-
-  // Sum all values for the period
-  const currentValue = useMemo(() => {
-    if (!trendData) return 0;
-    return trendData.reduce((acc, point) => acc + point.value, 0);
-  }, [trendData]);
+export default function GoalProgress({ tracker, canEdit = false }: GoalProgressProps) {
+  const { data: goals, isLoading } = useTrackerGoals(tracker.id);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
-  const percentage = Math.min(100, Math.round((currentValue / goalValue) * 100));
-  const isGoalMet = currentValue >= goalValue;
+  if (!isLoading && (!goals || goals.length === 0)) return null;
 
   return (
     <Card>
@@ -100,44 +84,165 @@ export default function GoalProgress({ tracker }: GoalProgressProps) {
           Progress
         </CardTitle>
       </CardHeader>
-      <CardContent className="space-y-3">
-        {isLoading ? (
+      <CardContent className="space-y-6">
+        {isLoading || !goals ? (
           <div className="space-y-3">
             <Skeleton className="h-4 w-full" />
             <Skeleton className="h-2 w-full" />
             <Skeleton className="h-4 w-1/3" />
           </div>
-        ) : isError ? (
-          <p className="text-muted-foreground text-sm">Failed to load progress data.</p>
         ) : (
-          <>
-            {/* Period label + status badge */}
-            <div className="flex items-center justify-between">
-              <span className="text-muted-foreground text-sm">{label}</span>
-              {isGoalMet ? (
-                <Badge className="gap-1 bg-green-500 text-white">
-                  <CheckCircle2 className="size-3" />
-                  Goal reached! 🎉
-                </Badge>
-              ) : (
-                <Badge variant="secondary">{percentage}%</Badge>
-              )}
-            </div>
-
-            {/* Progress bar */}
-            <Progress
-              value={percentage}
-              className={isGoalMet ? "[&_[data-slot=progress-indicator]]:bg-green-500" : ""}
-            />
-
-            {/* Value text */}
-            <p className="text-sm font-medium">
-              {Number.isInteger(currentValue) ? currentValue : currentValue.toFixed(2)} /{" "}
-              {Number.isInteger(goalValue) ? goalValue : goalValue.toFixed(2)} {goalUnit}
-            </p>
-          </>
+          goals.map((goal) =>
+            editingId === goal.id ? (
+              <GoalForm
+                key={goal.id}
+                tracker={tracker}
+                goal={goal}
+                onSuccess={() => setEditingId(null)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <GoalRow
+                key={goal.id}
+                tracker={tracker}
+                goal={goal}
+                canEdit={canEdit}
+                onEdit={() => setEditingId(goal.id)}
+              />
+            )
+          )
         )}
       </CardContent>
     </Card>
   );
 }
+
+// ─── Goal row ─────────────────────────────────────────────────────────────────
+
+interface GoalRowProps {
+  tracker: Tracker;
+  goal: GoalWithProgress;
+  canEdit: boolean;
+  onEdit: () => void;
+}
+
+function GoalRow({ tracker, goal, canEdit, onEdit }: GoalRowProps) {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const [isRemoving, setIsRemoving] = useState(false);
+  const isStreak = goal.kind === "streak";
+  const isLimit = goal.kind === "max";
+  const goalUnit = goal.unit ?? "";
+
+  const { total, percentage, met, label } = goal.progress;
+  const isOverLimit = isLimit && !met;
+  const outlook = describeOutlook(goal);
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const res = await clearTrackerGoal(tracker.id, goal.id);
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      await queryClient.invalidateQueries({ queryKey: trackerKeys.detail(tracker.id) });
+      router.refresh();
+      toast.success("Goal removed");
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const history = goal.history.slice(-HISTORY_SHOWN);
+
+  return (
+    <div className="space-y-3">
+      {/* Goal label, status badge and owner actions */}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {isStreak
+            ? `${formatNumber(goal.value)}-day streak`
+            : `${isLimit ? "At most" : "At least"} ${formatNumber(goal.value)} ${goalUnit}`}
+          <span className="text-muted-foreground font-normal">
+            {" "}
+            · {isStreak ? "Current streak" : label}
+          </span>
+        </span>
+        <div className="flex items-center gap-1">
+          {isLimit ? (
+            isOverLimit ? (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="size-3" />
+                Over limit
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Within limit</Badge>
+            )
+          ) : met ? (
+            <Badge className="gap-1 bg-green-500 text-white">
+              <CheckCircle2 className="size-3" />
+              Goal reached! 🎉
+            </Badge>
+          ) : (
+            <Badge variant="secondary">{percentage}%</Badge>
+          )}
+          {canEdit && (
+            <>
+              <Button variant="ghost" size="icon" aria-label="Edit goal" onClick={onEdit}>
+                <Pencil className="size-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove goal"
+                disabled={isRemoving}
+                onClick={handleRemove}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Progress bar */}
+      <Progress
+        value={percentage}
+        className={
+          isOverLimit
+            ? "[&_[data-slot=progress-indicator]]:bg-red-500"
+            : met && !isLimit
+              ? "[&_[data-slot=progress-indicator]]:bg-green-500"
+              : ""
+        }
+      />
+
+      {/* Value text and outlook */}
+      <div className="flex flex-wrap items-baseline justify-between gap-x-4 text-sm">
+        <p>
+          {formatNumber(total)} / {formatNumber(goal.value)} {isStreak ? "days" : goalUnit}
+        </p>
+        {outlook && <p className="text-muted-foreground text-xs">{outlook}</p>}
+      </div>
+
+      {/* Past periods, oldest first */}
+      {history.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1" aria-label="Past periods">
+          {history.map((result) => (
+            <span
+              key={result.periodStart}
+              title={`${result.periodStart}: ${formatNumber(result.total)} (${
+                result.met ? "met" : "missed"
+              })`}
+              className={`size-3 rounded-sm ${result.met ? "bg-green-500" : "bg-red-400/70"}`}
+            />
+          ))}
+          <span className="text-muted-foreground ml-1 text-xs">
+            {history.filter((result) => result.met).length}/{history.length} met
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
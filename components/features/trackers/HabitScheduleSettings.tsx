@@ -0,0 +1,158 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import {
+  HABIT_SCHEDULE_KINDS,
+  type HabitScheduleConfig,
+  type HabitScheduleKind,
+} from "@/lib/trackers/habits";
+
+interface HabitScheduleSettingsProps {
+  value: HabitScheduleConfig | null;
+  onChange: (value: HabitScheduleConfig | null) => void;
+  error?: string;
+}
+
+const KIND_LABELS: Record<HabitScheduleKind, string> = {
+  weekdays: "On specific days",
+  weekly: "A number of times a week",
+  interval: "Every few days",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Local calendar date as "YYYY-MM-DD" */
+function toDateInput(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function defaultSchedule(kind: HabitScheduleKind): HabitScheduleConfig {
+  switch (kind) {
+    case "weekly":
+      return { kind, weekdays: [], timesPerWeek: 3 };
+    case "interval":
+      return { kind, weekdays: [], everyDays: 2, anchor: toDateInput(new Date()) };
+    default:
+      return { kind, weekdays: [1, 3, 5] };
+  }
+}
+
+/** Optional check-in schedule for OCCURRENCE trackers; null makes it a plain occurrence tracker */
+export default function HabitScheduleSettings({
+  value,
+  onChange,
+  error,
+}: HabitScheduleSettingsProps) {
+  const toggleWeekday = (day: number, checked: boolean) => {
+    if (!value) return;
+    const weekdays = checked
+      ? [...value.weekdays, day].sort((a, b) => a - b)
+      : value.weekdays.filter((d) => d !== day);
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="habit-enabled"
+          checked={value !== null}
+          onCheckedChange={(checked) =>
+            onChange(checked === true ? defaultSchedule("weekdays") : null)
+          }
+        />
+        <Label htmlFor="habit-enabled" className="font-normal">
+          Habit — only scheduled days count toward the streak
+        </Label>
+      </div>
+
+      {value && (
+        <div className="space-y-3">
+          <NativeSelect
+            aria-label="Schedule"
+            value={value.kind}
+            onChange={(e) => onChange(defaultSchedule(e.target.value as HabitScheduleKind))}
+            className="w-64"
+          >
+            {HABIT_SCHEDULE_KINDS.map((kind) => (
+              <NativeSelectOption key={kind} value={kind}>
+                {KIND_LABELS[kind]}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+
+          {value.kind === "weekdays" && (
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAYS.map((label, day) => (
+                <div key={label} className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`habit-day-${day}`}
+                    checked={value.weekdays.includes(day)}
+                    onCheckedChange={(checked) => toggleWeekday(day, checked === true)}
+                  />
+                  <Label htmlFor={`habit-day-${day}`} className="font-normal">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {value.kind === "weekly" && (
+            <div className="flex items-center gap-1.5">
+              <Input
+                id="habit-times-per-week"
+                aria-label="Times per week"
+                type="number"
+                min={1}
+                max={7}
+                step={1}
+                className="w-20"
+                value={
+                  value.timesPerWeek == null || Number.isNaN(value.timesPerWeek)
+                    ? ""
+                    : value.timesPerWeek
+                }
+                onChange={(e) => onChange({ ...value, timesPerWeek: e.target.valueAsNumber })}
+              />
+              <span className="text-muted-foreground text-xs">times a week</span>
+            </div>
+          )}
+
+          {value.kind === "interval" && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-muted-foreground text-xs">Every</span>
+              <Input
+                id="habit-every-days"
+                aria-label="Every how many days"
+                type="number"
+                min={2}
+                step={1}
+                className="w-20"
+                value={
+                  value.everyDays == null || Number.isNaN(value.everyDays) ? "" : value.everyDays
+                }
+                onChange={(e) => onChange({ ...value, everyDays: e.target.valueAsNumber })}
+              />
+              <span className="text-muted-foreground text-xs">days, starting</span>
+              <Input
+                id="habit-anchor"
+                aria-label="Starting on"
+                type="date"
+                className="w-40"
+                value={value.anchor ?? ""}
+                onChange={(e) => onChange({ ...value, anchor: e.target.value || null })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { AlertCircle, FileUp, Loader2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { NativeSelect, NativeSelectOption } from "@/components/ui/native-select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useImportEntriesMutation } from "@/hooks/useTrackerQuery";
+import { parseCsv } from "@/lib/csv";
+import {
+  ENTRY_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  mapImportRows,
+  type EntryImportField,
+  type EntryImportMapping,
+} from "@/lib/entry-import";
+import { formatDuration } from "@/lib/utils";
+import type { ImportEntriesResult } from "@/app/actions/entries";
+import { Tracker, TrackerType } from "@/types";
+
+const FIELD_LABELS: Record<EntryImportField, string> = {
+  date: "Date",
+  value: "Value",
+  startTime: "Start time",
+  endTime: "End time",
+  note: "Note",
+  tags: "Tags",
+  activeDuration: "Active duration",
+};
+
+const PREVIEW_ROWS = 5;
+const SHOWN_ERRORS = 20;
+
+type Step = "upload" | "mapping" | "result";
+
+interface ParsedFile {
+  name: string;
+  text: string;
+  headers: string[];
+  rows: string[][];
+}
+
+interface ImportEntriesDialogProps {
+  tracker: Tracker;
+}
+
+/**
+ * CSV import wizard: pick a file, map its columns to entry fields with a live
+ * preview and per-row errors, then import in bulk.
+ */
+export default function ImportEntriesDialog({ tracker }: ImportEntriesDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<EntryImportMapping | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [result, setResult] = useState<ImportEntriesResult | null>(null);
+  const importMutation = useImportEntriesMutation(tracker.id);
+  const fields = ENTRY_IMPORT_FIELDS.filter(
+    (field) => field !== "activeDuration" || tracker.type === TrackerType.TIMER
+  );
+
+  const mapped = useMemo(
+    () => (file && mapping ? mapImportRows(file.rows, mapping, tracker.type) : null),
+    [file, mapping, tracker.type]
+  );
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setMapping(null);
+    setSkipInvalid(false);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers || rows.length === 0) {
+      toast.error("The file has no data rows");
+      return;
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      toast.error(`The file has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS}`);
+      return;
+    }
+    setFile({ name: selected.name, text, headers, rows });
+    setMapping(guessColumnMapping(headers));
+    setStep("mapping");
+  };
+
+  const handleMappingChange = (field: EntryImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === "" ? null : Number(value) });
+  };
+
+  const handleImport = () => {
+    if (!file || !mapping) return;
+    importMutation.mutate(
+      { csv: file.text, mapping, skipInvalid },
+      {
+        onSuccess: (data) => {
+          setResult(data);
+          setStep("result");
+          if (data.imported > 0) {
+            toast.success(`Imported ${data.imported} entries`);
+            router.refresh();
+          }
+        },
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  };
+
+  const formatValue = (value: number | null) => {
+    if (value === null) return "—";
+    return tracker.type === TrackerType.TIMER ? formatDuration(value) : String(value);
+  };
+
+  const errorCount = mapped?.errors.length ?? 0;
+  const validCount = mapped?.entries.length ?? 0;
+  const canImport =
+    validCount > 0 && (errorCount === 0 || skipInvalid) && !importMutation.isPending;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <FileUp className="mr-2 h-4 w-4" />
+        Import CSV
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import entries</DialogTitle>
+            <DialogDescription>
+              Add entries to {tracker.name} from a CSV file. Files exported from a tracker can be
+              imported as-is.
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === "upload" && (
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV file</Label>
+              <input
+                id="import-file"
+                type="file"
+                accept="text/csv,.csv"
+                onChange={(e) => void handleFile(e.target.files?.[0])}
+                className="file:bg-muted file:text-foreground block w-full text-sm file:mr-3 file:rounded-md file:border-0 file:px-3 file:py-1.5 file:text-sm"
+              />
+              <p className="text-muted-foreground text-xs">
+                Expected columns: {fields.join(", ")}.
+                {tracker.type === TrackerType.TIMER &&
+                  " Timer entries need a start and end time; durations are calculated from them unless an activeDuration column gives the time excluding breaks."}
+              </p>
+            </div>
+          )}
+
+          {step === "mapping" && file && mapping && mapped && (
+            <div className="space-y-6">
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">Columns</h3>
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                  {fields.map((field) => (
+                    <div key={field} className="flex items-center justify-between gap-3">
+                      <Label htmlFor={`map-${field}`}>{FIELD_LABELS[field]}</Label>
+                      <NativeSelect
+                        id={`map-${field}`}
+                        size="sm"
+                        className="w-40"
+                        value={mapping[field] === null ? "" : String(mapping[field])}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                      >
+                        <NativeSelectOption value="">Not imported</NativeSelectOption>
+                        {file.headers.map((header, index) => (
+                          <NativeSelectOption key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </NativeSelectOption>
+                        ))}
+                      </NativeSelect>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Preview</h3>
+                {validCount === 0 ? (
+                  <p className="text-muted-foreground text-sm">No valid rows with this mapping.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Tags</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mapped.entries.slice(0, PREVIEW_ROWS).map((entry, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{entry.date.toLocaleString()}</TableCell>
+                          <TableCell>{formatValue(entry.value)}</TableCell>
+                          <TableCell className="max-w-40 truncate">{entry.note ?? "—"}</TableCell>
+                          <TableCell>{entry.tags.join(", ") || "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <p className="text-muted-foreground text-xs">
+                  {validCount} of {file.rows.length} rows ready to import from {file.name}.
+                </p>
+              </div>
+
+              {errorCount > 0 && (
+                <div className="space-y-3">
+                  <div className="border-destructive/40 bg-destructive/5 rounded-md border p-3">
+                    <p className="text-destructive flex items-center gap-2 text-sm font-medium">
+                      <AlertCircle className="h-4 w-4" />
+                      {errorCount} {errorCount === 1 ? "row has" : "rows have"} errors
+                    </p>
+                    <ul className="text-muted-foreground mt-2 space-y-1 text-xs">
+                      {mapped.errors.slice(0, SHOWN_ERRORS).map((error) => (
+                        <li key={error.row}>
+                          Row {error.row}: {error.message}
+                        </li>
+                      ))}
+                      {errorCount > SHOWN_ERRORS && <li>…and {errorCount - SHOWN_ERRORS} more</li>}
+                    </ul>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id="skip-invalid"
+                      checked={skipInvalid}
+                      onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                    />
+                    <Label htmlFor="skip-invalid">Skip rows with errors and import the rest</Label>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === "result" && result && (
+            <div className="space-y-2 text-sm">
+              <p>
+                Imported {result.imported} {result.imported === 1 ? "entry" : "entries"}
+                {result.skipped > 0 && `, skipped ${result.skipped}`}.
+              </p>
+              {result.imported === 0 && result.errors.length > 0 && (
+                <p className="text-muted-foreground">
+                  Nothing was imported because {result.errors.length} rows failed validation.
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === "mapping" && (
+              <>
+                <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={!canImport}>
+                  {importMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  Import {validCount} {validCount === 1 ? "entry" : "entries"}
+                </Button>
+              </>
+            )}
+            {step === "result" && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
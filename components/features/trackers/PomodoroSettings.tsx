@@ -0,0 +1,61 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_POMODORO } from "@/lib/trackers/pomodoro";
+import type { PomodoroConfig } from "@/types";
+
+interface PomodoroSettingsProps {
+  value: PomodoroConfig | null;
+  onChange: (value: PomodoroConfig | null) => void;
+  error?: string;
+}
+
+const INPUTS: { key: keyof PomodoroConfig; label: string; suffix: string }[] = [
+  { key: "workMinutes", label: "Work", suffix: "min" },
+  { key: "shortBreakMinutes", label: "Short break", suffix: "min" },
+  { key: "longBreakMinutes", label: "Long break", suffix: "min" },
+  { key: "cycles", label: "Long break every", suffix: "sessions" },
+];
+
+/** Optional Pomodoro timing for TIMER trackers; null turns Pomodoro mode off */
+export default function PomodoroSettings({ value, onChange, error }: PomodoroSettingsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="pomodoro-enabled"
+          checked={value !== null}
+          onCheckedChange={(checked) => onChange(checked === true ? DEFAULT_POMODORO : null)}
+        />
+        <Label htmlFor="pomodoro-enabled" className="font-normal">
+          Pomodoro mode — count down focus sessions with breaks in between
+        </Label>
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {INPUTS.map(({ key, label, suffix }) => (
+            <div key={key} className="space-y-1.5">
+              <Label htmlFor={`pomodoro-${key}`}>{label}</Label>
+              <div className="flex items-center gap-1.5">
+                <Input
+                  id={`pomodoro-${key}`}
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={Number.isNaN(value[key]) ? "" : value[key]}
+                  onChange={(e) => onChange({ ...value, [key]: e.target.valueAsNumber })}
+                />
+                <span className="text-muted-foreground text-xs">{suffix}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import Link from "next/link";
+import { Users } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSharedTrackersQuery } from "@/hooks/useTrackerSharesQuery";
+import { TrackerShareRole } from "@/types";
+
+/**
+ * "Shared with me" section. Renders nothing when no trackers are shared
+ * with the current user.
+ */
+export default function SharedTrackers() {
+  const { data: trackers, isLoading } = useSharedTrackersQuery();
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full rounded-lg" />;
+  }
+  if (!trackers || trackers.length === 0) return null;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Users className="text-primary h-5 w-5" />
+        <h2 className="text-xl font-semibold">Shared with me</h2>
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {trackers.map((tracker) => (
+          <Link
+            key={tracker.id}
+            href={`/trackers/${tracker.id}`}
+            className="bg-background border-border hover:border-primary block rounded-lg border p-4 transition-all hover:shadow-sm"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="truncate font-medium">{tracker.name}</h3>
+              <span className="bg-muted text-muted-foreground shrink-0 rounded px-1.5 py-0.5 text-xs">
+                {tracker.accessRole === TrackerShareRole.CONTRIBUTOR ? "Contributor" : "Viewer"}
+              </span>
+            </div>
+            <p className="text-muted-foreground mt-1 text-xs">
+              {tracker.type.charAt(0) + tracker.type.slice(1).toLowerCase()} &middot;{" "}
+              {tracker.entriesCount} entries
+            </p>
+            {tracker.sharedBy && (
+              <p className="text-muted-foreground mt-2 truncate text-xs">
+                Shared by {tracker.sharedBy.name || tracker.sharedBy.email}
+              </p>
+            )}
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
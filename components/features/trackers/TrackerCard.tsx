@@ -14,6 +14,8 @@ import { Button } from "@/components/ui/button";
 import {
   addCounterEntry,
   getEntriesByTracker,
+  pauseTimerEntry,
+  resumeTimerEntry,
   startTimerEntry,
   stopTimerEntry,
 } from "@/app/actions/entries";
@@ -25,6 +27,7 @@ import {
   Hash,
   PauseCircle,
   PlayCircle,
+  StopCircle,
   Plus,
   Minus,
   Calendar,
@@ -35,10 +38,13 @@ import {
   Archive,
   Pin,
   PinOff,
+  Sigma,
 } from "lucide-react";
 import Link from "next/link";
 import { useState, useEffect, useCallback } from "react";
-import { TrackerEntry } from "@/types";
+import { generateId, isOffline, useOfflineQueue } from "@/lib/offlineQueue";
+import { BreakSegment, TrackerEntry } from "@/types";
+import { activeSeconds, isTimerPaused } from "@/lib/trackers/timer";
 import { calculateContrastColor, formatDuration } from "@/lib/utils";
 import {
   DropdownMenu,
@@ -72,6 +78,7 @@ export default function TrackerCard({
   const [startTime, setStartTime] = useState<Date | null>(null);
   const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
+  const [breaks, setBreaks] = useState<BreakSegment[]>([]);
   const [isDuplicating, setIsDuplicating] = useState(false);
   const [isPinning, setIsPinning] = useState(false);
   const [isArchiving, setIsArchiving] = useState(false);
@@ -79,10 +86,7 @@ export default function TrackerCard({
   const router = useRouter();
 
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   // Sync counterValue when server data updates after router.refresh()
   useEffect(() => {
@@ -98,18 +102,21 @@ export default function TrackerCard({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tracker.id, tracker.type, tracker.status, new Date(tracker.updatedAt).getTime()]);
 
-  // Update timer display every second when running
+  const isPaused = isRunning && isTimerPaused({ startTime, endTime: null, breaks });
+
+  // Update timer display every second when running; breaks are excluded, so it holds while paused
   useEffect(() => {
     if (!isRunning || !startTime) return;
 
+    setElapsedTime(activeSeconds(startTime, new Date(), breaks));
+    if (isPaused) return;
+
     const interval = setInterval(() => {
-      const now = new Date();
-      const diff = Math.floor((now.getTime() - new Date(startTime).getTime()) / 1000);
-      setElapsedTime(diff);
+      setElapsedTime(activeSeconds(startTime, new Date(), breaks));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isRunning, startTime]);
+  }, [isRunning, isPaused, startTime, breaks]);
 
   // Fetch active timer entry if one exists
   const fetchActiveTimer = async () => {
@@ -130,19 +137,17 @@ export default function TrackerCard({
         if (activeEntry) {
           setActiveEntryId(activeEntry.id);
           setStartTime(new Date(activeEntry.startTime!));
+          setBreaks(activeEntry.breaks ?? []);
           setIsRunning(true);
 
-          // Calculate elapsed time
-          const now = new Date();
-          const diff = Math.floor(
-            (now.getTime() - new Date(activeEntry.startTime!).getTime()) / 1000
-          );
-          setElapsedTime(diff);
+          // Calculate elapsed active time
+          setElapsedTime(activeSeconds(activeEntry.startTime!, new Date(), activeEntry.breaks));
         } else {
           // No active entry found — ensure local state reflects stopped state
           setIsRunning(false);
           setActiveEntryId(null);
           setStartTime(null);
+          setBreaks([]);
         }
       }
     } catch (error) {
@@ -160,6 +165,8 @@ export default function TrackerCard({
         return <BadgeDollarSign />;
       case TrackerType.OCCURRENCE:
         return <CalendarRange />;
+      case TrackerType.DERIVED:
+        return <Sigma />;
       default:
         return <Columns3Cog />;
     }
@@ -178,6 +185,8 @@ export default function TrackerCard({
         return "Occurrence";
       case TrackerType.CUSTOM:
         return "Custom";
+      case TrackerType.DERIVED:
+        return "Derived";
       default:
         return "Unknown";
     }
@@ -200,8 +209,14 @@ export default function TrackerCard({
       if (response.success && response.data) {
         setActiveEntryId(response.data.id);
         setStartTime(new Date());
+        setBreaks([]);
         setIsRunning(true);
         setElapsedTime(0);
+        if (response.data.stopped.length > 0) {
+          toast.info("Stopped your other running timer");
+        }
+      } else if (!response.success) {
+        toast.error(response.error);
       }
     } catch (error) {
       console.error("Failed to start timer:", error);
@@ -220,6 +235,7 @@ export default function TrackerCard({
       setIsRunning(false);
       setActiveEntryId(null);
       setStartTime(null);
+      setBreaks([]);
       // After stopping, we should update the total time stat, but we'll let the server handle that
     } catch (error) {
       console.error("Failed to stop timer:", error);
@@ -228,12 +244,54 @@ export default function TrackerCard({
     }
   };
 
+  // Handle timer pause / resume
+  const handleTimerPauseToggle = async () => {
+    if (!activeEntryId) return;
+
+    setIsLoading(true);
+    try {
+      const response = isPaused
+        ? await resumeTimerEntry(activeEntryId)
+        : await pauseTimerEntry(activeEntryId);
+      if (response.success) {
+        const at = new Date(response.data.at);
+        setBreaks((prev) =>
+          response.data.paused
+            ? [...prev, { start: at, end: null }]
+            : [...prev.slice(0, -1), { ...prev[prev.length - 1], end: at }]
+        );
+      } else {
+        toast.error(response.error);
+      }
+    } catch (error) {
+      console.error("Failed to pause/resume timer:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Queue a counter change to sync once back online; the optimistic value stays.
+  // Reusing the key of a request that failed midway keeps it from counting twice.
+  const queueCounterChange = (value: number, idempotencyKey?: string) => {
+    useOfflineQueue
+      .getState()
+      .enqueue(
+        "addCounterEntry",
+        { trackerId: tracker.id, value },
+        `${tracker.name} ${value > 0 ? "+" : ""}${value}`,
+        idempotencyKey
+      );
+    toast.success("Saved offline – will sync when you're back online");
+  };
+
   // Handle counter increment
   const handleIncrement = async () => {
-    setIsLoading(true);
     setCounterValue((prev) => (prev ?? 0) + 1);
+    if (isOffline()) return queueCounterChange(1);
+    setIsLoading(true);
+    const idempotencyKey = generateId();
     try {
-      const response = await addCounterEntry(tracker.id, 1);
+      const response = await addCounterEntry(tracker.id, 1, "", new Date(), { idempotencyKey });
       if (response.success) {
         toast.success("Counter updated");
         router.refresh();
@@ -242,6 +300,7 @@ export default function TrackerCard({
         toast.error("Failed to update counter");
       }
     } catch (error) {
+      if (isOffline()) return queueCounterChange(1, idempotencyKey);
       setCounterValue((prev) => (prev ?? 1) - 1);
       console.error("Failed to increment counter:", error);
       toast.error("Failed to update counter");
@@ -252,10 +311,12 @@ export default function TrackerCard({
 
   // Handle counter decrement
   const handleDecrement = async () => {
-    setIsLoading(true);
     setCounterValue((prev) => (prev ?? 0) - 1);
+    if (isOffline()) return queueCounterChange(-1);
+    setIsLoading(true);
+    const idempotencyKey = generateId();
     try {
-      const response = await addCounterEntry(tracker.id, -1);
+      const response = await addCounterEntry(tracker.id, -1, "", new Date(), { idempotencyKey });
       if (response.success) {
         toast.success("Counter updated");
         router.refresh();
@@ -264,6 +325,7 @@ export default function TrackerCard({
         toast.error("Failed to update counter");
       }
     } catch (error) {
+      if (isOffline()) return queueCounterChange(-1, idempotencyKey);
       setCounterValue((prev) => (prev ?? 0) + 1);
       console.error("Failed to decrement counter:", error);
       toast.error("Failed to update counter");
@@ -343,17 +405,34 @@ export default function TrackerCard({
         return (
           <div className="flex space-x-2">
             {isRunning ? (
-              <Button
-                size="icon"
-                variant="outline"
-                onClick={handleTimerStop}
-                disabled={isLoading || !activeEntryId}
-                className="size-8"
-                title="Stop Timer"
-                aria-label="Stop Timer"
-              >
-                <PauseCircle className="mr-1 size-4 text-red-500" />
-              </Button>
+              <>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={handleTimerPauseToggle}
+                  disabled={isLoading || !activeEntryId}
+                  className="size-8"
+                  title={isPaused ? "Resume Timer" : "Pause Timer"}
+                  aria-label={isPaused ? "Resume Timer" : "Pause Timer"}
+                >
+                  {isPaused ? (
+                    <PlayCircle className="mr-1 size-4" />
+                  ) : (
+                    <PauseCircle className="mr-1 size-4" />
+                  )}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={handleTimerStop}
+                  disabled={isLoading || !activeEntryId}
+                  className="size-8"
+                  title="Stop Timer"
+                  aria-label="Stop Timer"
+                >
+                  <StopCircle className="mr-1 size-4 text-red-500" />
+                </Button>
+              </>
             ) : (
               <Button
                 size="icon"
@@ -431,9 +510,10 @@ export default function TrackerCard({
                   className="text-primary mt-1 ml-1 text-xs font-medium"
                   aria-live="polite"
                   aria-atomic="true"
-                  aria-label={`Elapsed: ${formatDuration(elapsedTime)}`}
+                  aria-label={`${isPaused ? "Paused at" : "Elapsed"}: ${formatDuration(elapsedTime)}`}
                 >
                   {formatDuration(elapsedTime)}
+                  {isPaused && " (paused)"}
                 </span>
               )}
             </div>
@@ -496,6 +576,15 @@ export default function TrackerCard({
           </div>
         );
       }
+      case TrackerType.DERIVED:
+        return (
+          <div>
+            <div className="text-secondary text-lg">
+              {hasPeriodData ? Number((periodValue ?? 0).toFixed(2)) : "—"}
+            </div>
+            <div className="text-muted-foreground text-xs">{periodLabel}</div>
+          </div>
+        );
       default:
         return <div></div>;
     }
@@ -11,6 +11,9 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/
 import type { ChartConfig } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 import { BarChart2, AlertCircle, X } from "lucide-react";
+import { useExchangeRatesQuery } from "@/hooks/useExchangeRatesQuery";
+import { conversionFactor, toExchangeRates, unitDimension, UNITS } from "@/lib/units";
+import UnitSelect from "./UnitSelect";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -59,6 +62,8 @@ interface TrackerComparisonProps {}
 
 export default function TrackerComparison(_props: TrackerComparisonProps) {
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [normalizeUnit, setNormalizeUnit] = useState<string | null>(null);
+  const { data: exchangeRates } = useExchangeRatesQuery();
 
   // ── Fetch all trackers (high limit so the full list is available) ───────
   const {
@@ -80,8 +85,7 @@ export default function TrackerComparison(_props: TrackerComparisonProps) {
     queries: selectedIds.map((id) => ({
       queryKey: ["trackerStats", id] as const,
       queryFn: async (): Promise<StatsData> => {
-        const timezoneOffset = new Date().getTimezoneOffset();
-        const r = await getTrackerStats(id, timezoneOffset);
+        const r = await getTrackerStats(id);
         if (!r.success) throw new Error(r.error);
         return { id, ...r.data };
       },
@@ -106,14 +110,35 @@ export default function TrackerComparison(_props: TrackerComparisonProps) {
 
   const canSelectMore = selectedIds.length < MAX_TRACKERS;
 
+  // ── Unit normalization ──────────────────────────────────────────────────
+  // Trackers with units can be shown in one common unit; ones that can't be
+  // converted to it are left out rather than mixed in unconverted.
+  const unitOf = (id: string) => trackers?.find((t) => t.id === id)?.unit ?? null;
+  const normalizeOptions = UNITS.filter((unit) =>
+    selectedIds.some((id) => unitDimension(unitOf(id)) === unit.dimension)
+  );
+  const activeUnit = normalizeOptions.some((unit) => unit.code === normalizeUnit)
+    ? normalizeUnit
+    : null;
+  const rates = exchangeRates ? toExchangeRates(exchangeRates) : null;
+  const factorFor = (id: string): number | null => {
+    if (!activeUnit) return 1;
+    const unit = unitOf(id);
+    return unit ? conversionFactor(unit, activeUnit, rates) : null;
+  };
+  const unconvertedIds = selectedIds.filter((id) => factorFor(id) === null);
+
   // Only render bars for IDs that actually have data (skip pending/errored).
-  const renderableIds = selectedIds.filter((id) => statsById[id] !== undefined);
+  const renderableIds = selectedIds.filter(
+    (id) => statsById[id] !== undefined && factorFor(id) !== null
+  );
 
   // Chart data: each row is a period; columns keyed by tracker ID (stable).
   const chartData: Record<string, string | number>[] = PERIODS.map(({ label, key }) => {
     const entry: Record<string, string | number> = { period: label };
     renderableIds.forEach((id) => {
-      entry[id] = statsById[id]?.[key] ?? 0;
+      const value = (statsById[id]?.[key] ?? 0) * (factorFor(id) ?? 1);
+      entry[id] = Math.round(value * 100) / 100;
     });
     return entry;
   });
@@ -228,10 +253,22 @@ export default function TrackerComparison(_props: TrackerComparisonProps) {
       {/* ── Comparison Chart ──────────────────────────────────────────── */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-base">
-            <BarChart2 className="h-5 w-5" />
-            Activity Comparison
-          </CardTitle>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <BarChart2 className="h-5 w-5" />
+              Activity Comparison
+            </CardTitle>
+            {normalizeOptions.length > 0 && (
+              <UnitSelect
+                aria-label="Normalize to"
+                value={activeUnit}
+                onChange={setNormalizeUnit}
+                units={normalizeOptions}
+                noneLabel="As logged"
+                className="w-44"
+              />
+            )}
+          </div>
         </CardHeader>
 
         <CardContent>
@@ -249,6 +286,15 @@ export default function TrackerComparison(_props: TrackerComparisonProps) {
             </div>
           )}
 
+          {activeUnit && unconvertedIds.length > 0 && (
+            <p className="text-muted-foreground mb-4 text-sm">
+              Not shown in {activeUnit}:{" "}
+              {unconvertedIds
+                .map((id) => trackers?.find((t) => t.id === id)?.name ?? id)
+                .join(", ")}
+            </p>
+          )}
+
           {selectedIds.length < 2 ? (
             <div className="flex h-48 items-center justify-center">
               <p className="text-muted-foreground max-w-xs text-center text-sm">
@@ -264,7 +310,7 @@ export default function TrackerComparison(_props: TrackerComparisonProps) {
               <BarChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="period" />
-                <YAxis allowDecimals={false} />
+                <YAxis allowDecimals={activeUnit !== null} />
                 <ChartTooltip content={<ChartTooltipContent />} />
                 {renderableIds.map((id, idx) => {
                   const tracker = trackers?.find((t) => t.id === id);
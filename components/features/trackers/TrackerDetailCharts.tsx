@@ -36,7 +36,12 @@ export default function TrackerDetailCharts({
   return (
     <>
       <TrackerStatsChart trackerId={trackerId} trackerType={trackerType} />
-      <TrendChart trackerId={trackerId} trackerType={trackerType} />
+      <TrendChart
+        trackerId={trackerId}
+        trackerType={trackerType}
+        fields={tracker.fields}
+        unit={tracker.unit}
+      />
       <CalendarHeatmap tracker={tracker} />
     </>
   );
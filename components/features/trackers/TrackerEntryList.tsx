@@ -18,6 +18,7 @@ interface TrackerEntryListProps {
 /**
  * Shared entry list component with loading spinner, empty state, and pagination.
  * Accepts a `renderItem` function for tracker-type-specific entry rendering.
+ * Entries logged by someone other than the owner are attributed below the item.
  */
 export default function TrackerEntryList({
   entries,
@@ -40,7 +41,20 @@ export default function TrackerEntryList({
         </div>
       ) : entries.length > 0 ? (
         <>
-          <div className="space-y-3">{entries.map((entry) => renderItem(entry))}</div>
+          <div className="space-y-3">
+            {entries.map((entry) =>
+              entry.createdBy ? (
+                <div key={entry.id}>
+                  {renderItem(entry)}
+                  <p className="text-muted-foreground mt-1 px-1 text-xs">
+                    Added by {entry.createdBy.name || entry.createdBy.email}
+                  </p>
+                </div>
+              ) : (
+                renderItem(entry)
+              )
+            )}
+          </div>
           <EntryPagination
             currentPage={currentPage}
             currentLimit={currentLimit}
@@ -135,6 +135,7 @@ export default function TrackerFilters({
             <option value={TrackerType.AMOUNT}>Amount</option>
             <option value={TrackerType.OCCURRENCE}>Occurrence</option>
             <option value={TrackerType.CUSTOM}>Custom</option>
+            <option value={TrackerType.DERIVED}>Derived</option>
           </select>
 
           {/* Sort order */}
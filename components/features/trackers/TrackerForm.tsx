@@ -7,6 +7,7 @@ import { z } from "zod";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
+  CUSTOM_FIELD_TYPE_VALUES,
   TRACKER_STATUS_VALUES,
   TRACKER_TYPE_VALUES,
   Tracker,
@@ -14,6 +15,15 @@ import {
   TrackerStatus,
 } from "@/types";
 import { createTracker, updateTracker, type CreateTrackerInput } from "@/app/actions/trackers";
+import { PomodoroConfigSchema } from "@/lib/trackers/pomodoro";
+import { HabitScheduleSchema, parseHabitSchedule } from "@/lib/trackers/habits";
+import { tracksUnits } from "@/lib/units";
+import { DerivedFormulaSchema } from "@/lib/trackers/formula";
+import CustomFieldsEditor, { fromFieldDrafts, toFieldDrafts } from "./CustomFieldsEditor";
+import PomodoroSettings from "./PomodoroSettings";
+import HabitScheduleSettings from "./HabitScheduleSettings";
+import UnitSelect from "./UnitSelect";
+import FormulaSettings from "./FormulaSettings";
 
 // Schema for form validation
 const formSchema = z.object({
@@ -27,6 +37,25 @@ const formSchema = z.object({
     .regex(/^#([0-9a-f]{3}){1,2}$/i, "Invalid color format")
     .optional(),
   icon: z.string().optional(),
+  fields: z.array(
+    z
+      .object({
+        key: z.string(),
+        label: z.string().trim().min(1, "Field label is required").max(50),
+        type: z.enum(CUSTOM_FIELD_TYPE_VALUES),
+        options: z.string(),
+        unit: z.string(),
+        required: z.boolean(),
+      })
+      .refine((field) => field.type !== "select" || field.options.trim() !== "", {
+        message: "Select fields need at least one option",
+        path: ["options"],
+      })
+  ),
+  pomodoro: PomodoroConfigSchema.nullable(),
+  schedule: HabitScheduleSchema.nullable(),
+  unit: z.string().nullable(),
+  formula: DerivedFormulaSchema.nullable(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -48,7 +77,7 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
   const {
     register,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, isSubmitted },
     setValue,
     watch,
     reset,
@@ -63,6 +92,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
           tags: initialData.tags || [],
           color: initialData.color || "#3B82F6",
           icon: initialData.icon || "",
+          fields: toFieldDrafts(initialData.fields),
+          pomodoro: initialData.pomodoro ?? null,
+          schedule: parseHabitSchedule(initialData.schedule),
+          unit: initialData.unit ?? null,
+          formula: initialData.formula ?? null,
         }
       : {
           name: "",
@@ -71,6 +105,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
           status: TrackerStatus.ACTIVE,
           tags: [],
           color: "#3B82F6",
+          fields: [],
+          pomodoro: null,
+          schedule: null,
+          unit: null,
+          formula: null,
         },
   });
 
@@ -84,6 +123,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
         tags: initialData.tags || [],
         color: initialData.color || "#3B82F6",
         icon: initialData.icon || "",
+        fields: toFieldDrafts(initialData.fields),
+        pomodoro: initialData.pomodoro ?? null,
+        schedule: parseHabitSchedule(initialData.schedule),
+        unit: initialData.unit ?? null,
+        formula: initialData.formula ?? null,
       });
     } else {
       reset({
@@ -93,6 +137,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
         status: TrackerStatus.ACTIVE,
         tags: [],
         color: "#3B82F6",
+        fields: [],
+        pomodoro: null,
+        schedule: null,
+        unit: null,
+        formula: null,
       });
     }
   }, [initialData, reset]);
@@ -114,6 +163,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
           tags: data.tags,
           color: data.color,
           icon: data.icon,
+          ...(data.type === TrackerType.CUSTOM && { fields: fromFieldDrafts(data.fields) }),
+          ...(data.type === TrackerType.TIMER && { pomodoro: data.pomodoro }),
+          ...(data.type === TrackerType.OCCURRENCE && { schedule: data.schedule }),
+          ...(tracksUnits(data.type) && { unit: data.unit }),
+          ...(data.type === TrackerType.DERIVED && { formula: data.formula }),
         };
         result = await updateTracker(trackerId, updateData);
       } else {
@@ -124,6 +178,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
           tags: data.tags,
           color: data.color,
           icon: data.icon,
+          ...(data.type === TrackerType.CUSTOM && { fields: fromFieldDrafts(data.fields) }),
+          ...(data.type === TrackerType.TIMER && { pomodoro: data.pomodoro }),
+          ...(data.type === TrackerType.OCCURRENCE && { schedule: data.schedule }),
+          ...(tracksUnits(data.type) && { unit: data.unit }),
+          ...(data.type === TrackerType.DERIVED && { formula: data.formula }),
         };
         result = await createTracker(createData);
       }
@@ -157,6 +216,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
             tags: initialData.tags || [],
             color: initialData.color || "#3B82F6",
             icon: initialData.icon || "",
+            fields: toFieldDrafts(initialData.fields),
+            pomodoro: initialData.pomodoro ?? null,
+            schedule: parseHabitSchedule(initialData.schedule),
+            unit: initialData.unit ?? null,
+            formula: initialData.formula ?? null,
           }
         : {
             name: "",
@@ -165,6 +229,11 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
             status: TrackerStatus.ACTIVE,
             tags: [],
             color: "#3B82F6",
+            fields: [],
+            pomodoro: null,
+            schedule: null,
+            unit: null,
+            formula: null,
           }
     );
     setError(null);
@@ -249,6 +318,7 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
           <option value={TrackerType.AMOUNT}>Amount - Track numerical values</option>
           <option value={TrackerType.OCCURRENCE}>Occurrence - Track events</option>
           <option value={TrackerType.CUSTOM}>Custom - Custom tracking</option>
+          <option value={TrackerType.DERIVED}>Derived - Formula over other trackers</option>
         </select>
         {errors.type && <p className="mt-1 text-sm text-red-600">{errors.type.message}</p>}
         {isEditing && (
@@ -258,6 +328,97 @@ export default function TrackerForm({ initialData, trackerId, onSuccess }: Track
         )}
       </div>
 
+      {formValues.type === TrackerType.CUSTOM && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium">Entry fields</span>
+          <CustomFieldsEditor
+            value={formValues.fields ?? []}
+            onChange={(fields) => setValue("fields", fields, { shouldValidate: isSubmitted })}
+            errors={(formValues.fields ?? []).map(
+              (_, index) =>
+                errors.fields?.[index]?.label?.message ??
+                errors.fields?.[index]?.options?.message ??
+                ""
+            )}
+          />
+          {isEditing && (
+            <p className="text-muted-foreground text-xs">
+              Removing a field hides its values on existing entries; renaming keeps them.
+            </p>
+          )}
+        </div>
+      )}
+
+      {formValues.type === TrackerType.TIMER && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium">Pomodoro</span>
+          <PomodoroSettings
+            value={formValues.pomodoro ?? null}
+            onChange={(pomodoro) => setValue("pomodoro", pomodoro, { shouldValidate: isSubmitted })}
+            error={
+              errors.pomodoro?.workMinutes?.message ??
+              errors.pomodoro?.shortBreakMinutes?.message ??
+              errors.pomodoro?.longBreakMinutes?.message ??
+              errors.pomodoro?.cycles?.message
+            }
+          />
+        </div>
+      )}
+
+      {formValues.type === TrackerType.OCCURRENCE && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium">Habit schedule</span>
+          <HabitScheduleSettings
+            value={formValues.schedule ?? null}
+            onChange={(schedule) => setValue("schedule", schedule, { shouldValidate: isSubmitted })}
+            error={
+              errors.schedule?.weekdays?.message ??
+              errors.schedule?.timesPerWeek?.message ??
+              errors.schedule?.everyDays?.message ??
+              errors.schedule?.anchor?.message
+            }
+          />
+        </div>
+      )}
+
+      {tracksUnits(formValues.type) && (
+        <div className="space-y-2">
+          <label htmlFor="unit" className="block text-sm font-medium">
+            Unit
+          </label>
+          <UnitSelect
+            id="unit"
+            value={formValues.unit ?? null}
+            onChange={(unit) => setValue("unit", unit)}
+            noneLabel="No unit"
+            className="w-full"
+          />
+          {isEditing && (
+            <p className="text-muted-foreground text-xs">
+              Changing the unit converts the values already logged.
+            </p>
+          )}
+        </div>
+      )}
+
+      {formValues.type === TrackerType.DERIVED && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium">Formula</span>
+          <FormulaSettings
+            value={formValues.formula ?? null}
+            onChange={(formula) => setValue("formula", formula, { shouldValidate: isSubmitted })}
+            trackerId={trackerId}
+            error={
+              errors.formula?.message ??
+              errors.formula?.expression?.message ??
+              errors.formula?.inputs?.message ??
+              errors.formula?.inputs?.find?.((input) => input)?.trackerId?.message ??
+              errors.formula?.inputs?.find?.((input) => input)?.name?.message
+            }
+          />
+        </div>
+      )}
+
       {isEditing && (
         <div className="space-y-2">
           <label htmlFor="status" className="block text-sm font-medium">
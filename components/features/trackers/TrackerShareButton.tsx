@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { Loader2, Share2, UserMinus, UserPlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useTrackerSharesQuery,
+  useShareTrackerMutation,
+  useUpdateTrackerShareRoleMutation,
+  useRemoveTrackerShareMutation,
+} from "@/hooks/useTrackerSharesQuery";
+import { Tracker, TrackerShare, TrackerShareRole } from "@/types";
+
+const ROLE_LABELS: Record<TrackerShareRole, string> = {
+  VIEWER: "Viewer",
+  CONTRIBUTOR: "Contributor",
+};
+
+interface TrackerShareButtonProps {
+  tracker: Tracker;
+}
+
+/**
+ * Share button + dialog. Owners invite and manage people; recipients see who
+ * else has access and can leave.
+ */
+export default function TrackerShareButton({ tracker }: TrackerShareButtonProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<TrackerShareRole>(TrackerShareRole.VIEWER);
+
+  const isOwner = !tracker.accessRole || tracker.accessRole === "OWNER";
+  const { data: shares, isLoading } = useTrackerSharesQuery(tracker.id, open);
+  const shareMutation = useShareTrackerMutation(tracker.id);
+  const roleMutation = useUpdateTrackerShareRoleMutation(tracker.id);
+  const removeMutation = useRemoveTrackerShareMutation(tracker.id);
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    shareMutation.mutate(
+      { email, role },
+      {
+        onSuccess: (share) => {
+          toast.success(`Shared with ${share.user.name || share.user.email}`);
+          setEmail("");
+        },
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  };
+
+  const handleRemove = (share: TrackerShare) => {
+    const isSelf = share.userId === session?.user?.id;
+    removeMutation.mutate(share.id, {
+      onSuccess: () => {
+        if (isSelf) {
+          toast.success("Removed from your shared trackers");
+          setOpen(false);
+          router.push("/trackers");
+          router.refresh();
+        } else {
+          toast.success("Access removed");
+        }
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Share2 className="h-4 w-4" />
+        Share
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Share &ldquo;{tracker.name}&rdquo;</DialogTitle>
+            <DialogDescription>
+              Viewers can see entries and statistics. Contributors can also log entries.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isOwner ? (
+            <form onSubmit={handleShare} className="space-y-2">
+              <Label htmlFor="share-email">Share by email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="share-email"
+                  type="email"
+                  placeholder="someone@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="flex-1"
+                />
+                <Select value={role} onValueChange={(v) => setRole(v as TrackerShareRole)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TrackerShareRole.VIEWER}>Viewer</SelectItem>
+                    <SelectItem value={TrackerShareRole.CONTRIBUTOR}>Contributor</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!email.trim() || shareMutation.isPending}>
+                  {shareMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <UserPlus className="h-4 w-4" />
+                  )}
+                  Share
+                </Button>
+              </div>
+            </form>
+          ) : (
+            tracker.sharedBy && (
+              <p className="text-muted-foreground text-sm">
+                Owned by {tracker.sharedBy.name || tracker.sharedBy.email}
+              </p>
+            )
+          )}
+
+          <div className="space-y-1">
+            <h4 className="text-muted-foreground text-xs font-semibold tracking-wide uppercase">
+              People with access
+            </h4>
+            {isLoading ? (
+              <div className="text-muted-foreground flex items-center gap-2 py-4 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading...
+              </div>
+            ) : shares && shares.length > 0 ? (
+              <ul className="divide-border/50 divide-y">
+                {shares.map((share) => {
+                  const isSelf = share.userId === session?.user?.id;
+                  return (
+                    <li key={share.id} className="flex items-center gap-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">
+                          {share.user.name || share.user.email}
+                          {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                        </p>
+                        {share.user.name && (
+                          <p className="text-muted-foreground truncate text-xs">
+                            {share.user.email}
+                          </p>
+                        )}
+                      </div>
+                      {isOwner ? (
+                        <Select
+                          value={share.role}
+                          onValueChange={(value) =>
+                            roleMutation.mutate(
+                              { shareId: share.id, role: value as TrackerShareRole },
+                              { onError: (err) => toast.error(err.message) }
+                            )
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={TrackerShareRole.VIEWER}>Viewer</SelectItem>
+                            <SelectItem value={TrackerShareRole.CONTRIBUTOR}>
+                              Contributor
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-muted-foreground text-xs font-medium">
+                          {ROLE_LABELS[share.role]}
+                        </span>
+                      )}
+                      {(isOwner || isSelf) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleRemove(share)}
+                          disabled={removeMutation.isPending}
+                          aria-label={isSelf ? "Leave tracker" : `Remove ${share.user.email}`}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground py-2 text-sm">Not shared with anyone yet.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -44,7 +44,7 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
   const seriesLabel = React.useMemo(() => {
     switch (trackerType) {
       case TrackerType.TIMER:
-        return "Duration (s)";
+        return "Active time (s)";
       case TrackerType.COUNTER:
         return "Count";
       case TrackerType.AMOUNT:
@@ -78,8 +78,7 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
     queryKey: ["trackerStats", trackerId, period],
     enabled: period !== "custom",
     queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getTrackerStats(trackerId, timezoneOffset);
+      const res = await getTrackerStats(trackerId);
       if (!res.success) throw new Error(res.error);
       return res.data;
     },
@@ -90,9 +89,8 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
     queryKey: ["trackerTrend", trackerId, "custom", customStart, customEnd],
     enabled: period === "custom" && !!customStart && !!customEnd && customStart <= customEnd,
     queryFn: async () => {
-      // Use string dates and pass browser timezone offset so server can accurately resolve the local day boundaries
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getTrackerTrend(trackerId, customStart, customEnd, timezoneOffset);
+      // Dates are resolved to local day boundaries server-side using the profile time zone
+      const res = await getTrackerTrend(trackerId, customStart, customEnd);
       if (!res.success) throw new Error(res.error);
       const total = res.data.reduce((sum, d) => sum + d.value, 0);
       return total;
@@ -111,13 +109,15 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
     }
     const d = presetQuery.data;
     if (!d) return [];
-    if (period === "today") return [{ period: "Today", count: d.today }];
-    if (period === "week") return [{ period: "This Week", count: d.week }];
-    return [
-      { period: "Today", count: d.today },
-      { period: "This Week", count: d.week },
-      { period: "This Month", count: d.month },
-    ];
+    // Timers also get a wall-clock bar (active time + breaks)
+    const point = (label: string, key: "today" | "week" | "month") => ({
+      period: label,
+      count: d[key],
+      ...(d.wallClock && { wallClock: d.wallClock[key] }),
+    });
+    if (period === "today") return [point("Today", "today")];
+    if (period === "week") return [point("This Week", "week")];
+    return [point("Today", "today"), point("This Week", "week"), point("This Month", "month")];
   }, [period, presetQuery.data, customQuery.data, customStart, customEnd]);
 
   return (
@@ -165,7 +165,10 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
       ) : (
         <ChartContainer
           id={`tracker-stats-${trackerId}`}
-          config={{ count: { label: seriesLabel, color: "#10B981" } }}
+          config={{
+            count: { label: seriesLabel, color: "#10B981" },
+            wallClock: { label: "Wall clock", color: "#94A3B8" },
+          }}
           className="h-64 w-full"
         >
           <BarChart data={stats} margin={{ top: 20, right: 30, left: 20, bottom: 25 }}>
@@ -177,6 +180,9 @@ export default function TrackerStatsChart({ trackerId, trackerType }: TrackerSta
             />
             <ChartTooltip formatter={tooltipFormatter} />
             <Bar dataKey="count" fill="var(--color-count)" />
+            {trackerType === TrackerType.TIMER && period !== "custom" && (
+              <Bar dataKey="wallClock" fill="var(--color-wallClock)" />
+            )}
           </BarChart>
         </ChartContainer>
       )}
@@ -1,11 +1,13 @@
 "use client";
 
-import { Tracker, TrackerType } from "@/types";
+import { Tracker, TrackerShareRole, TrackerType } from "@/types";
 import TimerTracker from "./types/TimerTracker";
 import CounterTracker from "./types/CounterTracker";
 import AmountTracker from "./types/AmountTracker";
 import OccurrenceTracker from "./types/OccurrenceTracker";
 import CustomTracker from "./types/CustomTracker";
+import DerivedTracker from "./types/DerivedTracker";
+import ReadOnlyTracker from "./types/ReadOnlyTracker";
 
 interface TrackerViewProps {
   tracker: Tracker;
@@ -17,6 +19,14 @@ interface TrackerViewProps {
  */
 export default function TrackerView( { tracker, onUpdate }: TrackerViewProps ) {
   const renderTrackerByType = () => {
+    // Derived trackers have nothing to log, so every role sees the same view
+    if ( tracker.type === TrackerType.DERIVED ) {
+      return <DerivedTracker tracker={tracker} />;
+    }
+    // Viewers only get the entry history, not the logging controls
+    if ( tracker.accessRole === TrackerShareRole.VIEWER ) {
+      return <ReadOnlyTracker tracker={tracker} />;
+    }
     switch ( tracker.type ) {
       case TrackerType.TIMER:
         return <TimerTracker tracker={tracker} onUpdate={onUpdate} />;
@@ -1,24 +1,30 @@
 "use client";
 import React from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getTrackerTrend } from "@/app/actions/entries";
-import { TrackerType } from "@/types";
+import { getTrackerTrend, type TrendPoint } from "@/app/actions/entries";
+import { CustomFieldType, TrackerType, type CustomField } from "@/types";
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid } from "recharts";
 import { formatDuration } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
+import { isNumericField, MAX_RATING } from "@/lib/trackers/custom-fields";
+import { compatibleUnits, convertValue, formatUnitValue, toExchangeRates } from "@/lib/units";
+import { useExchangeRatesQuery } from "@/hooks/useExchangeRatesQuery";
+import UnitSelect from "./UnitSelect";
 
 type WindowDays = 7 | 30 | 90;
 
 interface TrendChartProps {
   trackerId: string;
   trackerType: TrackerType;
+  /** CUSTOM tracker fields; each numeric field can be charted as its own series */
+  fields?: CustomField[];
+  /** Unit the tracker's values are stored in; the chart can show them in a compatible one */
+  unit?: string | null;
 }
 
-interface TrendPoint {
-  date: string; // "YYYY-MM-DD"
-  value: number;
-}
+/** "value" charts entries per day; otherwise the key of a numeric custom field */
+type Series = "value" | (string & {});
 
 /** Format a Date as "YYYY-MM-DD" using LOCAL calendar day (not UTC). */
 function toLocalDateStr(date: Date): string {
@@ -62,14 +68,39 @@ function formatValue(value: number, trackerType: TrackerType): string {
   }
 }
 
+function formatFieldValue(value: number, field: CustomField): string {
+  switch (field.type) {
+    case CustomFieldType.DURATION:
+      return formatDuration(value);
+    case CustomFieldType.RATING:
+      return `${Math.round(value * 10) / 10}/${MAX_RATING}`;
+    default:
+      return field.unit ? `${value.toLocaleString()} ${field.unit}` : value.toLocaleString();
+  }
+}
+
 // Tick interval so we show at most ~7 labels on the X axis
 function tickInterval(totalPoints: number): number {
   if (totalPoints <= 7) return 0;
   return Math.ceil(totalPoints / 7) - 1;
 }
 
-export default function TrendChart({ trackerId, trackerType }: TrendChartProps) {
+export default function TrendChart({
+  trackerId,
+  trackerType,
+  fields = [],
+  unit = null,
+}: TrendChartProps) {
   const [windowDays, setWindowDays] = React.useState<WindowDays>(30);
+  const [series, setSeries] = React.useState<Series>("value");
+  const [displayUnit, setDisplayUnit] = React.useState<string | null>(unit);
+  const { data: rates } = useExchangeRatesQuery();
+
+  const numericFields = React.useMemo(
+    () => (trackerType === TrackerType.CUSTOM ? fields.filter(isNumericField) : []),
+    [fields, trackerType]
+  );
+  const seriesField = numericFields.find((field) => field.key === series);
 
   const { startDate, endDate } = React.useMemo(() => {
     const end = new Date();
@@ -83,19 +114,50 @@ export default function TrendChart({ trackerId, trackerType }: TrendChartProps)
   const { data, isLoading, isError } = useQuery<TrendPoint[], Error>({
     queryKey: ["trackerTrend", trackerId, windowDays],
     queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getTrackerTrend(trackerId, startDate, endDate, timezoneOffset);
+      const res = await getTrackerTrend(trackerId, startDate, endDate);
       if (!res.success) throw new Error(res.error);
       return res.data;
     },
   });
 
-  const yLabel = getYAxisLabel(trackerType);
+  // Values in the tracker's unit, converted for display when another unit is picked
+  const shownUnit =
+    unit &&
+    displayUnit &&
+    convertValue(1, unit, displayUnit, rates && toExchangeRates(rates)) !== null
+      ? displayUnit
+      : unit;
+
+  const chartData = React.useMemo(() => {
+    if (seriesField) {
+      return data?.map((point) => ({
+        date: point.date,
+        value: point.fields?.[seriesField.key] ?? 0,
+      }));
+    }
+    if (!unit || !shownUnit || shownUnit === unit) return data;
+    const exchangeRates = rates && toExchangeRates(rates);
+    return data?.map((point) => ({
+      ...point,
+      value: convertValue(point.value, unit, shownUnit, exchangeRates) ?? point.value,
+    }));
+  }, [data, seriesField, unit, shownUnit, rates]);
+
+  const yLabel = seriesField
+    ? seriesField.label
+    : shownUnit
+      ? `${getYAxisLabel(trackerType)} (${shownUnit})`
+      : getYAxisLabel(trackerType);
   const gradientId = `trend-gradient-${trackerId}`;
 
   const customTooltipFormatter = React.useCallback(
-    (value: number) => formatValue(value, trackerType),
-    [trackerType]
+    (value: number) =>
+      seriesField
+        ? formatFieldValue(value, seriesField)
+        : shownUnit
+          ? formatUnitValue(value, shownUnit)
+          : formatValue(value, trackerType),
+    [seriesField, shownUnit, trackerType]
   );
 
   const windowOptions: WindowDays[] = [7, 30, 90];
@@ -118,8 +180,38 @@ export default function TrendChart({ trackerId, trackerType }: TrendChartProps)
             {days} days
           </button>
         ))}
+        {unit && compatibleUnits(unit).length > 1 && (
+          <UnitSelect
+            aria-label="Show in"
+            value={shownUnit}
+            onChange={setDisplayUnit}
+            units={compatibleUnits(unit)}
+            className="ml-auto w-40"
+          />
+        )}
       </div>
 
+      {/* Series selector for CUSTOM trackers with numeric fields */}
+      {numericFields.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Chart series">
+          {[{ key: "value", label: "Entries" }, ...numericFields].map((option) => (
+            <button
+              key={option.key}
+              onClick={() => setSeries(option.key)}
+              aria-pressed={(seriesField?.key ?? "value") === option.key}
+              className={[
+                "rounded-md px-3 py-1 text-sm font-medium transition-colors",
+                (seriesField?.key ?? "value") === option.key
+                  ? "bg-secondary text-secondary-foreground"
+                  : "text-muted-foreground hover:text-foreground",
+              ].join(" ")}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Chart */}
       {isLoading ? (
         <Skeleton className="h-64 w-full" />
@@ -127,7 +219,7 @@ export default function TrendChart({ trackerId, trackerType }: TrendChartProps)
         <div className="text-muted-foreground flex h-64 items-center justify-center text-sm">
           Failed to load trend data.
         </div>
-      ) : !data || data.length === 0 ? (
+      ) : !chartData || chartData.length === 0 ? (
         <div className="text-muted-foreground flex h-64 items-center justify-center text-sm">
           No data for this period.
         </div>
@@ -137,7 +229,7 @@ export default function TrendChart({ trackerId, trackerType }: TrendChartProps)
           config={{ value: { label: yLabel, color: "#6366F1" } }}
           className="h-64 w-full"
         >
-          <AreaChart data={data} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+          <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
             <defs>
               <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#6366F1" stopOpacity={0.35} />
@@ -148,10 +240,10 @@ export default function TrendChart({ trackerId, trackerType }: TrendChartProps)
             <XAxis
               dataKey="date"
               tickFormatter={formatDateLabel}
-              interval={tickInterval(data.length)}
+              interval={tickInterval(chartData.length)}
             />
             <YAxis
-              allowDecimals={false}
+              allowDecimals={seriesField?.type === CustomFieldType.NUMBER}
               label={{ value: yLabel, angle: -90, position: "insideLeft", offset: 0 }}
             />
             <ChartTooltip
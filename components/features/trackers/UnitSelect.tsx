@@ -0,0 +1,64 @@
+"use client";
+
+import {
+  NativeSelect,
+  NativeSelectOptGroup,
+  NativeSelectOption,
+} from "@/components/ui/native-select";
+import { UNIT_DIMENSIONS, UNITS, type UnitDefinition, type UnitDimension } from "@/lib/units";
+
+interface UnitSelectProps {
+  id?: string;
+  value: string | null;
+  onChange: (unit: string | null) => void;
+  /** Units to offer; all of them by default */
+  units?: readonly UnitDefinition[];
+  /** Label of the empty option; leave out to require a unit */
+  noneLabel?: string;
+  className?: string;
+  "aria-label"?: string;
+}
+
+const DIMENSION_LABELS: Record<UnitDimension, string> = {
+  length: "Length",
+  mass: "Weight",
+  volume: "Volume",
+  time: "Time",
+  currency: "Currency",
+};
+
+/** Unit picker grouped by what the units measure */
+export default function UnitSelect({
+  id,
+  value,
+  onChange,
+  units = UNITS,
+  noneLabel,
+  className,
+  "aria-label": ariaLabel,
+}: UnitSelectProps) {
+  return (
+    <NativeSelect
+      id={id}
+      aria-label={ariaLabel}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={className}
+    >
+      {noneLabel !== undefined && <NativeSelectOption value="">{noneLabel}</NativeSelectOption>}
+      {UNIT_DIMENSIONS.map((dimension) => {
+        const options = units.filter((unit) => unit.dimension === dimension);
+        if (options.length === 0) return null;
+        return (
+          <NativeSelectOptGroup key={dimension} label={DIMENSION_LABELS[dimension]}>
+            {options.map((unit) => (
+              <NativeSelectOption key={unit.code} value={unit.code}>
+                {unit.dimension === "currency" ? unit.code : `${unit.label} (${unit.code})`}
+              </NativeSelectOption>
+            ))}
+          </NativeSelectOptGroup>
+        );
+      })}
+    </NativeSelect>
+  );
+}
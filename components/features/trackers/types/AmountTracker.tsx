@@ -11,8 +11,10 @@ import {
   resolvePeriod,
 } from "@/hooks/useTrackerQuery";
 import { useTrackerEntries } from "@/hooks/useTrackerEntries";
+import { compatibleUnits, formatUnitValue } from "@/lib/units";
 import TrackerEntryList from "../TrackerEntryList";
 import EditEntryModal from "../EditEntryModal";
+import UnitSelect from "../UnitSelect";
 
 interface AmountTrackerProps {
   tracker: Tracker;
@@ -24,15 +26,14 @@ export default function AmountTracker({ tracker, onUpdate }: AmountTrackerProps)
 
   const [amount, setAmount] = useState("");
   const [currency, setCurrency] = useState("USD");
+  // Trackers with a unit take amounts in any compatible unit and store them converted
+  const [unit, setUnit] = useState(tracker.unit ?? null);
   const [note, setNote] = useState("");
 
   const trackerQuery = useTrackerQuery(tracker.id);
   const addEntryMutation = useAddEntryMutation(tracker.id);
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   const totalAmount =
     periodStatsQuery.data !== undefined
@@ -60,6 +61,7 @@ export default function AmountTracker({ tracker, onUpdate }: AmountTrackerProps)
   ];
 
   const formatCurrency = (value: number) => {
+    if (tracker.unit) return formatUnitValue(value, tracker.unit);
     const currencyObj = currencies.find((c) => c.code === currency);
     if (!currencyObj || currencyObj.code === "None") return value.toFixed(2);
     return `${currencyObj.symbol}${value.toFixed(2)}`;
@@ -75,7 +77,7 @@ export default function AmountTracker({ tracker, onUpdate }: AmountTrackerProps)
         value: parseFloat(amount),
         date: new Date(),
         note: note.trim() || null,
-        tags: [currency],
+        ...(tracker.unit ? { unit, tags: [] } : { tags: [currency] }),
       },
       {
         onSuccess: () => {
@@ -106,17 +108,27 @@ export default function AmountTracker({ tracker, onUpdate }: AmountTrackerProps)
         {/* Amount input with currency selector */}
         <div className="grid grid-cols-4 gap-2">
           <div className="col-span-1">
-            <select
-              className="focus:ring-primary/50 focus:border-primary bg-background border-border w-full rounded-md border px-3 py-2 shadow-sm"
-              value={currency}
-              onChange={(e) => setCurrency(e.target.value)}
-            >
-              {currencies.map((curr) => (
-                <option key={curr.code} value={curr.code}>
-                  {curr.code}
-                </option>
-              ))}
-            </select>
+            {tracker.unit ? (
+              <UnitSelect
+                aria-label="Unit"
+                value={unit}
+                onChange={setUnit}
+                units={compatibleUnits(tracker.unit)}
+                className="w-full"
+              />
+            ) : (
+              <select
+                className="focus:ring-primary/50 focus:border-primary bg-background border-border w-full rounded-md border px-3 py-2 shadow-sm"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+              >
+                {currencies.map((curr) => (
+                  <option key={curr.code} value={curr.code}>
+                    {curr.code}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div className="col-span-3">
@@ -172,6 +184,11 @@ export default function AmountTracker({ tracker, onUpdate }: AmountTrackerProps)
           >
             <div>
               <div className="font-medium">{formatCurrency(entry.value || 0)}</div>
+              {entry.enteredUnit && entry.enteredValue != null && (
+                <div className="text-foreground/50 text-xs">
+                  Logged as {formatUnitValue(entry.enteredValue, entry.enteredUnit)}
+                </div>
+              )}
               {entry.note && <div className="text-foreground/70 text-sm">{entry.note}</div>}
               <div className="text-foreground/50 text-xs">
                 {new Date(entry.date).toLocaleDateString(undefined, {
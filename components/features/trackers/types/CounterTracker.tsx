@@ -27,10 +27,7 @@ export default function CounterTracker({ tracker, onUpdate }: CounterTrackerProp
   const trackerQuery = useTrackerQuery(tracker.id);
   const counterMutation = useCounterMutation(tracker.id);
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   const currentValue =
     periodStatsQuery.data !== undefined
@@ -55,6 +52,7 @@ export default function CounterTracker({ tracker, onUpdate }: CounterTrackerProp
       <div className="mb-6 text-center">
         <div className="mb-2 text-5xl font-semibold" style={{ color: tracker.color || "inherit" }}>
           {currentValue}
+          {tracker.unit && <span className="text-foreground/50 ml-2 text-2xl">{tracker.unit}</span>}
         </div>
         <div className="text-foreground/70 text-sm">{periodLabel}</div>
       </div>
@@ -169,6 +167,7 @@ export default function CounterTracker({ tracker, onUpdate }: CounterTrackerProp
                 >
                   {(entry.value || 0) > 0 ? "+" : ""}
                   {entry.value}
+                  {tracker.unit && ` ${tracker.unit}`}
                 </span>
                 <EditEntryModal
                   entry={entry}
@@ -5,8 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Tracker, TrackerType } from "@/types";
 import { useAddEntryMutation, usePeriodStats, resolvePeriod } from "@/hooks/useTrackerQuery";
 import { useTrackerEntries } from "@/hooks/useTrackerEntries";
+import {
+  formatCustomFieldValue,
+  fromFieldInputValues,
+  readCustomFieldValues,
+  toFieldInputValues,
+} from "@/lib/trackers/custom-fields";
 import TrackerEntryList from "../TrackerEntryList";
 import EditEntryModal from "../EditEntryModal";
+import CustomFieldInputs from "../CustomFieldInputs";
 
 interface CustomTrackerProps {
   tracker: Tracker;
@@ -14,17 +21,18 @@ interface CustomTrackerProps {
 }
 
 export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps) {
+  const fields = tracker.fields ?? [];
+  const hasFields = fields.length > 0;
+
   const [value, setValue] = useState("");
+  const [fieldValues, setFieldValues] = useState(() => toFieldInputValues(fields));
   const [note, setNote] = useState("");
   const [customTags, setCustomTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
 
   const addEntryMutation = useAddEntryMutation(tracker.id);
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   const {
     entries,
@@ -67,10 +75,12 @@ export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps)
         value: parsedValue !== undefined && !isNaN(parsedValue) ? parsedValue : null,
         note: note.trim() || null,
         tags: customTags,
+        ...(hasFields && { fields: fromFieldInputValues(fields, fieldValues) }),
       },
       {
         onSuccess: () => {
           setValue("");
+          setFieldValues(toFieldInputValues(fields));
           setNote("");
           setCustomTags([]);
           if (onUpdate) onUpdate();
@@ -98,20 +108,30 @@ export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps)
       )}
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        {/* Value field */}
-        <div className="space-y-2">
-          <label htmlFor="custom-value" className="block text-sm font-medium">
-            Value (optional)
-          </label>
-          <input
-            type="text"
-            id="custom-value"
-            value={value}
-            onChange={(e) => setValue(e.target.value)}
-            className="focus:ring-primary/50 focus:border-primary bg-background border-border w-full rounded-md border px-3 py-2 shadow-sm"
-            placeholder="Enter a value for this entry..."
+        {/* Fields from the tracker's schema, or a free-form value without one */}
+        {hasFields ? (
+          <CustomFieldInputs
+            fields={fields}
+            values={fieldValues}
+            onChange={(key, fieldValue) =>
+              setFieldValues((prev) => ({ ...prev, [key]: fieldValue }))
+            }
           />
-        </div>
+        ) : (
+          <div className="space-y-2">
+            <label htmlFor="custom-value" className="block text-sm font-medium">
+              Value (optional)
+            </label>
+            <input
+              type="text"
+              id="custom-value"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="focus:ring-primary/50 focus:border-primary bg-background border-border w-full rounded-md border px-3 py-2 shadow-sm"
+              placeholder="Enter a value for this entry..."
+            />
+          </div>
+        )}
 
         {/* Note field */}
         <div className="space-y-2">
@@ -181,7 +201,7 @@ export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps)
             type="submit"
             disabled={
               addEntryMutation.isPending ||
-              (!value.trim() && !note.trim() && customTags.length === 0)
+              (!hasFields && !value.trim() && !note.trim() && customTags.length === 0)
             }
             className="h-11 px-8"
             style={{ backgroundColor: tracker.color || undefined }}
@@ -207,6 +227,22 @@ export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps)
                 {entry.value !== null && entry.value !== undefined && (
                   <div className="font-medium">Value: {entry.value}</div>
                 )}
+                {hasFields && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                    {fields.map((field) => {
+                      const fieldValue = readCustomFieldValues(entry.fields)[field.key];
+                      if (fieldValue === undefined) return null;
+                      return (
+                        <div key={field.key} className="contents">
+                          <dt className="text-foreground/60">{field.label}</dt>
+                          <dd className="font-medium">
+                            {formatCustomFieldValue(field, fieldValue)}
+                          </dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                )}
                 {entry.note && <div className="text-foreground/70 mt-1 text-sm">{entry.note}</div>}
                 <div className="text-foreground/50 mt-1 text-xs">
                   {new Intl.DateTimeFormat("en-US", {
@@ -234,6 +270,7 @@ export default function CustomTracker({ tracker, onUpdate }: CustomTrackerProps)
               <EditEntryModal
                 entry={entry}
                 trackerType={TrackerType.CUSTOM}
+                fields={fields}
                 onSuccess={handleEntryUpdated}
               />
             </div>
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { Tracker } from "@/types";
+import { useFormulaInputOptions, usePeriodStats } from "@/hooks/useTrackerQuery";
+
+interface DerivedTrackerProps {
+  tracker: Tracker;
+}
+
+/** Rounds formula results for display; ratios rarely need more than 2 decimals */
+function formatDerivedValue(value: number): string {
+  return Number(value.toFixed(2)).toLocaleString();
+}
+
+/**
+ * Today, this week and this month of a DERIVED tracker's formula. There are
+ * no entries to log: values come from the trackers the formula refers to.
+ */
+export default function DerivedTracker({ tracker }: DerivedTrackerProps) {
+  const periodStatsQuery = usePeriodStats(tracker.id);
+  const { data: inputOptions } = useFormulaInputOptions();
+  const names = new Map(inputOptions?.map((option) => [option.id, option.name]));
+
+  const periods = [
+    { label: "Today", value: periodStatsQuery.data?.today },
+    { label: "This week", value: periodStatsQuery.data?.week },
+    { label: "This month", value: periodStatsQuery.data?.month },
+  ];
+
+  return (
+    <div className="bg-background border-border rounded-lg border p-6 shadow-sm">
+      <div className="mb-6 grid grid-cols-3 gap-4 text-center">
+        {periods.map((period) => (
+          <div key={period.label}>
+            <div className="text-3xl font-semibold" style={{ color: tracker.color || "inherit" }}>
+              {period.value === undefined ? "—" : formatDerivedValue(period.value)}
+            </div>
+            <div className="text-foreground/70 text-sm">{period.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {tracker.formula && (
+        <div className="space-y-2 text-sm">
+          <div className="bg-muted rounded-md px-3 py-2 font-mono">
+            {tracker.formula.expression}
+          </div>
+          <ul className="text-muted-foreground space-y-1">
+            {tracker.formula.inputs.map((input) => (
+              <li key={input.name}>
+                <span className="font-mono">{input.name}</span> ={" "}
+                {names.has(input.trackerId) ? (
+                  <Link href={`/trackers/${input.trackerId}`} className="hover:underline">
+                    {names.get(input.trackerId)}
+                  </Link>
+                ) : (
+                  "another tracker"
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="text-muted-foreground text-xs">
+            Calculated from the trackers above, so there are no entries to log here.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,8 +8,10 @@ import { useAddEntryMutation, usePeriodStats, resolvePeriod } from "@/hooks/useT
 import { useTrackerEntries } from "@/hooks/useTrackerEntries";
 import TrackerEntryList from "../TrackerEntryList";
 import EditEntryModal from "../EditEntryModal";
-import { getOccurrenceStreak } from "@/app/actions/entries";
+import { getCalendarData, getOccurrenceStreak } from "@/app/actions/entries";
+import { skipHabitDay, unskipHabitDay } from "@/app/actions/trackers";
 import { Flame } from "lucide-react";
+import { toast } from "sonner";
 
 interface OccurrenceTrackerProps {
   tracker: Tracker;
@@ -20,16 +22,12 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
   const queryClient = useQueryClient();
 
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   const { data: streakData } = useQuery({
     queryKey: ["occurrenceStreak", tracker.id],
     queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const res = await getOccurrenceStreak(tracker.id, timezoneOffset);
+      const res = await getOccurrenceStreak(tracker.id);
       if (!res.success) throw new Error(res.error);
       return res.data;
     },
@@ -43,6 +41,27 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
 
   const addEntryMutation = useAddEntryMutation(tracker.id);
 
+  // Habits: whether the selected day is skipped, from the same data as the heatmap
+  const isHabit = !!tracker.schedule;
+  const selectedYear = Number(selectedDate.slice(0, 4));
+  const { data: calendarData } = useQuery({
+    queryKey: ["calendarData", tracker.id, selectedYear],
+    queryFn: async () => {
+      const res = await getCalendarData(tracker.id, selectedYear);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    enabled: isHabit,
+  });
+  const isSelectedSkipped =
+    calendarData?.some((day) => day.date === selectedDate && day.state === "skipped") ?? false;
+  const [isSkipping, setIsSkipping] = useState(false);
+
+  const refreshHabit = () => {
+    void queryClient.invalidateQueries({ queryKey: ["occurrenceStreak", tracker.id] });
+    void queryClient.invalidateQueries({ queryKey: ["calendarData", tracker.id] });
+  };
+
   const {
     entries,
     totalEntries,
@@ -73,15 +92,31 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
         onSuccess: () => {
           setNote("");
           setSelectedDate(formattedToday);
-          void queryClient.invalidateQueries({
-            queryKey: ["occurrenceStreak", tracker.id],
-          });
+          refreshHabit();
           if (onUpdate) onUpdate();
         },
       }
     );
   };
 
+  const handleToggleSkip = async () => {
+    setIsSkipping(true);
+    try {
+      const res = isSelectedSkipped
+        ? await unskipHabitDay(tracker.id, selectedDate)
+        : await skipHabitDay(tracker.id, { date: selectedDate, reason: note.trim() || null });
+      if (!res.success) {
+        toast.error(res.error);
+        return;
+      }
+      setNote("");
+      refreshHabit();
+      toast.success(isSelectedSkipped ? "Day counts again" : "Day skipped");
+    } finally {
+      setIsSkipping(false);
+    }
+  };
+
   return (
     <div className="bg-background border-border rounded-lg border p-6 shadow-sm">
       {/* Status display */}
@@ -102,13 +137,13 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
           <Flame className="mx-auto mb-1 h-6 w-6 text-orange-500" />
           <div className="text-2xl font-bold">{streakData?.current ?? 0}</div>
           <div className="text-foreground/70 text-sm">Current Streak</div>
-          <div className="text-foreground/50 text-xs">days</div>
+          <div className="text-foreground/50 text-xs">{isHabit ? "check-ins" : "days"}</div>
         </div>
         <div className="bg-muted/50 rounded-lg p-4 text-center">
           <span className="mb-1 block text-2xl">🏆</span>
           <div className="text-2xl font-bold">{streakData?.longest ?? 0}</div>
           <div className="text-foreground/70 text-sm">Longest Streak</div>
-          <div className="text-foreground/50 text-xs">days</div>
+          <div className="text-foreground/50 text-xs">{isHabit ? "check-ins" : "days"}</div>
         </div>
       </div>
 
@@ -140,12 +175,16 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
             value={note}
             onChange={(e) => setNote(e.target.value)}
             className="focus:ring-primary/50 focus:border-primary bg-background border-border w-full rounded-md border px-3 py-2 shadow-sm"
-            placeholder="Add a note about this occurrence..."
+            placeholder={
+              isHabit
+                ? "Add a note, or a reason when skipping..."
+                : "Add a note about this occurrence..."
+            }
           />
         </div>
 
-        {/* Submit button */}
-        <div className="mt-4 flex justify-center">
+        {/* Submit button; habits can also skip (excuse) the selected day */}
+        <div className="mt-4 flex justify-center gap-2">
           <Button
             onClick={handleLogOccurrence}
             disabled={addEntryMutation.isPending}
@@ -154,6 +193,16 @@ export default function OccurrenceTracker({ tracker, onUpdate }: OccurrenceTrack
           >
             {addEntryMutation.isPending ? "Logging..." : "Log Occurrence"}
           </Button>
+          {isHabit && (
+            <Button
+              variant="outline"
+              onClick={handleToggleSkip}
+              disabled={isSkipping}
+              className="h-11"
+            >
+              {isSelectedSkipped ? "Unskip Day" : "Skip Day"}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,71 @@
+"use client";
+
+import { Tracker, TrackerEntry, TrackerType } from "@/types";
+import { formatDuration } from "@/lib/utils";
+import { useTrackerEntries } from "@/hooks/useTrackerEntries";
+import TrackerEntryList from "../TrackerEntryList";
+
+interface ReadOnlyTrackerProps {
+  tracker: Tracker;
+}
+
+function formatValue(tracker: Tracker, entry: TrackerEntry): string {
+  if (entry.value == null) return "";
+  switch (tracker.type) {
+    case TrackerType.TIMER:
+      return formatDuration(entry.value);
+    case TrackerType.AMOUNT:
+      return entry.value.toFixed(2);
+    case TrackerType.COUNTER:
+      return `${entry.value > 0 ? "+" : ""}${entry.value}`;
+    default:
+      return String(entry.value);
+  }
+}
+
+/**
+ * Entry history for trackers shared with the current user as a viewer.
+ * No logging or editing controls.
+ */
+export default function ReadOnlyTracker({ tracker }: ReadOnlyTrackerProps) {
+  const {
+    entries,
+    totalEntries,
+    isLoadingEntries,
+    currentPage,
+    setCurrentPage,
+    currentLimit,
+    setCurrentLimit,
+  } = useTrackerEntries(tracker.id);
+
+  return (
+    <div className="bg-background border-border rounded-lg border p-6 shadow-sm">
+      <p className="text-muted-foreground text-sm">You have view-only access to this tracker.</p>
+      <TrackerEntryList
+        entries={entries}
+        isLoading={isLoadingEntries}
+        totalEntries={totalEntries}
+        currentPage={currentPage}
+        currentLimit={currentLimit}
+        onPageChange={setCurrentPage}
+        onLimitChange={setCurrentLimit}
+        renderItem={(entry) => (
+          <div key={entry.id} className="border-border rounded-md border p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">
+                {new Intl.DateTimeFormat("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                }).format(new Date(entry.startTime ?? entry.date))}
+              </div>
+              <span className="font-medium">{formatValue(tracker, entry)}</span>
+            </div>
+            {entry.note && <p className="text-foreground/70 mt-1">{entry.note}</p>}
+          </div>
+        )}
+      />
+    </div>
+  );
+}
@@ -2,8 +2,13 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Tracker, TrackerEntry, TrackerType } from "@/types";
+import { BreakSegment, Tracker, TrackerEntry, TrackerType } from "@/types";
+import { activeSeconds, isTimerPaused } from "@/lib/trackers/timer";
+import { breakAfter, type PomodoroPhase } from "@/lib/trackers/pomodoro";
+import { announce, requestNotificationPermission } from "@/lib/notifications";
 import {
   useTrackerQuery,
   useTimerMutation,
@@ -25,10 +30,20 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
   const [isRunning, setIsRunning] = useState(false);
   const [startTime, setStartTime] = useState<Date | null>(null);
   const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [breaks, setBreaks] = useState<BreakSegment[]>([]);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [elapsedAccumulatedTime, setElapsedAccumulatedTime] = useState(0);
+  const [currentActiveSeconds, setCurrentActiveSeconds] = useState(0);
   const [initialized, setInitialized] = useState(false);
 
+  // Pomodoro mode: the break between work intervals is client-side only
+  const [pomodoroBreak, setPomodoroBreak] = useState<{
+    phase: Exclude<PomodoroPhase, "work">;
+    endsAt: number;
+  } | null>(null);
+  const [breakRemaining, setBreakRemaining] = useState(0);
+  const [sessionPomodoros, setSessionPomodoros] = useState(0);
+
   // Keep a ref to isRunning to safely read inside effects without re-subscribing
   const isRunningRef = useRef(isRunning);
   isRunningRef.current = isRunning;
@@ -36,10 +51,8 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
   const trackerQuery = useTrackerQuery(tracker.id);
   const timerMutation = useTimerMutation(tracker.id);
   const periodStatsQuery = usePeriodStats(tracker.id);
-  const { key: periodKey, label: periodLabel } = resolvePeriod(
-    tracker.goalEnabled ?? false,
-    tracker.goalPeriod
-  );
+  const pomodoro = trackerQuery.data?.pomodoro ?? tracker.pomodoro ?? null;
+  const { key: periodKey, label: periodLabel } = resolvePeriod(tracker);
 
   const {
     entries,
@@ -68,6 +81,7 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
       setIsRunning(true);
       setStartTime(new Date(inProgressEntry.startTime!));
       setCurrentEntryId(inProgressEntry.id);
+      setBreaks(inProgressEntry.breaks ?? []);
     }
 
     // Use period stats if available, otherwise fall back to all-time
@@ -100,22 +114,53 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [trackerQuery.dataUpdatedAt, periodStatsQuery.dataUpdatedAt]);
 
-  // Tick every second when running
+  const isPaused = isRunning && isTimerPaused({ startTime, endTime: null, breaks });
+
+  // Tick every second when running; breaks don't count, so a paused timer holds still
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
 
     if (isRunning && startTime) {
-      interval = setInterval(() => {
-        const now = new Date();
-        const elapsed = now.getTime() - startTime.getTime();
-        setElapsedTime(elapsedAccumulatedTime + elapsed);
-      }, 1000);
+      const tick = () => {
+        const active = activeSeconds(startTime, new Date(), breaks);
+        setCurrentActiveSeconds(active);
+        setElapsedTime(elapsedAccumulatedTime + active * 1000);
+      };
+      tick();
+      if (!isPaused) interval = setInterval(tick, 1000);
     }
 
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isRunning, startTime, elapsedAccumulatedTime]);
+  }, [isRunning, isPaused, startTime, breaks, elapsedAccumulatedTime]);
+
+  // Count down the break; the next work interval is started by the user
+  useEffect(() => {
+    if (!pomodoroBreak) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((pomodoroBreak.endsAt - Date.now()) / 1000));
+      setBreakRemaining(remaining);
+      if (remaining === 0) {
+        setPomodoroBreak(null);
+        announce("Break over", `Ready for the next ${tracker.name} session`);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+
+    return () => clearInterval(interval);
+  }, [pomodoroBreak, tracker.name]);
+
+  const workSeconds = pomodoro ? pomodoro.workMinutes * 60 : 0;
+  const workDone = !!pomodoro && isRunning && !isPaused && currentActiveSeconds >= workSeconds;
+
+  // Stop automatically once the work interval has run its full length
+  useEffect(() => {
+    if (workDone && !timerMutation.isPending) stopTimer(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workDone]);
 
   const completedEntries = (entries ?? []).filter(
     (entry) =>
@@ -136,40 +181,69 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
   const handleStart = () => {
     const now = new Date();
     setStartTime(now);
+    setCurrentActiveSeconds(0);
     setIsRunning(true);
 
+    if (pomodoro) {
+      // Starting work ends any break early
+      setPomodoroBreak(null);
+      void requestNotificationPermission();
+    }
+
     timerMutation.mutate(
       { action: "start", now },
       {
         onSuccess: (data) => {
           if (data.action === "start") {
             setCurrentEntryId(data.entryId);
+            if (data.stopped.length > 0) {
+              toast.info("Stopped your other running timer");
+            }
           }
         },
-        onError: () => {
-          // Roll back optimistic local state
+        onError: (error) => {
+          // Roll back optimistic local state; the timer policy may have refused the start
           setIsRunning(false);
           setStartTime(null);
+          toast.error(error.message);
         },
       }
     );
   };
 
-  const handleStop = () => {
+  const stopTimer = (completedPomodoro: boolean) => {
     if (!startTime || !currentEntryId) return;
 
     const capturedEntryId = currentEntryId;
     const capturedStartTime = startTime;
 
+    const capturedBreaks = breaks;
+
     // Optimistically update UI before the mutation
     setIsRunning(false);
     setStartTime(null);
     setCurrentEntryId(null);
+    setBreaks([]);
 
     timerMutation.mutate(
-      { action: "stop", entryId: capturedEntryId, startTime: capturedStartTime },
       {
-        onSuccess: () => {
+        action: "stop",
+        entryId: capturedEntryId,
+        startTime: capturedStartTime,
+        pomodoro: completedPomodoro,
+      },
+      {
+        onSuccess: (data) => {
+          if (pomodoro && data.action === "stop" && data.pomodoro) {
+            const completed = sessionPomodoros + 1;
+            const next = breakAfter(pomodoro, completed);
+            setSessionPomodoros(completed);
+            setPomodoroBreak({ phase: next.phase, endsAt: Date.now() + next.seconds * 1000 });
+            announce(
+              "Pomodoro complete",
+              `Take a ${next.seconds / 60}-minute ${next.phase === "longBreak" ? "long" : "short"} break`
+            );
+          }
           if (onUpdate) onUpdate();
         },
         onError: () => {
@@ -177,11 +251,34 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
           setIsRunning(true);
           setStartTime(capturedStartTime);
           setCurrentEntryId(capturedEntryId);
+          setBreaks(capturedBreaks);
         },
       }
     );
   };
 
+  const handleStop = () => stopTimer(false);
+
+  const handlePauseToggle = () => {
+    if (!currentEntryId) return;
+
+    const previousBreaks = breaks;
+    const now = new Date();
+    const action = isPaused ? "resume" : "pause";
+
+    // Optimistically open or close the break
+    setBreaks(
+      isPaused
+        ? [...breaks.slice(0, -1), { ...breaks[breaks.length - 1], end: now }]
+        : [...breaks, { start: now, end: null }]
+    );
+
+    timerMutation.mutate(
+      { action, entryId: currentEntryId },
+      { onError: () => setBreaks(previousBreaks) }
+    );
+  };
+
   const getButtonColorClass = () =>
     tracker.color
       ? `bg-[${tracker.color}] hover:bg-[${tracker.color}]/90`
@@ -192,11 +289,31 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
       {/* Timer display */}
       <div className="mb-6 text-center">
         <div className="mb-2 text-5xl font-semibold" style={{ color: tracker.color || "inherit" }}>
-          {formatTime(elapsedTime)}
+          {pomodoro && isRunning
+            ? formatTime(Math.max(0, workSeconds - currentActiveSeconds) * 1000)
+            : pomodoroBreak
+              ? formatTime(breakRemaining * 1000)
+              : formatTime(elapsedTime)}
         </div>
         <div className="text-foreground/70 text-sm">
-          {isRunning ? "Timer running" : periodLabel}
+          {isPaused
+            ? "Paused"
+            : pomodoro && isRunning
+              ? `Focus ${(sessionPomodoros % pomodoro.cycles) + 1} of ${pomodoro.cycles}`
+              : pomodoroBreak
+                ? pomodoroBreak.phase === "longBreak"
+                  ? "Long break"
+                  : "Short break"
+                : isRunning
+                  ? "Timer running"
+                  : periodLabel}
         </div>
+        {pomodoro && (
+          <div className="text-foreground/60 mt-1 text-xs">
+            {formatTime(elapsedTime)} {periodLabel.toLowerCase()} ·{" "}
+            {periodStatsQuery.data?.pomodoros?.today ?? 0} pomodoros today
+          </div>
+        )}
       </div>
 
       {/* Timer controls */}
@@ -207,16 +324,31 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
             disabled={timerMutation.isPending}
             className={`h-11 px-8 ${getButtonColorClass()}`}
           >
-            Start Timer
+            {pomodoro ? "Start Focus" : "Start Timer"}
           </Button>
         ) : (
-          <Button
-            onClick={handleStop}
-            disabled={timerMutation.isPending}
-            variant="outline"
-            className="h-11 border-2 px-8"
-          >
-            Stop Timer
+          <>
+            <Button
+              onClick={handlePauseToggle}
+              disabled={timerMutation.isPending || !currentEntryId}
+              variant="secondary"
+              className="h-11 px-8"
+            >
+              {isPaused ? "Resume" : "Pause"}
+            </Button>
+            <Button
+              onClick={handleStop}
+              disabled={timerMutation.isPending}
+              variant="outline"
+              className="h-11 border-2 px-8"
+            >
+              Stop Timer
+            </Button>
+          </>
+        )}
+        {pomodoroBreak && !isRunning && (
+          <Button onClick={() => setPomodoroBreak(null)} variant="ghost" className="h-11 px-8">
+            Skip Break
           </Button>
         )}
       </div>
@@ -242,10 +374,9 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
                   }).format(new Date(entry.date))}
                 </div>
                 <div className="flex items-center gap-1">
+                  {entry.pomodoro && <Badge variant="secondary">Pomodoro</Badge>}
                   <span className="text-foreground/70">
-                    {formatTime(
-                      new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()
-                    )}
+                    {formatTime(activeSeconds(entry.startTime, entry.endTime, entry.breaks) * 1000)}
                   </span>
                   <EditEntryModal
                     entry={entry}
@@ -259,6 +390,11 @@ export default function TimerTracker({ tracker, onUpdate }: TimerTrackerProps) {
                   {new Date(entry.startTime).toLocaleTimeString()} -{" "}
                   {new Date(entry.endTime).toLocaleTimeString()}
                 </div>
+                {entry.breaks && entry.breaks.length > 0 && (
+                  <div>
+                    {entry.breaks.length} {entry.breaks.length === 1 ? "break" : "breaks"}
+                  </div>
+                )}
                 {entry.note && <div className="italic">{entry.note}</div>}
               </div>
             </div>
@@ -3,5 +3,7 @@ export const boardKeys = {
   lists: () => [...boardKeys.all, "list"] as const,
   details: () => [...boardKeys.all, "detail"] as const,
   detail: (id: string) => [...boardKeys.details(), id] as const,
-  users: (query: string) => ["users", "search", query] as const,
+  members: (boardId: string) => [...boardKeys.detail(boardId), "members"] as const,
+  taskTime: (taskId: string) => [...boardKeys.all, "task-time", taskId] as const,
+  users: (boardId: string, query: string) => ["users", "search", boardId, query] as const,
 } as const;
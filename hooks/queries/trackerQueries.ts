@@ -7,6 +7,7 @@ export interface TrackerFilters {
   sort?: string;
   page?: number;
   limit?: number;
+  pinned?: boolean;
 }
 
 export const trackerKeys = {
@@ -15,9 +16,17 @@ export const trackerKeys = {
   list: (filters: TrackerFilters) => [...trackerKeys.lists(), filters] as const,
   details: () => [...trackerKeys.all, "detail"] as const,
   detail: (id: string) => [...trackerKeys.details(), id] as const,
+  shares: (id: string) => [...trackerKeys.detail(id), "shares"] as const,
+  goals: (id: string) => [...trackerKeys.detail(id), "goals"] as const,
+  shared: () => [...trackerKeys.all, "shared"] as const,
+  formulaInputs: () => [...trackerKeys.all, "formula-inputs"] as const,
   entries: (trackerId: string) => ["entries", trackerId] as const,
   entriesPaged: (trackerId: string, page: number, limit: number) =>
     ["entries", trackerId, page, limit] as const,
   stats: (trackerId: string, period: string) =>
     ["stats", trackerId, period] as const,
+  timerReview: () => [...trackerKeys.all, "timer-review"] as const,
+  timesheet: (input: object) => ["timesheet", input] as const,
+  billingRates: () => ["timesheet", "rates"] as const,
+  exchangeRates: () => ["exchange-rates"] as const,
 } as const;
@@ -10,11 +10,26 @@ import {
   updateColumn,
   deleteColumn,
 } from "@/app/actions/boards";
-import { createTask, updateTask, deleteTask, moveTask } from "@/app/actions/board-tasks";
+import {
+  createTask,
+  updateTask,
+  deleteTask,
+  moveTask,
+  getTaskTimeTracking,
+} from "@/app/actions/board-tasks";
+import {
+  getBoardMembers,
+  inviteBoardMember,
+  updateBoardMemberRole,
+  removeBoardMember,
+} from "@/app/actions/board-members";
+import { startTimerEntry, stopTimerEntry } from "@/app/actions/entries";
+import { trackerKeys } from "@/hooks/queries/trackerQueries";
 import { searchUsers } from "@/app/actions/users";
 import type { CreateBoardInput } from "@/app/actions/boards";
 import type { CreateTaskInput } from "@/app/actions/board-tasks";
-import type { Board, BoardColumn, BoardTask } from "@/types";
+import type { InviteBoardMemberInput } from "@/app/actions/board-members";
+import type { Board, BoardColumn, BoardRole, BoardTask } from "@/types";
 
 // Board list
 export function useBoardsQuery() {
@@ -189,6 +204,7 @@ export function useMoveTaskMutation(boardId: string) {
     }) => {
       const res = await moveTask(taskId, targetColumnId, newOrder);
       if (!res.success) throw new Error(res.error);
+      return res.data;
     },
     onMutate: async ({ taskId, targetColumnId, newOrder }) => {
       await qc.cancelQueries({ queryKey: boardKeys.detail(boardId) });
@@ -239,12 +255,125 @@ export function useMoveTaskMutation(boardId: string) {
   });
 }
 
-// User search
-export function useUserSearch(query: string) {
+// Time logged against a task through linked timer entries
+export function useTaskTimeQuery(taskId: string) {
+  return useQuery({
+    queryKey: boardKeys.taskTime(taskId),
+    queryFn: async () => {
+      const res = await getTaskTimeTracking(taskId);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    enabled: !!taskId,
+    staleTime: 15_000,
+  });
+}
+
+// Start a timer on a tracker, linked to a task
+export function useStartTaskTimerMutation(boardId: string, taskId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (trackerId: string) => {
+      const res = await startTimerEntry(trackerId, "", taskId);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    onSuccess: (data, trackerId) => {
+      qc.invalidateQueries({ queryKey: boardKeys.taskTime(taskId) });
+      qc.invalidateQueries({ queryKey: trackerKeys.detail(trackerId) });
+      // Timers the user's policy stopped to make room
+      for (const stopped of data.stopped) {
+        qc.invalidateQueries({ queryKey: trackerKeys.detail(stopped.trackerId) });
+      }
+      qc.invalidateQueries({ queryKey: trackerKeys.lists() });
+      qc.invalidateQueries({ queryKey: boardKeys.detail(boardId) });
+    },
+  });
+}
+
+// Stop a task-linked timer entry
+export function useStopTaskTimerMutation(boardId: string, taskId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ entryId }: { entryId: string; trackerId: string }) => {
+      const res = await stopTimerEntry(entryId);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    onSuccess: (_data, { trackerId }) => {
+      qc.invalidateQueries({ queryKey: boardKeys.taskTime(taskId) });
+      qc.invalidateQueries({ queryKey: trackerKeys.detail(trackerId) });
+      qc.invalidateQueries({ queryKey: trackerKeys.entries(trackerId) });
+      qc.invalidateQueries({ queryKey: trackerKeys.lists() });
+      qc.invalidateQueries({ queryKey: boardKeys.detail(boardId) });
+    },
+  });
+}
+
+// Board members
+export function useBoardMembersQuery(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: boardKeys.members(boardId),
+    queryFn: async () => {
+      const res = await getBoardMembers(boardId);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    enabled,
+    staleTime: 30_000,
+  });
+}
+
+// Invite a member by email
+export function useInviteBoardMemberMutation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: InviteBoardMemberInput) => {
+      const res = await inviteBoardMember(boardId, data);
+      if (!res.success) throw new Error(res.error);
+      return res.data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: boardKeys.members(boardId) });
+    },
+  });
+}
+
+// Change a member's role
+export function useUpdateBoardMemberRoleMutation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: BoardRole }) => {
+      const res = await updateBoardMemberRole(memberId, role);
+      if (!res.success) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: boardKeys.members(boardId) });
+    },
+  });
+}
+
+// Remove a member (or leave the board)
+export function useRemoveBoardMemberMutation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (memberId: string) => {
+      const res = await removeBoardMember(memberId);
+      if (!res.success) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: boardKeys.detail(boardId) });
+      qc.invalidateQueries({ queryKey: boardKeys.lists() });
+    },
+  });
+}
+
+// User search among the people a board's tasks can be assigned to
+export function useUserSearch(boardId: string, query: string) {
   return useQuery({
-    queryKey: boardKeys.users(query),
+    queryKey: boardKeys.users(boardId, query),
     queryFn: async () => {
-      const res = await searchUsers(query);
+      const res = await searchUsers(query, boardId);
       if (!res.success) throw new Error(res.error);
       return res.data;
     },
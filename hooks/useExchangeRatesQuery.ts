@@ -0,0 +1,35 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { trackerKeys } from "./queries/trackerQueries";
+import { getExchangeRates, updateExchangeRates } from "@/app/actions/users";
+import type { ExchangeRatesInput } from "@/lib/units";
+
+/**
+ * The user's base currency and exchange rates, for converting amounts.
+ */
+export function useExchangeRatesQuery() {
+  return useQuery({
+    queryKey: trackerKeys.exchangeRates(),
+    queryFn: async () => {
+      const response = await getExchangeRates();
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useUpdateExchangeRatesMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (rates: ExchangeRatesInput) => {
+      const response = await updateExchangeRates(rates);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(trackerKeys.exchangeRates(), data);
+    },
+  });
+}
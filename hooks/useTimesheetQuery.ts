@@ -0,0 +1,51 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { trackerKeys } from "./queries/trackerQueries";
+import { getBillingRates, getTimesheet, updateBillingRates } from "@/app/actions/timesheet";
+import type { TimesheetInput } from "@/app/actions/timesheet";
+import type { BillingRates } from "@/lib/trackers/timesheet";
+
+/**
+ * Billable time for the user's timer trackers over a date range.
+ */
+export function useTimesheetQuery(input: TimesheetInput) {
+  return useQuery({
+    queryKey: trackerKeys.timesheet(input),
+    queryFn: async () => {
+      const response = await getTimesheet(input);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    staleTime: 30_000,
+  });
+}
+
+/**
+ * Hourly rates for the user's timer trackers and tags.
+ */
+export function useBillingRatesQuery() {
+  return useQuery({
+    queryKey: trackerKeys.billingRates(),
+    queryFn: async () => {
+      const response = await getBillingRates();
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+  });
+}
+
+export function useUpdateBillingRatesMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (rates: BillingRates) => {
+      const response = await updateBillingRates(rates);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: () => {
+      // Rates live under the timesheet key, so this refreshes open reports too
+      void queryClient.invalidateQueries({ queryKey: ["timesheet"] });
+    },
+  });
+}
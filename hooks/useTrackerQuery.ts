@@ -1,17 +1,38 @@
 "use client";
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { trackerKeys } from "./queries/trackerQueries";
-import { getTracker, updateTracker, CreateTrackerInput } from "@/app/actions/trackers";
+import { trackerKeys, type TrackerFilters } from "./queries/trackerQueries";
+import {
+  getTracker,
+  getTrackerGoals,
+  getTrackers,
+  updateTracker,
+  CreateTrackerInput,
+  TrackerWithEntriesCount,
+} from "@/app/actions/trackers";
 import {
   createEntry,
   getEntriesByTracker,
   updateEntry as updateEntryAction,
   deleteEntry as deleteEntryAction,
   getTrackerStats,
+  importTrackerEntries,
+  pauseTimerEntry,
+  resumeTimerEntry,
+  startTimerEntry,
+  stopTimerEntry,
+  getTimersNeedingReview,
+  resolveTimerReview,
   CreateEntryInput,
+  ImportEntriesInput,
+  ImportEntriesResult,
+  TimerReviewItem,
+  TimerReviewResolution,
 } from "@/app/actions/entries";
-import { Tracker, TrackerEntry, TrackerStatus } from "@/types";
+import { Tracker, TrackerEntry, TrackerStatus, TrackerType } from "@/types";
+import type { GoalWithProgress } from "@/lib/trackers/goal-progress";
+import { generateId, isOffline, useOfflineQueue } from "@/lib/offlineQueue";
+import { toOfflineEntryArgs } from "@/lib/offline/operations";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Discriminated-union variable types for the specialised mutations
@@ -24,9 +45,14 @@ export type CounterMutationVariables = {
 
 export type TimerMutationVariables =
   | { action: "start"; now: Date }
-  | { action: "stop"; entryId: string; startTime: Date };
+  | { action: "stop"; entryId: string; startTime: Date; pomodoro?: boolean }
+  | { action: "pause"; entryId: string }
+  | { action: "resume"; entryId: string };
 
-export type TimerMutationResult = { action: "start"; entryId: string } | { action: "stop" };
+export type TimerMutationResult =
+  | { action: "start"; entryId: string; stopped: { id: string; trackerId: string }[] }
+  | { action: "stop"; pomodoro?: boolean }
+  | { action: "pause" | "resume"; at: Date };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Queries
@@ -71,31 +97,33 @@ export function useEntriesQuery(trackerId: string, page: number, limit: number)
 // Period stats
 // ─────────────────────────────────────────────────────────────────────────────
 
-type GoalPeriod = "daily" | "weekly" | "monthly";
-
 interface PeriodStats {
   today: number;
   week: number;
   month: number;
+  wallClock?: { today: number; week: number; month: number }; // TIMER only
+  pomodoros?: { today: number; week: number; month: number }; // TIMER only
 }
 
-/** Map a goalPeriod to the matching stats key and human label. */
-export function resolvePeriod(
-  goalEnabled?: boolean,
-  goalPeriod?: string | null
-): { key: keyof PeriodStats; label: string } {
-  if (goalEnabled && goalPeriod) {
-    switch (goalPeriod as GoalPeriod) {
-      case "weekly":
-        return { key: "week", label: "This week" };
-      case "monthly":
-        return { key: "month", label: "This month" };
-      case "daily":
-      default:
-        return { key: "today", label: "Today" };
-    }
+/**
+ * Map the tracker's first period goal (or legacy goal) to the matching stats
+ * key and human label.
+ */
+export function resolvePeriod(tracker: Pick<Tracker, "goals" | "goalEnabled" | "goalPeriod">): {
+  key: Exclude<keyof PeriodStats, "wallClock" | "pomodoros">;
+  label: string;
+} {
+  const goalPeriod =
+    tracker.goals?.find((goal) => goal.kind !== "streak")?.period ??
+    (tracker.goalEnabled ? tracker.goalPeriod : null);
+  switch (goalPeriod) {
+    case "weekly":
+      return { key: "week", label: "This week" };
+    case "monthly":
+      return { key: "month", label: "This month" };
+    default:
+      return { key: "today", label: "Today" };
   }
-  return { key: "today", label: "Today" };
 }
 
 /**
@@ -106,8 +134,7 @@ export function usePeriodStats(trackerId: string) {
   return useQuery<PeriodStats>({
     queryKey: trackerKeys.stats(trackerId, "period"),
     queryFn: async () => {
-      const timezoneOffset = new Date().getTimezoneOffset();
-      const response = await getTrackerStats(trackerId, timezoneOffset);
+      const response = await getTrackerStats(trackerId);
       if (!response.success) throw new Error(response.error);
       return response.data;
     },
@@ -115,21 +142,84 @@ export function usePeriodStats(trackerId: string) {
   });
 }
 
+/**
+ * The user's own trackers that can feed a derived tracker's formula: any
+ * type except DERIVED.
+ */
+export function useFormulaInputOptions() {
+  return useQuery({
+    queryKey: trackerKeys.formulaInputs(),
+    queryFn: async () => {
+      const response = await getTrackers({ sort: "name", limit: 100 });
+      if (!response.success) throw new Error(response.error);
+      return response.data.trackers.filter((tracker) => tracker.type !== TrackerType.DERIVED);
+    },
+    staleTime: 60_000,
+  });
+}
+
+/**
+ * Fetch one page of the user's trackers. Kept in the query cache, so lists
+ * built on it (the dashboard's) still show while offline.
+ */
+export function useTrackersQuery(filters: TrackerFilters = {}) {
+  return useQuery<TrackerWithEntriesCount[]>({
+    queryKey: trackerKeys.list(filters),
+    queryFn: async () => {
+      const response = await getTrackers(filters);
+      if (!response.success) throw new Error(response.error);
+      return response.data.trackers as TrackerWithEntriesCount[];
+    },
+    staleTime: 30_000,
+  });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // General-purpose entry mutations
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Create an entry for the given tracker, then invalidate its data.
+ * Create an entry, or while offline queue it to be created on reconnect
+ * (dated when it was queued unless `data.date` says otherwise). A queued
+ * entry resolves with the queued operation's id and `queued` set. The
+ * request and the queued operation share an idempotency key, so an entry
+ * that reached the server before the connection dropped isn't created twice.
+ */
+async function createEntryOrQueue(
+  data: CreateEntryInput,
+  label: string
+): Promise<{ id: string; queued?: boolean }> {
+  const idempotencyKey = generateId();
+  const queue = () => {
+    useOfflineQueue
+      .getState()
+      .enqueue("createEntry", toOfflineEntryArgs(data), label, idempotencyKey);
+    return { id: idempotencyKey, queued: true };
+  };
+  if (isOffline()) return queue();
+
+  let response;
+  try {
+    response = await createEntry(data, { idempotencyKey });
+  } catch (error) {
+    // The connection dropped while sending
+    if (isOffline()) return queue();
+    throw error;
+  }
+  if (!response.success) throw new Error(response.error);
+  return response.data;
+}
+
+/**
+ * Create an entry for the given tracker, then invalidate its data. Works
+ * offline: the entry is queued and synced once back online.
  */
 export function useAddEntryMutation(trackerId: string) {
   const queryClient = useQueryClient();
-  return useMutation<{ id: string }, Error, CreateEntryInput>({
-    mutationFn: async (data) => {
-      const response = await createEntry(data);
-      if (!response.success) throw new Error(response.error);
-      return response.data;
-    },
+  return useMutation<{ id: string; queued?: boolean }, Error, CreateEntryInput>({
+    // Run while offline too, so the write lands in the persistent queue
+    networkMode: "always",
+    mutationFn: (data) => createEntryOrQueue(data, "Add entry"),
     onSuccess: () => {
       void queryClient.invalidateQueries({
         queryKey: trackerKeys.detail(trackerId),
@@ -194,6 +284,42 @@ export function useDeleteEntryMutation(trackerId: string) {
   });
 }
 
+/**
+ * Bulk-import entries from CSV. A successful import can touch any date range,
+ * so every chart for the tracker is invalidated, not just the period stats.
+ */
+export function useImportEntriesMutation(trackerId: string) {
+  const queryClient = useQueryClient();
+  return useMutation<ImportEntriesResult, Error, ImportEntriesInput>({
+    mutationFn: async (input) => {
+      const response = await importTrackerEntries(trackerId, input);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (result) => {
+      if (result.imported === 0) return;
+      void queryClient.invalidateQueries({
+        queryKey: trackerKeys.detail(trackerId),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: ["entries", trackerId],
+      });
+      void queryClient.invalidateQueries({
+        queryKey: trackerKeys.stats(trackerId, "period"),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: ["trackerStats", trackerId],
+      });
+      void queryClient.invalidateQueries({
+        queryKey: ["trackerTrend", trackerId],
+      });
+      void queryClient.invalidateQueries({
+        queryKey: ["calendarData", trackerId],
+      });
+    },
+  });
+}
+
 /**
  * Update a tracker's fields / status, then invalidate all tracker caches.
  */
@@ -218,27 +344,29 @@ export function useUpdateTrackerMutation() {
 /**
  * Counter increment / decrement with optimistic totalValue update.
  * The cache is immediately updated so the counter display feels instant.
+ * Offline changes are queued and keep their optimistic value.
  */
 export function useCounterMutation(trackerId: string) {
   const queryClient = useQueryClient();
 
   return useMutation<
-    { id: string },
+    { id: string; queued?: boolean },
     Error,
     CounterMutationVariables,
     { previousTracker: Tracker | undefined }
   >({
-    mutationFn: async (variables) => {
-      const response = await createEntry({
-        trackerId,
-        value: variables.value,
-        date: new Date(),
-        note: variables.note ?? null,
-        tags: [],
-      });
-      if (!response.success) throw new Error(response.error);
-      return response.data;
-    },
+    networkMode: "always",
+    mutationFn: (variables) =>
+      createEntryOrQueue(
+        {
+          trackerId,
+          value: variables.value,
+          date: new Date(),
+          note: variables.note ?? null,
+          tags: [],
+        },
+        `Counter ${variables.value > 0 ? "+" : ""}${variables.value}`
+      ),
 
     onMutate: async (variables) => {
       await queryClient.cancelQueries({
@@ -280,10 +408,13 @@ export function useCounterMutation(trackerId: string) {
 }
 
 /**
- * Timer start / stop with optimistic tracker-status toggle.
+ * Timer start / stop / pause / resume with optimistic tracker-status toggle.
  *
- * - start: creates an entry with startTime === endTime (in-progress marker)
- * - stop:  updates that entry with the real endTime
+ * - start: starts a timer entry; the user's timer policy may reject it or stop
+ *          other running timers (reported in `stopped`)
+ * - stop:  ends that entry (closing any open break); with `pomodoro` the server
+ *          checks it ran a full work interval
+ * - pause / resume: open or close a break segment on the running entry
  *
  * The tracker's `status` is optimistically toggled so any component that
  * reads `useTrackerQuery` sees the change immediately.
@@ -298,26 +429,27 @@ export function useTimerMutation(trackerId: string) {
     { previousTracker: Tracker | undefined }
   >({
     mutationFn: async (variables) => {
-      if (variables.action === "start") {
-        const response = await createEntry({
-          trackerId,
-          startTime: variables.now,
-          endTime: variables.now,
-          date: variables.now,
-          tags: [],
-        });
+      if (variables.action === "pause" || variables.action === "resume") {
+        const response =
+          variables.action === "pause"
+            ? await pauseTimerEntry(variables.entryId)
+            : await resumeTimerEntry(variables.entryId);
         if (!response.success) throw new Error(response.error);
-        return { action: "start" as const, entryId: response.data.id };
+        return { action: variables.action, at: response.data.at };
+      } else if (variables.action === "start") {
+        const response = await startTimerEntry(trackerId);
+        if (!response.success) throw new Error(response.error);
+        return {
+          action: "start" as const,
+          entryId: response.data.id,
+          stopped: response.data.stopped,
+        };
       } else {
-        const now = new Date();
-        const response = await updateEntryAction(variables.entryId, {
-          trackerId,
-          startTime: variables.startTime,
-          endTime: now,
-          date: variables.startTime,
+        const response = await stopTimerEntry(variables.entryId, "", {
+          pomodoro: variables.pomodoro,
         });
         if (!response.success) throw new Error(response.error);
-        return { action: "stop" as const };
+        return { action: "stop" as const, pomodoro: response.data.pomodoro };
       }
     },
 
@@ -327,7 +459,8 @@ export function useTimerMutation(trackerId: string) {
       });
       const previousTracker = queryClient.getQueryData<Tracker>(trackerKeys.detail(trackerId));
       queryClient.setQueryData<Tracker>(trackerKeys.detail(trackerId), (old) => {
-        if (!old) return old;
+        // A paused timer stays ACTIVE; only start and stop change the status
+        if (!old || (variables.action !== "start" && variables.action !== "stop")) return old;
         return {
           ...old,
           status: variables.action === "start" ? TrackerStatus.ACTIVE : TrackerStatus.INACTIVE,
@@ -342,16 +475,66 @@ export function useTimerMutation(trackerId: string) {
       }
     },
 
-    onSettled: () => {
-      void queryClient.invalidateQueries({
-        queryKey: trackerKeys.detail(trackerId),
-      });
-      void queryClient.invalidateQueries({
-        queryKey: ["entries", trackerId],
-      });
-      void queryClient.invalidateQueries({
-        queryKey: trackerKeys.stats(trackerId, "period"),
-      });
+    onSettled: (data) => {
+      // Timers the policy stopped to make room belong to other trackers
+      const trackerIds = [
+        trackerId,
+        ...(data?.action === "start" ? data.stopped.map((entry) => entry.trackerId) : []),
+      ];
+      for (const id of new Set(trackerIds)) {
+        void queryClient.invalidateQueries({ queryKey: trackerKeys.detail(id) });
+        void queryClient.invalidateQueries({ queryKey: ["entries", id] });
+        void queryClient.invalidateQueries({ queryKey: trackerKeys.stats(id, "period") });
+      }
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.timerReview() });
+    },
+  });
+}
+
+/** A tracker's goals with their recorded past periods and current progress */
+export function useTrackerGoals(trackerId: string) {
+  return useQuery<GoalWithProgress[]>({
+    queryKey: trackerKeys.goals(trackerId),
+    queryFn: async () => {
+      const response = await getTrackerGoals(trackerId);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    staleTime: 30_000,
+  });
+}
+
+/** Timers running past the user's max length, or stopped and flagged for it */
+export function useTimersNeedingReview() {
+  return useQuery<TimerReviewItem[]>({
+    queryKey: trackerKeys.timerReview(),
+    queryFn: async () => {
+      const response = await getTimersNeedingReview();
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+  });
+}
+
+/** Keep, cap or re-time a timer from the review prompt */
+export function useResolveTimerReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { id: string; duration: number },
+    Error,
+    { item: TimerReviewItem; resolution: TimerReviewResolution }
+  >({
+    mutationFn: async ({ item, resolution }) => {
+      const response = await resolveTimerReview(item.id, resolution);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (_data, { item }) => {
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.timerReview() });
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.detail(item.trackerId) });
+      void queryClient.invalidateQueries({ queryKey: ["entries", item.trackerId] });
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.stats(item.trackerId, "period") });
     },
   });
 }
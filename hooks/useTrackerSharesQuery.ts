@@ -0,0 +1,85 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { trackerKeys } from "./queries/trackerQueries";
+import {
+  getSharedTrackers,
+  getTrackerShares,
+  shareTracker,
+  updateTrackerShareRole,
+  removeTrackerShare,
+} from "@/app/actions/trackers";
+import type { ShareTrackerInput } from "@/app/actions/trackers";
+import type { TrackerShareRole } from "@/types";
+
+/**
+ * Trackers other users have shared with the current user.
+ */
+export function useSharedTrackersQuery() {
+  return useQuery({
+    queryKey: trackerKeys.shared(),
+    queryFn: async () => {
+      const response = await getSharedTrackers();
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    staleTime: 30_000,
+  });
+}
+
+/**
+ * Users a tracker is shared with.
+ */
+export function useTrackerSharesQuery(trackerId: string, enabled = true) {
+  return useQuery({
+    queryKey: trackerKeys.shares(trackerId),
+    queryFn: async () => {
+      const response = await getTrackerShares(trackerId);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    enabled,
+    staleTime: 30_000,
+  });
+}
+
+export function useShareTrackerMutation(trackerId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: ShareTrackerInput) => {
+      const response = await shareTracker(trackerId, data);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.shares(trackerId) });
+    },
+  });
+}
+
+export function useUpdateTrackerShareRoleMutation(trackerId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ shareId, role }: { shareId: string; role: TrackerShareRole }) => {
+      const response = await updateTrackerShareRole(shareId, role);
+      if (!response.success) throw new Error(response.error);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.shares(trackerId) });
+    },
+  });
+}
+
+export function useRemoveTrackerShareMutation(trackerId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (shareId: string) => {
+      const response = await removeTrackerShare(shareId);
+      if (!response.success) throw new Error(response.error);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.shares(trackerId) });
+      void queryClient.invalidateQueries({ queryKey: trackerKeys.shared() });
+    },
+  });
+}
@@ -4,13 +4,31 @@ import prisma from "@/lib/db/prisma";
 export interface ApiAuthResult {
   userId: string;
   tokenId: string;
+  /** Granted scopes; see hasScope in lib/api/scopes.ts */
+  scopes: string[];
+  /** Trackers the token is restricted to; empty means all of the user's trackers */
+  trackerIds: string[];
 }
 
+// Results by request, so a wrapper that authenticates first (withIdempotency)
+// and the route handler it calls share one lookup and lastUsedAt write
+const validatedRequests = new WeakMap<Request, Promise<ApiAuthResult | null>>();
+
 /**
  * Validates a Bearer token from the Authorization header.
  * Returns the authenticated user's ID and token ID, or null if invalid.
+ * Repeat calls for the same request reuse the first result.
  */
-export async function validateApiToken(request: Request): Promise<ApiAuthResult | null> {
+export function validateApiToken(request: Request): Promise<ApiAuthResult | null> {
+  let result = validatedRequests.get(request);
+  if (!result) {
+    result = lookupApiToken(request);
+    validatedRequests.set(request, result);
+  }
+  return result;
+}
+
+async function lookupApiToken(request: Request): Promise<ApiAuthResult | null> {
   const authHeader = request.headers.get("Authorization");
   if (!authHeader?.startsWith("Bearer ")) {
     return null;
@@ -25,7 +43,7 @@ export async function validateApiToken(request: Request): Promise<ApiAuthResult
 
   const apiToken = await prisma.apiToken.findUnique({
     where: { tokenHash },
-    select: { id: true, userId: true, expiresAt: true },
+    select: { id: true, userId: true, expiresAt: true, scopes: true, trackerIds: true },
   });
 
   if (!apiToken) {
@@ -44,7 +62,13 @@ export async function validateApiToken(request: Request): Promise<ApiAuthResult
     })
     .catch(() => {});
 
-  return { userId: apiToken.userId, tokenId: apiToken.id };
+  return {
+    userId: apiToken.userId,
+    tokenId: apiToken.id,
+    // Tokens created before scopes existed keep full access
+    scopes: apiToken.scopes?.length ? apiToken.scopes : ["*"],
+    trackerIds: apiToken.trackerIds ?? [],
+  };
 }
 
 /** Returns a standard 401 JSON response */
@@ -0,0 +1,27 @@
+import { BoardRole } from "@/types";
+import { getBoardRole, hasBoardRole } from "@/lib/boards/access";
+import { forbiddenResponse } from "./scopes";
+
+/**
+ * Check the token owner's role on a board. Returns the response to send
+ * (404 for non-members so boards are not leaked, 403 for an insufficient
+ * role), or null when access is allowed.
+ */
+export async function checkBoardRole(
+  boardId: string,
+  userId: string,
+  required: BoardRole = BoardRole.VIEWER
+): Promise<Response | null> {
+  const role = await getBoardRole(boardId, userId);
+  if (!role) {
+    return Response.json({ error: "Board not found" }, { status: 404 });
+  }
+  if (!hasBoardRole(role, required)) {
+    return forbiddenResponse(
+      required === BoardRole.OWNER
+        ? "Only the board owner can do this"
+        : "You do not have permission to edit this board"
+    );
+  }
+  return null;
+}
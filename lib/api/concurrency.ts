@@ -0,0 +1,55 @@
+import { Prisma } from "@/app/generated/prisma";
+
+// Optimistic concurrency for PUT routes. A resource's version is its
+// `updatedAt`, sent as the ETag on reads and writes; a PUT carrying a stale
+// If-Match is refused instead of overwriting someone else's change. Checking
+// the header only catches edits made before the read, so routes also make
+// the write itself conditional on the version they checked.
+
+/** The ETag for a resource last written at `version` */
+export function entityTag(version: Date): string {
+  return `"${version.getTime()}"`;
+}
+
+/** Headers to send with a resource, so clients can make conditional updates */
+export function versionHeaders(version: Date): HeadersInit {
+  return { ETag: entityTag(version) };
+}
+
+/** True when the update must only apply to the version the client read */
+export function hasIfMatch(request: Request): boolean {
+  const header = request.headers.get("If-Match")?.trim();
+  return !!header && header !== "*";
+}
+
+/** True for the error of an update whose version condition matched nothing */
+export function isStaleWrite(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025";
+}
+
+/** The 409 sent when the resource changed since the client read it */
+export function conflictResponse(version?: Date): Response {
+  return Response.json(
+    {
+      error: "The resource was changed since it was read",
+      ...(version && { currentVersion: entityTag(version) }),
+    },
+    { status: 409, ...(version && { headers: versionHeaders(version) }) }
+  );
+}
+
+/**
+ * Check the request's If-Match header against the resource's current
+ * version. Returns a 409 response to send when it is stale, or null when the
+ * update may go ahead (including when the header is absent or `*`).
+ */
+export function checkIfMatch(request: Request, version: Date): Response | null {
+  const header = request.headers.get("If-Match");
+  if (!header) return null;
+
+  const current = entityTag(version);
+  const tags = header.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+  if (tags.includes("*") || tags.includes(current)) return null;
+
+  return conflictResponse(version);
+}
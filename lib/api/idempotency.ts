@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { validateApiToken } from "./auth";
+import { MAX_IDEMPOTENCY_KEY_LENGTH, withIdempotencyKey } from "@/lib/idempotency";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/** A response as kept for replay */
+interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+type RouteHandler<C> = (request: Request, context: C) => Promise<Response>;
+
+function toResponse(stored: StoredResponse, replayed: boolean): Response {
+  const headers = new Headers(stored.headers);
+  if (replayed) headers.set(IDEMPOTENT_REPLAYED_HEADER, "true");
+  // 204 and friends can't have a body, even an empty string
+  const body = stored.status === 204 || stored.status === 304 ? null : stored.body;
+  return new Response(body, { status: stored.status, headers });
+}
+
+/**
+ * Make a POST handler honour the Idempotency-Key header. The first request
+ * with a key runs normally and its response (unless a 5xx) is kept for
+ * IDEMPOTENCY_KEY_TTL_HOURS; retries with the same key, method, path and body
+ * get that response back, marked with Idempotent-Replayed, and write nothing.
+ * Reusing a key for a different request is a 422; sending it while the first
+ * is still running is a 409. Requests without the header are unaffected.
+ */
+export function withIdempotency(
+  handler: (request: Request) => Promise<Response>
+): (request: Request, context?: unknown) => Promise<Response>;
+export function withIdempotency<C>(handler: RouteHandler<C>): RouteHandler<C>;
+export function withIdempotency<C>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request, context) => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (!key) return handler(request, context);
+
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return Response.json(
+        {
+          error: "Validation failed",
+          details: {
+            [IDEMPOTENCY_KEY_HEADER]: [`Must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`],
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // Keys belong to the token's user; the handler answers unauthenticated
+    // requests, and its own validateApiToken call reuses this lookup
+    const auth = await validateApiToken(request);
+    if (!auth) return handler(request, context);
+
+    const { pathname } = new URL(request.url);
+    const body = await request.clone().text();
+    const fingerprint = createHash("sha256").update(body).digest("hex");
+
+    let outcome;
+    try {
+      outcome = await withIdempotencyKey<StoredResponse>(
+        auth.userId,
+        `api:${request.method} ${pathname}:${key}`,
+        async () => {
+          const response = await handler(request, context);
+          return {
+            status: response.status,
+            headers: [...response.headers.entries()],
+            body: await response.text(),
+          };
+        },
+        // Server errors may not have written anything; let the client retry them
+        { shouldStore: (stored) => stored.status < 500, fingerprint }
+      );
+    } catch (error) {
+      console.error("[api:idempotency] Operation failed:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+
+    if (outcome.status === "mismatch") {
+      return Response.json(
+        { error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` },
+        { status: 422 }
+      );
+    }
+    if (outcome.status === "in_progress") {
+      return Response.json(
+        { error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed` },
+        { status: 409 }
+      );
+    }
+    return toResponse(outcome.result, outcome.replayed);
+  };
+}
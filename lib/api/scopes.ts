@@ -0,0 +1,40 @@
+import type { Prisma } from "@/app/generated/prisma";
+import type { ApiTokenScope } from "@/types";
+import type { ApiAuthResult } from "./auth";
+
+/**
+ * Whether the granted scopes cover `required`, honouring `<resource>:*` and
+ * `*` wildcards.
+ */
+export function hasScope(granted: readonly string[], required: ApiTokenScope): boolean {
+  const [resource] = required.split(":");
+  return granted.includes("*") || granted.includes(required) || granted.includes(`${resource}:*`);
+}
+
+/** Returns a standard 403 JSON response */
+export function forbiddenResponse(error: string, requiredScope?: ApiTokenScope): Response {
+  return Response.json({ error, ...(requiredScope && { requiredScope }) }, { status: 403 });
+}
+
+/**
+ * Check a token's scope and, when `trackerId` is given, its tracker
+ * restriction. Returns a 403 response to send, or null when access is allowed.
+ */
+export function checkApiAccess(
+  auth: ApiAuthResult,
+  scope: ApiTokenScope,
+  trackerId?: string
+): Response | null {
+  if (!hasScope(auth.scopes, scope)) {
+    return forbiddenResponse(`Missing required scope: ${scope}`, scope);
+  }
+  if (trackerId && auth.trackerIds.length > 0 && !auth.trackerIds.includes(trackerId)) {
+    return forbiddenResponse("This token is not allowed to access this tracker");
+  }
+  return null;
+}
+
+/** Narrows tracker queries to the token's tracker restriction, if any */
+export function tokenTrackerWhere(auth: ApiAuthResult): Prisma.TrackerWhereInput {
+  return auth.trackerIds.length > 0 ? { id: { in: auth.trackerIds } } : {};
+}
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import { validateApiToken, unauthorizedResponse } from "@/lib/api/auth";
+import { TrackerType } from "@/app/generated/prisma";
+import { activeSeconds, isTimerRunning, pauseBreaks, resumeBreaks } from "@/lib/trackers/timer";
+import { checkApiAccess } from "./scopes";
+
+const PauseSchema = z.object({
+  entryId: z.string().optional(),
+});
+
+/**
+ * Shared handler for POST /api/v1/trackers/:id/pause and /resume.
+ * Body: { entryId?: string (auto-detected if omitted) }
+ * Returns: { data: { entryId, paused, activeDuration, breaks } }
+ */
+export async function handleTimerPause(
+  request: Request,
+  trackerId: string,
+  paused: boolean
+): Promise<Response> {
+  const auth = await validateApiToken(request);
+  if (!auth) return unauthorizedResponse();
+
+  const denied = checkApiAccess(auth, "entries:write", trackerId);
+  if (denied) return denied;
+
+  // The body is optional here: an empty request pauses the running timer
+  let body: unknown = {};
+  const text = await request.text();
+  if (text.trim() !== "") {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+  }
+
+  const parsed = PauseSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 422 }
+    );
+  }
+
+  const tracker = await prisma.tracker.findFirst({
+    where: { id: trackerId, userId: auth.userId },
+    select: { id: true, type: true },
+  });
+  if (!tracker) {
+    return Response.json({ error: "Tracker not found" }, { status: 404 });
+  }
+  if (tracker.type !== TrackerType.TIMER) {
+    return Response.json(
+      { error: `Tracker is not a timer (type: ${tracker.type})` },
+      { status: 400 }
+    );
+  }
+
+  const { entryId } = parsed.data;
+  const candidates = await prisma.trackerEntry.findMany({
+    where: { trackerId, startTime: { not: null }, ...(entryId && { id: entryId }) },
+    select: { id: true, startTime: true, endTime: true, breaks: true },
+    orderBy: { startTime: "desc" },
+    take: entryId ? 1 : 5,
+  });
+  const entry = candidates.find(isTimerRunning);
+  if (!entry || !entry.startTime) {
+    return Response.json({ error: "No active timer found" }, { status: 409 });
+  }
+
+  const now = new Date();
+  const breaks = paused ? pauseBreaks(entry.breaks, now) : resumeBreaks(entry.breaks, now);
+  if (!breaks) {
+    return Response.json(
+      { error: paused ? "Timer is already paused" : "Timer is not paused" },
+      { status: 409 }
+    );
+  }
+
+  // Guard on the breaks read above so a concurrent pause/resume can't apply twice
+  const updated = await prisma.trackerEntry.updateMany({
+    where: { id: entry.id, breaks: { equals: entry.breaks } },
+    data: { breaks },
+  });
+  if (updated.count === 0) {
+    return Response.json({ error: "Timer changed, please retry" }, { status: 409 });
+  }
+
+  return Response.json({
+    data: {
+      entryId: entry.id,
+      paused,
+      activeDuration: activeSeconds(entry.startTime, now, breaks),
+      breaks,
+    },
+  });
+}
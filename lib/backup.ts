@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { TRACKER_STATUS_VALUES, TRACKER_TYPE_VALUES } from "@/types";
+import { CustomFieldsSchema, CustomFieldValuesSchema } from "@/lib/trackers/custom-fields";
+import { PomodoroConfigSchema } from "@/lib/trackers/pomodoro";
+import { HabitScheduleSchema, HabitSkipSchema } from "@/lib/trackers/habits";
+import { UnitCodeSchema } from "@/lib/units";
+import { DerivedFormulaSchema } from "@/lib/trackers/formula";
+import { GOAL_ALIGNMENTS, GOAL_KINDS, GOAL_PERIOD_VALUES } from "@/lib/trackers/goals";
+
+// Versioned full-account archive. IDs in an archive are only meaningful
+// within that archive: restore creates fresh ObjectIds and rewrites every
+// reference (task → column, entry → task) through an old → new map.
+//
+// Sharing, board members and assignees are not included — user IDs do not
+// carry over between instances.
+
+export const BACKUP_FORMAT = "htasker-backup";
+export const BACKUP_VERSION = 1;
+
+export const RESTORE_MODES = ["merge", "replace"] as const;
+
+export type RestoreMode = (typeof RESTORE_MODES)[number];
+
+const IsoDate = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
+
+const ArchiveId = z.string().min(1).max(64);
+
+const BackupEntrySchema = z.object({
+  id: ArchiveId,
+  startTime: IsoDate.nullable().default(null),
+  endTime: IsoDate.nullable().default(null),
+  value: z.number().finite().nullable().default(null),
+  enteredValue: z.number().finite().nullable().default(null),
+  enteredUnit: UnitCodeSchema.nullable().default(null),
+  date: IsoDate,
+  note: z.string().max(500).nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  taskId: ArchiveId.nullable().default(null),
+  fields: CustomFieldValuesSchema.nullable().default(null),
+  breaks: z.array(z.object({ start: IsoDate, end: IsoDate.nullable().default(null) })).default([]),
+  pomodoro: z.boolean().default(false),
+  overrun: z.boolean().default(false),
+  createdAt: IsoDate.optional(),
+});
+
+const BackupGoalSchema = z.object({
+  kind: z.enum(GOAL_KINDS),
+  value: z.number().finite().positive(),
+  period: z.enum(GOAL_PERIOD_VALUES),
+  alignment: z.enum(GOAL_ALIGNMENTS).default("calendar"),
+  unit: z.string().max(20).nullable().default(null),
+  history: z
+    .array(z.object({ periodStart: z.string(), total: z.number().finite(), met: z.boolean() }))
+    .default([]),
+  createdAt: IsoDate.optional(),
+});
+
+const BackupTrackerSchema = z.object({
+  id: ArchiveId,
+  name: z.string().min(1).max(50),
+  description: z.string().max(200).nullable().default(null),
+  type: z.enum(TRACKER_TYPE_VALUES),
+  status: z.enum(TRACKER_STATUS_VALUES).default("ACTIVE"),
+  tags: z.array(z.string()).default([]),
+  color: z.string().nullable().default(null),
+  icon: z.string().nullable().default(null),
+  isPinned: z.boolean().default(false),
+  goalEnabled: z.boolean().default(false),
+  goalValue: z.number().finite().nullable().default(null),
+  goalPeriod: z.string().nullable().default(null),
+  goalUnit: z.string().nullable().default(null),
+  fields: CustomFieldsSchema.default([]),
+  pomodoro: PomodoroConfigSchema.nullable().default(null),
+  schedule: HabitScheduleSchema.nullable().default(null),
+  hourlyRate: z.number().finite().min(0).nullable().default(null),
+  unit: UnitCodeSchema.nullable().default(null),
+  // Input tracker IDs are archive IDs, remapped on restore
+  formula: DerivedFormulaSchema.nullable().default(null),
+  goals: z.array(BackupGoalSchema).default([]),
+  skips: z.array(HabitSkipSchema).default([]),
+  createdAt: IsoDate.optional(),
+  entries: z.array(BackupEntrySchema).default([]),
+});
+
+const BackupColumnSchema = z.object({
+  id: ArchiveId,
+  name: z.string().min(1).max(50),
+  order: z.number().int(),
+});
+
+const BackupTaskSchema = z.object({
+  id: ArchiveId,
+  title: z.string().min(1).max(200),
+  description: z.string().max(20000).nullable().default(null),
+  order: z.number().int(),
+  startDate: IsoDate.nullable().default(null),
+  dueDate: IsoDate.nullable().default(null),
+  priority: z.string().nullable().default("MEDIUM"),
+  recurrence: z.string().nullable().default(null),
+  columnId: ArchiveId,
+  createdAt: IsoDate.optional(),
+});
+
+const BackupBoardSchema = z
+  .object({
+    id: ArchiveId,
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).nullable().default(null),
+    createdAt: IsoDate.optional(),
+    columns: z.array(BackupColumnSchema).default([]),
+    tasks: z.array(BackupTaskSchema).default([]),
+  })
+  .superRefine((board, ctx) => {
+    const columnIds = new Set(board.columns.map((column) => column.id));
+    board.tasks.forEach((task, index) => {
+      if (!columnIds.has(task.columnId)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["tasks", index, "columnId"],
+          message: `Task "${task.title}" references a column that is not in its board`,
+        });
+      }
+    });
+  });
+
+export const BackupArchiveSchema = z
+  .object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.literal(BACKUP_VERSION),
+    exportedAt: IsoDate,
+    trackers: z.array(BackupTrackerSchema).default([]),
+    boards: z.array(BackupBoardSchema).default([]),
+  })
+  .superRefine((archive, ctx) => {
+    // Every ID is a remap key, so duplicates would silently merge records
+    const seen = new Set<string>();
+    const check = (id: string, path: (string | number)[]) => {
+      if (seen.has(id)) {
+        ctx.addIssue({ code: "custom", path, message: `Duplicate id "${id}"` });
+      }
+      seen.add(id);
+    };
+    archive.trackers.forEach((tracker, t) => {
+      check(tracker.id, ["trackers", t, "id"]);
+      tracker.entries.forEach((entry, e) => check(entry.id, ["trackers", t, "entries", e, "id"]));
+    });
+    archive.boards.forEach((board, b) => {
+      check(board.id, ["boards", b, "id"]);
+      board.columns.forEach((column, c) => check(column.id, ["boards", b, "columns", c, "id"]));
+      board.tasks.forEach((task, k) => check(task.id, ["boards", b, "tasks", k, "id"]));
+    });
+  });
+
+/** Archive as written to disk (dates serialised as ISO strings) */
+export type BackupArchiveInput = z.input<typeof BackupArchiveSchema>;
+
+/** Archive after validation (dates parsed, defaults applied) */
+export type BackupArchive = z.output<typeof BackupArchiveSchema>;
+
+export interface RestoreSummary {
+  trackers: number;
+  entries: number;
+  boards: number;
+  columns: number;
+  tasks: number;
+  /** Records already present when merging, left untouched */
+  skipped: number;
+}
+
+/**
+ * Parse and validate archive text. Returns a readable error for malformed
+ * JSON, unknown versions or schema violations.
+ */
+export function parseBackupArchive(
+  text: string
+): { success: true; data: BackupArchive } | { success: false; error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: "Backup file is not valid JSON" };
+  }
+
+  if (raw && typeof raw === "object" && "version" in raw && raw.version !== BACKUP_VERSION) {
+    return {
+      success: false,
+      error: `Unsupported backup version ${String(raw.version)} (expected ${BACKUP_VERSION})`,
+    };
+  }
+
+  const parsed = BackupArchiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return { success: false, error: `Invalid backup${where}: ${issue.message}` };
+  }
+  return { success: true, data: parsed.data };
+}
@@ -0,0 +1,57 @@
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+import { BoardRole, isBoardRole } from "@/types";
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+const ROLE_RANK: Record<BoardRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  OWNER: 2,
+};
+
+/** True when `role` grants at least the access of `required` */
+export function hasBoardRole(role: BoardRole | null, required: BoardRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/** Prisma filter for boards the user owns or is a member of */
+export function boardAccessWhere(userId: string): Prisma.BoardWhereInput {
+  return { OR: [{ userId }, { members: { some: { userId } } }] };
+}
+
+/**
+ * Resolve the user's role on a board, or null when they have no access.
+ * Board.userId always counts as OWNER so boards created before membership
+ * rows existed keep working.
+ */
+export async function getBoardRole(
+  boardId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<BoardRole | null> {
+  const board = await db.board.findFirst({
+    where: { id: boardId },
+    select: { userId: true, members: { where: { userId }, select: { role: true } } },
+  });
+  if (!board) return null;
+  if (board.userId === userId) return BoardRole.OWNER;
+
+  const role = board.members[0]?.role;
+  return isBoardRole(role) ? role : null;
+}
+
+export const ASSIGNEE_NOT_MEMBER = "The assignee must be a member of this board";
+
+/**
+ * Whether a task on the board may be assigned to `userId`: only the owner and
+ * members can be. Assigning never grants access; the owner invites people
+ * first (see inviteBoardMember). Unknown user IDs are never members.
+ */
+export async function canAssignTask(
+  boardId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<boolean> {
+  return (await getBoardRole(boardId, userId, db)) !== null;
+}
@@ -0,0 +1,150 @@
+import { startOfDay } from "date-fns";
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+import type { BoardTask } from "@/types";
+import {
+  anchorRecurrenceRule,
+  formatRecurrenceRule,
+  getNextUpcomingOccurrence,
+  parseRecurrenceRule,
+} from "@/lib/recurrence";
+
+export type MovableTask = Pick<
+  BoardTask,
+  | "id"
+  | "title"
+  | "description"
+  | "priority"
+  | "assigneeId"
+  | "recurrence"
+  | "startDate"
+  | "dueDate"
+  | "boardId"
+  | "columnId"
+>;
+
+/**
+ * When a recurring task lands in the board's last column, create its next
+ * instance at the bottom of the first column with dates shifted to the next
+ * occurrence. The rule moves to the new instance so completing the old task
+ * again cannot spawn duplicates.
+ */
+async function spawnNextOccurrence(
+  tx: Prisma.TransactionClient,
+  task: MovableTask,
+  targetColumnId: string
+): Promise<string | null> {
+  const rule = task.recurrence ? parseRecurrenceRule(task.recurrence) : null;
+  if (!rule) return null;
+
+  const columns = await tx.boardColumn.findMany({
+    where: { boardId: task.boardId },
+    orderBy: { order: "asc" },
+    select: { id: true },
+  });
+  const firstColumn = columns[0];
+  const lastColumn = columns[columns.length - 1];
+  if (!firstColumn || !lastColumn || firstColumn.id === lastColumn.id) return null;
+  if (lastColumn.id !== targetColumnId) return null;
+
+  const anchor = task.dueDate ?? task.startDate ?? startOfDay(new Date());
+  const next = getNextUpcomingOccurrence(rule, anchor);
+  // Carry the series' day of month forward; the next due date may be clamped
+  const series = anchorRecurrenceRule(rule, anchor);
+  const shift = next.getTime() - anchor.getTime();
+
+  const lastTask = await tx.boardTask.findFirst({
+    where: { columnId: firstColumn.id },
+    orderBy: { order: "desc" },
+    select: { order: true },
+  });
+
+  const created = await tx.boardTask.create({
+    data: {
+      title: task.title,
+      description: task.description ?? null,
+      priority: task.priority ?? "MEDIUM",
+      assigneeId: task.assigneeId ?? null,
+      recurrence: series === rule ? task.recurrence : formatRecurrenceRule(series),
+      startDate: task.startDate ? new Date(task.startDate.getTime() + shift) : null,
+      // Undated tasks get a due date so the next instance shows when it is due
+      dueDate: task.dueDate || !task.startDate ? next : null,
+      order: (lastTask?.order ?? -1) + 1,
+      columnId: firstColumn.id,
+      boardId: task.boardId,
+    },
+    select: { id: true },
+  });
+
+  await tx.boardTask.update({
+    where: { id: task.id },
+    data: { recurrence: null },
+  });
+
+  return created.id;
+}
+
+/**
+ * Place a task at `newOrder` in `targetColumnId` and renumber the affected
+ * columns in one transaction. The caller checks access and that the target
+ * column belongs to the task's board. Returns the id of the next occurrence
+ * when a recurring task was completed, otherwise null.
+ */
+export async function moveBoardTask(
+  task: MovableTask,
+  targetColumnId: string,
+  newOrder: number
+): Promise<string | null> {
+  const sourceColumnId = task.columnId;
+
+  if (sourceColumnId === targetColumnId) {
+    // Reorder within same column — atomic transaction
+    await prisma.$transaction(async (tx) => {
+      const tasks = await tx.boardTask.findMany({
+        where: { columnId: sourceColumnId },
+        orderBy: { order: "asc" },
+        select: { id: true, order: true },
+      });
+
+      const filtered = tasks.filter((t) => t.id !== task.id);
+      filtered.splice(newOrder, 0, { id: task.id, order: newOrder });
+
+      for (let idx = 0; idx < filtered.length; idx++) {
+        await tx.boardTask.update({ where: { id: filtered[idx].id }, data: { order: idx } });
+      }
+    });
+    return null;
+  }
+
+  // Move to different column — atomic transaction
+  return prisma.$transaction(async (tx) => {
+    // Reorder source column
+    const sourceTasks = await tx.boardTask.findMany({
+      where: { columnId: sourceColumnId, id: { not: task.id } },
+      orderBy: { order: "asc" },
+      select: { id: true },
+    });
+    for (let idx = 0; idx < sourceTasks.length; idx++) {
+      await tx.boardTask.update({ where: { id: sourceTasks[idx].id }, data: { order: idx } });
+    }
+
+    // Insert into target column
+    const targetTasks = await tx.boardTask.findMany({
+      where: { columnId: targetColumnId },
+      orderBy: { order: "asc" },
+      select: { id: true },
+    });
+    targetTasks.splice(newOrder, 0, { id: task.id });
+    for (let idx = 0; idx < targetTasks.length; idx++) {
+      await tx.boardTask.update({
+        where: { id: targetTasks[idx].id },
+        data: {
+          order: idx,
+          ...(targetTasks[idx].id === task.id ? { columnId: targetColumnId } : {}),
+        },
+      });
+    }
+
+    return spawnNextOccurrence(tx, task, targetColumnId);
+  });
+}
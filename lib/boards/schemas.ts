@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { isValidRecurrenceRule } from "@/lib/recurrence";
+
+/** Validation shared by the board server actions and /api/v1/boards */
+export const BoardSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description cannot exceed 500 characters")
+    .optional()
+    .nullable(),
+});
+
+export const ColumnSchema = z.object({
+  name: z.string().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
+});
+
+export const TaskSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200, "Title cannot exceed 200 characters"),
+  description: z
+    .string()
+    .max(20000, "Description cannot exceed 20000 characters")
+    .optional()
+    .nullable(),
+  startDate: z.coerce.date().optional().nullable(),
+  dueDate: z.coerce.date().optional().nullable(),
+  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional().nullable(),
+  assigneeId: z.string().optional().nullable(),
+  recurrence: z
+    .string()
+    .max(200, "Recurrence rule cannot exceed 200 characters")
+    .refine(isValidRecurrenceRule, "Invalid recurrence rule")
+    .optional()
+    .nullable(),
+});
+
+export const MoveTaskSchema = z.object({
+  columnId: z.string().min(1, "Target column ID is required"),
+  order: z.number().int().min(0, "Order cannot be negative"),
+});
+
+export const DEFAULT_COLUMNS = [
+  { name: "To Do", order: 0 },
+  { name: "In Progress", order: 1 },
+  { name: "Done", order: 2 },
+];
@@ -0,0 +1,67 @@
+/**
+ * Parse RFC 4180 CSV text into rows of fields. Handles quoted fields with
+ * embedded commas, quotes ("") and line breaks, CRLF line endings and a
+ * leading byte-order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char === "\r") {
+      if (input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Escape a field value per RFC 4180, and neutralize spreadsheet formula
+ * injection by prefixing formula-trigger characters
+ */
+export function escapeCsvField(val: string | null | undefined): string {
+  if (val == null) return "";
+  const sanitized = /^[=+\-@]/.test(val) ? `'${val}` : val;
+  if (sanitized.includes(",") || sanitized.includes('"') || sanitized.includes("\n")) {
+    return `"${sanitized.replace(/"/g, '""')}"`;
+  }
+  return sanitized;
+}
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { TrackerType } from "@/types";
+
+/** Entry fields a CSV column can be mapped to, in exportTrackerCSV order */
+export const ENTRY_IMPORT_FIELDS = [
+  "date",
+  "value",
+  "startTime",
+  "endTime",
+  "note",
+  "tags",
+  // Timers only: time excluding breaks, in seconds
+  "activeDuration",
+] as const;
+
+export type EntryImportField = (typeof ENTRY_IMPORT_FIELDS)[number];
+
+/** Column index for each field, or null when the field is not imported */
+export type EntryImportMapping = Record<EntryImportField, number | null>;
+
+export const MAX_IMPORT_ROWS = 10_000;
+
+const MAX_NOTE_LENGTH = 500;
+
+export const EntryImportMappingSchema = z.object(
+  Object.fromEntries(
+    ENTRY_IMPORT_FIELDS.map((field) => [field, z.number().int().min(0).nullable()])
+  ) as Record<EntryImportField, z.ZodNullable<z.ZodNumber>>
+);
+
+export interface ImportedEntry {
+  date: Date;
+  value: number | null;
+  startTime: Date | null;
+  endTime: Date | null;
+  note: string | null;
+  tags: string[];
+}
+
+export interface ImportRowError {
+  /** 1-based line in the file, counting the header row */
+  row: number;
+  message: string;
+}
+
+export interface MappedImportRows {
+  entries: ImportedEntry[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Map header names to fields by case-insensitive match, ignoring spaces,
+ * dashes and underscores, so the exportTrackerCSV header maps itself.
+ */
+export function guessColumnMapping(headers: string[]): EntryImportMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[\s_-]/g, ""));
+  const mapping = {} as EntryImportMapping;
+  for (const field of ENTRY_IMPORT_FIELDS) {
+    const index = normalized.indexOf(field.toLowerCase());
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+/** Undo the formula-injection guard exportTrackerCSV adds to text fields */
+function unescapeText(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+function parseDate(value: string): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function mapRow(
+  row: string[],
+  mapping: EntryImportMapping,
+  trackerType: TrackerType
+): ImportedEntry | string {
+  const cell = (field: EntryImportField): string => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] ?? "").trim();
+  };
+
+  const startText = cell("startTime");
+  const endText = cell("endTime");
+  const startTime = startText ? parseDate(startText) : null;
+  const endTime = endText ? parseDate(endText) : null;
+  if (startText && !startTime) return `Invalid startTime "${startText}"`;
+  if (endText && !endTime) return `Invalid endTime "${endText}"`;
+
+  const dateText = cell("date");
+  const date = dateText ? parseDate(dateText) : startTime;
+  if (dateText && !date) return `Invalid date "${dateText}"`;
+  if (!date) return "Missing date";
+
+  const valueText = cell("value");
+  let value = valueText ? Number(valueText) : null;
+  if (value !== null && !Number.isFinite(value)) return `Invalid value "${valueText}"`;
+
+  if (trackerType === TrackerType.TIMER) {
+    if (!startTime || !endTime) return "Timer entries need both startTime and endTime";
+    if (endTime <= startTime) return "endTime must be after startTime";
+    const wallClock = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+
+    // Exported timers carry their active time; breaks aren't part of the duration
+    const activeText = cell("activeDuration");
+    if (activeText) {
+      const active = Math.round(Number(activeText));
+      if (!Number.isFinite(active) || active < 0) return `Invalid activeDuration "${activeText}"`;
+      if (active > wallClock) return "activeDuration cannot exceed the time from start to end";
+      value = active;
+    } else {
+      value = wallClock;
+    }
+  } else if (
+    (trackerType === TrackerType.COUNTER || trackerType === TrackerType.AMOUNT) &&
+    value === null
+  ) {
+    return "Missing value";
+  }
+
+  const note = unescapeText(cell("note"));
+  if (note.length > MAX_NOTE_LENGTH) {
+    return `Note cannot exceed ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  const tags = unescapeText(cell("tags"))
+    .split(";")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  return { date, value, startTime, endTime, note: note || null, tags };
+}
+
+/**
+ * Turn parsed CSV data rows (header excluded) into entries for a tracker of
+ * the given type. Rows that fail validation are reported with their line
+ * number instead of being returned.
+ */
+export function mapImportRows(
+  rows: string[][],
+  mapping: EntryImportMapping,
+  trackerType: TrackerType
+): MappedImportRows {
+  const entries: ImportedEntry[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((row, index) => {
+    const result = mapRow(row, mapping, trackerType);
+    if (typeof result === "string") {
+      errors.push({ row: index + 2, message: result });
+    } else {
+      entries.push(result);
+    }
+  });
+
+  return { entries, errors };
+}
@@ -0,0 +1,125 @@
+import { Prisma } from "@/app/generated/prisma";
+import prisma from "@/lib/db/prisma";
+
+/** How long a completed write's result is replayed for its key */
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// A claim with no result this old belongs to a request that died mid-write
+const ABANDONED_CLAIM_MS = 5 * 60 * 1000;
+
+export type IdempotentOutcome<T> =
+  | { status: "completed"; result: T; replayed: boolean }
+  | { status: "in_progress" }
+  /** The key was first used for a different request */
+  | { status: "mismatch" };
+
+/** Optional last argument of server actions that create records */
+export interface IdempotencyOptions {
+  /**
+   * Client-generated key (e.g. a UUID) for this write. Calling again with
+   * the same key returns the first call's result instead of writing twice.
+   */
+  idempotencyKey?: string;
+}
+
+type ActionResponse<T> = { success: true; data: T } | { success: false; error: string };
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Run a write at most once per user and key. The first call claims the key
+ * and runs `run`; results that `shouldStore` accepts are kept, so a retry with
+ * the same key gets them back (`replayed`) without writing again. Anything
+ * else (or a throw) releases the key so the write can be retried. A repeat
+ * that arrives while the first call is still running gets `in_progress`, and
+ * one whose `fingerprint` differs from the first call's gets `mismatch`.
+ */
+export async function withIdempotencyKey<T>(
+  userId: string,
+  key: string,
+  run: () => Promise<T>,
+  options: { shouldStore?: (result: T) => boolean; fingerprint?: string } = {}
+): Promise<IdempotentOutcome<T>> {
+  const { shouldStore = () => true, fingerprint } = options;
+
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      userId,
+      createdAt: { lt: new Date(Date.now() - IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000) },
+    },
+  });
+
+  let claimId: string;
+  try {
+    ({ id: claimId } = await prisma.idempotencyKey.create({
+      data: { userId, key, requestHash: fingerprint ?? null },
+    }));
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+    if (existing && (existing.requestHash ?? undefined) !== fingerprint) {
+      return { status: "mismatch" };
+    }
+    if (existing?.result != null) {
+      return { status: "completed", result: existing.result as T, replayed: true };
+    }
+    if (existing && Date.now() - existing.createdAt.getTime() < ABANDONED_CLAIM_MS) {
+      return { status: "in_progress" };
+    }
+    // The earlier attempt never finished (or its key just expired); take over
+    if (existing) {
+      await prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, createdAt: existing.createdAt },
+      });
+    }
+    return withIdempotencyKey(userId, key, run, options);
+  }
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } });
+    throw error;
+  }
+
+  if (shouldStore(result)) {
+    await prisma.idempotencyKey.update({
+      where: { id: claimId },
+      data: { result: result as Prisma.InputJsonValue },
+    });
+  } else {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } });
+  }
+  return { status: "completed", result, replayed: false };
+}
+
+/**
+ * Run server action `action` once per key for `userId`. Successful responses
+ * are replayed to retries; failed ones can be retried.
+ */
+export async function runIdempotentAction<T>(
+  userId: string,
+  action: string,
+  idempotencyKey: string,
+  run: () => Promise<ActionResponse<T>>
+): Promise<ActionResponse<T>> {
+  if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return { success: false, error: "Invalid idempotency key" };
+  }
+  try {
+    const outcome = await withIdempotencyKey(userId, `${action}:${idempotencyKey}`, run, {
+      shouldStore: (response) => response.success,
+    });
+    if (outcome.status === "completed") return outcome.result;
+    return { success: false, error: "This change is already being saved" };
+  } catch (error) {
+    console.error(`Error running ${action}:`, error);
+    return { success: false, error: "Failed to save change" };
+  }
+}
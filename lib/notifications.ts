@@ -0,0 +1,39 @@
+import { toast } from "sonner";
+
+const ICON = "/icons/icon-192.png";
+const TAG = "htasker-timer";
+
+/**
+ * Ask for notification permission. Call from a user gesture (e.g. starting a
+ * timer); resolves to whether notifications may be shown.
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (typeof window === "undefined" || !("Notification" in window)) return false;
+  if (Notification.permission !== "default") return Notification.permission === "granted";
+  try {
+    return (await Notification.requestPermission()) === "granted";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Announce something time-based: always as a toast, and as a system
+ * notification too when permission was granted and the tab is in the
+ * background.
+ */
+export function announce(title: string, body?: string): void {
+  toast(title, { description: body });
+
+  if (typeof window === "undefined" || !("Notification" in window)) return;
+  if (Notification.permission !== "granted" || document.visibilityState === "visible") return;
+
+  try {
+    new Notification(title, { body, icon: ICON, tag: TAG });
+  } catch {
+    // Some mobile browsers only allow notifications from the service worker
+    void navigator.serviceWorker?.ready
+      .then((registration) => registration.showNotification(title, { body, icon: ICON, tag: TAG }))
+      .catch(() => {});
+  }
+}
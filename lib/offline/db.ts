@@ -0,0 +1,126 @@
+import {
+  OFFLINE_DB_NAME,
+  OFFLINE_DB_VERSION,
+  OFFLINE_QUERY_STORE,
+  OFFLINE_STORE,
+  type OfflineOperation,
+} from "./operations";
+
+// Minimal promise wrappers over IndexedDB for the offline write queue and the
+// query cache snapshot. Where IndexedDB is missing (SSR, some private modes)
+// every call is a no-op and both only live as long as the page.
+
+/** A saved query cache, readable only by the user who saved it */
+export interface StoredQueryCache<T = unknown> {
+  userId: string;
+  /** When the snapshot was taken (ISO 8601) */
+  savedAt: string;
+  state: T;
+}
+
+const QUERY_CACHE_KEY = "current";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const names = request.result.objectStoreNames;
+      if (!names.contains(OFFLINE_STORE)) {
+        request.result.createObjectStore(OFFLINE_STORE, { keyPath: "id" });
+      }
+      if (!names.contains(OFFLINE_QUERY_STORE)) {
+        request.result.createObjectStore(OFFLINE_QUERY_STORE);
+      }
+    };
+    dbPromise = requestToPromise(request).then(
+      (db) => {
+        // Let a newer version of the app (or the service worker) upgrade
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        return db;
+      },
+      (error) => {
+        dbPromise = null;
+        throw error;
+      }
+    );
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  storeName: string = OFFLINE_STORE
+): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const request = run(tx.objectStore(storeName));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return request ? request.result : undefined;
+}
+
+/** Every stored operation, oldest first */
+export async function loadOperations(): Promise<OfflineOperation[]> {
+  if (!isAvailable()) return [];
+  const operations = await withStore<OfflineOperation[]>("readonly", (store) => store.getAll());
+  return (operations ?? []).sort((a, b) => a.clientTimestamp.localeCompare(b.clientTimestamp));
+}
+
+/** Insert or replace operations */
+export async function saveOperations(operations: OfflineOperation[]): Promise<void> {
+  if (!isAvailable() || operations.length === 0) return;
+  await withStore("readwrite", (store) => {
+    for (const op of operations) store.put(op);
+  });
+}
+
+export async function deleteOperations(ids: string[]): Promise<void> {
+  if (!isAvailable() || ids.length === 0) return;
+  await withStore("readwrite", (store) => {
+    for (const id of ids) store.delete(id);
+  });
+}
+
+export async function clearOperations(): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore("readwrite", (store) => store.clear());
+}
+
+export async function loadQueryCache<T>(): Promise<StoredQueryCache<T> | undefined> {
+  if (!isAvailable()) return undefined;
+  return withStore<StoredQueryCache<T>>(
+    "readonly",
+    (store) => store.get(QUERY_CACHE_KEY),
+    OFFLINE_QUERY_STORE
+  );
+}
+
+export async function saveQueryCache<T>(cache: StoredQueryCache<T>): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore("readwrite", (store) => store.put(cache, QUERY_CACHE_KEY), OFFLINE_QUERY_STORE);
+}
+
+export async function clearQueryCache(): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore("readwrite", (store) => store.delete(QUERY_CACHE_KEY), OFFLINE_QUERY_STORE);
+}
@@ -0,0 +1,85 @@
+// Writes made while offline are stored as plain data so they survive a reload
+// and can be replayed by the page or by the service worker. public/sw.js
+// repeats the IndexedDB names and sync tag below; keep them in step.
+
+export const OFFLINE_DB_NAME = "htasker-offline";
+export const OFFLINE_DB_VERSION = 2;
+export const OFFLINE_STORE = "operations";
+/** Snapshot of the query cache for offline reads (see lib/offline/queryCache.ts) */
+export const OFFLINE_QUERY_STORE = "queries";
+export const OFFLINE_SYNC_TAG = "htasker-offline-sync";
+export const OFFLINE_SYNC_ENDPOINT = "/api/offline/sync";
+/**
+ * Most operations /api/offline/sync applies per request; clients send longer
+ * queues in batches of this size, and the server answers `retry` for the rest
+ */
+export const OFFLINE_SYNC_BATCH_SIZE = 100;
+/** Posted by the service worker to open pages after it synced the queue */
+export const OFFLINE_SYNCED_MESSAGE = "offline-queue-synced";
+
+/** Arguments of each server action that can be queued, as JSON */
+export interface OfflineActionArgs {
+  createEntry: {
+    trackerId: string;
+    startTime?: string | null;
+    endTime?: string | null;
+    value?: number | null;
+    note?: string | null;
+    tags?: string[];
+    /** Entry date; the time the operation was queued when missing */
+    date?: string;
+    fields?: Record<string, number | string | boolean | null> | null;
+    unit?: string | null;
+  };
+  addCounterEntry: {
+    trackerId: string;
+    value: number;
+    note?: string;
+  };
+}
+
+export type OfflineAction = keyof OfflineActionArgs;
+
+export type OfflineOperation = {
+  [A in OfflineAction]: {
+    /** Also the idempotency key, so a replay never writes twice */
+    id: string;
+    action: A;
+    args: OfflineActionArgs[A];
+    /** When the user made the change (ISO 8601); used as the entry date */
+    clientTimestamp: string;
+    /** Human-readable description shown in the UI */
+    label: string;
+    retryCount: number;
+    /** Set when the server rejected the operation or it ran out of retries */
+    permanentlyFailed: boolean;
+    error?: string;
+  };
+}[OfflineAction];
+
+/** The part of an operation sent to the server */
+export type OfflineOperationPayload = Pick<
+  OfflineOperation,
+  "id" | "action" | "args" | "clientTimestamp"
+>;
+
+export type OfflineOperationResult =
+  | { id: string; status: "synced"; entryId: string }
+  /** The server refused the operation; retrying won't help */
+  | { id: string; status: "rejected"; error: string }
+  /** Not applied this time: a transient error, or no error while another sync is applying it */
+  | { id: string; status: "retry"; error?: string };
+
+type EntryDates = { startTime?: Date | null; endTime?: Date | null; date?: Date };
+
+/** createEntry input as queueable JSON: its dates become ISO strings */
+export function toOfflineEntryArgs(
+  data: Omit<OfflineActionArgs["createEntry"], keyof EntryDates> & EntryDates
+): OfflineActionArgs["createEntry"] {
+  return {
+    ...data,
+    startTime: data.startTime && data.startTime.toISOString(),
+    endTime: data.endTime && data.endTime.toISOString(),
+    date: data.date?.toISOString(),
+  };
+}
@@ -0,0 +1,97 @@
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type Query,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { clearQueryCache, loadQueryCache, saveQueryCache } from "./db";
+
+// The app's server data is fetched through server actions, which the service
+// worker can't cache. Instead the query cache is saved to IndexedDB as the
+// user browses and restored on the next start, so trackers, entries, period
+// stats and boards still render offline. The snapshot belongs to one user
+// and is wiped on logout.
+
+/** First segment of the query keys worth keeping (see trackerKeys and boardKeys) */
+const PERSISTED_KEY_ROOTS = new Set(["trackers", "entries", "stats", "boards"]);
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 1000;
+/** Page cache of public/sw.js, which holds rendered pages with the user's data */
+const PAGE_CACHE_NAME = "htasker-v1";
+
+// Set on logout so a save already scheduled can't write the snapshot back
+let persistenceStopped = false;
+
+function shouldPersist(query: Query): boolean {
+  return query.state.status === "success" && PERSISTED_KEY_ROOTS.has(String(query.queryKey[0]));
+}
+
+/**
+ * Load the user's saved query cache into `queryClient`. Queries already
+ * holding newer data keep it. A snapshot saved by another user, or too old
+ * to be useful, is deleted instead.
+ */
+export async function restoreQueryCache(queryClient: QueryClient, userId: string): Promise<void> {
+  const stored = await loadQueryCache<DehydratedState>();
+  if (!stored) return;
+  if (stored.userId !== userId || Date.now() - Date.parse(stored.savedAt) > MAX_AGE_MS) {
+    await clearQueryCache();
+    return;
+  }
+  hydrate(queryClient, stored.state);
+}
+
+/**
+ * Save the persisted queries of `queryClient` whenever the cache changes,
+ * at most once a second. Returns a function that stops saving.
+ */
+export function persistQueryCache(queryClient: QueryClient, userId: string): () => void {
+  persistenceStopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timer = null;
+    if (persistenceStopped) return;
+    const state = dehydrate(queryClient, { shouldDehydrateQuery: shouldPersist });
+    if (state.queries.length === 0) return;
+    saveQueryCache({ userId, savedAt: new Date().toISOString(), state }).catch((error) =>
+      console.error("Error saving query cache:", error)
+    );
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== "updated" || event.action.type !== "success" || timer) return;
+    timer = setTimeout(save, SAVE_DELAY_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * When the data on screen was last fetched from the server, or null if there
+ * is none. Offline, that is how stale everything shown is.
+ */
+export function lastFetchedAt(queryClient: QueryClient): Date | null {
+  const latest = Math.max(
+    0,
+    ...queryClient
+      .getQueryCache()
+      .getAll()
+      .filter(shouldPersist)
+      .map((query) => query.state.dataUpdatedAt)
+  );
+  return latest > 0 ? new Date(latest) : null;
+}
+
+/** Remove everything kept for offline reading: the query snapshot and cached pages. */
+export async function clearOfflineReadCache(): Promise<void> {
+  persistenceStopped = true;
+  await Promise.all([
+    clearQueryCache(),
+    typeof caches !== "undefined" ? caches.delete(PAGE_CACHE_NAME) : Promise.resolve(false),
+  ]);
+}
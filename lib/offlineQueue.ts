@@ -1,90 +1,190 @@
 import { create } from "zustand";
+import { clearOperations, deleteOperations, loadOperations, saveOperations } from "./offline/db";
+import {
+  OFFLINE_SYNC_BATCH_SIZE,
+  OFFLINE_SYNC_ENDPOINT,
+  OFFLINE_SYNC_TAG,
+  type OfflineAction,
+  type OfflineActionArgs,
+  type OfflineOperation,
+  type OfflineOperationPayload,
+  type OfflineOperationResult,
+} from "./offline/operations";
 
 export const MAX_RETRIES = 3;
 
-export interface QueuedOperation {
-  id: string;
-  label: string;
-  action: () => Promise<unknown>;
-  retryCount: number;
-  /** Set when retryCount reaches MAX_RETRIES and the last attempt failed */
-  permanentlyFailed: boolean;
-}
+export type { OfflineOperation as QueuedOperation };
 
 interface OfflineQueueState {
-  queue: QueuedOperation[];
+  queue: OfflineOperation[];
   isProcessing: boolean;
 
+  /** Load operations persisted by earlier sessions (or synced by the service worker). */
+  hydrate: () => Promise<void>;
+
   /**
-   * Add a new operation to the write queue.
+   * Queue a server action to run once back online. The operation is persisted
+   * to IndexedDB and a Background Sync is requested, so it survives a reload
+   * and can be sent even after the app is closed.
+   * @param action Name of the server action
+   * @param args   Its arguments, as JSON
    * @param label  Human-readable description shown in the UI
-   * @param action Function that executes the server action
+   * @param id     Idempotency key already sent with a failed attempt, if any
    */
-  enqueue: (label: string, action: () => Promise<unknown>) => void;
+  enqueue: <A extends OfflineAction>(
+    action: A,
+    args: OfflineActionArgs[A],
+    label: string,
+    id?: string
+  ) => OfflineOperation;
 
   /**
-   * Run every queued operation sequentially.
-   * Successes are removed; failures increment retryCount.
-   * Operations that hit MAX_RETRIES are marked permanentlyFailed.
+   * Send every retryable operation to the server, OFFLINE_SYNC_BATCH_SIZE at
+   * a time and in order. Synced ones are removed; rejected ones are marked
+   * permanentlyFailed straight away, and ones that failed on the server count
+   * towards MAX_RETRIES. A network failure stops at that batch and leaves it
+   * and later ones queued. Resolves to the number synced.
    */
-  processQueue: () => Promise<void>;
+  processQueue: () => Promise<number>;
+
+  /** Remove all operations regardless of state; resolves once IndexedDB is cleared too. */
+  clearQueue: () => Promise<void>;
+}
+
+/** A new idempotency key for a write, also used as its id if it gets queued */
+export function generateId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Operations enqueued whose IndexedDB write hasn't finished yet
+const unsaved = new Set<string>();
+
+function persist(task: Promise<void>) {
+  task.catch((error) => console.error("Error saving offline queue:", error));
+}
+
+/** Ask the service worker to replay the queue when connectivity returns. */
+async function requestBackgroundSync() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  // Background Sync is Chromium-only; elsewhere the page replays on reconnect
+  const sync = (registration as { sync?: { register(tag: string): Promise<void> } } | undefined)
+    ?.sync;
+  await sync?.register(OFFLINE_SYNC_TAG);
+}
 
-  /** Remove all operations regardless of state. */
-  clearQueue: () => void;
+/** True when the browser knows it has no connection. */
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && !navigator.onLine;
 }
 
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+/** Send one batch to the sync endpoint; throws when it can't be applied */
+async function sendBatch(batch: OfflineOperation[]): Promise<OfflineOperationResult[]> {
+  const payload: OfflineOperationPayload[] = batch.map(({ id, action, args, clientTimestamp }) => ({
+    id,
+    action,
+    args,
+    clientTimestamp,
+  }));
+  const response = await fetch(OFFLINE_SYNC_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ operations: payload }),
+  });
+  if (!response.ok) throw new Error(`Sync failed with status ${response.status}`);
+  const { results } = (await response.json()) as { results: OfflineOperationResult[] };
+  return results;
 }
 
 export const useOfflineQueue = create<OfflineQueueState>((set, get) => ({
   queue: [],
   isProcessing: false,
 
-  enqueue(label, action) {
-    const op: QueuedOperation = {
-      id: generateId(),
-      label,
+  async hydrate() {
+    const stored = await loadOperations();
+    const storedIds = new Set(stored.map((op) => op.id));
+    set((state) => ({
+      // IndexedDB is the source of truth (the service worker may have synced
+      // some), apart from operations still being written to it
+      queue: [
+        ...stored,
+        ...state.queue.filter((op) => unsaved.has(op.id) && !storedIds.has(op.id)),
+      ],
+    }));
+  },
+
+  enqueue(action, args, label, id = generateId()) {
+    const op = {
+      id,
       action,
+      args,
+      clientTimestamp: new Date().toISOString(),
+      label,
       retryCount: 0,
       permanentlyFailed: false,
-    };
+    } as OfflineOperation;
     set((state) => ({ queue: [...state.queue, op] }));
+    unsaved.add(op.id);
+    persist(saveOperations([op]).finally(() => unsaved.delete(op.id)));
+    requestBackgroundSync().catch(() => {});
+    return op;
   },
 
   async processQueue() {
-    if (get().isProcessing) return;
-    set({ isProcessing: true });
+    if (get().isProcessing) return 0;
 
-    const { queue } = get();
-    // Process a snapshot — new items enqueued during processing stay for
-    // the next run.
-    const snapshot = queue.filter((op) => !op.permanentlyFailed);
+    // Send a snapshot — operations enqueued meanwhile wait for the next run
+    const snapshot = get().queue.filter((op) => !op.permanentlyFailed);
+    if (snapshot.length === 0) return 0;
+    set({ isProcessing: true });
 
-    for (const op of snapshot) {
+    const synced: string[] = [];
+    const updated: OfflineOperation[] = [];
+    for (let start = 0; start < snapshot.length; start += OFFLINE_SYNC_BATCH_SIZE) {
+      const batch = snapshot.slice(start, start + OFFLINE_SYNC_BATCH_SIZE);
+      let results: OfflineOperationResult[];
       try {
-        await op.action();
-        // Success — remove from queue
-        set((state) => ({
-          queue: state.queue.filter((o) => o.id !== op.id),
-        }));
-      } catch {
-        const nextRetryCount = op.retryCount + 1;
-        const permanentlyFailed = nextRetryCount >= MAX_RETRIES;
-        set((state) => ({
-          queue: state.queue.map((o) =>
-            o.id === op.id
-              ? { ...o, retryCount: nextRetryCount, permanentlyFailed }
-              : o
-          ),
-        }));
+        results = await sendBatch(batch);
+      } catch (error) {
+        console.error("Error syncing offline queue:", error);
+        break;
+      }
+
+      const byId = new Map(results.map((result) => [result.id, result]));
+      for (const op of batch) {
+        const result = byId.get(op.id);
+        if (result?.status === "synced") {
+          synced.push(op.id);
+        } else if (result?.status === "rejected") {
+          updated.push({ ...op, permanentlyFailed: true, error: result.error });
+        } else if (result?.status === "retry" && !result.error) {
+          // Another sync (e.g. the service worker's) is applying it right now
+          continue;
+        } else {
+          const retryCount = op.retryCount + 1;
+          updated.push({ ...op, retryCount, permanentlyFailed: retryCount >= MAX_RETRIES });
+        }
       }
     }
 
-    set({ isProcessing: false });
+    const updatedById = new Map(updated.map((op) => [op.id, op]));
+    set((state) => ({
+      queue: state.queue
+        .filter((op) => !synced.includes(op.id))
+        .map((op) => updatedById.get(op.id) ?? op),
+      isProcessing: false,
+    }));
+    persist(deleteOperations(synced));
+    persist(saveOperations(updated));
+
+    return synced.length;
   },
 
-  clearQueue() {
+  async clearQueue() {
     set({ queue: [], isProcessing: false });
+    await clearOperations();
   },
 }));
@@ -0,0 +1,189 @@
+import { addDays, addMonths, addWeeks, getDaysInMonth, setDate, startOfDay } from "date-fns";
+
+// RRULE-style recurrence for board tasks. Only the subset we need is supported:
+//   FREQ=DAILY|WEEKLY|MONTHLY ; INTERVAL=n ; BYDAY=MO,TU,... (WEEKLY only)
+//   BYMONTHDAY=1..31 (MONTHLY only)
+// e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+// Ordered Monday-first, matching the RRULE default week start (WKST=MO)
+export const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayCode[];
+  /** Day of month a MONTHLY series falls on, clamped in shorter months */
+  byMonthDay?: number;
+}
+
+const MAX_INTERVAL = 365;
+
+const WEEKDAY_LABELS: Record<WeekdayCode, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+function isFrequency(value: string): value is RecurrenceFrequency {
+  return RECURRENCE_FREQUENCIES.includes(value as RecurrenceFrequency);
+}
+
+function isWeekdayCode(value: string): value is WeekdayCode {
+  return WEEKDAY_CODES.includes(value as WeekdayCode);
+}
+
+/** Index of a date's weekday in WEEKDAY_CODES (Monday = 0) */
+function weekdayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+/**
+ * Parse a rule string. Returns null for anything malformed or unsupported
+ * so callers can surface a validation error instead of guessing.
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule | null {
+  const source = rule.trim().replace(/^RRULE:/i, "");
+  if (!source) return null;
+
+  let freq: RecurrenceFrequency | null = null;
+  let interval = 1;
+  let byDay: WeekdayCode[] = [];
+  let byMonthDay: number | undefined;
+
+  for (const part of source.split(";")) {
+    if (!part) continue;
+    const [rawKey, rawValue] = part.split("=");
+    if (!rawKey || rawValue === undefined) return null;
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case "FREQ":
+        if (!isFrequency(value)) return null;
+        freq = value;
+        break;
+      case "INTERVAL": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1 || n > MAX_INTERVAL) return null;
+        interval = n;
+        break;
+      }
+      case "BYDAY": {
+        const days = value.split(",").map((d) => d.trim());
+        if (days.length === 0 || !days.every(isWeekdayCode)) return null;
+        // De-duplicate and keep in week order
+        byDay = WEEKDAY_CODES.filter((code) => days.includes(code));
+        break;
+      }
+      case "BYMONTHDAY": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1 || n > 31) return null;
+        byMonthDay = n;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (!freq) return null;
+  if (byDay.length > 0 && freq !== "WEEKLY") return null;
+  if (byMonthDay !== undefined) {
+    if (freq !== "MONTHLY") return null;
+    return { freq, interval, byDay, byMonthDay };
+  }
+
+  return { freq, interval, byDay };
+}
+
+/** Serialize a rule back to its canonical string form */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.freq === "MONTHLY" && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  return parts.join(";");
+}
+
+export function isValidRecurrenceRule(rule: string): boolean {
+  return parseRecurrenceRule(rule) !== null;
+}
+
+/**
+ * Return the first occurrence strictly after `from`.
+ * The time of day of `from` is preserved.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, from: Date): Date {
+  switch (rule.freq) {
+    case "DAILY":
+      return addDays(from, rule.interval);
+    case "MONTHLY": {
+      // Step from the 1st so the month never overflows, then clamp the series'
+      // day to the target month (Jan 31 → Feb 28 → Mar 31)
+      const month = addMonths(setDate(from, 1), rule.interval);
+      const day = rule.byMonthDay ?? from.getDate();
+      return setDate(month, Math.min(day, getDaysInMonth(month)));
+    }
+    case "WEEKLY": {
+      if (rule.byDay.length === 0) return addWeeks(from, rule.interval);
+
+      const current = weekdayIndex(from);
+      const days = rule.byDay.map((code) => WEEKDAY_CODES.indexOf(code));
+
+      // Remaining selected day later in the same week
+      const laterThisWeek = days.find((d) => d > current);
+      if (laterThisWeek !== undefined) return addDays(from, laterThisWeek - current);
+
+      // Otherwise the first selected day of the week `interval` weeks ahead
+      const weekStart = addDays(from, -current);
+      return addDays(addWeeks(weekStart, rule.interval), days[0]);
+    }
+  }
+}
+
+/**
+ * Pin a MONTHLY rule without BYMONTHDAY to the anchor's day of month, so the
+ * series keeps its day after an occurrence is clamped in a short month.
+ */
+export function anchorRecurrenceRule(rule: RecurrenceRule, anchor: Date): RecurrenceRule {
+  if (rule.freq !== "MONTHLY" || rule.byMonthDay) return rule;
+  return { ...rule, byMonthDay: anchor.getDate() };
+}
+
+/**
+ * Find the next occurrence after `anchor` that is not in the past, so a chore
+ * completed late does not spawn an instance that is already overdue.
+ */
+export function getNextUpcomingOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  now: Date = new Date()
+): Date {
+  const today = startOfDay(now);
+  const series = anchorRecurrenceRule(rule, anchor);
+  let next = getNextOccurrence(series, anchor);
+  // Bounded so a pathological rule can never spin forever
+  for (let i = 0; i < 1000 && next < today; i++) {
+    next = getNextOccurrence(series, next);
+  }
+  return next;
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  const base = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.byMonthDay) return `${base} on day ${rule.byMonthDay}`;
+  if (rule.byDay.length === 0) return base;
+  return `${base} on ${rule.byDay.map((d) => WEEKDAY_LABELS[d]).join(", ")}`;
+}
@@ -0,0 +1,174 @@
+// Calendar math in a user's IANA time zone, using only Intl.
+//
+// Day boundaries are resolved per date rather than from a fixed offset, so a
+// "day" on a DST transition is 23 or 25 hours long and week/month starts fall
+// on local midnight on either side of the change.
+
+export type WeekStartDay = 0 | 1; // 0 = Sunday, 1 = Monday
+
+export interface UserTimeSettings {
+  timezone: string;
+  weekStartsOn: WeekStartDay;
+}
+
+export const DEFAULT_TIME_SETTINGS: UserTimeSettings = { timezone: "UTC", weekStartsOn: 0 };
+
+export const WEEK_START_OPTIONS: { value: WeekStartDay; label: string }[] = [
+  { value: 0, label: "Sunday" },
+  { value: 1, label: "Monday" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** True when the runtime recognises the IANA zone name */
+export function isValidTimeZone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** All IANA zones known to the runtime, for pickers. Falls back to UTC only. */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? [];
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of getFormatter(timezone).formatToParts(date)) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/** Offset of the zone from UTC at the given instant, in ms (local minus UTC) */
+function getOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function parseDateStr(dateStr: string): [number, number, number] {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return [y, m, d];
+}
+
+function formatDateStr(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Local calendar date ("YYYY-MM-DD") of an instant in the given zone */
+export function toZonedDateStr(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  return formatDateStr(p.year, p.month, p.day);
+}
+
+/** Shift a "YYYY-MM-DD" string by whole calendar days */
+export function addDaysToDateStr(dateStr: string, days: number): string {
+  const [y, m, d] = parseDateStr(dateStr);
+  const shifted = new Date(Date.UTC(y, m - 1, d + days));
+  return formatDateStr(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/** Whole calendar days from `from` to `to` (both "YYYY-MM-DD") */
+export function diffDateStrs(from: string, to: string): number {
+  const [fy, fm, fd] = parseDateStr(from);
+  const [ty, tm, td] = parseDateStr(to);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+/**
+ * The first instant of a local calendar day. When midnight itself is skipped
+ * by a DST change, this is the first local time that does exist that day.
+ */
+export function startOfZonedDay(dateStr: string, timezone: string): Date {
+  const [y, m, d] = parseDateStr(dateStr);
+  const wallClock = Date.UTC(y, m - 1, d);
+  // Offsets a day either side bracket any transition near midnight
+  const before = wallClock - getOffsetMs(new Date(wallClock - DAY_MS), timezone);
+  const after = wallClock - getOffsetMs(new Date(wallClock + DAY_MS), timezone);
+  const candidates = [before, after]
+    .sort((a, b) => a - b)
+    .filter((t) => toZonedDateStr(new Date(t), timezone) === dateStr);
+  return new Date(candidates[0] ?? Math.max(before, after));
+}
+
+/** Inclusive [start, end] instants covering local days startStr..endStr */
+export function zonedDayRange(
+  startStr: string,
+  endStr: string,
+  timezone: string
+): { start: Date; end: Date } {
+  return {
+    start: startOfZonedDay(startStr, timezone),
+    end: new Date(startOfZonedDay(addDaysToDateStr(endStr, 1), timezone).getTime() - 1),
+  };
+}
+
+/** Local date of the first day of the week containing `dateStr` */
+export function startOfWeekDateStr(dateStr: string, weekStartsOn: WeekStartDay): string {
+  const weekday = weekdayOfDateStr(dateStr);
+  return addDaysToDateStr(dateStr, -((weekday - weekStartsOn + 7) % 7));
+}
+
+/** Day of the week of a "YYYY-MM-DD" string (0 = Sunday) */
+export function weekdayOfDateStr(dateStr: string): number {
+  const [y, m, d] = parseDateStr(dateStr);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * Start instants of the current local day, week and month for the user.
+ */
+export function getPeriodStarts(
+  now: Date,
+  { timezone, weekStartsOn }: UserTimeSettings
+): { today: Date; week: Date; month: Date } {
+  const todayStr = toZonedDateStr(now, timezone);
+  return {
+    today: startOfZonedDay(todayStr, timezone),
+    week: startOfZonedDay(startOfWeekDateStr(todayStr, weekStartsOn), timezone),
+    month: startOfZonedDay(`${todayStr.slice(0, 8)}01`, timezone),
+  };
+}
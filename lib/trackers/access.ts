@@ -0,0 +1,30 @@
+import type { Prisma } from "@/app/generated/prisma";
+import { TrackerShareRole } from "@/types";
+
+/** Trackers the user owns or that have been shared with them (any role) */
+export function trackerAccessWhere(userId: string): Prisma.TrackerWhereInput {
+  return { OR: [{ userId }, { shares: { some: { userId } } }] };
+}
+
+/** Trackers the user may log entries on: owned, or shared as CONTRIBUTOR */
+export function trackerContributorWhere(userId: string): Prisma.TrackerWhereInput {
+  return {
+    OR: [{ userId }, { shares: { some: { userId, role: TrackerShareRole.CONTRIBUTOR } } }],
+  };
+}
+
+/**
+ * Entries the user may edit or delete: anything on their own trackers, plus
+ * entries they created on trackers where they are still a CONTRIBUTOR.
+ */
+export function entryEditableWhere(userId: string): Prisma.TrackerEntryWhereInput {
+  return {
+    OR: [
+      { tracker: { userId } },
+      {
+        createdById: userId,
+        tracker: { shares: { some: { userId, role: TrackerShareRole.CONTRIBUTOR } } },
+      },
+    ],
+  };
+}
@@ -0,0 +1,207 @@
+import { z } from "zod";
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+import { CustomFieldValuesSchema, validateCustomFieldValues } from "./custom-fields";
+import { resolveEntryValue } from "./entry-units";
+import { DERIVED_NO_ENTRIES } from "./derived";
+import { recalculateTrackerStatistics } from "./statistics";
+import { UnitCodeSchema } from "@/lib/units";
+import { getUserExchangeRates } from "@/lib/users/exchange-rates";
+import { TrackerType } from "@/types";
+
+// Many entries at once, possibly across trackers: sensor uploads through the
+// API and the CSV import. Each item is validated on its own; the valid ones
+// are inserted in one transaction, with one statistics rebuild per tracker.
+// Like the CSV import, bulk writes don't fire entry webhooks.
+
+export const MAX_BULK_ENTRIES = 1000;
+
+/**
+ * `atomic`: any invalid item means nothing is written.
+ * `best_effort`: valid items are written and invalid ones reported.
+ */
+export const BULK_ENTRY_MODES = ["atomic", "best_effort"] as const;
+
+export type BulkEntryMode = (typeof BULK_ENTRY_MODES)[number];
+
+const IsoDate = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
+
+export const BulkEntrySchema = z.object({
+  trackerId: z.string().min(1, "Tracker ID is required"),
+  startTime: IsoDate.nullish(),
+  endTime: IsoDate.nullish(),
+  value: z.number().finite().nullish(),
+  note: z.string().max(500, "Note cannot exceed 500 characters").nullish(),
+  tags: z.array(z.string()).default([]),
+  date: IsoDate.optional(),
+  fields: CustomFieldValuesSchema.nullish(),
+  unit: UnitCodeSchema.nullish(),
+});
+
+export type BulkEntryInput = z.input<typeof BulkEntrySchema>;
+
+export const BulkEntriesSchema = z.object({
+  entries: z
+    .array(z.unknown())
+    .min(1, "At least one entry is required")
+    .max(MAX_BULK_ENTRIES, `At most ${MAX_BULK_ENTRIES} entries per request`),
+  mode: z.enum(BULK_ENTRY_MODES).default("atomic"),
+});
+
+/** Outcome of one item, by its position in the request */
+export type BulkEntryResult =
+  | { index: number; status: "created" }
+  | { index: number; status: "invalid"; error: string }
+  /** Valid, but not written because another item in an atomic batch was invalid */
+  | { index: number; status: "skipped" };
+
+export interface BulkEntriesResult {
+  created: number;
+  failed: number;
+  results: BulkEntryResult[];
+}
+
+/** A validated entry ready to insert */
+type NewEntry = Omit<Prisma.TrackerEntryCreateManyInput, "createdById">;
+
+function issuesMessage(error: z.ZodError): string {
+  return `Validation failed: ${error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ` : "") + issue.message)
+    .join(", ")}`;
+}
+
+/**
+ * Insert entries created by `userId` and rebuild the statistics of each
+ * tracker they belong to once. `trackerTypes` maps every tracker ID in
+ * `entries` to its type.
+ */
+async function insertEntries(
+  userId: string,
+  entries: NewEntry[],
+  trackerTypes: Record<string, string>
+): Promise<void> {
+  if (entries.length === 0) return;
+  const trackerIds = [...new Set(entries.map((entry) => entry.trackerId))];
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.trackerEntry.createMany({
+        data: entries.map((entry) => ({ ...entry, createdById: userId })),
+      });
+      for (const trackerId of trackerIds) {
+        await tx.tracker.update({
+          where: { id: trackerId },
+          data: { updatedAt: new Date() },
+        });
+        await recalculateTrackerStatistics(tx, trackerId, trackerTypes[trackerId]);
+      }
+    },
+    // Rebuilding statistics reads every entry of each tracker
+    { timeout: 30_000 }
+  );
+}
+
+/**
+ * Validate and create a batch of entries for `userId`. Items may target any
+ * tracker matching `trackerWhere` (the caller's access rule); others are
+ * reported as not found. Values given in another unit are converted, and
+ * CUSTOM values are checked against their tracker's field schema.
+ */
+export async function createEntriesInBulk(
+  userId: string,
+  items: unknown[],
+  options: { mode: BulkEntryMode; trackerWhere: Prisma.TrackerWhereInput }
+): Promise<BulkEntriesResult> {
+  const parsed = items.map((item) => BulkEntrySchema.safeParse(item));
+  const trackerIds = [
+    ...new Set(parsed.flatMap((result) => (result.success ? [result.data.trackerId] : []))),
+  ];
+  const trackers = await prisma.tracker.findMany({
+    where: { AND: [{ id: { in: trackerIds } }, options.trackerWhere] },
+    select: { id: true, type: true, fields: true, unit: true, userId: true },
+  });
+  const trackerById = new Map(trackers.map((tracker) => [tracker.id, tracker]));
+
+  // Exchange rates of the owners of trackers with a unit, read once per batch
+  const owners = [
+    ...new Set(trackers.flatMap((tracker) => (tracker.unit ? [tracker.userId] : []))),
+  ];
+  const ratesByOwner = new Map(
+    await Promise.all(
+      owners.map(async (owner) => [owner, await getUserExchangeRates(owner)] as const)
+    )
+  );
+
+  const results: BulkEntryResult[] = [];
+  const entries: NewEntry[] = [];
+  const createdIndexes: number[] = [];
+
+  for (const [index, result] of parsed.entries()) {
+    if (!result.success) {
+      results.push({ index, status: "invalid", error: issuesMessage(result.error) });
+      continue;
+    }
+    const { trackerId, startTime, endTime, date, fields: fieldInput, unit, ...rest } = result.data;
+
+    const tracker = trackerById.get(trackerId);
+    if (!tracker) {
+      results.push({ index, status: "invalid", error: "Tracker not found" });
+      continue;
+    }
+    if (tracker.type === TrackerType.DERIVED) {
+      results.push({ index, status: "invalid", error: DERIVED_NO_ENTRIES });
+      continue;
+    }
+
+    let fields = null;
+    if (tracker.type === TrackerType.CUSTOM && tracker.fields.length > 0) {
+      const checked = validateCustomFieldValues(tracker.fields, fieldInput);
+      if (!checked.success) {
+        results.push({ index, status: "invalid", error: checked.error });
+        continue;
+      }
+      fields = checked.data;
+    }
+
+    const converted = await resolveEntryValue(
+      tracker,
+      rest.value,
+      unit,
+      ratesByOwner.get(tracker.userId)
+    );
+    if (!converted.success) {
+      results.push({ index, status: "invalid", error: converted.error });
+      continue;
+    }
+    const { value, enteredValue, enteredUnit } = converted.data;
+
+    entries.push({
+      ...rest,
+      value,
+      ...(fields && { fields }),
+      ...(enteredUnit && { enteredValue, enteredUnit }),
+      trackerId,
+      startTime: startTime ?? null,
+      endTime: endTime ?? null,
+      date: date ?? new Date(),
+    });
+    createdIndexes.push(index);
+  }
+
+  const failed = results.length;
+  if (failed > 0 && options.mode === "atomic") {
+    for (const index of createdIndexes) results.push({ index, status: "skipped" });
+    return { created: 0, failed, results: results.sort((a, b) => a.index - b.index) };
+  }
+
+  await insertEntries(
+    userId,
+    entries,
+    Object.fromEntries(trackers.map((tracker) => [tracker.id, tracker.type]))
+  );
+  for (const index of createdIndexes) results.push({ index, status: "created" });
+  return { created: entries.length, failed, results: results.sort((a, b) => a.index - b.index) };
+}
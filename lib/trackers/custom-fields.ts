@@ -0,0 +1,226 @@
+import { z } from "zod";
+import { formatDuration } from "@/lib/utils";
+import {
+  CUSTOM_FIELD_TYPE_VALUES,
+  CustomFieldType,
+  type CustomField,
+  type CustomFieldValues,
+} from "@/types";
+
+export const MAX_CUSTOM_FIELDS = 20;
+export const MAX_RATING = 5;
+const MAX_TEXT_LENGTH = 500;
+
+const NUMERIC_FIELD_TYPES: readonly string[] = [
+  CustomFieldType.NUMBER,
+  CustomFieldType.RATING,
+  CustomFieldType.DURATION,
+];
+
+export const CustomFieldSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9_]{0,39}$/,
+        "Field keys must start with a letter and use lowercase letters, digits or _"
+      ),
+    label: z.string().trim().min(1, "Field label is required").max(50, "Field label is too long"),
+    type: z.enum(CUSTOM_FIELD_TYPE_VALUES),
+    options: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+    unit: z.string().trim().max(20).optional().nullable(),
+    required: z.boolean().default(false),
+  })
+  .refine((field) => field.type !== CustomFieldType.SELECT || field.options.length > 0, {
+    message: "Select fields need at least one option",
+    path: ["options"],
+  });
+
+export const CustomFieldsSchema = z
+  .array(CustomFieldSchema)
+  .max(MAX_CUSTOM_FIELDS, `A tracker can have at most ${MAX_CUSTOM_FIELDS} fields`)
+  .refine(
+    (fields) => new Set(fields.map((field) => field.key)).size === fields.length,
+    "Field keys must be unique"
+  );
+
+/** Raw entry values as submitted, before checking them against the tracker's fields */
+export const CustomFieldValuesSchema = z.record(
+  z.string(),
+  z.union([z.number(), z.string(), z.boolean(), z.null()])
+);
+
+/** Numeric fields (number, rating, duration) chart and export as their own series */
+export function isNumericField(field: Pick<CustomField, "type">): boolean {
+  return NUMERIC_FIELD_TYPES.includes(field.type);
+}
+
+/** Derive a unique field key from its label, e.g. "Sleep quality" → "sleep_quality" */
+export function fieldKeyFromLabel(label: string, taken: readonly string[] = []): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^[^a-z]+|_+$/g, "")
+      .slice(0, 32) || "field";
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+/**
+ * Check submitted values against a tracker's field definitions. Unknown keys
+ * are dropped and empty values omitted; durations are seconds.
+ */
+export function validateCustomFieldValues(
+  fields: readonly CustomField[],
+  input: Record<string, number | string | boolean | null> | null | undefined
+): { success: true; data: CustomFieldValues } | { success: false; error: string } {
+  const data: CustomFieldValues = {};
+
+  for (const field of fields) {
+    const value = input?.[field.key];
+    if (value === undefined || value === null || value === "") {
+      if (field.required) return { success: false, error: `${field.label} is required` };
+      continue;
+    }
+
+    switch (field.type) {
+      case CustomFieldType.NUMBER:
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          return { success: false, error: `${field.label} must be a number` };
+        }
+        break;
+      case CustomFieldType.RATING:
+        if (
+          typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < 1 ||
+          value > MAX_RATING
+        ) {
+          return {
+            success: false,
+            error: `${field.label} must be a rating from 1 to ${MAX_RATING}`,
+          };
+        }
+        break;
+      case CustomFieldType.DURATION:
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+          return { success: false, error: `${field.label} must be a positive duration` };
+        }
+        break;
+      case CustomFieldType.BOOLEAN:
+        if (typeof value !== "boolean") {
+          return { success: false, error: `${field.label} must be yes or no` };
+        }
+        break;
+      case CustomFieldType.SELECT:
+        if (typeof value !== "string" || !field.options.includes(value)) {
+          return { success: false, error: `${field.label} must be one of its options` };
+        }
+        break;
+      case CustomFieldType.TEXT:
+        if (typeof value !== "string" || value.length > MAX_TEXT_LENGTH) {
+          return {
+            success: false,
+            error: `${field.label} must be text of at most ${MAX_TEXT_LENGTH} characters`,
+          };
+        }
+        break;
+      default:
+        continue;
+    }
+    data[field.key] = value;
+  }
+
+  return { success: true, data };
+}
+
+/** Read stored entry values, ignoring anything that is not a plain value */
+export function readCustomFieldValues(raw: unknown): CustomFieldValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const values: CustomFieldValues = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+/** The value of a numeric field as a chart/export number, or null when unset */
+export function numericFieldValue(field: CustomField, values: CustomFieldValues): number | null {
+  const value = values[field.key];
+  return isNumericField(field) && typeof value === "number" ? value : null;
+}
+
+/** Human-readable value for entry lists */
+export function formatCustomFieldValue(
+  field: CustomField,
+  value: number | string | boolean
+): string {
+  switch (field.type) {
+    case CustomFieldType.BOOLEAN:
+      return value ? "Yes" : "No";
+    case CustomFieldType.RATING:
+      return `${value}/${MAX_RATING}`;
+    case CustomFieldType.DURATION:
+      return typeof value === "number" ? formatDuration(value) : String(value);
+    default:
+      return field.unit ? `${value} ${field.unit}` : String(value);
+  }
+}
+
+/** Form state for field inputs: strings for text-like inputs, booleans for switches */
+export type CustomFieldInputValues = Record<string, string | boolean>;
+
+/** Stored values → form state. Durations are edited in minutes. */
+export function toFieldInputValues(
+  fields: readonly CustomField[],
+  values: CustomFieldValues = {}
+): CustomFieldInputValues {
+  const inputs: CustomFieldInputValues = {};
+  for (const field of fields) {
+    const value = values[field.key];
+    if (field.type === CustomFieldType.BOOLEAN) {
+      inputs[field.key] = value === true;
+    } else if (field.type === CustomFieldType.DURATION && typeof value === "number") {
+      inputs[field.key] = String(Math.round((value / 60) * 100) / 100);
+    } else {
+      inputs[field.key] = value === undefined ? "" : String(value);
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Form state → values for validateCustomFieldValues. Empty inputs become
+ * null; unparseable numbers are passed through so validation reports them.
+ */
+export function fromFieldInputValues(
+  fields: readonly CustomField[],
+  inputs: CustomFieldInputValues
+): Record<string, number | string | boolean | null> {
+  const values: Record<string, number | string | boolean | null> = {};
+  for (const field of fields) {
+    const input = inputs[field.key];
+    if (typeof input === "boolean") {
+      values[field.key] = input;
+      continue;
+    }
+    const text = (input ?? "").trim();
+    if (text === "") {
+      values[field.key] = null;
+    } else if (isNumericField(field)) {
+      const number = Number(text);
+      values[field.key] = Number.isNaN(number)
+        ? text
+        : field.type === CustomFieldType.DURATION
+          ? Math.round(number * 60)
+          : number;
+    } else {
+      values[field.key] = text;
+    }
+  }
+  return values;
+}
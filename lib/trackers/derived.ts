@@ -0,0 +1,140 @@
+import prisma from "@/lib/db/prisma";
+import { addDaysToDateStr, toZonedDateStr } from "@/lib/timezone";
+import { TrackerType, type DerivedFormula } from "@/types";
+import { isTimerRunning } from "./timer";
+import { evaluateFormula, parseFormula, type AggregateTotals, type FormulaNode } from "./formula";
+
+export const DERIVED_NO_ENTRIES =
+  "Derived trackers are calculated from other trackers and can't take entries";
+
+/** A DERIVED tracker's parsed formula with the per-day totals of its inputs */
+export interface DerivedSeries {
+  formula: FormulaNode;
+  /** Input name → local day → totals */
+  days: Map<string, Map<string, AggregateTotals>>;
+}
+
+/**
+ * Check that every input of a formula is another, non-derived tracker owned
+ * by `userId`. Derived trackers can't feed each other, so formulas never cycle.
+ */
+export async function validateFormulaInputs(
+  userId: string,
+  formula: DerivedFormula,
+  trackerId?: string
+): Promise<{ success: true; data: null } | { success: false; error: string }> {
+  const ids = [...new Set(formula.inputs.map((input) => input.trackerId))];
+  if (trackerId && ids.includes(trackerId)) {
+    return { success: false, error: "A formula can't use its own tracker" };
+  }
+  const found = await prisma.tracker.count({
+    where: { id: { in: ids }, userId, type: { not: TrackerType.DERIVED } },
+  });
+  if (found !== ids.length) {
+    return { success: false, error: "Formulas can only use your own, non-derived trackers" };
+  }
+  return { success: true, data: null };
+}
+
+/**
+ * Per-day sums and counts of a formula's inputs for entries dated within
+ * [since, until]. Entries are measured as for goals: active time of stopped
+ * timers, COUNTER/AMOUNT values, and 1 for anything else. Inputs no longer
+ * owned by the tracker's owner count as empty. Null when the formula doesn't
+ * parse.
+ */
+export async function loadDerivedSeries(
+  tracker: { userId: string; formula: DerivedFormula | null },
+  timezone: string,
+  since: Date,
+  until: Date
+): Promise<DerivedSeries | null> {
+  if (!tracker.formula) return null;
+  const parsed = parseFormula(tracker.formula.expression);
+  if (!parsed.success) return null;
+
+  const ids = [...new Set(tracker.formula.inputs.map((input) => input.trackerId))];
+  const inputs = await prisma.tracker.findMany({
+    where: { id: { in: ids }, userId: tracker.userId },
+    select: { id: true, type: true },
+  });
+  const typeById = new Map(inputs.map((input) => [input.id, input.type]));
+  const entries = await prisma.trackerEntry.findMany({
+    where: { trackerId: { in: [...typeById.keys()] }, date: { gte: since, lte: until } },
+    select: { trackerId: true, date: true, value: true, startTime: true, endTime: true },
+  });
+
+  // Tracker → local day → totals
+  const byTracker = new Map<string, Map<string, AggregateTotals>>();
+  for (const entry of entries) {
+    const type = typeById.get(entry.trackerId);
+    let measure = 1;
+    if (type === TrackerType.TIMER) {
+      if (!entry.startTime || !entry.endTime || isTimerRunning(entry)) continue;
+      measure = entry.value ?? 0;
+    } else if (type === TrackerType.COUNTER || type === TrackerType.AMOUNT) {
+      measure = entry.value ?? 0;
+    }
+    const days = byTracker.get(entry.trackerId) ?? new Map<string, AggregateTotals>();
+    const key = toZonedDateStr(entry.date, timezone);
+    const day = days.get(key) ?? { sum: 0, count: 0 };
+    days.set(key, { sum: day.sum + measure, count: day.count + 1 });
+    byTracker.set(entry.trackerId, days);
+  }
+
+  return {
+    formula: parsed.data,
+    days: new Map(
+      tracker.formula.inputs.map((input) => [
+        input.name,
+        byTracker.get(input.trackerId) ?? new Map<string, AggregateTotals>(),
+      ])
+    ),
+  };
+}
+
+/**
+ * The formula over its inputs' totals for the local days [from, to]: one
+ * value for the whole range, so "sum(a) / sum(b)" over a week is the ratio of
+ * the weekly sums. Null where the formula is undefined (e.g. divides by zero).
+ */
+export function evaluateDerived(series: DerivedSeries, from: string, to: string): number | null {
+  return evaluateFormula(series.formula, (name) => {
+    const totals = { sum: 0, count: 0 };
+    for (const [day, dayTotals] of series.days.get(name) ?? []) {
+      if (day >= from && day <= to) {
+        totals.sum += dayTotals.sum;
+        totals.count += dayTotals.count;
+      }
+    }
+    return totals;
+  });
+}
+
+/** The formula for each local day in [from, to]; see evaluateDerived */
+export function derivedDailyValues(
+  series: DerivedSeries,
+  from: string,
+  to: string
+): Map<string, number | null> {
+  const values = new Map<string, number | null>();
+  for (let day = from; day <= to; day = addDaysToDateStr(day, 1)) {
+    values.set(day, evaluateDerived(series, day, day));
+  }
+  return values;
+}
+
+/** loadDerivedSeries for a tracker by ID; null for missing or non-derived trackers */
+export async function loadTrackerDerivedSeries(
+  trackerId: string,
+  timezone: string,
+  since: Date,
+  until: Date
+): Promise<DerivedSeries | null> {
+  const tracker = await prisma.tracker.findUnique({
+    where: { id: trackerId },
+    select: { type: true, userId: true, formula: true },
+  });
+  if (tracker?.type !== TrackerType.DERIVED) return null;
+  return loadDerivedSeries(tracker, timezone, since, until);
+}
@@ -0,0 +1,20 @@
+import { TrackerType, type CustomField, type CustomFieldValues } from "@/types";
+import { validateCustomFieldValues } from "./custom-fields";
+
+type FieldInput = Record<string, number | string | boolean | null> | null | undefined;
+
+/**
+ * Validate entry values against the tracker's field schema. Returns the values
+ * to store, or null for trackers without fields (any submitted values are
+ * dropped). Pass a tracker already loaded under the caller's access rule, so
+ * the schema of someone else's tracker is never revealed.
+ */
+export function resolveEntryFields(
+  tracker: { type: string; fields: readonly CustomField[] },
+  input: FieldInput
+): { success: true; data: CustomFieldValues | null } | { success: false; error: string } {
+  if (tracker.type !== TrackerType.CUSTOM || tracker.fields.length === 0) {
+    return { success: true, data: null };
+  }
+  return validateCustomFieldValues(tracker.fields, input);
+}
@@ -0,0 +1,97 @@
+import prisma from "@/lib/db/prisma";
+import { getUserExchangeRates } from "@/lib/users/exchange-rates";
+import { conversionFactor, convertValue, getUnit, type ExchangeRates } from "@/lib/units";
+import { migrateLegacyGoal } from "./goal-history";
+import { recalculateTrackerStatistics } from "./statistics";
+
+export interface EntryValue {
+  value: number | null | undefined;
+  enteredValue: number | null;
+  enteredUnit: string | null;
+}
+
+/**
+ * Convert a value logged in `unit` into the tracker's unit, using the tracker
+ * owner's exchange rates for currencies. Values without a unit, or already in
+ * the tracker's, are stored as given. Pass a tracker already loaded under the
+ * caller's access rule, so errors never reveal someone else's unit, and the
+ * owner's `rates` when converting many values at once.
+ */
+export async function resolveEntryValue(
+  tracker: { unit: string | null; userId: string },
+  value: number | null | undefined,
+  unit: string | null | undefined,
+  rates?: ExchangeRates
+): Promise<{ success: true; data: EntryValue } | { success: false; error: string }> {
+  const unchanged = {
+    success: true as const,
+    data: { value, enteredValue: null, enteredUnit: null },
+  };
+  if (!unit || value === null || value === undefined || tracker.unit === unit) return unchanged;
+  if (!tracker.unit || !getUnit(tracker.unit)) {
+    return { success: false, error: "This tracker has no unit to convert to" };
+  }
+
+  const converted = convertValue(
+    value,
+    unit,
+    tracker.unit,
+    rates ?? (await getUserExchangeRates(tracker.userId))
+  );
+  if (converted === null) {
+    return { success: false, error: `Cannot convert ${unit} to ${tracker.unit}` };
+  }
+  return { success: true, data: { value: converted, enteredValue: value, enteredUnit: unit } };
+}
+
+/**
+ * Change the unit of a tracker owned by `userId`, re-expressing its stored
+ * values, total and goals in the new unit. Setting a unit on a tracker without one
+ * (or clearing it) keeps the values as they are.
+ */
+export async function setTrackerUnit(
+  trackerId: string,
+  userId: string,
+  unit: string | null
+): Promise<{ success: true; data: null } | { success: false; error: string }> {
+  return prisma.$transaction(async (tx) => {
+    const tracker = await tx.tracker.findFirst({
+      where: { id: trackerId, userId },
+      select: { unit: true, type: true },
+    });
+    if (!tracker) return { success: false, error: "Tracker not found" };
+    if (tracker.unit === unit) return { success: true, data: null };
+
+    if (tracker.unit && unit) {
+      const rates = await getUserExchangeRates(userId, tx);
+      const factor = conversionFactor(tracker.unit, unit, rates);
+      if (factor === null) {
+        return { success: false, error: `Cannot convert ${tracker.unit} to ${unit}` };
+      }
+      await tx.trackerEntry.updateMany({
+        where: { trackerId },
+        data: { value: { multiply: factor } },
+      });
+      await recalculateTrackerStatistics(tx, trackerId, tracker.type);
+
+      // Goals are set in the tracker's unit too; streaks count days
+      await migrateLegacyGoal(tx, trackerId);
+      const goals = await tx.goal.findMany({
+        where: { trackerId, kind: { not: "streak" } },
+        select: { id: true, value: true, history: true },
+      });
+      for (const goal of goals) {
+        await tx.goal.update({
+          where: { id: goal.id },
+          data: {
+            value: goal.value * factor,
+            history: goal.history.map((result) => ({ ...result, total: result.total * factor })),
+          },
+        });
+      }
+    }
+
+    await tx.tracker.update({ where: { id: trackerId }, data: { unit } });
+    return { success: true, data: null };
+  });
+}
@@ -0,0 +1,255 @@
+import { z } from "zod";
+
+// Formulas for DERIVED trackers, e.g. "sum(fuel) / sum(distance)". Each name
+// is bound to another tracker; sum, count and avg aggregate that tracker's
+// entries over a period (a day for charts, the goal window for goals).
+// Expressions are parsed into a small tree and evaluated here — never eval'd.
+
+export const FORMULA_AGGREGATES = ["sum", "count", "avg"] as const;
+
+export type FormulaAggregate = (typeof FORMULA_AGGREGATES)[number];
+
+export const FORMULA_MAX_LENGTH = 200;
+export const MAX_FORMULA_INPUTS = 5;
+const MAX_DEPTH = 20;
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "ref"; aggregate: FormulaAggregate; name: string }
+  | { type: "negate"; operand: FormulaNode }
+  | { type: "binary"; op: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode };
+
+/** A tracker's per-period sum and entry count */
+export interface AggregateTotals {
+  sum: number;
+  count: number;
+}
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "op"; value: "+" | "-" | "*" | "/" }
+  | { kind: "paren"; value: "(" | ")" };
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i]!;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(expression.slice(i));
+      if (!match) throw new Error(`Unexpected "${char}"`);
+      tokens.push({ kind: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ kind: "name", value: match[0] });
+      i += match[0].length;
+    } else if (char === "+" || char === "-" || char === "*" || char === "/") {
+      tokens.push({ kind: "op", value: char });
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: "paren", value: char });
+      i++;
+    } else {
+      throw new Error(`Unexpected "${char}"`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent over:
+ *   expr   := term (("+" | "-") term)*
+ *   term   := unary (("*" | "/") unary)*
+ *   unary  := "-" unary | atom
+ *   atom   := number | aggregate "(" name ")" | "(" expr ")"
+ */
+function parseTokens(tokens: Token[]): FormulaNode {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expectParen = (value: "(" | ")") => {
+    const token = tokens[pos];
+    if (token?.kind !== "paren" || token.value !== value) {
+      throw new Error(`Expected "${value}"`);
+    }
+    pos++;
+  };
+
+  const expr = (depth: number): FormulaNode => {
+    if (depth > MAX_DEPTH) throw new Error("Formula is nested too deeply");
+    let node = term(depth);
+    for (
+      let token = peek();
+      token?.kind === "op" && (token.value === "+" || token.value === "-");
+      token = peek()
+    ) {
+      pos++;
+      node = { type: "binary", op: token.value, left: node, right: term(depth) };
+    }
+    return node;
+  };
+
+  const term = (depth: number): FormulaNode => {
+    let node = unary(depth);
+    for (
+      let token = peek();
+      token?.kind === "op" && (token.value === "*" || token.value === "/");
+      token = peek()
+    ) {
+      pos++;
+      node = { type: "binary", op: token.value, left: node, right: unary(depth) };
+    }
+    return node;
+  };
+
+  const unary = (depth: number): FormulaNode => {
+    const token = peek();
+    if (token?.kind === "op" && token.value === "-") {
+      if (depth > MAX_DEPTH) throw new Error("Formula is nested too deeply");
+      pos++;
+      return { type: "negate", operand: unary(depth + 1) };
+    }
+    return atom(depth);
+  };
+
+  const atom = (depth: number): FormulaNode => {
+    const token = peek();
+    if (!token) throw new Error("Formula ends unexpectedly");
+    pos++;
+    if (token.kind === "number") return { type: "number", value: token.value };
+    if (token.kind === "paren" && token.value === "(") {
+      const node = expr(depth + 1);
+      expectParen(")");
+      return node;
+    }
+    if (token.kind === "name") {
+      if (!(FORMULA_AGGREGATES as readonly string[]).includes(token.value)) {
+        throw new Error(`Use sum(${token.value}), count(${token.value}) or avg(${token.value})`);
+      }
+      expectParen("(");
+      const name = tokens[pos];
+      if (name?.kind !== "name") throw new Error(`Expected a name inside ${token.value}()`);
+      pos++;
+      expectParen(")");
+      return { type: "ref", aggregate: token.value as FormulaAggregate, name: name.value };
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const node = expr(0);
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]!.value}"`);
+  }
+  return node;
+}
+
+/** Parse a formula, or say what's wrong with it */
+export function parseFormula(
+  expression: string
+): { success: true; data: FormulaNode } | { success: false; error: string } {
+  if (expression.length > FORMULA_MAX_LENGTH) {
+    return { success: false, error: `Formula cannot exceed ${FORMULA_MAX_LENGTH} characters` };
+  }
+  try {
+    const tokens = tokenize(expression);
+    if (tokens.length === 0) return { success: false, error: "Formula is empty" };
+    return { success: true, data: parseTokens(tokens) };
+  } catch (error) {
+    // The tokenizer and parser only throw to report a syntax error
+    return { success: false, error: error instanceof Error ? error.message : "Invalid formula" };
+  }
+}
+
+/** Names a formula refers to */
+export function formulaNames(node: FormulaNode): Set<string> {
+  switch (node.type) {
+    case "number":
+      return new Set();
+    case "ref":
+      return new Set([node.name]);
+    case "negate":
+      return formulaNames(node.operand);
+    case "binary":
+      return new Set([...formulaNames(node.left), ...formulaNames(node.right)]);
+  }
+}
+
+/**
+ * Value of a formula given each name's totals for the period. Null when it
+ * is undefined there: a division by zero, or an average of no entries.
+ */
+export function evaluateFormula(
+  node: FormulaNode,
+  totals: (name: string) => AggregateTotals
+): number | null {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "ref": {
+      const { sum, count } = totals(node.name);
+      if (node.aggregate === "sum") return sum;
+      if (node.aggregate === "count") return count;
+      return count > 0 ? sum / count : null;
+    }
+    case "negate": {
+      const value = evaluateFormula(node.operand, totals);
+      return value === null ? null : -value;
+    }
+    case "binary": {
+      const left = evaluateFormula(node.left, totals);
+      const right = evaluateFormula(node.right, totals);
+      if (left === null || right === null) return null;
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return right === 0 ? null : left / right;
+      }
+    }
+  }
+}
+
+export const DerivedFormulaSchema = z
+  .object({
+    expression: z.string().trim().min(1, "Formula is required").max(FORMULA_MAX_LENGTH),
+    inputs: z
+      .array(
+        z.object({
+          name: z.string().regex(NAME_PATTERN, "Names are letters, digits and underscores"),
+          trackerId: z.string().min(1, "Pick a tracker"),
+        })
+      )
+      .min(1, "Add at least one tracker")
+      .max(MAX_FORMULA_INPUTS, `At most ${MAX_FORMULA_INPUTS} trackers`),
+  })
+  .superRefine((formula, ctx) => {
+    const names = formula.inputs.map((input) => input.name);
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({ code: "custom", path: ["inputs"], message: "Names must be unique" });
+    }
+    const parsed = parseFormula(formula.expression);
+    if (!parsed.success) {
+      ctx.addIssue({ code: "custom", path: ["expression"], message: parsed.error });
+      return;
+    }
+    for (const name of formulaNames(parsed.data)) {
+      if (!names.includes(name)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["expression"],
+          message: `"${name}" isn't a tracker in this formula`,
+        });
+      }
+    }
+  });
+
+export type DerivedFormulaConfig = z.infer<typeof DerivedFormulaSchema>;
@@ -0,0 +1,143 @@
+import prisma from "@/lib/db/prisma";
+import type { Goal, Prisma } from "@/app/generated/prisma";
+import {
+  addDaysToDateStr,
+  toZonedDateStr,
+  zonedDayRange,
+  type UserTimeSettings,
+} from "@/lib/timezone";
+import type { GoalResult } from "@/types";
+import { getDailyTotals, getEntryDays } from "./stats";
+import { evaluateDerived, loadTrackerDerivedSeries } from "./derived";
+import { POMODORO_GOAL_UNIT } from "./pomodoro";
+import {
+  GOAL_HISTORY_LIMIT,
+  isGoalMet,
+  nextPeriodStart,
+  periodStartOf,
+  streakEndingOn,
+  toGoalPeriod,
+} from "./goals";
+
+/**
+ * Move a tracker's legacy single goal (goalEnabled/goalValue/...) into a Goal.
+ * Guarded on the flag so concurrent callers migrate it once.
+ */
+export async function migrateLegacyGoal(tx: Prisma.TransactionClient, trackerId: string) {
+  const tracker = await tx.tracker.findUnique({
+    where: { id: trackerId },
+    select: { goalEnabled: true, goalValue: true, goalPeriod: true, goalUnit: true },
+  });
+  if (!tracker?.goalEnabled) return;
+
+  const cleared = await tx.tracker.updateMany({
+    where: { id: trackerId, goalEnabled: true },
+    data: { goalEnabled: false, goalValue: null, goalPeriod: null, goalUnit: null },
+  });
+  if (cleared.count === 0 || !tracker.goalValue || tracker.goalValue <= 0) return;
+
+  await tx.goal.create({
+    data: {
+      trackerId,
+      kind: "min",
+      value: tracker.goalValue,
+      period: toGoalPeriod(tracker.goalPeriod),
+      unit: tracker.goalUnit,
+    },
+  });
+}
+
+/**
+ * A tracker's goals, oldest first, with every period that has ended since
+ * they were last read recorded in their history. `updatedAt` is the
+ * tracker's, which every entry write bumps.
+ */
+export async function loadTrackerGoals(
+  tracker: { id: string; type: string; updatedAt: Date },
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<Goal[]> {
+  await prisma.$transaction((tx) => migrateLegacyGoal(tx, tracker.id));
+
+  const goals = await prisma.goal.findMany({
+    where: { trackerId: tracker.id },
+    orderBy: { createdAt: "asc" },
+  });
+  return Promise.all(goals.map((goal) => recordClosedPeriods(goal, tracker, settings, now)));
+}
+
+async function recordClosedPeriods(
+  goal: Goal,
+  tracker: { id: string; type: string; updatedAt: Date },
+  settings: UserTimeSettings,
+  now: Date
+): Promise<Goal> {
+  const { timezone, weekStartsOn } = settings;
+  const period = toGoalPeriod(goal.period);
+  const current = periodStartOf(toZonedDateStr(now, timezone), period, weekStartsOn);
+
+  // Entries written since the history was recorded (backdated ones, imports,
+  // offline replays, edits and deletions) may fall in periods it already
+  // covers, so it is rebuilt rather than extended
+  const stale = goal.history.length > 0 && tracker.updatedAt > goal.updatedAt;
+  const recorded = stale ? [] : goal.history;
+  const last = recorded[recorded.length - 1];
+
+  // Periods from the one after the last recorded (or the one the goal was set
+  // in) up to, not including, the current one
+  const starts: string[] = [];
+  for (
+    let start = last
+      ? nextPeriodStart(last.periodStart, period)
+      : periodStartOf(toZonedDateStr(goal.createdAt, timezone), period, weekStartsOn);
+    start < current;
+    start = nextPeriodStart(start, period)
+  ) {
+    starts.push(start);
+  }
+  const closing = starts.slice(-GOAL_HISTORY_LIMIT);
+  if (closing.length === 0) return goal;
+
+  let results: GoalResult[];
+  if (goal.kind === "streak") {
+    const days = new Set(await getEntryDays(tracker.id, timezone));
+    results = closing.map((day) => {
+      const total = streakEndingOn(days, day);
+      return { periodStart: day, total, met: isGoalMet(goal, total) };
+    });
+  } else if (tracker.type === "DERIVED") {
+    // The formula over each whole period, as for current progress
+    const range = zonedDayRange(closing[0]!, addDaysToDateStr(current, -1), timezone);
+    const series = await loadTrackerDerivedSeries(tracker.id, timezone, range.start, range.end);
+    results = closing.map((start, i) => {
+      const end = addDaysToDateStr(closing[i + 1] ?? current, -1);
+      const total = (series && evaluateDerived(series, start, end)) ?? 0;
+      return { periodStart: start, total, met: isGoalMet(goal, total) };
+    });
+  } else {
+    const range = zonedDayRange(closing[0]!, addDaysToDateStr(current, -1), timezone);
+    const daily = await getDailyTotals(tracker.id, tracker.type, timezone, range.start, range.end);
+    const countsPomodoros = tracker.type === "TIMER" && goal.unit === POMODORO_GOAL_UNIT;
+
+    results = closing.map((start, i) => {
+      const end = closing[i + 1] ?? current;
+      let total = 0;
+      for (let day = start; day < end; day = addDaysToDateStr(day, 1)) {
+        const totals = daily.get(day);
+        if (totals) total += countsPomodoros ? totals.pomodoros : totals.value;
+      }
+      return { periodStart: start, total, met: isGoalMet(goal, total) };
+    });
+  }
+
+  const history = [...recorded, ...results].slice(-GOAL_HISTORY_LIMIT);
+  // Guard on updatedAt so a concurrent read can't append the same periods twice
+  const updated = await prisma.goal.updateMany({
+    where: { id: goal.id, updatedAt: goal.updatedAt },
+    data: { history },
+  });
+  if (updated.count === 0) {
+    return (await prisma.goal.findUnique({ where: { id: goal.id } })) ?? goal;
+  }
+  return { ...goal, history };
+}
@@ -0,0 +1,76 @@
+import type { Goal } from "@/app/generated/prisma";
+import { toZonedDateStr, zonedDayRange, type UserTimeSettings } from "@/lib/timezone";
+import { loadTrackerGoals } from "./goal-history";
+import { getDailyTotals, getEntryDays, summarizeStreak } from "./stats";
+import { evaluateDerived, loadTrackerDerivedSeries } from "./derived";
+import { POMODORO_GOAL_UNIT } from "./pomodoro";
+import {
+  evaluateGoal,
+  goalWindow,
+  toGoalAlignment,
+  toGoalPeriod,
+  type GoalEvaluation,
+} from "./goals";
+
+export type GoalWithProgress = Goal & { progress: GoalEvaluation };
+
+/**
+ * A tracker's goals (see loadTrackerGoals) with their progress in the
+ * current period as of `now`, in the given calendar.
+ */
+export async function evaluateTrackerGoals(
+  tracker: { id: string; type: string; updatedAt: Date },
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<GoalWithProgress[]> {
+  const { timezone, weekStartsOn } = settings;
+  const goals = await loadTrackerGoals(tracker, settings, now);
+  if (goals.length === 0) return [];
+
+  const today = toZonedDateStr(now, timezone);
+  const windows = goals.map((goal) =>
+    goalWindow(toGoalPeriod(goal.period), toGoalAlignment(goal.alignment), today, weekStartsOn)
+  );
+
+  // One read covers every window, from the earliest start to today
+  const earliest = windows.reduce((min, w) => (w.start < min ? w.start : min), today);
+  const range = zonedDayRange(earliest, today, timezone);
+  const hasTotals = goals.some((goal) => goal.kind !== "streak");
+  // Derived trackers evaluate their formula over the whole window, not per day
+  const isDerived = tracker.type === "DERIVED";
+  const series =
+    hasTotals && isDerived
+      ? await loadTrackerDerivedSeries(tracker.id, timezone, range.start, range.end)
+      : null;
+  const daily =
+    hasTotals && !isDerived
+      ? await getDailyTotals(tracker.id, tracker.type, timezone, range.start, range.end)
+      : null;
+  const days = goals.some((goal) => goal.kind === "streak")
+    ? await getEntryDays(tracker.id, timezone)
+    : null;
+
+  return goals.map((goal, i) => {
+    const window = windows[i]!;
+    if (goal.kind === "streak") {
+      const entryDays = days ?? [];
+      const { current } = summarizeStreak(entryDays, today);
+      const loggedToday = entryDays[entryDays.length - 1] === today;
+      return { ...goal, progress: evaluateGoal(goal, current, window, today, loggedToday) };
+    }
+
+    if (isDerived) {
+      const total = (series && evaluateDerived(series, window.start, today)) ?? 0;
+      return { ...goal, progress: evaluateGoal(goal, total, window, today) };
+    }
+
+    const countsPomodoros = tracker.type === "TIMER" && goal.unit === POMODORO_GOAL_UNIT;
+    let total = 0;
+    for (const [day, totals] of daily ?? []) {
+      if (day >= window.start && day <= today) {
+        total += countsPomodoros ? totals.pomodoros : totals.value;
+      }
+    }
+    return { ...goal, progress: evaluateGoal(goal, total, window, today) };
+  });
+}
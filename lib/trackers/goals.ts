@@ -0,0 +1,229 @@
+import { z } from "zod";
+import {
+  addDaysToDateStr,
+  diffDateStrs,
+  startOfWeekDateStr,
+  type WeekStartDay,
+} from "@/lib/timezone";
+
+// Goals on a tracker. "min" goals are met by reaching at least `value` in a
+// period, "max" goals (limits) by staying at or under it, and "streak" goals
+// (OCCURRENCE only) by a run of `value` consecutive days with an entry.
+
+export const GOAL_KINDS = ["min", "max", "streak"] as const;
+export const GOAL_PERIOD_VALUES = ["daily", "weekly", "monthly"] as const;
+export const GOAL_ALIGNMENTS = ["calendar", "rolling"] as const;
+
+export type GoalKind = (typeof GOAL_KINDS)[number];
+export type GoalPeriod = (typeof GOAL_PERIOD_VALUES)[number];
+export type GoalAlignment = (typeof GOAL_ALIGNMENTS)[number];
+
+/** Most goals a tracker can have */
+export const MAX_GOALS_PER_TRACKER = 10;
+/** Closed periods kept per goal */
+export const GOAL_HISTORY_LIMIT = 60;
+
+/** Goal fields included with trackers; see GoalSummary */
+export const GOAL_SUMMARY_INCLUDE = {
+  select: { id: true, kind: true, value: true, period: true, alignment: true, unit: true },
+  orderBy: { createdAt: "asc" },
+} as const;
+
+export const GoalInputSchema = z
+  .object({
+    kind: z.enum(GOAL_KINDS),
+    value: z.number().positive("Must be greater than 0"),
+    period: z.enum(GOAL_PERIOD_VALUES),
+    alignment: z.enum(GOAL_ALIGNMENTS).default("calendar"),
+    unit: z.string().trim().max(20, "Unit cannot exceed 20 characters").nullable().optional(),
+  })
+  .refine((goal) => goal.kind !== "streak" || Number.isInteger(goal.value), {
+    message: "Streaks are a whole number of days",
+    path: ["value"],
+  })
+  .refine((goal) => goal.kind !== "streak" || goal.period === "daily", {
+    message: "Streaks are counted in days",
+    path: ["period"],
+  });
+
+export type GoalInput = z.input<typeof GoalInputSchema>;
+
+export function isGoalKind(value: string): value is GoalKind {
+  return (GOAL_KINDS as readonly string[]).includes(value);
+}
+
+export function isGoalPeriod(value: string): value is GoalPeriod {
+  return (GOAL_PERIOD_VALUES as readonly string[]).includes(value);
+}
+
+export function toGoalPeriod(value: string | null | undefined): GoalPeriod {
+  return value === "weekly" || value === "monthly" ? value : "daily";
+}
+
+export function toGoalAlignment(value: string | null | undefined): GoalAlignment {
+  return value === "rolling" ? value : "calendar";
+}
+
+/** First local date of the calendar period containing `dateStr` */
+export function periodStartOf(
+  dateStr: string,
+  period: GoalPeriod,
+  weekStartsOn: WeekStartDay
+): string {
+  switch (period) {
+    case "daily":
+      return dateStr;
+    case "weekly":
+      return startOfWeekDateStr(dateStr, weekStartsOn);
+    case "monthly":
+      return `${dateStr.slice(0, 8)}01`;
+  }
+}
+
+/** First local date of the calendar period after the one starting at `startStr` */
+export function nextPeriodStart(startStr: string, period: GoalPeriod): string {
+  switch (period) {
+    case "daily":
+      return addDaysToDateStr(startStr, 1);
+    case "weekly":
+      return addDaysToDateStr(startStr, 7);
+    case "monthly": {
+      const [year, month] = startStr.split("-").map(Number) as [number, number];
+      return month === 12
+        ? `${year + 1}-01-01`
+        : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+    }
+  }
+}
+
+/** Whether a period's total (or a streak length) meets the goal */
+export function isGoalMet(goal: { kind: string; value: number }, total: number): boolean {
+  return goal.kind === "max" ? total <= goal.value : total >= goal.value;
+}
+
+/** Length of the run of consecutive days in `days` ending on `dateStr` */
+export function streakEndingOn(days: Set<string>, dateStr: string): number {
+  let length = 0;
+  for (let day = dateStr; days.has(day); day = addDaysToDateStr(day, -1)) {
+    length++;
+  }
+  return length;
+}
+
+/** Local dates (inclusive) a goal's current progress is measured over */
+export interface GoalWindow {
+  start: string;
+  end: string;
+  label: string;
+}
+
+/**
+ * The window containing `todayStr`: the calendar day, week or month, or the
+ * rolling 1, 7 or 30 days ending today
+ */
+export function goalWindow(
+  period: GoalPeriod,
+  alignment: GoalAlignment,
+  todayStr: string,
+  weekStartsOn: WeekStartDay
+): GoalWindow {
+  if (alignment === "rolling" && period !== "daily") {
+    const days = period === "weekly" ? 7 : 30;
+    return {
+      start: addDaysToDateStr(todayStr, 1 - days),
+      end: todayStr,
+      label: `Last ${days} days`,
+    };
+  }
+  const start = periodStartOf(todayStr, period, weekStartsOn);
+  return {
+    start,
+    end: addDaysToDateStr(nextPeriodStart(start, period), -1),
+    label: { daily: "Today", weekly: "This week", monthly: "This month" }[period],
+  };
+}
+
+export interface GoalEvaluation {
+  periodStart: string;
+  periodEnd: string;
+  label: string;
+  /** Period total, or the current streak for streak goals */
+  total: number;
+  /** Share of the target (or of the limit) reached, capped at 100 */
+  percentage: number;
+  /** Left to reach the target; for limits, left before going over (negative once over) */
+  remaining: number;
+  met: boolean;
+  /** End-of-period total at the current pace; calendar periods only */
+  projectedTotal: number | null;
+  /** Day the target is reached at the current pace, when that falls in the period */
+  projectedCompletion: string | null;
+}
+
+/** Round to 2 decimal places */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Progress toward a goal given its total over `window` as of `todayStr`.
+ * Projections assume the pace so far (per elapsed day) continues; streak
+ * goals project one check-in a day, with `loggedToday` saying whether
+ * today's is already in.
+ */
+export function evaluateGoal(
+  goal: { kind: string; value: number; alignment: string },
+  total: number,
+  window: GoalWindow,
+  todayStr: string,
+  loggedToday = false
+): GoalEvaluation {
+  const met = isGoalMet(goal, total);
+  const base = {
+    periodStart: window.start,
+    periodEnd: window.end,
+    label: window.label,
+    total,
+    percentage: Math.min(100, Math.round((total / goal.value) * 100)),
+    met,
+  };
+
+  if (goal.kind === "streak") {
+    const remaining = Math.max(0, goal.value - total);
+    return {
+      ...base,
+      remaining,
+      projectedTotal: null,
+      projectedCompletion: met
+        ? null
+        : addDaysToDateStr(todayStr, loggedToday ? remaining : remaining - 1),
+    };
+  }
+
+  const remaining = goal.kind === "max" ? goal.value - total : Math.max(0, goal.value - total);
+  if (goal.alignment === "rolling") {
+    return {
+      ...base,
+      remaining: round2(remaining),
+      projectedTotal: null,
+      projectedCompletion: null,
+    };
+  }
+
+  const elapsedDays = diffDateStrs(window.start, todayStr) + 1;
+  const periodDays = diffDateStrs(window.start, window.end) + 1;
+  const pace = total / elapsedDays;
+
+  let projectedCompletion: string | null = null;
+  if (goal.kind === "min" && !met && pace > 0) {
+    const day = addDaysToDateStr(todayStr, Math.ceil(remaining / pace));
+    if (day <= window.end) projectedCompletion = day;
+  }
+
+  return {
+    ...base,
+    remaining: round2(remaining),
+    projectedTotal: round2(pace * periodDays),
+    projectedCompletion,
+  };
+}
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import {
+  addDaysToDateStr,
+  diffDateStrs,
+  startOfWeekDateStr,
+  weekdayOfDateStr,
+  type WeekStartDay,
+} from "@/lib/timezone";
+import type { HabitSchedule } from "@/types";
+import type { StreakSummary } from "./stats";
+
+// Habits are OCCURRENCE trackers with a schedule. Only scheduled days count
+// toward the streak: rest days never break it, and a skipped (excused) day
+// neither breaks nor extends it.
+
+export const HABIT_SCHEDULE_KINDS = ["weekdays", "weekly", "interval"] as const;
+
+export type HabitScheduleKind = (typeof HABIT_SCHEDULE_KINDS)[number];
+
+export const HABIT_SKIP_REASON_MAX = 100;
+
+const DateStrSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+export const HabitScheduleSchema = z
+  .object({
+    kind: z.enum(HABIT_SCHEDULE_KINDS),
+    weekdays: z.array(z.number().int().min(0).max(6)).max(7),
+    timesPerWeek: z.number().int().min(1).max(7).nullable().optional(),
+    everyDays: z
+      .number()
+      .int()
+      .min(2, "Repeat every 2 or more days")
+      .max(365)
+      .nullable()
+      .optional(),
+    anchor: DateStrSchema.nullable().optional(),
+  })
+  .refine((schedule) => schedule.kind !== "weekdays" || schedule.weekdays.length > 0, {
+    message: "Pick at least one day",
+    path: ["weekdays"],
+  })
+  .refine((schedule) => schedule.kind !== "weekly" || !!schedule.timesPerWeek, {
+    message: "Set how many times a week",
+    path: ["timesPerWeek"],
+  })
+  .refine(
+    (schedule) => schedule.kind !== "interval" || (!!schedule.everyDays && !!schedule.anchor),
+    {
+      message: "Set how often and from which day",
+      path: ["everyDays"],
+    }
+  );
+
+export type HabitScheduleConfig = z.infer<typeof HabitScheduleSchema>;
+
+/** A stored schedule as a valid config, or null when there is none (or it's malformed) */
+export function parseHabitSchedule(
+  schedule: HabitSchedule | null | undefined
+): HabitScheduleConfig | null {
+  if (!schedule) return null;
+  const parsed = HabitScheduleSchema.safeParse(schedule);
+  return parsed.success ? parsed.data : null;
+}
+
+export const HabitSkipSchema = z.object({
+  date: DateStrSchema,
+  reason: z
+    .string()
+    .trim()
+    .max(HABIT_SKIP_REASON_MAX, `Reason cannot exceed ${HABIT_SKIP_REASON_MAX} characters`)
+    .nullable()
+    .optional(),
+});
+
+/**
+ * How a day looks for a habit: checked in, a scheduled day that passed
+ * without a check-in, excused, not required, or still open (today, or the
+ * current week of a times-per-week habit that is short of its count)
+ */
+export type HabitDayState = "done" | "missed" | "skipped" | "unscheduled" | "due";
+
+export interface HabitEvaluation {
+  days: Map<string, HabitDayState>;
+  /** Counted in scheduled check-ins; `lastDate` is the last check-in */
+  streak: StreakSummary;
+}
+
+/** Whether a weekdays or interval habit is due on `dateStr`; weekly habits are due any day */
+export function isScheduledDay(schedule: HabitSchedule, dateStr: string): boolean {
+  switch (schedule.kind) {
+    case "weekdays":
+      return schedule.weekdays.includes(weekdayOfDateStr(dateStr));
+    case "interval": {
+      if (!schedule.anchor || !schedule.everyDays) return false;
+      const offset = diffDateStrs(schedule.anchor, dateStr);
+      return offset >= 0 && offset % schedule.everyDays === 0;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * State of every day from `from` to `today` (ascending), and the streak of
+ * scheduled check-ins. A times-per-week habit is judged per week: a week
+ * that ended short of its count (less skipped days) breaks the streak.
+ */
+export function evaluateHabit(
+  schedule: HabitSchedule,
+  done: Set<string>,
+  skipped: Set<string>,
+  from: string,
+  today: string,
+  weekStartsOn: WeekStartDay
+): HabitEvaluation {
+  const days = new Map<string, HabitDayState>();
+  const streak: StreakSummary = { current: 0, longest: 0, lastDate: null };
+  const checkIn = (day: string) => {
+    days.set(day, "done");
+    streak.current++;
+    streak.longest = Math.max(streak.longest, streak.current);
+    streak.lastDate = day;
+  };
+
+  if (schedule.kind !== "weekly") {
+    for (let day = from; day <= today; day = addDaysToDateStr(day, 1)) {
+      if (done.has(day)) {
+        // Check-ins on rest days show as done but don't extend the streak
+        if (isScheduledDay(schedule, day)) checkIn(day);
+        else days.set(day, "done");
+      } else if (skipped.has(day)) {
+        days.set(day, "skipped");
+      } else if (!isScheduledDay(schedule, day)) {
+        days.set(day, "unscheduled");
+      } else if (day === today) {
+        days.set(day, "due");
+      } else {
+        days.set(day, "missed");
+        streak.current = 0;
+      }
+    }
+    return { days, streak };
+  }
+
+  const perWeek = schedule.timesPerWeek ?? 1;
+  for (
+    let weekStart = startOfWeekDateStr(from, weekStartsOn);
+    weekStart <= today;
+    weekStart = addDaysToDateStr(weekStart, 7)
+  ) {
+    const weekEnd = addDaysToDateStr(weekStart, 6);
+    const closed = weekEnd < today;
+    const weekDays: string[] = [];
+    const last = weekEnd < today ? weekEnd : today;
+    for (
+      let day = weekStart > from ? weekStart : from;
+      day <= last;
+      day = addDaysToDateStr(day, 1)
+    ) {
+      weekDays.push(day);
+    }
+
+    const doneCount = weekDays.filter((day) => done.has(day)).length;
+    const skipCount = weekDays.filter((day) => !done.has(day) && skipped.has(day)).length;
+    // Each skip excuses one check-in; a partial first week only asks for the days it has
+    let required = Math.max(0, perWeek - skipCount);
+    if (closed) required = Math.min(required, weekDays.length - skipCount);
+    const failed = closed && doneCount < required;
+
+    for (const day of weekDays) {
+      if (done.has(day)) checkIn(day);
+      else if (skipped.has(day)) days.set(day, "skipped");
+      else if (failed) days.set(day, "missed");
+      else if (!closed && doneCount < required) days.set(day, "due");
+      else days.set(day, "unscheduled");
+    }
+    if (failed) streak.current = 0;
+  }
+  return { days, streak };
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { PomodoroConfig } from "@/types";
+
+/** Goal unit that counts completed Pomodoro work intervals instead of time */
+export const POMODORO_GOAL_UNIT = "pomodoros";
+
+export const DEFAULT_POMODORO: PomodoroConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+};
+
+/** Seconds of slack when checking a work interval ran its full length */
+const COMPLETION_TOLERANCE_SECONDS = 5;
+
+export const PomodoroConfigSchema = z.object({
+  workMinutes: z.number().int().min(1, "Work length must be at least 1 minute").max(180),
+  shortBreakMinutes: z.number().int().min(1).max(60),
+  longBreakMinutes: z.number().int().min(1).max(120),
+  cycles: z.number().int().min(1, "At least 1 cycle").max(12),
+});
+
+export type PomodoroPhase = "work" | "shortBreak" | "longBreak";
+
+/** Whether an entry's active time covers a full work interval */
+export function isPomodoroComplete(config: PomodoroConfig, activeSeconds: number): boolean {
+  return activeSeconds >= config.workMinutes * 60 - COMPLETION_TOLERANCE_SECONDS;
+}
+
+/** The break after the `completed`-th work interval of a session (1-based) */
+export function breakAfter(
+  config: PomodoroConfig,
+  completed: number
+): { phase: Exclude<PomodoroPhase, "work">; seconds: number } {
+  return completed > 0 && completed % config.cycles === 0
+    ? { phase: "longBreak", seconds: config.longBreakMinutes * 60 }
+    : { phase: "shortBreak", seconds: config.shortBreakMinutes * 60 };
+}
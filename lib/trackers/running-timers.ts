@@ -0,0 +1,105 @@
+import type { Prisma } from "@/app/generated/prisma";
+import type { WebhookEntrySnapshot } from "@/lib/webhooks/dispatch";
+import { recalculateTrackerStatistics } from "./statistics";
+import { isTimerRunning } from "./timer";
+import { settleTimer, type TimerPolicy } from "./timer-policy";
+
+const RUNNING_TIMER_SELECT = {
+  id: true,
+  trackerId: true,
+  date: true,
+  value: true,
+  startTime: true,
+  endTime: true,
+  note: true,
+  tags: true,
+  breaks: true,
+  tracker: { select: { name: true } },
+} satisfies Prisma.TrackerEntrySelect;
+
+export type RunningTimer = Prisma.TrackerEntryGetPayload<{ select: typeof RUNNING_TIMER_SELECT }>;
+
+/**
+ * Running timer entries matching `where`, newest first. Timers started from
+ * older clients carry endTime === startTime (value 0), so candidates are
+ * confirmed in memory.
+ */
+export async function findRunningTimers(
+  tx: Prisma.TransactionClient,
+  where: Prisma.TrackerEntryWhereInput
+): Promise<RunningTimer[]> {
+  const candidates = await tx.trackerEntry.findMany({
+    where: {
+      AND: [
+        where,
+        { startTime: { not: null } },
+        { OR: [{ endTime: null }, { endTime: { isSet: false } }, { value: 0 }] },
+      ],
+    },
+    select: RUNNING_TIMER_SELECT,
+    orderBy: { startTime: "desc" },
+  });
+  return candidates.filter(isTimerRunning);
+}
+
+export interface TimerStartClaim {
+  /** Running timers that block the start (policy "reject") */
+  conflicts: RunningTimer[];
+  /** Running timers that were stopped to make room (policy "stop"), as stopped */
+  stopped: WebhookEntrySnapshot[];
+}
+
+/**
+ * Make room for a new timer on `trackerId`. A tracker never runs two timers,
+ * and with `singleActiveTimer` none of the user's other trackers may run one
+ * either; conflicting timers are reported or stopped depending on the policy.
+ */
+export async function claimTimerStart(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  trackerId: string,
+  policy: TimerPolicy,
+  now: Date
+): Promise<TimerStartClaim> {
+  const running = await findRunningTimers(
+    tx,
+    policy.singleActiveTimer ? { tracker: { userId } } : { trackerId }
+  );
+  if (running.length === 0 || policy.conflict === "reject") {
+    return { conflicts: running, stopped: [] };
+  }
+
+  const stopped: WebhookEntrySnapshot[] = [];
+  for (const entry of running) {
+    const settled = settleTimer(policy, entry.startTime!, now, entry.breaks);
+    // Guard on the endTime read above so a concurrent stop can't apply twice
+    const updated = await tx.trackerEntry.updateMany({
+      where: { id: entry.id, endTime: entry.endTime },
+      data: {
+        endTime: settled.endTime,
+        breaks: settled.breaks,
+        value: settled.duration,
+        overrun: settled.overrun,
+      },
+    });
+    if (updated.count === 0) continue;
+
+    stopped.push({
+      id: entry.id,
+      trackerId: entry.trackerId,
+      date: entry.date,
+      note: entry.note,
+      tags: entry.tags,
+      startTime: entry.startTime,
+      endTime: settled.endTime,
+      value: settled.duration,
+    });
+  }
+
+  for (const id of new Set(stopped.map((entry) => entry.trackerId))) {
+    await recalculateTrackerStatistics(tx, id, "TIMER");
+    await tx.tracker.update({ where: { id }, data: { status: "INACTIVE" } });
+  }
+
+  return { conflicts: [], stopped };
+}
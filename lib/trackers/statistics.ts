@@ -0,0 +1,195 @@
+import type { Prisma } from "@/app/generated/prisma";
+import { isTimerRunning } from "./timer";
+
+// Trackers cache totals over their entries in `statistics`. Every write path
+// goes through this module so they agree on what counts: stopped timers (by
+// active time), COUNTER/AMOUNT entries with a value, and every entry of the
+// other types. DERIVED trackers have no entries. Imported by the admin CLI in
+// prisma/, so it only uses relative or type-only imports.
+
+export interface StatisticsTotals {
+  totalEntries: number;
+  totalTime: number;
+  totalValue: number;
+}
+
+/** The fields of an entry that decide what it adds to its tracker's statistics */
+export interface StatisticsEntry {
+  value?: number | null;
+  startTime?: Date | string | null;
+  endTime?: Date | string | null;
+}
+
+export interface StatisticsDiscrepancy {
+  trackerId: string;
+  name: string;
+  stored: StatisticsTotals;
+  actual: StatisticsTotals;
+}
+
+export interface StatisticsCheckResult {
+  checked: number;
+  discrepancies: StatisticsDiscrepancy[];
+  /** False for a dry run: discrepancies were reported but left as they are */
+  repaired: boolean;
+}
+
+const EMPTY: StatisticsTotals = { totalEntries: 0, totalTime: 0, totalValue: 0 };
+
+/** What a single entry adds to its tracker's statistics; nothing for null */
+export function entryContribution(
+  trackerType: string,
+  entry: StatisticsEntry | null
+): StatisticsTotals {
+  if (!entry) return EMPTY;
+  switch (trackerType) {
+    case "TIMER":
+      if (!entry.startTime || !entry.endTime || isTimerRunning(entry)) return EMPTY;
+      return { totalEntries: 1, totalTime: entry.value ?? 0, totalValue: 0 };
+    case "COUNTER":
+    case "AMOUNT":
+      if (entry.value == null) return EMPTY;
+      return { totalEntries: 1, totalTime: 0, totalValue: entry.value };
+    case "DERIVED":
+      return EMPTY;
+    default:
+      return { totalEntries: 1, totalTime: 0, totalValue: 0 };
+  }
+}
+
+/** Statistics of a tracker with exactly these entries */
+export function computeStatistics(
+  trackerType: string,
+  entries: StatisticsEntry[]
+): StatisticsTotals {
+  const totals = { ...EMPTY };
+  for (const entry of entries) {
+    const contribution = entryContribution(trackerType, entry);
+    totals.totalEntries += contribution.totalEntries;
+    totals.totalTime += contribution.totalTime;
+    totals.totalValue += contribution.totalValue;
+  }
+  return totals;
+}
+
+function storedTotals(
+  statistics: { totalEntries: number; totalTime: number | null; totalValue: number | null } | null
+): StatisticsTotals {
+  return {
+    totalEntries: statistics?.totalEntries ?? 0,
+    totalTime: statistics?.totalTime ?? 0,
+    totalValue: statistics?.totalValue ?? 0,
+  };
+}
+
+function sameTotals(a: StatisticsTotals, b: StatisticsTotals): boolean {
+  // Sums of floats may differ in the last digits depending on order
+  const close = (x: number, y: number) => Math.abs(x - y) <= 1e-6 * Math.max(1, Math.abs(x));
+  return (
+    a.totalEntries === b.totalEntries &&
+    close(a.totalTime, b.totalTime) &&
+    close(a.totalValue, b.totalValue)
+  );
+}
+
+/**
+ * Apply one entry write to its tracker's statistics: `before` is null for a
+ * new entry and `after` is null for a deleted one. Also marks the tracker as
+ * just used. Returns the statistics afterwards.
+ */
+export async function applyEntryChange(
+  tx: Prisma.TransactionClient,
+  trackerId: string,
+  before: StatisticsEntry | null,
+  after: StatisticsEntry | null
+): Promise<StatisticsTotals> {
+  const tracker = await tx.tracker.findUnique({
+    where: { id: trackerId },
+    select: { type: true, statistics: true },
+  });
+  if (!tracker) throw new Error("Tracker not found");
+
+  const stored = storedTotals(tracker.statistics);
+  const added = entryContribution(tracker.type, after);
+  const removed = entryContribution(tracker.type, before);
+  const totals: StatisticsTotals = {
+    totalEntries: Math.max(0, stored.totalEntries + added.totalEntries - removed.totalEntries),
+    totalTime: Math.max(0, stored.totalTime + added.totalTime - removed.totalTime),
+    // Counter totals can go below zero; entry counts and durations can't
+    totalValue: stored.totalValue + added.totalValue - removed.totalValue,
+  };
+
+  await tx.tracker.update({
+    where: { id: trackerId },
+    data: {
+      updatedAt: new Date(),
+      statistics: { ...totals, totalCustom: tracker.statistics?.totalCustom ?? "" },
+    },
+  });
+  return totals;
+}
+
+/** Statistics a tracker should have, computed from all of its entries */
+export async function computeTrackerStatistics(
+  db: Prisma.TransactionClient,
+  trackerId: string,
+  trackerType: string
+): Promise<StatisticsTotals> {
+  const entries = await db.trackerEntry.findMany({
+    where: { trackerId },
+    select: { value: true, startTime: true, endTime: true },
+  });
+  return computeStatistics(trackerType, entries);
+}
+
+/**
+ * Rebuild a tracker's statistics from its entries. Used after bulk writes
+ * and edits, where working out the change entry by entry isn't worth it.
+ */
+export async function recalculateTrackerStatistics(
+  tx: Prisma.TransactionClient,
+  trackerId: string,
+  trackerType: string
+): Promise<StatisticsTotals> {
+  const totals = await computeTrackerStatistics(tx, trackerId, trackerType);
+  await tx.tracker.update({
+    where: { id: trackerId },
+    data: { statistics: { upsert: { set: { ...totals, totalCustom: "" }, update: totals } } },
+  });
+  return totals;
+}
+
+/**
+ * Compare the stored statistics of every tracker matching `where` with totals
+ * computed from their entries, and unless `dryRun` is set, overwrite the ones
+ * that differ. Trackers are checked one at a time so a whole account (or
+ * database, from the CLI) never sits in a single transaction.
+ */
+export async function checkTrackerStatistics(
+  db: Prisma.TransactionClient,
+  where: Prisma.TrackerWhereInput,
+  options: { dryRun?: boolean } = {}
+): Promise<StatisticsCheckResult> {
+  const trackers = await db.tracker.findMany({
+    where,
+    select: { id: true, name: true, type: true, statistics: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const discrepancies: StatisticsDiscrepancy[] = [];
+  for (const tracker of trackers) {
+    const stored = storedTotals(tracker.statistics);
+    const actual = await computeTrackerStatistics(db, tracker.id, tracker.type);
+    if (sameTotals(stored, actual)) continue;
+
+    discrepancies.push({ trackerId: tracker.id, name: tracker.name, stored, actual });
+    if (!options.dryRun) {
+      await db.tracker.update({
+        where: { id: tracker.id },
+        data: { statistics: { upsert: { set: { ...actual, totalCustom: "" }, update: actual } } },
+      });
+    }
+  }
+
+  return { checked: trackers.length, discrepancies, repaired: !options.dryRun };
+}
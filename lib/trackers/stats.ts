@@ -0,0 +1,342 @@
+import prisma from "@/lib/db/prisma";
+import {
+  addDaysToDateStr,
+  diffDateStrs,
+  getPeriodStarts,
+  toZonedDateStr,
+  zonedDayRange,
+  type UserTimeSettings,
+} from "@/lib/timezone";
+import type { HabitSchedule } from "@/types";
+import { isTimerRunning, wallClockSeconds } from "./timer";
+import { evaluateHabit, type HabitEvaluation } from "./habits";
+import { derivedDailyValues, evaluateDerived, loadTrackerDerivedSeries } from "./derived";
+
+export interface PeriodTotals {
+  today: number;
+  week: number;
+  month: number;
+  /** TIMER only: elapsed start-to-end time including breaks; the totals above are active time */
+  wallClock?: { today: number; week: number; month: number };
+  /** TIMER only: completed Pomodoro work intervals */
+  pomodoros?: { today: number; week: number; month: number };
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  lastDate: string | null;
+}
+
+/**
+ * Totals for the user's current local day, week and month.
+ * TIMER sums completed durations (active time, plus wall-clock time
+ * separately), COUNTER/AMOUNT sum values, DERIVED evaluates its formula
+ * over each period, anything else counts entries.
+ */
+export async function getPeriodTotals(
+  trackerId: string,
+  trackerType: string,
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<PeriodTotals> {
+  const starts = getPeriodStarts(now, settings);
+
+  if (trackerType === "TIMER") {
+    return getTimerPeriodTotals(trackerId, starts);
+  }
+  if (trackerType === "DERIVED") {
+    return getDerivedPeriodTotals(trackerId, settings.timezone, starts, now);
+  }
+
+  const totalSince = async (since: Date): Promise<number> => {
+    switch (trackerType) {
+      case "COUNTER":
+      case "AMOUNT": {
+        const result = await prisma.trackerEntry.aggregate({
+          where: { trackerId, value: { not: null }, date: { gte: since } },
+          _sum: { value: true },
+        });
+        return result._sum.value ?? 0;
+      }
+      default:
+        return prisma.trackerEntry.count({ where: { trackerId, date: { gte: since } } });
+    }
+  };
+
+  const [today, week, month] = await Promise.all([
+    totalSince(starts.today),
+    totalSince(starts.week),
+    totalSince(starts.month),
+  ]);
+  return { today, week, month };
+}
+
+/** A derived tracker's formula over each period so far; 0 where it's undefined */
+async function getDerivedPeriodTotals(
+  trackerId: string,
+  timezone: string,
+  starts: { today: Date; week: Date; month: Date },
+  now: Date
+): Promise<PeriodTotals> {
+  const today = toZonedDateStr(now, timezone);
+  const since = new Date(Math.min(starts.week.getTime(), starts.month.getTime()));
+  const series = await loadTrackerDerivedSeries(
+    trackerId,
+    timezone,
+    since,
+    zonedDayRange(today, today, timezone).end
+  );
+  const total = (start: Date) =>
+    (series && evaluateDerived(series, toZonedDateStr(start, timezone), today)) ?? 0;
+  return { today: total(starts.today), week: total(starts.week), month: total(starts.month) };
+}
+
+export interface CompletedTimerEntry {
+  id: string;
+  trackerId: string;
+  date: Date;
+  startTime: Date;
+  endTime: Date;
+  /** Active seconds (the stored value, excluding breaks) */
+  active: number;
+  /** Elapsed seconds from start to end, breaks included */
+  wallClock: number;
+  pomodoro: boolean;
+  tags: string[];
+  note: string | null;
+}
+
+/**
+ * Stopped timer entries on the given trackers dated within [since, until],
+ * oldest first. Running timers (start === end marker) are left out.
+ */
+export async function getCompletedTimerEntries(
+  trackerIds: string[],
+  since: Date,
+  until?: Date
+): Promise<CompletedTimerEntry[]> {
+  const entries = await prisma.trackerEntry.findMany({
+    where: {
+      trackerId: { in: trackerIds },
+      startTime: { not: null },
+      endTime: { not: null },
+      date: { gte: since, ...(until && { lte: until }) },
+    },
+    select: {
+      id: true,
+      trackerId: true,
+      date: true,
+      value: true,
+      startTime: true,
+      endTime: true,
+      pomodoro: true,
+      tags: true,
+      note: true,
+    },
+    orderBy: { date: "asc" },
+  });
+
+  return entries
+    .filter((entry) => !isTimerRunning(entry))
+    .map((entry) => ({
+      id: entry.id,
+      trackerId: entry.trackerId,
+      date: entry.date,
+      startTime: entry.startTime!,
+      endTime: entry.endTime!,
+      active: entry.value ?? 0,
+      wallClock: wallClockSeconds(entry.startTime!, entry.endTime!),
+      pomodoro: entry.pomodoro,
+      tags: entry.tags,
+      note: entry.note,
+    }));
+}
+
+/**
+ * Active and wall-clock timer totals plus completed pomodoros. Wall-clock
+ * time isn't stored, so the completed sessions since the earliest period
+ * start are summed here.
+ */
+async function getTimerPeriodTotals(
+  trackerId: string,
+  starts: { today: Date; week: Date; month: Date }
+): Promise<PeriodTotals> {
+  const since = new Date(Math.min(starts.week.getTime(), starts.month.getTime()));
+  const entries = await getCompletedTimerEntries([trackerId], since);
+
+  const totals: PeriodTotals = {
+    today: 0,
+    week: 0,
+    month: 0,
+    wallClock: { today: 0, week: 0, month: 0 },
+    pomodoros: { today: 0, week: 0, month: 0 },
+  };
+  for (const entry of entries) {
+    for (const period of ["today", "week", "month"] as const) {
+      if (entry.date < starts[period]) continue;
+      totals[period] += entry.active;
+      totals.wallClock![period] += entry.wallClock;
+      if (entry.pomodoro) totals.pomodoros![period]++;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Current and longest run of consecutive local days in `days` (sorted
+ * ascending, unique). The current streak is live if the last day is today
+ * or yesterday.
+ */
+export function summarizeStreak(days: string[], todayStr: string): StreakSummary {
+  if (days.length === 0) {
+    return { current: 0, longest: 0, lastDate: null };
+  }
+
+  let longest = 1;
+  let runLen = 1;
+  for (let i = 1; i < days.length; i++) {
+    runLen = diffDateStrs(days[i - 1], days[i]) === 1 ? runLen + 1 : 1;
+    if (runLen > longest) longest = runLen;
+  }
+
+  const lastDate = days[days.length - 1];
+  let current = 0;
+  if (lastDate === todayStr || lastDate === addDaysToDateStr(todayStr, -1)) {
+    current = 1;
+    for (let i = days.length - 1; i > 0; i--) {
+      if (diffDateStrs(days[i - 1], days[i]) !== 1) break;
+      current++;
+    }
+  }
+
+  return { current, longest, lastDate };
+}
+
+/**
+ * Local days ("YYYY-MM-DD") with at least one entry, sorted ascending.
+ */
+export async function getEntryDays(trackerId: string, timezone: string): Promise<string[]> {
+  const entries = await prisma.trackerEntry.findMany({
+    where: { trackerId },
+    select: { date: true },
+    orderBy: { date: "asc" },
+  });
+  return Array.from(new Set(entries.map((entry) => toZonedDateStr(entry.date, timezone)))).sort();
+}
+
+/**
+ * Streak of consecutive local days with at least one entry.
+ */
+export async function getDayStreak(
+  trackerId: string,
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<StreakSummary> {
+  const days = await getEntryDays(trackerId, settings.timezone);
+  return summarizeStreak(days, toZonedDateStr(now, settings.timezone));
+}
+
+/**
+ * Day states and scheduled-day streak of a habit, from its first check-in
+ * through today.
+ */
+export async function getHabitProgress(
+  trackerId: string,
+  schedule: HabitSchedule,
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<HabitEvaluation> {
+  const [days, skips] = await Promise.all([
+    getEntryDays(trackerId, settings.timezone),
+    prisma.habitSkip.findMany({ where: { trackerId }, select: { date: true } }),
+  ]);
+  const today = toZonedDateStr(now, settings.timezone);
+  return evaluateHabit(
+    schedule,
+    new Set(days),
+    new Set(skips.map((skip) => skip.date)),
+    days[0] ?? today,
+    today,
+    settings.weekStartsOn
+  );
+}
+
+/**
+ * Day streak of a tracker; habits count only their scheduled days.
+ */
+export async function getTrackerStreak(
+  tracker: { id: string; schedule: HabitSchedule | null },
+  settings: UserTimeSettings,
+  now: Date = new Date()
+): Promise<StreakSummary> {
+  if (tracker.schedule) {
+    return (await getHabitProgress(tracker.id, tracker.schedule, settings, now)).streak;
+  }
+  return getDayStreak(tracker.id, settings, now);
+}
+
+export interface DailyTotal {
+  value: number;
+  /** TIMER only: completed Pomodoro work intervals */
+  pomodoros: number;
+}
+
+/**
+ * Per local day totals for entries dated within [since, until], measured as
+ * in getPeriodTotals: active time of stopped timers, summed COUNTER/AMOUNT
+ * values, or entry counts. Days without entries are absent; for DERIVED
+ * trackers, days where the formula is undefined.
+ */
+export async function getDailyTotals(
+  trackerId: string,
+  trackerType: string,
+  timezone: string,
+  since: Date,
+  until: Date
+): Promise<Map<string, DailyTotal>> {
+  if (trackerType === "DERIVED") {
+    const series = await loadTrackerDerivedSeries(trackerId, timezone, since, until);
+    const totals = new Map<string, DailyTotal>();
+    if (!series) return totals;
+    const values = derivedDailyValues(
+      series,
+      toZonedDateStr(since, timezone),
+      toZonedDateStr(until, timezone)
+    );
+    for (const [day, value] of values) {
+      if (value !== null) totals.set(day, { value, pomodoros: 0 });
+    }
+    return totals;
+  }
+
+  const entries =
+    trackerType === "TIMER"
+      ? (await getCompletedTimerEntries([trackerId], since, until)).map((entry) => ({
+          date: entry.date,
+          value: entry.active,
+          pomodoro: entry.pomodoro,
+        }))
+      : await prisma.trackerEntry.findMany({
+          where: { trackerId, date: { gte: since, lte: until } },
+          select: { date: true, value: true, pomodoro: true },
+        });
+
+  const totals = new Map<string, DailyTotal>();
+  for (const entry of entries) {
+    const key = toZonedDateStr(entry.date, timezone);
+    const day = totals.get(key) ?? { value: 0, pomodoros: 0 };
+    switch (trackerType) {
+      case "TIMER":
+      case "COUNTER":
+      case "AMOUNT":
+        day.value += entry.value ?? 0;
+        break;
+      default:
+        day.value += 1;
+    }
+    if (entry.pomodoro) day.pomodoros++;
+    totals.set(key, day);
+  }
+  return totals;
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { BreakSegment } from "@/types";
+import { activeSeconds, closeBreaks } from "./timer";
+
+// A user's rules for running timers: whether only one may run across all
+// trackers (a tracker never has two), what starting a conflicting timer does,
+// and how long a timer may run before it is flagged or capped when stopped.
+
+export const TIMER_CONFLICT_VALUES = ["reject", "stop"] as const;
+export const TIMER_OVERRUN_VALUES = ["flag", "cap"] as const;
+
+export type TimerConflict = (typeof TIMER_CONFLICT_VALUES)[number];
+export type TimerOverrun = (typeof TIMER_OVERRUN_VALUES)[number];
+
+export interface TimerPolicy {
+  singleActiveTimer: boolean;
+  conflict: TimerConflict;
+  maxHours: number | null;
+  overrun: TimerOverrun;
+}
+
+export const DEFAULT_TIMER_POLICY: TimerPolicy = {
+  singleActiveTimer: false,
+  conflict: "reject",
+  maxHours: 12,
+  overrun: "flag",
+};
+
+export const TimerPolicySchema = z.object({
+  singleActiveTimer: z.boolean(),
+  conflict: z.enum(TIMER_CONFLICT_VALUES),
+  maxHours: z.number().int().min(1, "Must be at least 1 hour").max(168).nullable(),
+  overrun: z.enum(TIMER_OVERRUN_VALUES),
+});
+
+/** Read a policy from the stored user columns, falling back to defaults for unknown values */
+export function toTimerPolicy(user: {
+  singleActiveTimer?: boolean | null;
+  timerConflict?: string | null;
+  maxTimerHours?: number | null;
+  timerOverrun?: string | null;
+}): TimerPolicy {
+  return {
+    singleActiveTimer: user.singleActiveTimer ?? DEFAULT_TIMER_POLICY.singleActiveTimer,
+    conflict: user.timerConflict === "stop" ? "stop" : "reject",
+    maxHours: user.maxTimerHours === undefined ? DEFAULT_TIMER_POLICY.maxHours : user.maxTimerHours,
+    overrun: user.timerOverrun === "cap" ? "cap" : "flag",
+  };
+}
+
+/** Whether a timer with this much active time has run past the policy's limit */
+export function isOverrun(policy: TimerPolicy, seconds: number): boolean {
+  return policy.maxHours !== null && seconds > policy.maxHours * 3600;
+}
+
+/** The moment a timer started at `startTime` reaches `maxSeconds` of active time */
+export function capEndTime(startTime: Date, breaks: BreakSegment[], maxSeconds: number): Date {
+  let cursor = startTime.getTime();
+  let remaining = maxSeconds * 1000;
+  const sorted = [...breaks].sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (const segment of sorted) {
+    const start = segment.start.getTime();
+    if (start > cursor) {
+      if (start - cursor >= remaining) break;
+      remaining -= start - cursor;
+      cursor = start;
+    }
+    // An open break never ends, so the limit is reached when it began
+    if (!segment.end) return new Date(cursor);
+    cursor = Math.max(cursor, segment.end.getTime());
+  }
+  return new Date(cursor + remaining);
+}
+
+export interface SettledTimer {
+  endTime: Date;
+  breaks: BreakSegment[];
+  duration: number;
+  overrun: boolean;
+}
+
+/** End a timer at `endTime`, closing open breaks and trimming any after it */
+export function endTimerAt(
+  startTime: Date,
+  endTime: Date,
+  breaks: BreakSegment[] = []
+): Omit<SettledTimer, "overrun"> {
+  const trimmed = closeBreaks(breaks, endTime)
+    .filter((segment) => segment.start < endTime)
+    .map((segment) =>
+      segment.end && segment.end > endTime ? { ...segment, end: endTime } : segment
+    );
+  return { endTime, breaks: trimmed, duration: activeSeconds(startTime, endTime, trimmed) };
+}
+
+/**
+ * End a running timer at `endTime` under the policy. Open breaks are closed
+ * and the duration is active time; past the limit the entry is either
+ * flagged for review or ended at the limit.
+ */
+export function settleTimer(
+  policy: TimerPolicy,
+  startTime: Date,
+  endTime: Date,
+  breaks: BreakSegment[] = []
+): SettledTimer {
+  const settled = endTimerAt(startTime, endTime, breaks);
+  if (!isOverrun(policy, settled.duration)) {
+    return { ...settled, overrun: false };
+  }
+  if (policy.overrun === "flag") {
+    return { ...settled, overrun: true };
+  }
+  const cappedEnd = capEndTime(startTime, settled.breaks, policy.maxHours! * 3600);
+  return { ...endTimerAt(startTime, cappedEnd, settled.breaks), overrun: false };
+}
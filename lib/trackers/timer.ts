@@ -0,0 +1,78 @@
+import type { BreakSegment } from "@/types";
+
+// Timer entries record pauses as break segments. `value` on a stopped entry
+// is the active time (wall clock minus breaks); wall-clock time is always
+// endTime - startTime. Dates may arrive as strings from serialised queries.
+
+type DateLike = Date | string;
+
+interface TimerEntryLike {
+  startTime?: DateLike | null;
+  endTime?: DateLike | null;
+  breaks?: { start: DateLike; end?: DateLike | null }[];
+}
+
+const toMs = (value: DateLike): number => new Date(value).getTime();
+
+/** An entry is running until it has an endTime after its startTime (start === end marks in progress) */
+export function isTimerRunning(entry: TimerEntryLike): boolean {
+  if (!entry.startTime) return false;
+  return !entry.endTime || toMs(entry.endTime) === toMs(entry.startTime);
+}
+
+/** A running timer is paused while its last break is still open */
+export function isTimerPaused(entry: TimerEntryLike): boolean {
+  const last = entry.breaks?.[entry.breaks.length - 1];
+  return isTimerRunning(entry) && !!last && !last.end;
+}
+
+/** Seconds spent on breaks between `from` and `until`; open breaks run to `until` */
+export function breakSeconds(
+  breaks: TimerEntryLike["breaks"] = [],
+  from: DateLike,
+  until: DateLike
+): number {
+  const lower = toMs(from);
+  const upper = toMs(until);
+  let total = 0;
+  for (const segment of breaks) {
+    const start = Math.max(toMs(segment.start), lower);
+    const end = Math.min(segment.end ? toMs(segment.end) : upper, upper);
+    if (end > start) total += end - start;
+  }
+  return total / 1000;
+}
+
+/** Wall-clock seconds from start to `until` (the endTime, or now while running) */
+export function wallClockSeconds(startTime: DateLike, until: DateLike): number {
+  return Math.max(0, Math.round((toMs(until) - toMs(startTime)) / 1000));
+}
+
+/** Active seconds from start to `until`, excluding breaks */
+export function activeSeconds(
+  startTime: DateLike,
+  until: DateLike,
+  breaks: TimerEntryLike["breaks"] = []
+): number {
+  const wall = (toMs(until) - toMs(startTime)) / 1000;
+  return Math.max(0, Math.round(wall - breakSeconds(breaks, startTime, until)));
+}
+
+/** Breaks with a new open segment at `at`, or null if the timer is already paused */
+export function pauseBreaks(breaks: BreakSegment[] = [], at: Date): BreakSegment[] | null {
+  const last = breaks[breaks.length - 1];
+  if (last && !last.end) return null;
+  return [...breaks, { start: at, end: null }];
+}
+
+/** Breaks with the open segment closed at `at`, or null if the timer is not paused */
+export function resumeBreaks(breaks: BreakSegment[] = [], at: Date): BreakSegment[] | null {
+  const last = breaks[breaks.length - 1];
+  if (!last || last.end) return null;
+  return [...breaks.slice(0, -1), { start: last.start, end: at }];
+}
+
+/** Close any open break at `at`, for stopping a paused timer */
+export function closeBreaks(breaks: BreakSegment[] = [], at: Date): BreakSegment[] {
+  return resumeBreaks(breaks, at) ?? breaks;
+}
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import type { TagRate } from "@/types";
+import { escapeCsvField } from "@/lib/csv";
+import { startOfWeekDateStr, toZonedDateStr, type UserTimeSettings } from "@/lib/timezone";
+import type { CompletedTimerEntry } from "./stats";
+
+// Timesheets group completed timer entries into billable rows by week,
+// tracker and tag. Each entry lands in exactly one row: under the first of
+// its tags that has a rate, else its first tag, else no tag.
+
+export const ROUNDING_MODES = ["none", "up", "nearest", "down"] as const;
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+export const RoundingSchema = z.object({
+  mode: z.enum(ROUNDING_MODES),
+  minutes: z.number().int().min(1).max(60),
+});
+
+export type TimesheetRounding = z.infer<typeof RoundingSchema>;
+
+export const DEFAULT_ROUNDING: TimesheetRounding = { mode: "none", minutes: 15 };
+
+export interface BillingRates {
+  /** Hourly rate by tracker id */
+  trackers: Record<string, number | null>;
+  tags: TagRate[];
+}
+
+export interface TimesheetRow {
+  /** Local date the week starts on ("YYYY-MM-DD") */
+  week: string;
+  trackerId: string;
+  trackerName: string;
+  tag: string | null;
+  entries: number;
+  /** Recorded active seconds */
+  seconds: number;
+  /** Seconds after rounding each entry */
+  billedSeconds: number;
+  /** Hourly rate, or null when neither the tag nor the tracker has one */
+  rate: number | null;
+  amount: number;
+}
+
+export interface TimesheetWeek {
+  week: string;
+  rows: TimesheetRow[];
+  seconds: number;
+  billedSeconds: number;
+  amount: number;
+}
+
+export interface Timesheet {
+  weeks: TimesheetWeek[];
+  seconds: number;
+  billedSeconds: number;
+  amount: number;
+}
+
+/** Round a duration to the rounding increment; "none" leaves it as recorded */
+export function roundSeconds(seconds: number, rounding: TimesheetRounding): number {
+  if (rounding.mode === "none") return seconds;
+  const step = rounding.minutes * 60;
+  const apply = { up: Math.ceil, nearest: Math.round, down: Math.floor }[rounding.mode];
+  return apply(seconds / step) * step;
+}
+
+/** The entry's first tag with a rate, else its first tag */
+export function billingTag(tags: string[], tagRates: TagRate[]): string | null {
+  return tags.find((tag) => tagRates.some((r) => r.tag === tag)) ?? tags[0] ?? null;
+}
+
+/** Hourly rate for a row: the tag's rate, falling back to the tracker's */
+export function resolveRate(
+  trackerId: string,
+  tag: string | null,
+  rates: BillingRates
+): number | null {
+  const tagRate = tag === null ? undefined : rates.tags.find((r) => r.tag === tag);
+  return tagRate?.rate ?? rates.trackers[trackerId] ?? null;
+}
+
+/** Round money to cents */
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function buildTimesheet(
+  entries: CompletedTimerEntry[],
+  trackerNames: Record<string, string>,
+  options: UserTimeSettings & { rounding: TimesheetRounding; rates: BillingRates }
+): Timesheet {
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const week = startOfWeekDateStr(
+      toZonedDateStr(entry.date, options.timezone),
+      options.weekStartsOn
+    );
+    const tag = billingTag(entry.tags, options.rates.tags);
+    const key = JSON.stringify([week, entry.trackerId, tag]);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        week,
+        trackerId: entry.trackerId,
+        trackerName: trackerNames[entry.trackerId] ?? "Unknown tracker",
+        tag,
+        entries: 0,
+        seconds: 0,
+        billedSeconds: 0,
+        rate: resolveRate(entry.trackerId, tag, options.rates),
+        amount: 0,
+      };
+      rows.set(key, row);
+    }
+    row.entries++;
+    row.seconds += entry.active;
+    row.billedSeconds += roundSeconds(entry.active, options.rounding);
+  }
+
+  const weeks = new Map<string, TimesheetWeek>();
+  const sorted = [...rows.values()].sort(
+    (a, b) =>
+      a.week.localeCompare(b.week) ||
+      a.trackerName.localeCompare(b.trackerName) ||
+      (a.tag ?? "").localeCompare(b.tag ?? "")
+  );
+  for (const row of sorted) {
+    row.amount = row.rate === null ? 0 : toCents((row.billedSeconds / 3600) * row.rate);
+    let week = weeks.get(row.week);
+    if (!week) {
+      week = { week: row.week, rows: [], seconds: 0, billedSeconds: 0, amount: 0 };
+      weeks.set(row.week, week);
+    }
+    week.rows.push(row);
+    week.seconds += row.seconds;
+    week.billedSeconds += row.billedSeconds;
+    week.amount = toCents(week.amount + row.amount);
+  }
+
+  const result: Timesheet = { weeks: [...weeks.values()], seconds: 0, billedSeconds: 0, amount: 0 };
+  for (const week of result.weeks) {
+    result.seconds += week.seconds;
+    result.billedSeconds += week.billedSeconds;
+    result.amount = toCents(result.amount + week.amount);
+  }
+  return result;
+}
+
+/** Decimal hours to two places, as timesheets usually show them */
+export function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+export function timesheetToCsv(timesheet: Timesheet): string {
+  const lines = [
+    "Week,Tracker,Tag,Entries,Hours,Billed Hours,Rate,Amount",
+    ...timesheet.weeks.flatMap((week) =>
+      week.rows.map((row) =>
+        [
+          row.week,
+          escapeCsvField(row.trackerName),
+          escapeCsvField(row.tag),
+          row.entries,
+          formatHours(row.seconds),
+          formatHours(row.billedSeconds),
+          row.rate ?? "",
+          row.amount.toFixed(2),
+        ].join(",")
+      )
+    ),
+    [
+      "Total",
+      "",
+      "",
+      "",
+      formatHours(timesheet.seconds),
+      formatHours(timesheet.billedSeconds),
+      "",
+      timesheet.amount.toFixed(2),
+    ].join(","),
+  ];
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** A standalone printable HTML document for the timesheet */
+export function timesheetToHtml(timesheet: Timesheet, title: string): string {
+  const cell = (value: string | number, numeric = false) =>
+    `<td${numeric ? ' class="num"' : ""}>${escapeHtml(String(value))}</td>`;
+
+  const body = timesheet.weeks
+    .map((week) => {
+      const rows = week.rows
+        .map(
+          (row) =>
+            `<tr>${cell(row.trackerName)}${cell(row.tag ?? "")}${cell(row.entries, true)}` +
+            `${cell(formatHours(row.seconds), true)}${cell(formatHours(row.billedSeconds), true)}` +
+            `${cell(row.rate ?? "", true)}${cell(row.amount.toFixed(2), true)}</tr>`
+        )
+        .join("\n");
+      return (
+        `<h2>Week of ${escapeHtml(week.week)}</h2>\n<table>\n` +
+        "<thead><tr><th>Tracker</th><th>Tag</th><th>Entries</th><th>Hours</th>" +
+        "<th>Billed Hours</th><th>Rate</th><th>Amount</th></tr></thead>\n" +
+        `<tbody>\n${rows}\n</tbody>\n` +
+        `<tfoot><tr><td colspan="3">Week total</td>${cell(formatHours(week.seconds), true)}` +
+        `${cell(formatHours(week.billedSeconds), true)}<td></td>${cell(week.amount.toFixed(2), true)}` +
+        "</tr></tfoot>\n</table>"
+      );
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.35rem 0.5rem; text-align: left; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+tfoot td { font-weight: 600; }
+@media print { body { margin: 0; } h2 { break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body || "<p>No completed time in this range.</p>"}
+<p><strong>Total:</strong> ${formatHours(timesheet.seconds)} h recorded, ${formatHours(
+    timesheet.billedSeconds
+  )} h billed, ${timesheet.amount.toFixed(2)}</p>
+</body>
+</html>
+`;
+}
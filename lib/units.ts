@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { TrackerType } from "@/types";
+
+// Units for AMOUNT and COUNTER trackers. Physical units convert by fixed
+// factors within a dimension; currencies convert through the user's exchange
+// rates, which are quoted against their base currency.
+
+export const UNIT_DIMENSIONS = ["length", "mass", "volume", "time", "currency"] as const;
+
+export type UnitDimension = (typeof UNIT_DIMENSIONS)[number];
+
+export interface UnitDefinition {
+  code: string;
+  label: string;
+  dimension: UnitDimension;
+  /** Base units (m, kg, L, s) in one of this unit; unused for currencies */
+  factor: number;
+}
+
+export const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "INR",
+  "CAD",
+  "AUD",
+  "CHF",
+  "CNY",
+] as const;
+
+export const UNITS: readonly UnitDefinition[] = [
+  { code: "m", label: "Meters", dimension: "length", factor: 1 },
+  { code: "km", label: "Kilometers", dimension: "length", factor: 1000 },
+  { code: "cm", label: "Centimeters", dimension: "length", factor: 0.01 },
+  { code: "mi", label: "Miles", dimension: "length", factor: 1609.344 },
+  { code: "yd", label: "Yards", dimension: "length", factor: 0.9144 },
+  { code: "ft", label: "Feet", dimension: "length", factor: 0.3048 },
+  { code: "in", label: "Inches", dimension: "length", factor: 0.0254 },
+  { code: "kg", label: "Kilograms", dimension: "mass", factor: 1 },
+  { code: "g", label: "Grams", dimension: "mass", factor: 0.001 },
+  { code: "lb", label: "Pounds", dimension: "mass", factor: 0.45359237 },
+  { code: "oz", label: "Ounces", dimension: "mass", factor: 0.028349523125 },
+  { code: "L", label: "Liters", dimension: "volume", factor: 1 },
+  { code: "mL", label: "Milliliters", dimension: "volume", factor: 0.001 },
+  { code: "gal", label: "Gallons (US)", dimension: "volume", factor: 3.785411784 },
+  { code: "qt", label: "Quarts (US)", dimension: "volume", factor: 0.946352946 },
+  { code: "cup", label: "Cups (US)", dimension: "volume", factor: 0.2365882365 },
+  { code: "floz", label: "Fluid ounces (US)", dimension: "volume", factor: 0.0295735295625 },
+  { code: "s", label: "Seconds", dimension: "time", factor: 1 },
+  { code: "min", label: "Minutes", dimension: "time", factor: 60 },
+  { code: "h", label: "Hours", dimension: "time", factor: 3600 },
+  { code: "d", label: "Days", dimension: "time", factor: 86400 },
+  ...CURRENCY_CODES.map((code) => ({
+    code,
+    label: code,
+    dimension: "currency" as const,
+    factor: 1,
+  })),
+];
+
+const UNITS_BY_CODE = new Map(UNITS.map((unit) => [unit.code, unit]));
+
+/** Exchange rates: how much of each currency one unit of `base` buys */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export const UnitCodeSchema = z
+  .string()
+  .refine((code) => UNITS_BY_CODE.has(code), { message: "Unknown unit" });
+
+export const CurrencyCodeSchema = z.enum(CURRENCY_CODES);
+
+export const ExchangeRatesSchema = z.object({
+  base: CurrencyCodeSchema,
+  rates: z.array(
+    z.object({
+      currency: CurrencyCodeSchema,
+      rate: z.number().positive("Rates must be greater than 0"),
+    })
+  ),
+});
+
+export type ExchangeRatesInput = z.infer<typeof ExchangeRatesSchema>;
+
+/** Stored rate rows as a lookup by currency */
+export function toExchangeRates(input: {
+  base: string;
+  rates: { currency: string; rate: number }[];
+}): ExchangeRates {
+  return {
+    base: input.base,
+    rates: Object.fromEntries(input.rates.map((r) => [r.currency, r.rate])),
+  };
+}
+
+/** Only AMOUNT and COUNTER trackers record values in a unit */
+export function tracksUnits(type: string): boolean {
+  return type === TrackerType.AMOUNT || type === TrackerType.COUNTER;
+}
+
+export function getUnit(code: string | null | undefined): UnitDefinition | null {
+  return (code && UNITS_BY_CODE.get(code)) || null;
+}
+
+export function unitDimension(code: string | null | undefined): UnitDimension | null {
+  return getUnit(code)?.dimension ?? null;
+}
+
+/** Units a value in `code` can be shown in, itself included */
+export function compatibleUnits(code: string | null | undefined): UnitDefinition[] {
+  const dimension = unitDimension(code);
+  return dimension ? UNITS.filter((unit) => unit.dimension === dimension) : [];
+}
+
+/** Units of one currency per unit of the base currency, or null without a rate */
+function currencyRate(code: string, rates: ExchangeRates | null | undefined): number | null {
+  if (!rates) return null;
+  if (code === rates.base) return 1;
+  const rate = rates.rates[code];
+  return rate && rate > 0 ? rate : null;
+}
+
+/**
+ * What to multiply a value in `from` by to express it in `to`. Null when the
+ * units measure different things, or a currency has no exchange rate.
+ */
+export function conversionFactor(
+  from: string,
+  to: string,
+  rates?: ExchangeRates | null
+): number | null {
+  if (from === to) return 1;
+  const source = getUnit(from);
+  const target = getUnit(to);
+  if (!source || !target || source.dimension !== target.dimension) return null;
+
+  if (source.dimension === "currency") {
+    const fromRate = currencyRate(from, rates);
+    const toRate = currencyRate(to, rates);
+    return fromRate && toRate ? toRate / fromRate : null;
+  }
+  return source.factor / target.factor;
+}
+
+/** `value` in `from` expressed in `to`, rounded to 6 decimal places; see conversionFactor */
+export function convertValue(
+  value: number,
+  from: string,
+  to: string,
+  rates?: ExchangeRates | null
+): number | null {
+  const factor = conversionFactor(from, to, rates);
+  if (factor === null) return null;
+  return Math.round(value * factor * 1e6) / 1e6;
+}
+
+/** A value with its unit, e.g. "12.5 km" or "$1,200.00" */
+export function formatUnitValue(value: number, unit: string | null | undefined): string {
+  const definition = getUnit(unit);
+  if (!definition) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  if (definition.dimension === "currency") {
+    return value.toLocaleString(undefined, { style: "currency", currency: definition.code });
+  }
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${definition.code}`;
+}
@@ -0,0 +1,18 @@
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+import { toExchangeRates, type ExchangeRates } from "@/lib/units";
+
+/** The user's exchange rates; pass the transaction client when reading inside one */
+export async function getUserExchangeRates(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<ExchangeRates> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true, exchangeRates: true },
+  });
+  return toExchangeRates({
+    base: user?.baseCurrency ?? "USD",
+    rates: user?.exchangeRates ?? [],
+  });
+}
@@ -0,0 +1,20 @@
+import prisma from "@/lib/db/prisma";
+import { DEFAULT_TIME_SETTINGS, isValidTimeZone, type UserTimeSettings } from "@/lib/timezone";
+
+/**
+ * The user's stored time zone and week start, falling back to UTC/Sunday for
+ * missing or unrecognised values so calendar math never throws.
+ */
+export async function getUserTimeSettings(userId: string): Promise<UserTimeSettings> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, weekStartsOn: true },
+  });
+  return {
+    timezone:
+      user?.timezone && isValidTimeZone(user.timezone)
+        ? user.timezone
+        : DEFAULT_TIME_SETTINGS.timezone,
+    weekStartsOn: user?.weekStartsOn === 1 ? 1 : 0,
+  };
+}
@@ -0,0 +1,20 @@
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+import { toTimerPolicy, type TimerPolicy } from "@/lib/trackers/timer-policy";
+
+/** The user's timer policy; pass the transaction client when reading inside one */
+export async function getUserTimerPolicy(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<TimerPolicy> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      singleActiveTimer: true,
+      timerConflict: true,
+      maxTimerHours: true,
+      timerOverrun: true,
+    },
+  });
+  return toTimerPolicy(user ?? {});
+}
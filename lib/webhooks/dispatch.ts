@@ -0,0 +1,307 @@
+import { randomUUID } from "crypto";
+import { after } from "next/server";
+import prisma from "@/lib/db/prisma";
+import { getEntryDays } from "@/lib/trackers/stats";
+import { POMODORO_GOAL_UNIT } from "@/lib/trackers/pomodoro";
+import { evaluateTrackerGoals, type GoalWithProgress } from "@/lib/trackers/goal-progress";
+import { streakEndingOn } from "@/lib/trackers/goals";
+import { toZonedDateStr, zonedDayRange } from "@/lib/timezone";
+import { getUserTimeSettings } from "@/lib/users/time-settings";
+import { SIGNATURE_HEADER, signWebhookPayload } from "./signature";
+import { TrackerType, WebhookDeliveryStatus, WebhookEvent } from "@/types";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DELIVERY_RETENTION_DAYS = 30;
+/** A PENDING delivery this far past its next attempt was left by a server that stopped */
+const ORPHANED_AFTER_MS = 60_000;
+
+/** Entry fields included in webhook payloads */
+export interface WebhookEntrySnapshot {
+  id: string;
+  trackerId: string;
+  date: Date;
+  value: number | null;
+  startTime: Date | null;
+  endTime: Date | null;
+  note: string | null;
+  tags: string[];
+  pomodoro?: boolean;
+}
+
+export type EntryWebhookEvent = Exclude<WebhookEvent, "goal.reached">;
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+}
+
+/** Wait before retry `attempt` (1-based): 1s, 5s, 25s, 125s */
+export function retryDelayMs(attempt: number): number {
+  return 1000 * 5 ** (attempt - 1);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Run a task after the response has been sent. Outside a request (scripts,
+ * tests) it simply runs detached.
+ */
+function runInBackground(task: () => Promise<void>) {
+  const guarded = () =>
+    task().catch((error) => console.error("Error dispatching webhooks:", error));
+  try {
+    after(guarded);
+  } catch {
+    void guarded();
+  }
+}
+
+/**
+ * Notify the tracker owner's webhooks about an entry change. Returns
+ * immediately; delivery and retries happen after the response. Creating an
+ * entry or stopping a timer also fires `goal.reached` for each target goal
+ * it pushes over in its current (calendar or rolling) period, and for
+ * streak goals it completes.
+ */
+export function emitEntryEvent(event: EntryWebhookEvent, entry: WebhookEntrySnapshot) {
+  runInBackground(async () => {
+    const tracker = await prisma.tracker.findUnique({
+      where: { id: entry.trackerId },
+      select: { id: true, name: true, type: true, userId: true, updatedAt: true },
+    });
+    if (!tracker) return;
+
+    const trackerInfo = { id: tracker.id, name: tracker.name, type: tracker.type };
+    await dispatchWebhookEvent(tracker.userId, event, {
+      tracker: trackerInfo,
+      entry: {
+        id: entry.id,
+        date: entry.date.toISOString(),
+        value: entry.value,
+        startTime: entry.startTime?.toISOString() ?? null,
+        endTime: entry.endTime?.toISOString() ?? null,
+        note: entry.note,
+        tags: entry.tags,
+      },
+    });
+
+    if (event !== WebhookEvent.ENTRY_CREATED && event !== WebhookEvent.TIMER_STOPPED) return;
+
+    const settings = await getUserTimeSettings(tracker.userId);
+    const goals = (await evaluateTrackerGoals(tracker, settings)).filter(
+      (goal) => goal.kind === "min" || goal.kind === "streak"
+    );
+    if (goals.length === 0) return;
+
+    const day = toZonedDateStr(entry.date, settings.timezone);
+    const reached = async (goal: GoalWithProgress, total: number) =>
+      dispatchWebhookEvent(tracker.userId, WebhookEvent.GOAL_REACHED, {
+        tracker: trackerInfo,
+        goal: {
+          id: goal.id,
+          kind: goal.kind,
+          value: goal.value,
+          period: goal.period,
+          alignment: goal.alignment,
+          unit: goal.unit,
+          total,
+        },
+      });
+
+    for (const goal of goals) {
+      if (goal.kind === "streak") {
+        // A streak is reached by the first entry on the day that completes it
+        const days = new Set(await getEntryDays(tracker.id, settings.timezone));
+        if (streakEndingOn(days, day) !== goal.value) continue;
+        const range = zonedDayRange(day, day, settings.timezone);
+        const sameDay = await prisma.trackerEntry.count({
+          where: { trackerId: tracker.id, date: { gte: range.start, lte: range.end } },
+        });
+        if (sameDay === 1) await reached(goal, goal.value);
+        continue;
+      }
+
+      const { total, periodStart } = goal.progress;
+      if (day < periodStart) continue;
+
+      // Pomodoro goals count completed work intervals rather than time
+      const contribution =
+        tracker.type === TrackerType.TIMER && goal.unit === POMODORO_GOAL_UNIT
+          ? Number(!!entry.pomodoro)
+          : tracker.type === TrackerType.OCCURRENCE || tracker.type === TrackerType.CUSTOM
+            ? 1
+            : (entry.value ?? 0);
+
+      // Only the entry that crosses the target fires, not every one after it
+      if (total >= goal.value && total - contribution < goal.value) {
+        await reached(goal, total);
+      }
+    }
+  });
+}
+
+/**
+ * Send an event to every active webhook of the user subscribed to it and
+ * wait for all deliveries (including retries) to finish. Orphaned deliveries
+ * of the user's are resumed alongside.
+ */
+export async function dispatchWebhookEvent(userId: string, event: WebhookEvent, data: unknown) {
+  const webhooks = await prisma.webhook.findMany({
+    where: { userId, active: true, events: { has: event } },
+    select: { id: true, url: true, secret: true },
+  });
+  if (webhooks.length === 0) return;
+
+  const payload = JSON.stringify({
+    id: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  });
+
+  await Promise.all([
+    ...webhooks.map((webhook) => deliverWebhook(webhook, event, payload)),
+    resumeOrphanedDeliveries(userId),
+  ]);
+}
+
+/**
+ * Record a delivery in the log and POST the signed payload, retrying network
+ * errors, timeouts and 5xx/408/429 responses with exponential backoff. The
+ * time of the next attempt is stored, so retries a stopped server never made
+ * are resumed by resumeOrphanedDeliveries.
+ */
+export async function deliverWebhook(webhook: WebhookTarget, event: string, payload: string) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: { webhookId: webhook.id, event, payload, nextAttemptAt: new Date() },
+    select: { id: true },
+  });
+
+  await prisma.webhookDelivery.deleteMany({
+    where: {
+      webhookId: webhook.id,
+      createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  await sendDelivery(webhook, delivery.id, event, payload, 1);
+}
+
+/**
+ * Continue the user's PENDING deliveries whose next attempt is long overdue:
+ * the server waiting to retry them stopped (a restart, deploy or function
+ * timeout). Each is claimed first so concurrent sweeps don't send it twice.
+ */
+export async function resumeOrphanedDeliveries(userId: string) {
+  const orphaned = await prisma.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lt: new Date(Date.now() - ORPHANED_AFTER_MS) },
+      webhook: { userId, active: true },
+    },
+    select: {
+      id: true,
+      event: true,
+      payload: true,
+      attempts: true,
+      nextAttemptAt: true,
+      webhook: { select: { id: true, url: true, secret: true } },
+    },
+  });
+
+  await Promise.all(
+    orphaned.map(async (delivery) => {
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: delivery.nextAttemptAt,
+        },
+        data: { nextAttemptAt: new Date() },
+      });
+      if (claimed.count === 0) return;
+      await sendDelivery(
+        delivery.webhook,
+        delivery.id,
+        delivery.event,
+        delivery.payload,
+        delivery.attempts + 1
+      );
+    })
+  );
+}
+
+/** Make attempts from `firstAttempt` on, recording each on the delivery */
+async function sendDelivery(
+  webhook: WebhookTarget,
+  deliveryId: string,
+  event: string,
+  payload: string,
+  firstAttempt: number
+) {
+  for (let attempt = firstAttempt; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "HTasker-Webhooks/1.0",
+          "X-HTasker-Event": event,
+          "X-HTasker-Delivery": deliveryId,
+          [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, payload, timestamp),
+        },
+        body: payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        redirect: "manual",
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Request failed";
+    }
+
+    const succeeded = error === null;
+    const retry =
+      !succeeded &&
+      attempt < MAX_DELIVERY_ATTEMPTS &&
+      (responseStatus === null || isRetryableStatus(responseStatus));
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts: attempt,
+        nextAttemptAt: retry ? new Date(Date.now() + retryDelayMs(attempt)) : null,
+        responseStatus,
+        error,
+        status: succeeded
+          ? WebhookDeliveryStatus.SUCCEEDED
+          : retry
+            ? WebhookDeliveryStatus.PENDING
+            : WebhookDeliveryStatus.FAILED,
+        ...(succeeded && { deliveredAt: new Date() }),
+      },
+    });
+
+    if (!retry) return;
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs(attempt)));
+  }
+}
+
+/** Re-send a logged payload as a new delivery, in the background */
+export function redeliverWebhook(webhook: WebhookTarget, event: string, payload: string) {
+  runInBackground(() => deliverWebhook(webhook, event, payload));
+}
+
+/** resumeOrphanedDeliveries, in the background */
+export function resumeWebhookDeliveries(userId: string) {
+  runInBackground(() => resumeOrphanedDeliveries(userId));
+}
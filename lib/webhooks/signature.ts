@@ -0,0 +1,41 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256>` */
+export const SIGNATURE_HEADER = "X-HTasker-Signature";
+
+/** Generate a signing secret, shown to the user once when the webhook is created */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Sign `<timestamp>.<body>` with the webhook secret. Including the timestamp
+ * lets receivers reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the body, for receivers written in
+ * TypeScript and for tests. Rejects signatures older than `toleranceSeconds`.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp));
+  const actual = Buffer.from(`t=${timestamp},v1=${parts.v1}`);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   /* config options here */
   output: "standalone",
   allowedDevOrigins: ["*.mcode.local.terabits.io", "*.code.local.terabits.io"],
+  experimental: {
+    // Backup archives are restored through a server action
+    serverActions: { bodySizeLimit: "25mb" },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,61 @@
+import { PrismaClient } from "../app/generated/prisma";
+import type { Prisma } from "../app/generated/prisma";
+import { checkTrackerStatistics } from "../lib/trackers/statistics";
+
+// Recompute cached tracker statistics from entries.
+//
+//   npm run stats:rebuild -- [--dry-run] [--user <id or email>] [--tracker <id>]
+//
+// Without --user or --tracker every tracker in the database is checked.
+
+const prisma = new PrismaClient();
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const user = argValue("--user");
+  const trackerId = argValue("--tracker");
+
+  const where: Prisma.TrackerWhereInput = {};
+  if (trackerId) where.id = trackerId;
+  if (user) {
+    const found = await prisma.user.findFirst({
+      where: user.includes("@") ? { email: user } : { id: user },
+      select: { id: true },
+    });
+    if (!found) {
+      throw new Error(`User not found: ${user}`);
+    }
+    where.userId = found.id;
+  }
+
+  console.log(`Checking tracker statistics${dryRun ? " (dry run)" : ""}...`);
+  const result = await checkTrackerStatistics(prisma, where, { dryRun });
+
+  for (const { trackerId: id, name, stored, actual } of result.discrepancies) {
+    console.log(`- ${name} (${id})`);
+    console.log(
+      `    entries ${stored.totalEntries} -> ${actual.totalEntries}, ` +
+        `time ${stored.totalTime} -> ${actual.totalTime}, ` +
+        `value ${stored.totalValue} -> ${actual.totalValue}`
+    );
+  }
+
+  const action = result.repaired ? "repaired" : "found";
+  console.log(
+    `Checked ${result.checked} trackers, ${action} ${result.discrepancies.length} with wrong statistics`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("Error rebuilding statistics:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
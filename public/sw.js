@@ -1,3 +1,5 @@
+// Rendered pages; they hold the user's data, so lib/offline/queryCache.ts
+// deletes this cache on logout
 const CACHE_NAME = 'htasker-v1';
 const STATIC_CACHE = 'htasker-static-v1';
 
@@ -77,3 +79,104 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 });
+
+// Offline write queue: the page stores queued operations in IndexedDB and
+// registers a Background Sync, so they are sent even if the app was closed.
+// Keep these in step with lib/offline/operations.ts.
+const OFFLINE_DB_NAME = 'htasker-offline';
+const OFFLINE_DB_VERSION = 2;
+const OFFLINE_STORE = 'operations';
+const OFFLINE_QUERY_STORE = 'queries';
+const OFFLINE_SYNC_TAG = 'htasker-offline-sync';
+const OFFLINE_SYNC_ENDPOINT = '/api/offline/sync';
+const MAX_RETRIES = 3;
+const OFFLINE_SYNC_BATCH_SIZE = 100;
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const names = request.result.objectStoreNames;
+    if (!names.contains(OFFLINE_STORE)) {
+      request.result.createObjectStore(OFFLINE_STORE, { keyPath: 'id' });
+    }
+    if (!names.contains(OFFLINE_QUERY_STORE)) {
+      request.result.createObjectStore(OFFLINE_QUERY_STORE);
+    }
+  };
+  return requestToPromise(request).then((db) => {
+    // Don't block a newer version of the page from upgrading the database
+    db.onversionchange = () => db.close();
+    return db;
+  });
+}
+
+async function replayBatch(db, batch) {
+  const response = await fetch(OFFLINE_SYNC_ENDPOINT, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      operations: batch.map(({ id, action, args, clientTimestamp }) => ({
+        id,
+        action,
+        args,
+        clientTimestamp,
+      })),
+    }),
+  });
+  // Throwing makes the browser retry the sync later; earlier batches are kept
+  if (!response.ok) throw new Error(`Offline sync failed with status ${response.status}`);
+  const { results } = await response.json();
+
+  const byId = new Map(results.map((result) => [result.id, result]));
+  const tx = db.transaction(OFFLINE_STORE, 'readwrite');
+  const store = tx.objectStore(OFFLINE_STORE);
+  for (const op of batch) {
+    const result = byId.get(op.id);
+    if (result && result.status === 'synced') {
+      store.delete(op.id);
+    } else if (result && result.status === 'rejected') {
+      store.put({ ...op, permanentlyFailed: true, error: result.error });
+    } else if (!result || result.error) {
+      const retryCount = op.retryCount + 1;
+      store.put({ ...op, retryCount, permanentlyFailed: retryCount >= MAX_RETRIES });
+    }
+  }
+  await new Promise((resolve, reject) => {
+    tx.oncomplete = resolve;
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function replayOfflineQueue() {
+  const db = await openOfflineDb();
+  const stored = await requestToPromise(
+    db.transaction(OFFLINE_STORE, 'readonly').objectStore(OFFLINE_STORE).getAll()
+  );
+  const pending = stored
+    .filter((op) => !op.permanentlyFailed)
+    .sort((a, b) => a.clientTimestamp.localeCompare(b.clientTimestamp));
+  if (pending.length === 0) return;
+
+  // The server applies at most OFFLINE_SYNC_BATCH_SIZE per request
+  for (let start = 0; start < pending.length; start += OFFLINE_SYNC_BATCH_SIZE) {
+    await replayBatch(db, pending.slice(start, start + OFFLINE_SYNC_BATCH_SIZE));
+  }
+
+  // Open pages reload the queue and refetch what changed
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'offline-queue-synced' }));
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OFFLINE_SYNC_TAG) {
+    event.waitUntil(replayOfflineQueue());
+  }
+});
@@ -1,4 +1,11 @@
-export const TRACKER_TYPE_VALUES = ["TIMER", "COUNTER", "AMOUNT", "OCCURRENCE", "CUSTOM"] as const;
+export const TRACKER_TYPE_VALUES = [
+  "TIMER",
+  "COUNTER",
+  "AMOUNT",
+  "OCCURRENCE",
+  "CUSTOM",
+  "DERIVED",
+] as const;
 
 export type TrackerType = (typeof TRACKER_TYPE_VALUES)[number];
 
@@ -8,6 +15,7 @@ export const TrackerType = {
   AMOUNT: TRACKER_TYPE_VALUES[2],
   OCCURRENCE: TRACKER_TYPE_VALUES[3],
   CUSTOM: TRACKER_TYPE_VALUES[4],
+  DERIVED: TRACKER_TYPE_VALUES[5],
 } as const;
 
 export const TRACKER_STATUS_VALUES = ["ACTIVE", "INACTIVE", "ARCHIVED"] as const;
@@ -20,6 +28,91 @@ export const TrackerStatus = {
   ARCHIVED: TRACKER_STATUS_VALUES[2],
 } as const;
 
+export const BOARD_ROLE_VALUES = ["OWNER", "EDITOR", "VIEWER"] as const;
+
+export type BoardRole = (typeof BOARD_ROLE_VALUES)[number];
+
+export const BoardRole = {
+  OWNER: BOARD_ROLE_VALUES[0],
+  EDITOR: BOARD_ROLE_VALUES[1],
+  VIEWER: BOARD_ROLE_VALUES[2],
+} as const;
+
+export const TRACKER_SHARE_ROLE_VALUES = ["VIEWER", "CONTRIBUTOR"] as const;
+
+export type TrackerShareRole = (typeof TRACKER_SHARE_ROLE_VALUES)[number];
+
+export const TrackerShareRole = {
+  VIEWER: TRACKER_SHARE_ROLE_VALUES[0],
+  CONTRIBUTOR: TRACKER_SHARE_ROLE_VALUES[1],
+} as const;
+
+export const API_TOKEN_SCOPE_VALUES = [
+  "trackers:read",
+  "trackers:write",
+  "entries:read",
+  "entries:write",
+  "boards:read",
+  "boards:write",
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPE_VALUES)[number];
+
+/** Resources an API token scope applies to; `<resource>:*` grants read and write */
+export const API_TOKEN_RESOURCES = ["trackers", "entries", "boards"] as const;
+
+export type ApiTokenResource = (typeof API_TOKEN_RESOURCES)[number];
+
+export const WEBHOOK_EVENT_VALUES = [
+  "entry.created",
+  "entry.updated",
+  "entry.deleted",
+  "timer.started",
+  "timer.stopped",
+  "goal.reached",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENT_VALUES)[number];
+
+export const WebhookEvent = {
+  ENTRY_CREATED: WEBHOOK_EVENT_VALUES[0],
+  ENTRY_UPDATED: WEBHOOK_EVENT_VALUES[1],
+  ENTRY_DELETED: WEBHOOK_EVENT_VALUES[2],
+  TIMER_STARTED: WEBHOOK_EVENT_VALUES[3],
+  TIMER_STOPPED: WEBHOOK_EVENT_VALUES[4],
+  GOAL_REACHED: WEBHOOK_EVENT_VALUES[5],
+} as const;
+
+export const WEBHOOK_DELIVERY_STATUS_VALUES = ["PENDING", "SUCCEEDED", "FAILED"] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUS_VALUES)[number];
+
+export const WebhookDeliveryStatus = {
+  PENDING: WEBHOOK_DELIVERY_STATUS_VALUES[0],
+  SUCCEEDED: WEBHOOK_DELIVERY_STATUS_VALUES[1],
+  FAILED: WEBHOOK_DELIVERY_STATUS_VALUES[2],
+} as const;
+
+export const CUSTOM_FIELD_TYPE_VALUES = [
+  "number",
+  "text",
+  "select",
+  "boolean",
+  "rating",
+  "duration",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPE_VALUES)[number];
+
+export const CustomFieldType = {
+  NUMBER: CUSTOM_FIELD_TYPE_VALUES[0],
+  TEXT: CUSTOM_FIELD_TYPE_VALUES[1],
+  SELECT: CUSTOM_FIELD_TYPE_VALUES[2],
+  BOOLEAN: CUSTOM_FIELD_TYPE_VALUES[3],
+  RATING: CUSTOM_FIELD_TYPE_VALUES[4],
+  DURATION: CUSTOM_FIELD_TYPE_VALUES[5],
+} as const;
+
 // User Interface
 export interface User {
   id: string;
@@ -27,6 +120,15 @@ export interface User {
   email: string;
   emailVerified?: Date | null;
   image?: string | null;
+  timezone?: string;
+  weekStartsOn?: number;
+  singleActiveTimer?: boolean;
+  timerConflict?: string;
+  maxTimerHours?: number | null;
+  timerOverrun?: string;
+  tagRates?: TagRate[]; // Hourly billing rates by entry tag
+  baseCurrency?: string; // Currency exchangeRates are quoted against
+  exchangeRates?: CurrencyRate[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,12 +148,110 @@ export interface Tracker {
   goalValue?: number | null;
   goalPeriod?: string | null;
   goalUnit?: string | null;
+  fields?: CustomField[]; // Entry form schema, CUSTOM trackers only
+  pomodoro?: PomodoroConfig | null; // Focus-session timing, TIMER trackers only
+  schedule?: HabitSchedule | null; // Check-in schedule, OCCURRENCE trackers only
+  hourlyRate?: number | null; // Billing rate for timesheets, TIMER trackers only
+  unit?: string | null; // Unit code values are stored in, AMOUNT and COUNTER trackers only
+  formula?: DerivedFormula | null; // DERIVED trackers only
+  goals?: GoalSummary[]; // Included by tracker queries; history comes from getTrackerGoals
   createdAt: Date;
   updatedAt: Date;
   userId: string;
   statistics?: TrackerStatistics | null; // Optional statistics
+  accessRole?: "OWNER" | TrackerShareRole; // Current user's access when fetched individually
+  sharedBy?: Pick<User, "id" | "name" | "email" | "image"> | null; // Owner, for shared trackers
 }
 
+export interface TrackerShare {
+  id: string;
+  trackerId: string;
+  userId: string;
+  role: TrackerShareRole;
+  user: Pick<User, "id" | "name" | "email" | "image">;
+  createdAt: Date;
+}
+
+// Pomodoro timing for a TIMER tracker; a long break follows every `cycles` work intervals
+export interface PomodoroConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+}
+
+// A DERIVED tracker's formula; each input binds a name in the expression to a tracker
+export interface DerivedFormula {
+  expression: string;
+  inputs: { name: string; trackerId: string }[];
+}
+
+// When a habit (OCCURRENCE tracker with a schedule) is due
+export interface HabitSchedule {
+  kind: string; // HabitScheduleKind: weekdays | weekly | interval
+  weekdays: number[]; // 0 = Sunday
+  timesPerWeek?: number | null;
+  everyDays?: number | null;
+  anchor?: string | null; // Local date an interval counts from ("YYYY-MM-DD")
+}
+
+// A day a habit is excused from
+export interface HabitSkip {
+  id: string;
+  trackerId: string;
+  date: string; // Local date ("YYYY-MM-DD")
+  reason?: string | null;
+  createdAt: Date;
+}
+
+// Target on a tracker: min/max `value` per period, or a streak of `value` days
+export interface Goal {
+  id: string;
+  trackerId: string;
+  kind: string; // GoalKind
+  value: number;
+  period: string; // GoalPeriod
+  alignment: string; // GoalAlignment: calendar periods or rolling windows ending today
+  unit?: string | null;
+  history: GoalResult[]; // Closed calendar periods, oldest first
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type GoalSummary = Pick<Goal, "id" | "kind" | "value" | "period" | "alignment" | "unit">;
+
+// Outcome of one closed goal period
+export interface GoalResult {
+  periodStart: string; // Local date the period began ("YYYY-MM-DD")
+  total: number;
+  met: boolean;
+}
+
+// Hourly billing rate for time entries tagged `tag`; takes precedence over the tracker's rate
+export interface TagRate {
+  tag: string;
+  rate: number;
+}
+
+// Units of `currency` one unit of the user's base currency buys
+export interface CurrencyRate {
+  currency: string;
+  rate: number;
+}
+
+// Field in a CUSTOM tracker's entry form
+export interface CustomField {
+  key: string; // Stable identifier entry values are stored under
+  label: string;
+  type: string; // CustomFieldType; unknown types are skipped when rendering
+  options: string[]; // Choices for select fields
+  unit?: string | null;
+  required: boolean;
+}
+
+/** Values of a CUSTOM tracker entry keyed by CustomField.key; durations are seconds */
+export type CustomFieldValues = Record<string, number | string | boolean>;
+
 // TrackerStatistics Interface
 export interface TrackerStatistics {
   totalEntries: number;
@@ -60,6 +260,12 @@ export interface TrackerStatistics {
   totalCustom?: string | null; // For CUSTOM and OCCURRENCE type
 }
 
+// A pause inside a timer entry; end is null while paused
+export interface BreakSegment {
+  start: Date;
+  end?: Date | null;
+}
+
 // TrackerEntry Interface
 export interface TrackerEntry {
   id: string;
@@ -67,9 +273,18 @@ export interface TrackerEntry {
   startTime?: Date | null;
   endTime?: Date | null;
   value?: number | null;
+  enteredValue?: number | null; // As logged, when value was converted to the tracker's unit
+  enteredUnit?: string | null;
   date: Date;
   note?: string | null;
   tags: string[];
+  fields?: unknown; // CustomFieldValues as stored JSON; read with readCustomFieldValues()
+  breaks?: BreakSegment[]; // TIMER only; value excludes these
+  pomodoro?: boolean; // A completed Pomodoro work interval
+  overrun?: boolean; // TIMER only; ran past the user's max timer length
+  taskId?: string | null;
+  createdById?: string | null;
+  createdBy?: Pick<User, "id" | "name" | "email"> | null; // Set when someone other than the owner logged it
   createdAt: Date;
 }
 
@@ -83,6 +298,34 @@ export function isTrackerStatus(value: unknown): value is TrackerStatus {
   return TRACKER_STATUS_VALUES.includes(value as TrackerStatus);
 }
 
+// Type guard for BoardRole
+export function isBoardRole(value: unknown): value is BoardRole {
+  return BOARD_ROLE_VALUES.includes(value as BoardRole);
+}
+
+// Type guard for TrackerShareRole
+export function isTrackerShareRole(value: unknown): value is TrackerShareRole {
+  return TRACKER_SHARE_ROLE_VALUES.includes(value as TrackerShareRole);
+}
+
+// Type guard for stored API token scopes, including `<resource>:*` and `*` wildcards
+export function isApiTokenScopeGrant(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  if (value === "*" || API_TOKEN_SCOPE_VALUES.includes(value as ApiTokenScope)) return true;
+  const [resource, action] = value.split(":");
+  return action === "*" && API_TOKEN_RESOURCES.includes(resource as ApiTokenResource);
+}
+
+// Type guard for CustomFieldType
+export function isCustomFieldType(value: unknown): value is CustomFieldType {
+  return CUSTOM_FIELD_TYPE_VALUES.includes(value as CustomFieldType);
+}
+
+// Type guard for WebhookEvent
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENT_VALUES.includes(value as WebhookEvent);
+}
+
 // Form-related types
 export type TrackerFormValues = {
   name: string;
@@ -101,10 +344,21 @@ export interface Board {
   description?: string | null;
   userId: string;
   columns: BoardColumn[];
+  role?: BoardRole; // Current user's role on this board
+  owner?: Pick<User, "id" | "name" | "email" | "image">;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface BoardMember {
+  id: string;
+  boardId: string;
+  userId: string;
+  role: BoardRole;
+  user: Pick<User, "id" | "name" | "email" | "image">;
+  createdAt: Date;
+}
+
 export interface BoardColumn {
   id: string;
   name: string;
@@ -121,10 +375,12 @@ export interface BoardTask {
   startDate?: Date | null;
   dueDate?: Date | null;
   priority?: string | null;
+  recurrence?: string | null;
   columnId: string;
   boardId: string;
   assigneeId?: string | null;
   assignee?: Pick<User, "id" | "name" | "email" | "image"> | null;
+  trackedSeconds?: number; // Sum of completed timer entries linked to this task
   createdAt: Date;
   updatedAt: Date;
 }